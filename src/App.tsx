@@ -8,15 +8,21 @@ import { AuthProvider } from "@/contexts/AuthContext";
 import { ProfileProvider } from "@/contexts/ProfileContext";
 import { BookAnimationProvider } from "@/contexts/BookAnimationContext";
 import { BooksProvider } from "@/contexts/BooksContext";
+import { BookImportProvider } from "@/contexts/BookImportContext";
 import { ShelfSettingsProvider } from "@/contexts/ShelfSettingsContext";
+import { ShelvesProvider } from "@/contexts/ShelvesContext";
 import { ProfileSetupWrapper } from "@/components/ProfileSetupWrapper";
 import Index from "./pages/Index";
 import PublicShelf from "./pages/PublicShelf";
 import ClubPage from "./pages/ClubPage";
 import JoinClubPage from "./pages/JoinClubPage";
 import ProfilePage from "./pages/ProfilePage";
+import StatsPage from "./pages/StatsPage";
+import ActivityPage from "./pages/ActivityPage";
+import PublicStatsPage from "./pages/PublicStatsPage";
 import AdminPage from "./pages/AdminPage";
 import ResetPassword from "./pages/ResetPassword";
+import UnsubscribePage from "./pages/UnsubscribePage";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient(); // HMR cache clear v4
@@ -28,26 +34,35 @@ const App = () => (
         <ProfileProvider>
           <BookAnimationProvider>
             <BooksProvider>
-              <ShelfSettingsProvider>
-                <TooltipProvider>
-                  <Toaster />
-                  <Sonner />
-                  <ProfileSetupWrapper />
-                  <BrowserRouter>
-                    <Routes>
-                      <Route path="/" element={<Index />} />
-                      <Route path="/shelf/:shareId" element={<PublicShelf />} />
-                      <Route path="/clubs/:clubId" element={<ClubPage />} />
-                      <Route path="/clubs/join/:inviteCode" element={<JoinClubPage />} />
-                      <Route path="/u/:username" element={<ProfilePage />} />
-                      <Route path="/admin" element={<AdminPage />} />
-                      <Route path="/reset-password" element={<ResetPassword />} />
-                      {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-                      <Route path="*" element={<NotFound />} />
-                    </Routes>
-                  </BrowserRouter>
-                </TooltipProvider>
-              </ShelfSettingsProvider>
+              <BookImportProvider>
+                <ShelfSettingsProvider>
+                  <ShelvesProvider>
+                    <TooltipProvider>
+                      <Toaster />
+                      <Sonner />
+                      <ProfileSetupWrapper />
+                      <BrowserRouter>
+                        <Routes>
+                          <Route path="/" element={<Index />} />
+                          <Route path="/shelf/:shareId" element={<PublicShelf />} />
+                          <Route path="/shelf/:shareId/stats" element={<PublicStatsPage />} />
+                          <Route path="/shelf/:shareId/:shelfId" element={<PublicShelf />} />
+                          <Route path="/clubs/:clubId" element={<ClubPage />} />
+                          <Route path="/clubs/join/:inviteCode" element={<JoinClubPage />} />
+                          <Route path="/u/:username" element={<ProfilePage />} />
+                          <Route path="/stats" element={<StatsPage />} />
+                          <Route path="/activity" element={<ActivityPage />} />
+                          <Route path="/admin" element={<AdminPage />} />
+                          <Route path="/reset-password" element={<ResetPassword />} />
+                          <Route path="/unsubscribe" element={<UnsubscribePage />} />
+                          {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+                          <Route path="*" element={<NotFound />} />
+                        </Routes>
+                      </BrowserRouter>
+                    </TooltipProvider>
+                  </ShelvesProvider>
+                </ShelfSettingsProvider>
+              </BookImportProvider>
             </BooksProvider>
           </BookAnimationProvider>
         </ProfileProvider>
@@ -2,6 +2,9 @@ import { useState } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/hooks/use-toast';
+import { useLibraryExport } from '@/hooks/useLibraryExport';
+import { NotificationPreferences } from '@/components/NotificationPreferences';
+import { BlockedUsersSettings } from '@/components/BlockedUsersSettings';
 import {
   Dialog,
   DialogContent,
@@ -22,7 +25,7 @@ import {
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { Trash2, BookX, AlertTriangle, Loader2 } from 'lucide-react';
+import { Trash2, BookX, AlertTriangle, Loader2, Download, FileJson } from 'lucide-react';
 
 interface AccountSettingsDialogProps {
   open: boolean;
@@ -32,6 +35,7 @@ interface AccountSettingsDialogProps {
 export function AccountSettingsDialog({ open, onOpenChange }: AccountSettingsDialogProps) {
   const { user, signOut } = useAuth();
   const { toast } = useToast();
+  const { exporting, exportGoodreadsCsv, exportJson } = useLibraryExport();
   
   const [clearShelfOpen, setClearShelfOpen] = useState(false);
   const [deleteAccountOpen, setDeleteAccountOpen] = useState(false);
@@ -115,15 +119,49 @@ export function AccountSettingsDialog({ open, onOpenChange }: AccountSettingsDia
   return (
     <>
       <Dialog open={open} onOpenChange={onOpenChange}>
-        <DialogContent className="sm:max-w-md">
+        <DialogContent className="sm:max-w-md max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>Account Settings</DialogTitle>
             <DialogDescription>
-              Manage your account and data
+              Manage your account, notifications and data
             </DialogDescription>
           </DialogHeader>
 
           <div className="space-y-6 py-4">
+            {/* Export Section */}
+            <div className="space-y-2">
+              <h3 className="text-sm font-medium font-sans">Export Library</h3>
+              <p className="text-sm text-muted-foreground font-sans">
+                Download your books as a Goodreads-compatible CSV, or a full backup including notes, likes, comments and club reflections.
+              </p>
+              <div className="grid grid-cols-2 gap-2">
+                <Button
+                  variant="outline"
+                  className="justify-start gap-2"
+                  onClick={exportGoodreadsCsv}
+                  disabled={!!exporting}
+                >
+                  {exporting === 'goodreads-csv' ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+                  Goodreads CSV
+                </Button>
+                <Button
+                  variant="outline"
+                  className="justify-start gap-2"
+                  onClick={exportJson}
+                  disabled={!!exporting}
+                >
+                  {exporting === 'json' ? <Loader2 className="w-4 h-4 animate-spin" /> : <FileJson className="w-4 h-4" />}
+                  Full backup (JSON)
+                </Button>
+              </div>
+            </div>
+
+            {/* Notifications Section */}
+            <NotificationPreferences />
+
+            {/* Blocked & Muted Section */}
+            <BlockedUsersSettings />
+
             {/* Clear Shelf Section */}
             <div className="space-y-2">
               <h3 className="text-sm font-medium font-sans">Clear Shelf</h3>
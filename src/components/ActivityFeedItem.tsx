@@ -0,0 +1,81 @@
+import { Link } from 'react-router-dom';
+import { formatDistanceToNow } from 'date-fns';
+import { BookOpen, BookMarked, CheckCircle, Star, Heart, MessageCircle, Users } from 'lucide-react';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { BookCoverImage } from '@/components/BookCoverImage';
+import { StarRating } from '@/components/StarRating';
+import { cn } from '@/lib/utils';
+import type { ActivityEvent, ActivityEventType } from '@/hooks/useActivityFeed';
+
+const EVENT_META: Record<ActivityEventType, { verb: string; icon: React.ReactNode }> = {
+  added: { verb: 'wants to read', icon: <BookMarked className="w-3 h-3" /> },
+  started: { verb: 'started reading', icon: <BookOpen className="w-3 h-3" /> },
+  finished: { verb: 'finished', icon: <CheckCircle className="w-3 h-3" /> },
+  rated: { verb: 'rated', icon: <Star className="w-3 h-3" /> },
+  liked: { verb: 'liked', icon: <Heart className="w-3 h-3" /> },
+  commented: { verb: 'commented on', icon: <MessageCircle className="w-3 h-3" /> },
+  joined_club: { verb: 'joined the club', icon: <Users className="w-3 h-3" /> },
+};
+
+interface ActivityFeedItemProps {
+  event: ActivityEvent;
+  /** Smaller layout for the shelf panel */
+  compact?: boolean;
+}
+
+export function ActivityFeedItem({ event, compact = false }: ActivityFeedItemProps) {
+  const meta = EVENT_META[event.type];
+  const name = event.username || 'A reader';
+
+  return (
+    <div className={cn('flex items-start gap-3', compact ? 'py-2' : 'py-3')}>
+      <Link to={event.username ? `/u/${event.username}` : '#'} className="relative shrink-0">
+        <Avatar className={compact ? 'w-7 h-7' : 'w-9 h-9'}>
+          <AvatarImage src={event.avatarUrl || undefined} alt={name} />
+          <AvatarFallback className="text-[10px]">{name.slice(0, 2).toUpperCase()}</AvatarFallback>
+        </Avatar>
+        <span className="absolute -bottom-1 -right-1 w-4 h-4 rounded-full bg-background border border-border flex items-center justify-center text-muted-foreground">
+          {meta.icon}
+        </span>
+      </Link>
+
+      <div className="flex-1 min-w-0">
+        <p className={cn('leading-snug', compact ? 'text-xs' : 'text-sm')}>
+          {event.username ? (
+            <Link to={`/u/${event.username}`} className="font-medium hover:underline">
+              {name}
+            </Link>
+          ) : (
+            <span className="font-medium">{name}</span>
+          )}{' '}
+          <span className="text-muted-foreground">{meta.verb}</span>{' '}
+          {event.type === 'joined_club' ? (
+            <span className="font-medium">{event.clubName}</span>
+          ) : (
+            <>
+              {event.bookOwnerUsername && (
+                <span className="text-muted-foreground">{event.bookOwnerUsername}'s </span>
+              )}
+              <span className="font-medium italic">{event.bookTitle}</span>
+            </>
+          )}
+        </p>
+        {event.type === 'rated' && event.rating !== undefined && (
+          <StarRating value={event.rating} className="mt-1" />
+        )}
+        <p className="text-[11px] text-muted-foreground mt-0.5">
+          {formatDistanceToNow(new Date(event.createdAt), { addSuffix: true })}
+        </p>
+      </div>
+
+      {event.bookTitle && (
+        <BookCoverImage
+          coverUrl={event.bookCoverUrl}
+          title={event.bookTitle}
+          author={event.bookAuthor}
+          className={cn('shrink-0 rounded-sm shadow-sm', compact ? 'w-7 h-10' : 'w-10 h-14')}
+        />
+      )}
+    </div>
+  );
+}
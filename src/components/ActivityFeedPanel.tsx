@@ -0,0 +1,38 @@
+import { Link } from 'react-router-dom';
+import { Activity, ChevronRight } from 'lucide-react';
+import { useActivityFeed } from '@/hooks/useActivityFeed';
+import { ActivityFeedItem } from '@/components/ActivityFeedItem';
+import { cn } from '@/lib/utils';
+
+const PANEL_EVENT_COUNT = 3;
+
+interface ActivityFeedPanelProps {
+  className?: string;
+}
+
+/** The latest few things friends did, above the shelf. Hidden until there's something to show. */
+export function ActivityFeedPanel({ className }: ActivityFeedPanelProps) {
+  const { events, isLoading } = useActivityFeed(PANEL_EVENT_COUNT);
+
+  if (isLoading || events.length === 0) return null;
+
+  return (
+    <div className={cn('mb-4 py-2 px-4 rounded-lg border border-border bg-card/60', className)}>
+      <div className="flex items-center justify-between gap-2 pt-1">
+        <p className="flex items-center gap-1.5 text-xs font-medium text-muted-foreground">
+          <Activity className="w-3.5 h-3.5" />
+          Friends' activity
+        </p>
+        <Link to="/activity" className="flex items-center text-xs text-muted-foreground hover:text-foreground transition-colors">
+          See all
+          <ChevronRight className="w-3.5 h-3.5" />
+        </Link>
+      </div>
+      <div className="divide-y divide-border">
+        {events.map((event) => (
+          <ActivityFeedItem key={event.id} event={event} compact />
+        ))}
+      </div>
+    </div>
+  );
+}
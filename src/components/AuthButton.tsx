@@ -3,7 +3,7 @@ import { Button } from '@/components/ui/button';
 import { useAuth } from '@/contexts/AuthContext';
 import { useProfile } from '@/contexts/ProfileContext';
 import { useShelfSettingsContext } from '@/contexts/ShelfSettingsContext';
-import { LogIn, LogOut, User, Settings, Shield, Palette, Users, Plus } from 'lucide-react';
+import { LogIn, LogOut, User, Settings, Shield, Palette, Users, Plus, BarChart3, Activity } from 'lucide-react';
 import {
   Dialog,
   DialogContent,
@@ -460,6 +460,18 @@ export function AuthButton() {
               </Link>
             </DropdownMenuItem>
           )}
+          <DropdownMenuItem asChild className="gap-2 cursor-pointer">
+            <Link to="/stats">
+              <BarChart3 className="w-4 h-4" />
+              Reading stats
+            </Link>
+          </DropdownMenuItem>
+          <DropdownMenuItem asChild className="gap-2 cursor-pointer">
+            <Link to="/activity">
+              <Activity className="w-4 h-4" />
+              Friends' activity
+            </Link>
+          </DropdownMenuItem>
           <DropdownMenuItem onClick={() => setProfileEditOpen(true)} className="gap-2 cursor-pointer">
             <User className="w-4 h-4" />
             Edit profile
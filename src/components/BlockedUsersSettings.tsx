@@ -0,0 +1,52 @@
+import { Link } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { useBlocks, type ListedUser } from '@/hooks/useBlocks';
+
+/** Blocked and muted users, with a way to undo each */
+export function BlockedUsersSettings() {
+  const { blockedUsers, mutedUsers, loadingBlocked, loadingMuted, unblock, unmute } = useBlocks();
+
+  const renderList = (users: ListedUser[], actionLabel: string, onAction: (userId: string) => void) => (
+    <div className="rounded-lg border border-border divide-y divide-border">
+      {users.map((listed) => (
+        <div key={listed.userId} className="flex items-center gap-2.5 px-3 py-2">
+          <Avatar className="w-6 h-6">
+            <AvatarImage src={listed.avatarUrl || undefined} alt={listed.username} />
+            <AvatarFallback className="text-xs">
+              {listed.username?.slice(0, 2).toUpperCase() ?? '?'}
+            </AvatarFallback>
+          </Avatar>
+          {listed.username ? (
+            <Link to={`/u/${listed.username}`} className="flex-1 min-w-0 text-sm font-sans truncate hover:underline">
+              {listed.username}
+            </Link>
+          ) : (
+            <span className="flex-1 text-sm font-sans italic text-muted-foreground">Unknown user</span>
+          )}
+          <Button variant="outline" size="sm" className="h-7 text-xs" onClick={() => onAction(listed.userId)}>
+            {actionLabel}
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+
+  return (
+    <div className="space-y-2">
+      <h3 className="text-sm font-medium font-sans">Blocked & muted</h3>
+      <p className="text-sm text-muted-foreground font-sans">
+        Blocked people can't follow you, comment on your books or send you mystery books. Muted people's
+        comments and notifications are hidden from you.
+      </p>
+      {loadingBlocked || loadingMuted ? null : blockedUsers.length === 0 && mutedUsers.length === 0 ? (
+        <p className="text-xs text-muted-foreground font-sans">You haven't blocked or muted anyone.</p>
+      ) : (
+        <>
+          {blockedUsers.length > 0 && renderList(blockedUsers, 'Unblock', unblock)}
+          {mutedUsers.length > 0 && renderList(mutedUsers, 'Unmute', unmute)}
+        </>
+      )}
+    </div>
+  );
+}
@@ -72,7 +72,6 @@ export function BookActionsDropdown({ onAddBook, existingBooks }: BookActionsDro
       <ImportBooksDialog 
         open={importOpen} 
         onOpenChange={setImportOpen} 
-        onAddBook={onAddBook} 
         existingBooks={existingBooks} 
       />
       <AddBookDialog 
@@ -10,12 +10,15 @@ import { BookInteractions } from '@/components/BookInteractions';
 import { BookNoteDialog } from '@/components/BookNoteDialog';
 import { useAuth } from '@/contexts/AuthContext';
 import { useBookNotes } from '@/hooks/useBookNotes';
+import { useShelvesContext } from '@/contexts/ShelvesContext';
+import { ReadingProgressSection } from '@/components/ReadingProgressSection';
+import { BookReviewSection } from '@/components/BookReviewSection';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { normalizeCoverUrl } from '@/lib/normalizeCoverUrl';
 import { getAmazonBookUrl } from '@/lib/amazonLinks';
-import { format } from 'date-fns';
-import { CalendarCheck, BookMarked, Check, BookOpen, Hash, Tag, CheckCircle, Trash2, StickyNote } from 'lucide-react';
+import { format, differenceInCalendarDays } from 'date-fns';
+import { CalendarCheck, BookMarked, Check, BookOpen, Hash, Tag, CheckCircle, Trash2, StickyNote, Library, CalendarClock, Layers, EyeOff, Eye } from 'lucide-react';
 import { Calendar } from '@/components/ui/calendar';
 import {
   Popover,
@@ -25,12 +28,19 @@ import {
 import { cn } from '@/lib/utils';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { sortCategoriesByRelevance } from '@/lib/categoryPriority';
+import { formatSeriesLabel } from '@/lib/series';
 
 interface BookDetailDialogProps {
   book: Book | null;
   open: boolean;
   onOpenChange: (open: boolean) => void;
   onUpdateCompletedAt?: (id: string, completedAt: string | null) => void;
+  /** Log a reading progress update (page or percent) for a book being read */
+  onLogProgress?: (id: string, entry: { page?: number; percent?: number; note?: string }) => Promise<boolean>;
+  /** Delete a logged progress entry */
+  onDeleteProgress?: (id: string, entryId: string) => Promise<boolean>;
+  /** Save the owner's rating and review; without it the review is shown read-only */
+  onUpdateReview?: (id: string, review: { rating: number | null; review: string | null; hasSpoilers: boolean }) => Promise<boolean>;
   /** For public shelf viewing - callback to add book to user's shelf */
   onAddToShelf?: (book: Book) => void;
   /** Whether the book is already on user's shelf */
@@ -39,6 +49,8 @@ interface BookDetailDialogProps {
   onMove?: (id: string, status: BookStatus) => void;
   /** Remove book from shelf */
   onRemove?: (id: string) => void;
+  /** Hide or show the book on the owner's shared shelf */
+  onSetHidden?: (id: string, hidden: boolean) => void;
 }
 
 const statusOptions: { status: BookStatus; label: string; icon: React.ReactNode }[] = [
@@ -47,7 +59,7 @@ const statusOptions: { status: BookStatus; label: string; icon: React.ReactNode
   { status: 'read', label: 'Read', icon: <CheckCircle className="w-4 h-4" /> },
 ];
 
-export function BookDetailDialog({ book, open, onOpenChange, onUpdateCompletedAt, onAddToShelf, isOnShelf, onMove, onRemove }: BookDetailDialogProps) {
+export function BookDetailDialog({ book, open, onOpenChange, onUpdateCompletedAt, onLogProgress, onDeleteProgress, onUpdateReview, onAddToShelf, isOnShelf, onMove, onRemove, onSetHidden }: BookDetailDialogProps) {
   const { user, setAuthDialogOpen } = useAuth();
   const [datePickerOpen, setDatePickerOpen] = useState(false);
   const [noteDialogOpen, setNoteDialogOpen] = useState(false);
@@ -56,6 +68,9 @@ export function BookDetailDialog({ book, open, onOpenChange, onUpdateCompletedAt
   const bookIds = useMemo(() => (book ? [book.id] : []), [book?.id]);
   const { getNote, saveNote, deleteNote } = useBookNotes(bookIds);
   const existingNote = book ? getNote(book.id) : undefined;
+
+  // Named shelves this book can be placed on
+  const { shelves, addBookToShelf, removeBookFromShelf } = useShelvesContext();
   
   if (!book) return null;
 
@@ -74,6 +89,10 @@ export function BookDetailDialog({ book, open, onOpenChange, onUpdateCompletedAt
   };
 
   const completedDate = book.completedAt ? new Date(book.completedAt) : undefined;
+  const startedDate = book.startedAt ? new Date(book.startedAt) : undefined;
+  const daysToFinish = startedDate && completedDate && completedDate >= startedDate
+    ? differenceInCalendarDays(completedDate, startedDate) + 1
+    : undefined;
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
@@ -111,6 +130,21 @@ export function BookDetailDialog({ book, open, onOpenChange, onUpdateCompletedAt
               {/* Book info */}
               <div className="flex-1 min-w-0 space-y-2">
                 <p className="text-muted-foreground text-sm">{book.author}</p>
+
+                {/* Series */}
+                {book.seriesName && (
+                  <Badge variant="outline" className="gap-1 text-[11px] font-normal">
+                    <Layers className="w-3 h-3" />
+                    {formatSeriesLabel(book.seriesName, book.seriesPosition)}
+                  </Badge>
+                )}
+
+                {onSetHidden && book.isHidden && (
+                  <Badge variant="secondary" className="gap-1 text-[11px] font-normal">
+                    <EyeOff className="w-3 h-3" />
+                    Hidden from shared shelf
+                  </Badge>
+                )}
                 
                 {/* Page count & ISBN */}
                 <div className="flex flex-wrap gap-3 text-xs text-muted-foreground">
@@ -178,6 +212,18 @@ export function BookDetailDialog({ book, open, onOpenChange, onUpdateCompletedAt
                     <span>Finished {format(new Date(book.completedAt), 'MMM d, yyyy')}</span>
                   </div>
                 ) : null}
+
+                {/* Start date, and how long it took once finished */}
+                {startedDate && book.status !== 'want-to-read' && (
+                  <div className="flex items-center gap-1.5 text-xs text-muted-foreground">
+                    <CalendarClock className="w-3.5 h-3.5" />
+                    <span>
+                      Started {format(startedDate, 'MMM d, yyyy')}
+                      {book.status === 'read' && daysToFinish !== undefined &&
+                        ` · read in ${daysToFinish} ${daysToFinish === 1 ? 'day' : 'days'}`}
+                    </span>
+                  </div>
+                )}
                 
                 <a
                   href={amazonUrl}
@@ -239,6 +285,18 @@ export function BookDetailDialog({ book, open, onOpenChange, onUpdateCompletedAt
               </div>
             )}
 
+            {/* Rating & review - editable on your own shelf, read-only for everyone else */}
+            {!isDemoBook && <BookReviewSection book={book} onSave={onUpdateReview} />}
+
+            {/* Reading progress - own books currently being read */}
+            {book.status === 'reading' && !isDemoBook && onLogProgress && (
+              <ReadingProgressSection
+                book={book}
+                onLogProgress={onLogProgress}
+                onDeleteProgress={onDeleteProgress}
+              />
+            )}
+
             {/* Status actions - for managing book shelf status */}
             {onMove && !isDemoBook && (
               <div className="border-t border-border pt-3">
@@ -270,6 +328,18 @@ export function BookDetailDialog({ book, open, onOpenChange, onUpdateCompletedAt
                     <StickyNote className="w-3.5 h-3.5" />
                     Note
                   </Button>
+                  {onSetHidden && (
+                    <Button
+                      size="sm"
+                      variant="secondary"
+                      className="gap-1 h-7 px-2 text-xs"
+                      onClick={() => onSetHidden(book.id, !book.isHidden)}
+                      title={book.isHidden ? 'Show on shared shelf' : 'Hide from shared shelf'}
+                    >
+                      {book.isHidden ? <Eye className="w-3.5 h-3.5" /> : <EyeOff className="w-3.5 h-3.5" />}
+                      {book.isHidden ? 'Show' : 'Hide'}
+                    </Button>
+                  )}
                   {onRemove && (
                     <Button
                       size="sm"
@@ -285,6 +355,32 @@ export function BookDetailDialog({ book, open, onOpenChange, onUpdateCompletedAt
                     </Button>
                   )}
                 </div>
+                {/* Named shelves - toggle membership */}
+                {shelves.length > 0 && (
+                  <div className="flex items-start gap-1.5 mt-3">
+                    <Library className="w-3.5 h-3.5 shrink-0 mt-1 text-muted-foreground" />
+                    <div className="flex flex-wrap gap-1">
+                      {shelves.map((shelf) => {
+                        const isOnNamedShelf = shelf.bookIds.includes(book.id);
+                        return (
+                          <Badge
+                            key={shelf.id}
+                            variant={isOnNamedShelf ? 'default' : 'outline'}
+                            className="text-[10px] px-1.5 py-0 cursor-pointer"
+                            onClick={() =>
+                              isOnNamedShelf
+                                ? removeBookFromShelf(shelf.id, book.id)
+                                : addBookToShelf(shelf.id, book.id)
+                            }
+                          >
+                            {isOnNamedShelf && <Check className="w-2.5 h-2.5 mr-0.5" />}
+                            {shelf.name}
+                          </Badge>
+                        );
+                      })}
+                    </div>
+                  </div>
+                )}
                 <BookNoteDialog
                   open={noteDialogOpen}
                   onOpenChange={setNoteDialogOpen}
@@ -4,6 +4,7 @@ import { Badge } from '@/components/ui/badge';
 import { getAmazonBookUrl } from '@/lib/amazonLinks';
 import { cn } from '@/lib/utils';
 import { sortCategoriesByRelevance } from '@/lib/categoryPriority';
+import { StarRating } from '@/components/StarRating';
 interface BookHoverPreviewProps {
   book: Book;
   amazonUrl?: string;
@@ -54,6 +55,18 @@ export function BookHoverPreview({ book, amazonUrl, onSelect, clubInfo, onMove,
         {book.title}
       </button>
       <p className="text-muted-foreground mt-1 text-xs">{book.author}</p>
+
+      {/* Rating & review snippet - spoiler reviews stay hidden until opened in the detail view */}
+      {(book.rating !== undefined || book.review) && (
+        <div className="mt-1.5 space-y-1">
+          {book.rating !== undefined && <StarRating value={book.rating} />}
+          {book.review && (
+            <p className="text-xs text-muted-foreground italic line-clamp-2">
+              {book.reviewHasSpoilers ? 'Review contains spoilers' : `“${book.review}”`}
+            </p>
+          )}
+        </div>
+      )}
       
       {/* Metadata section */}
       {hasMetadata && (
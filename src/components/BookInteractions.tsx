@@ -1,14 +1,14 @@
 import { useState } from 'react';
 import { Link } from 'react-router-dom';
-import { Heart, MessageCircle, Trash2, Send, Users } from 'lucide-react';
+import { Heart, MessageCircle, Send, Users } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { CommentItem } from '@/components/CommentItem';
 import { useBookInteractions } from '@/hooks/useBookInteractions';
 import { useAuth } from '@/contexts/AuthContext';
 import { cn } from '@/lib/utils';
-import { formatDistanceToNow } from 'date-fns';
 
 interface BookInteractionsProps {
   bookId: string;
@@ -17,9 +17,22 @@ interface BookInteractionsProps {
 
 export function BookInteractions({ bookId, bookTitle }: BookInteractionsProps) {
   const { user } = useAuth();
-  const { likes, likeCount, hasLiked, toggleLike, comments, addComment, deleteComment, loading } =
-    useBookInteractions(bookId);
+  const {
+    likes,
+    likeCount,
+    hasLiked,
+    toggleLike,
+    comments,
+    threads,
+    addComment,
+    editComment,
+    deleteComment,
+    toggleReaction,
+    loading,
+  } = useBookInteractions(bookId);
   const [newComment, setNewComment] = useState('');
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const [replyText, setReplyText] = useState('');
   const [showComments, setShowComments] = useState(false);
 
   const handleSubmitComment = async (e: React.FormEvent) => {
@@ -29,6 +42,14 @@ export function BookInteractions({ bookId, bookTitle }: BookInteractionsProps) {
     setNewComment('');
   };
 
+  const handleSubmitReply = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!replyingTo || !replyText.trim()) return;
+    await addComment(replyText, replyingTo);
+    setReplyText('');
+    setReplyingTo(null);
+  };
+
   return (
     <div className="space-y-3">
       {/* Like button and comment toggle */}
@@ -105,49 +126,56 @@ export function BookInteractions({ bookId, bookTitle }: BookInteractionsProps) {
       {/* Comments section */}
       {showComments && (
         <div className="space-y-3 pt-2 border-t border-border">
-          {/* Existing comments */}
-          {comments.length > 0 ? (
-            <div className="space-y-2 max-h-48 overflow-y-auto">
-              {comments.map((comment) => (
-                <div
-                  key={comment.id}
-                  className="bg-muted/50 rounded-lg px-3 py-2 text-sm group"
-                >
-                  <div className="flex items-start justify-between gap-2">
-                    <div className="flex-1 min-w-0">
-                      {/* Username */}
-                      {comment.username ? (
-                        <Link 
-                          to={`/u/${comment.username}`}
-                          className="inline-flex items-center gap-1.5 mb-1"
-                        >
-                          <Avatar className="w-4 h-4">
-                            <AvatarImage src={comment.avatarUrl || undefined} alt={comment.username} />
-                            <AvatarFallback className="text-[10px]">
-                              {comment.username.slice(0, 2).toUpperCase()}
-                            </AvatarFallback>
-                          </Avatar>
-                          <span className="text-xs font-medium hover:underline">{comment.username}</span>
-                        </Link>
-                      ) : (
-                        <span className="text-xs text-muted-foreground mb-1 block">Anonymous</span>
+          {/* Existing comments, with replies indented under each */}
+          {threads.length > 0 ? (
+            <div className="space-y-2 max-h-64 overflow-y-auto">
+              {threads.map((thread) => (
+                <div key={thread.id} className="space-y-1.5">
+                  <CommentItem
+                    comment={thread}
+                    currentUserId={user?.id}
+                    onReply={() => {
+                      setReplyingTo(replyingTo === thread.id ? null : thread.id);
+                      setReplyText(thread.username && thread.userId !== user?.id ? `@${thread.username} ` : '');
+                    }}
+                    onEdit={(content) => editComment(thread.id, content)}
+                    onDelete={() => deleteComment(thread.id)}
+                    onToggleReaction={(emoji) => toggleReaction(thread.id, emoji)}
+                  />
+                  {(thread.replies.length > 0 || replyingTo === thread.id) && (
+                    <div className="ml-4 pl-2 border-l border-border space-y-1.5">
+                      {thread.replies.map((reply) => (
+                        <CommentItem
+                          key={reply.id}
+                          comment={reply}
+                          currentUserId={user?.id}
+                          onEdit={(content) => editComment(reply.id, content)}
+                          onDelete={() => deleteComment(reply.id)}
+                          onToggleReaction={(emoji) => toggleReaction(reply.id, emoji)}
+                        />
+                      ))}
+                      {replyingTo === thread.id && (
+                        <form onSubmit={handleSubmitReply} className="flex gap-2">
+                          <Textarea
+                            value={replyText}
+                            onChange={(e) => setReplyText(e.target.value)}
+                            placeholder="Write a reply..."
+                            className="min-h-[48px] text-sm resize-none"
+                            maxLength={500}
+                            autoFocus
+                          />
+                          <Button
+                            type="submit"
+                            size="icon"
+                            disabled={!replyText.trim()}
+                            className="shrink-0"
+                          >
+                            <Send className="w-4 h-4" />
+                          </Button>
+                        </form>
                       )}
-                      <p className="text-foreground leading-relaxed">{comment.content}</p>
                     </div>
-                    {user?.id === comment.userId && (
-                      <Button
-                        variant="ghost"
-                        size="icon"
-                        className="h-6 w-6 opacity-0 group-hover:opacity-100 transition-opacity text-muted-foreground hover:text-destructive"
-                        onClick={() => deleteComment(comment.id)}
-                      >
-                        <Trash2 className="w-3 h-3" />
-                      </Button>
-                    )}
-                  </div>
-                  <p className="text-xs text-muted-foreground mt-1">
-                    {formatDistanceToNow(new Date(comment.createdAt), { addSuffix: true })}
-                  </p>
+                  )}
                 </div>
               ))}
             </div>
@@ -163,7 +191,7 @@ export function BookInteractions({ bookId, bookTitle }: BookInteractionsProps) {
               <Textarea
                 value={newComment}
                 onChange={(e) => setNewComment(e.target.value)}
-                placeholder="Add a comment..."
+                placeholder="Add a comment... (@username to mention)"
                 className="min-h-[60px] text-sm resize-none"
                 maxLength={500}
               />
@@ -0,0 +1,173 @@
+import { useState, useEffect } from 'react';
+import { Book } from '@/types/book';
+import { StarRating } from '@/components/StarRating';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { cn } from '@/lib/utils';
+import { format } from 'date-fns';
+import { Eye, Loader2, MessageSquareQuote, Pencil } from 'lucide-react';
+
+const MAX_REVIEW_LENGTH = 10000;
+
+interface BookReviewSectionProps {
+  book: Book;
+  /** Present for the owner; omit to show the review read-only */
+  onSave?: (id: string, review: { rating: number | null; review: string | null; hasSpoilers: boolean }) => Promise<boolean>;
+}
+
+/**
+ * Personal rating and review. Owners edit inline; everyone else sees it read-only,
+ * with spoiler-marked reviews hidden until the reader chooses to reveal them.
+ */
+export function BookReviewSection({ book, onSave }: BookReviewSectionProps) {
+  const [editing, setEditing] = useState(false);
+  const [rating, setRating] = useState<number | null>(book.rating ?? null);
+  const [review, setReview] = useState(book.review ?? '');
+  const [hasSpoilers, setHasSpoilers] = useState(book.reviewHasSpoilers ?? false);
+  const [saving, setSaving] = useState(false);
+  const [spoilersRevealed, setSpoilersRevealed] = useState(false);
+
+  // Reset when switching books or after the saved values come back
+  useEffect(() => {
+    setRating(book.rating ?? null);
+    setReview(book.review ?? '');
+    setHasSpoilers(book.reviewHasSpoilers ?? false);
+    setEditing(false);
+    setSpoilersRevealed(false);
+  }, [book.id, book.rating, book.review, book.reviewHasSpoilers]);
+
+  const hasSavedReview = book.rating !== undefined || !!book.review;
+
+  // Read-only view (friends, public shelves)
+  if (!onSave) {
+    if (!hasSavedReview) return null;
+
+    const hideSpoilers = book.reviewHasSpoilers && !spoilersRevealed;
+
+    return (
+      <div className="border-t border-border pt-3 space-y-2">
+        <div className="flex items-center justify-between gap-2">
+          <p className="text-xs font-medium text-muted-foreground flex items-center gap-1.5">
+            <MessageSquareQuote className="w-3.5 h-3.5" />
+            Review
+          </p>
+          {book.rating !== undefined && <StarRating value={book.rating} />}
+        </div>
+        {book.review && (
+          <div className="relative">
+            <p
+              className={cn(
+                'text-sm text-foreground/80 leading-relaxed whitespace-pre-line max-h-48 overflow-y-auto',
+                hideSpoilers && 'blur-sm select-none pointer-events-none'
+              )}
+              aria-hidden={hideSpoilers}
+            >
+              {book.review}
+            </p>
+            {hideSpoilers && (
+              <div className="absolute inset-0 flex items-center justify-center">
+                <Button size="sm" variant="secondary" className="gap-1.5 h-7 text-xs" onClick={() => setSpoilersRevealed(true)}>
+                  <Eye className="w-3.5 h-3.5" />
+                  Contains spoilers · Reveal
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  const handleSave = async () => {
+    setSaving(true);
+    const success = await onSave(book.id, {
+      rating,
+      review: review.trim() || null,
+      hasSpoilers,
+    });
+    setSaving(false);
+    if (success) setEditing(false);
+  };
+
+  const isDirty =
+    rating !== (book.rating ?? null) ||
+    review.trim() !== (book.review ?? '') ||
+    hasSpoilers !== (book.reviewHasSpoilers ?? false);
+
+  return (
+    <div className="border-t border-border pt-3 space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-xs font-medium text-muted-foreground flex items-center gap-1.5">
+          <MessageSquareQuote className="w-3.5 h-3.5" />
+          Your review
+        </p>
+        {/* Rating saves straight away; the written review has its own save */}
+        <StarRating
+          value={rating}
+          size="md"
+          onChange={(value) => {
+            setRating(value);
+            if (!editing) {
+              onSave(book.id, { rating: value, review: book.review ?? null, hasSpoilers: book.reviewHasSpoilers ?? false });
+            }
+          }}
+        />
+      </div>
+
+      {editing ? (
+        <div className="space-y-2">
+          <Textarea
+            value={review}
+            onChange={(e) => setReview(e.target.value)}
+            placeholder="What did you think?"
+            maxLength={MAX_REVIEW_LENGTH}
+            className="min-h-[120px] text-sm"
+            autoFocus
+          />
+          <div className="flex items-center justify-between gap-2">
+            <div className="flex items-center gap-2">
+              <Switch id={`spoilers-${book.id}`} checked={hasSpoilers} onCheckedChange={setHasSpoilers} />
+              <Label htmlFor={`spoilers-${book.id}`} className="text-xs text-muted-foreground">
+                Contains spoilers
+              </Label>
+            </div>
+            <div className="flex items-center gap-1.5">
+              <Button
+                size="sm"
+                variant="ghost"
+                className="h-7 px-2 text-xs"
+                onClick={() => {
+                  setRating(book.rating ?? null);
+                  setReview(book.review ?? '');
+                  setHasSpoilers(book.reviewHasSpoilers ?? false);
+                  setEditing(false);
+                }}
+              >
+                Cancel
+              </Button>
+              <Button size="sm" className="h-7 px-2 text-xs" onClick={handleSave} disabled={!isDirty || saving}>
+                {saving ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : 'Save'}
+              </Button>
+            </div>
+          </div>
+        </div>
+      ) : book.review ? (
+        <button className="w-full text-left group" onClick={() => setEditing(true)}>
+          <p className="text-sm text-foreground/80 leading-relaxed whitespace-pre-line line-clamp-4">{book.review}</p>
+          <span className="text-[11px] text-muted-foreground flex items-center gap-1 mt-1 group-hover:text-foreground">
+            <Pencil className="w-3 h-3" />
+            {book.reviewHasSpoilers ? 'Marked as spoilers · ' : ''}
+            {book.reviewedAt ? `Edited ${format(new Date(book.reviewedAt), 'MMM d, yyyy')}` : 'Edit'}
+          </span>
+        </button>
+      ) : (
+        <Button size="sm" variant="secondary" className="gap-1 h-7 px-2 text-xs" onClick={() => setEditing(true)}>
+          <Pencil className="w-3.5 h-3.5" />
+          Write a review
+        </Button>
+      )}
+    </div>
+  );
+}
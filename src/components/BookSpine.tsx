@@ -7,12 +7,13 @@ import {
   ContextMenuSeparator,
   ContextMenuTrigger,
 } from '@/components/ui/context-menu';
-import { BookOpen, BookMarked, CheckCircle, Trash2, Users, StickyNote } from 'lucide-react';
+import { BookOpen, BookMarked, CheckCircle, Trash2, Users, StickyNote, Layers } from 'lucide-react';
 import { useBookAnimations } from '@/contexts/BookAnimationContext';
 import { Skeleton } from '@/components/ui/skeleton';
 import { cn } from '@/lib/utils';
 import { normalizeCoverUrl } from '@/lib/normalizeCoverUrl';
 import { getAmazonBookUrl } from '@/lib/amazonLinks';
+import { formatSeriesLabel } from '@/lib/series';
 import { BookNote, NoteColor } from '@/hooks/useBookNotes';
 import { PostItNote } from '@/components/PostItNote';
 import { BookLikeBadge } from '@/components/BookLikeBadge';
@@ -20,6 +21,7 @@ import { BookHoverPreview } from '@/components/BookHoverPreview';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { HoverCard, HoverCardContent, HoverCardTrigger } from '@/components/ui/hover-card';
 import { useIsMobile } from '@/hooks/use-mobile';
+import type { BookDragState } from '@/hooks/useShelfDrag';
 
 export interface ClubInfo {
   clubName: string;
@@ -42,6 +44,10 @@ interface BookSpineProps {
   /** Whether this book is already on the user's shelf */
   isOnShelf?: boolean;
   readingAnimation?: ReadingAnimation;
+  /** Set when the shelf is in custom order; starts dragging this book */
+  onReorderPointerDown?: (e: React.PointerEvent<HTMLDivElement>) => void;
+  /** Feedback while the shelf is being rearranged */
+  dragState?: BookDragState;
 }
 
 const statusOptions: { status: BookStatus; label: string; icon: React.ReactNode }[] = [
@@ -66,10 +72,12 @@ type BookCoverProps = {
   onRemove?: (id: string) => void;
   onAddToShelf?: (book: Book) => void;
   isOnShelf?: boolean;
+  onReorderPointerDown?: (e: React.PointerEvent<HTMLDivElement>) => void;
+  dragState?: BookDragState;
 };
 
 const BookCover = forwardRef<HTMLDivElement, BookCoverProps>(
-  ({ book, onSelect, isGrayed, isWobbling, isSparkle, readingAnimation, clubInfo, note, onAddNote, isInteractive = true, newLikesCount = 0, onMove, onRemove, onAddToShelf, isOnShelf }, ref) => {
+  ({ book, onSelect, isGrayed, isWobbling, isSparkle, readingAnimation, clubInfo, note, onAddNote, isInteractive = true, newLikesCount = 0, onMove, onRemove, onAddToShelf, isOnShelf, onReorderPointerDown, dragState }, ref) => {
   const isMobile = useIsMobile();
   const [imageLoaded, setImageLoaded] = useState(false);
   const [imageError, setImageError] = useState(false);
@@ -136,8 +144,16 @@ const BookCover = forwardRef<HTMLDivElement, BookCoverProps>(
         isWobbling && 'book-wobble',
         isSparkle && 'book-sparkle',
         readingAnimation === 'glow' && 'book-reading-glow',
-        readingAnimation === 'border' && 'book-reading-border'
+        readingAnimation === 'border' && 'book-reading-border',
+        onReorderPointerDown && 'book-reorderable',
+        dragState === 'dragging' && 'book-dragging',
+        dragState === 'drop-before' && 'book-drop-before',
+        dragState === 'drop-after' && 'book-drop-after'
       )}
+      data-book-id={book.id}
+      onPointerDown={onReorderPointerDown}
+      // Native image dragging would steal the pointer from the shelf drag
+      onDragStart={onReorderPointerDown ? (e) => e.preventDefault() : undefined}
       onMouseEnter={updateTooltipPosition}
     >
       {/* Pixie dust — glitter falling over currently-reading books */}
@@ -260,6 +276,16 @@ const BookCover = forwardRef<HTMLDivElement, BookCoverProps>(
               </div>
             )}
 
+            {/* Series badge */}
+            {book.seriesName && (
+              <div
+                className="absolute -top-1 -left-1 z-10 min-w-[20px] h-5 px-1 rounded-full flex items-center justify-center bg-slate-800/90 text-white text-[10px] font-semibold shadow-md ring-2 ring-background"
+                title={formatSeriesLabel(book.seriesName, book.seriesPosition)}
+              >
+                {book.seriesPosition !== undefined ? `#${book.seriesPosition}` : <Layers className="w-3 h-3" />}
+              </div>
+            )}
+
             {/* New likes badge */}
             {!hasClubInfo && newLikesCount > 0 && (
               <BookLikeBadge count={newLikesCount} />
@@ -283,6 +309,19 @@ const BookCover = forwardRef<HTMLDivElement, BookCoverProps>(
               </>
             )}
 
+            {/* Fill level for books in progress */}
+            {book.status === 'reading' && book.progressPercent != null && (
+              <div
+                className="absolute bottom-0 left-0 right-0 h-1 bg-black/40 z-10"
+                title={`${Math.round(book.progressPercent)}% read`}
+              >
+                <div
+                  className="h-full bg-amber-400 transition-[width] duration-500"
+                  style={{ width: `${Math.min(100, Math.max(0, book.progressPercent))}%` }}
+                />
+              </div>
+            )}
+
           </div>
         </HoverCardTrigger>
 
@@ -330,7 +369,7 @@ const BookCover = forwardRef<HTMLDivElement, BookCoverProps>(
 
 BookCover.displayName = 'BookCover';
 
-export function BookSpine({ book, onMove, onRemove, onSelect, isInteractive = true, isGrayed = false, clubInfo, note, onAddNote, newLikesCount, onAddToShelf, isOnShelf, readingAnimation = 'pixie-dust' }: BookSpineProps) {
+export function BookSpine({ book, onMove, onRemove, onSelect, isInteractive = true, isGrayed = false, clubInfo, note, onAddNote, newLikesCount, onAddToShelf, isOnShelf, readingAnimation = 'pixie-dust', onReorderPointerDown, dragState }: BookSpineProps) {
   const { recentlyAddedBooks, recentlyCompletedBooks } = useBookAnimations();
 
   const isWobbling = recentlyAddedBooks.has(book.id);
@@ -352,6 +391,8 @@ export function BookSpine({ book, onMove, onRemove, onSelect, isInteractive = tr
         newLikesCount={newLikesCount}
         onAddToShelf={onAddToShelf}
         isOnShelf={isOnShelf}
+        onReorderPointerDown={onReorderPointerDown}
+        dragState={dragState}
       />
     );
   }
@@ -373,6 +414,8 @@ export function BookSpine({ book, onMove, onRemove, onSelect, isInteractive = tr
           newLikesCount={newLikesCount}
           onMove={onMove}
           onRemove={onRemove}
+          onReorderPointerDown={onReorderPointerDown}
+          dragState={dragState}
         />
       </ContextMenuTrigger>
       
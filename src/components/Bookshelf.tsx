@@ -7,6 +7,9 @@ import { ShelfDecoration, DECORATION_TYPES, DecorationType } from './ShelfDecora
 
 import { cn } from '@/lib/utils';
 import { useBookNotes, BookNote, NoteColor } from '@/hooks/useBookNotes';
+import { useShelfDrag, BookDragState } from '@/hooks/useShelfDrag';
+import type { DropPlacement } from '@/lib/shelfOrder';
+import { groupBySeries } from '@/lib/series';
 interface BookshelfProps {
   books: Book[];
   skin: ShelfSkin;
@@ -15,6 +18,9 @@ interface BookshelfProps {
   onMoveBook?: (id: string, status: BookStatus) => void;
   onRemoveBook?: (id: string) => void;
   onUpdateCompletedAt?: (id: string, completedAt: string | null) => void;
+  onLogProgress?: (id: string, entry: { page?: number; percent?: number; note?: string }) => Promise<boolean>;
+  onDeleteProgress?: (id: string, entryId: string) => Promise<boolean>;
+  onUpdateReview?: (id: string, review: { rating: number | null; review: string | null; hasSpoilers: boolean }) => Promise<boolean>;
   getBookClubInfo?: (title: string, author: string) => ClubInfo[];
   /** External handler for book selection - when set, clicks open this instead of internal dialog */
   onSelectBook?: (book: Book) => void;
@@ -32,6 +38,14 @@ interface BookshelfProps {
   ownerName?: string;
   /** Callback when visitor wants to recommend a book */
   onRecommendBook?: () => void;
+  /** Owner empty-state text override (e.g. for an empty named shelf) */
+  emptyMessage?: string;
+  /** Set in custom sort on your own shelf; books can then be dragged into a new position */
+  onReorderBook?: (draggedId: string, targetId: string, placement: DropPlacement) => void;
+  /** Keep books of the same series together, in reading order */
+  groupSeries?: boolean;
+  /** Hide or show a book on the owner's shared shelf */
+  onSetBookHidden?: (id: string, hidden: boolean) => void;
 }
 
 function Bookend() {
@@ -151,6 +165,10 @@ interface ShelfRowProps {
   ownerName?: string;
   /** Callback when visitor wants to recommend a book */
   onRecommendBook?: () => void;
+  /** Owner empty-state text override (e.g. for an empty named shelf) */
+  emptyMessage?: string;
+  onBookPointerDown?: (bookId: string, e: React.PointerEvent<HTMLElement>) => void;
+  getDragState: (bookId: string) => BookDragState | undefined;
 }
 
 function ShelfRow({
@@ -173,6 +191,9 @@ function ShelfRow({
   isOwner,
   ownerName,
   onRecommendBook,
+  emptyMessage,
+  onBookPointerDown,
+  getDragState,
 }: ShelfRowProps) {
   const hasBooks = books.length > 0;
   const grainClass = settings.showWoodGrain ? '' : 'no-grain';
@@ -248,6 +269,8 @@ function ShelfRow({
                 onAddToShelf={onAddToShelf}
                 isOnShelf={isBookOnShelf?.(item.book.title, item.book.author)}
                 readingAnimation={settings.readingAnimation}
+                onReorderPointerDown={onBookPointerDown ? (e) => onBookPointerDown(item.book.id, e) : undefined}
+                dragState={getDragState(item.book.id)}
               />
             );
           }
@@ -274,7 +297,7 @@ function ShelfRow({
       {!hasBooks && rowIndex === 0 && (
         <div className="flex flex-col items-center justify-center w-full h-24 text-white text-sm drop-shadow-[0_1px_2px_rgba(0,0,0,0.8)] gap-2">
           {isOwner !== false ? (
-            <span className="italic">Add some books to your shelf...</span>
+            <span className="italic">{emptyMessage || 'Add some books to your shelf...'}</span>
           ) : (
             <>
               <span className="italic">{ownerName || 'This reader'} hasn't added any books yet</span>
@@ -298,7 +321,7 @@ function ShelfRow({
   );
 }
 
-export function Bookshelf({ books, skin, settings, activeFilters, onMoveBook, onRemoveBook, onUpdateCompletedAt, getBookClubInfo, onSelectBook, likesPerBook, viewingUsername, onAddToShelf, isBookOnShelf, isOwner, ownerName, onRecommendBook }: BookshelfProps) {
+export function Bookshelf({ books, skin, settings, activeFilters, onMoveBook, onRemoveBook, onUpdateCompletedAt, onLogProgress, onDeleteProgress, onUpdateReview, getBookClubInfo, onSelectBook, likesPerBook, viewingUsername, onAddToShelf, isBookOnShelf, isOwner, ownerName, onRecommendBook, emptyMessage, onReorderBook, groupSeries, onSetBookHidden }: BookshelfProps) {
   const [internalSelectedBook, setInternalSelectedBook] = useState<Book | null>(null);
   const [noteBook, setNoteBook] = useState<Book | null>(null);
   const containerRef = useRef<HTMLDivElement>(null);
@@ -306,11 +329,16 @@ export function Bookshelf({ books, skin, settings, activeFilters, onMoveBook, on
 
   // Use external handler if provided, otherwise use internal state
   const handleSelectBook = onSelectBook || setInternalSelectedBook;
-  const selectedBook = onSelectBook ? null : internalSelectedBook;
+  // Resolve against the live list so edits made in the dialog (progress, dates) show up immediately
+  const selectedBook = onSelectBook
+    ? null
+    : (internalSelectedBook && books.find((b) => b.id === internalSelectedBook.id)) || internalSelectedBook;
 
   // Get all book IDs for fetching notes
   const bookIds = useMemo(() => books.map((b) => b.id), [books]);
   const { notes, saveNote, deleteNote, getNote } = useBookNotes(bookIds);
+  const { onBookPointerDown, getDragState } = useShelfDrag(onReorderBook);
+  const shelfBooks = useMemo(() => (groupSeries ? groupBySeries(books) : books), [books, groupSeries]);
 
   // Calculate decoration slots needed per row based on density
   const decorSlotsPerRow = useMemo(() => {
@@ -379,15 +407,15 @@ export function Bookshelf({ books, skin, settings, activeFilters, onMoveBook, on
   // Split books into rows
   const bookRows = useMemo(() => {
     const rows: Book[][] = [];
-    for (let i = 0; i < books.length; i += booksPerRow) {
-      rows.push(books.slice(i, i + booksPerRow));
+    for (let i = 0; i < shelfBooks.length; i += booksPerRow) {
+      rows.push(shelfBooks.slice(i, i + booksPerRow));
     }
     // Ensure at least one row for empty state
     if (rows.length === 0) {
       rows.push([]);
     }
     return rows;
-  }, [books, booksPerRow]);
+  }, [shelfBooks, booksPerRow]);
 
   const skinClass = `skin-${skin}`;
   const grainClass = settings.showWoodGrain ? '' : 'no-grain';
@@ -441,6 +469,9 @@ export function Bookshelf({ books, skin, settings, activeFilters, onMoveBook, on
             isOwner={isOwner}
             ownerName={ownerName}
             onRecommendBook={onRecommendBook}
+            emptyMessage={emptyMessage}
+            onBookPointerDown={onBookPointerDown}
+            getDragState={getDragState}
           />
         );
       })}
@@ -452,8 +483,12 @@ export function Bookshelf({ books, skin, settings, activeFilters, onMoveBook, on
           open={!!selectedBook}
           onOpenChange={(open) => !open && setInternalSelectedBook(null)}
           onUpdateCompletedAt={onUpdateCompletedAt}
+          onLogProgress={onLogProgress}
+          onDeleteProgress={onDeleteProgress}
+          onUpdateReview={onUpdateReview}
           onMove={onMoveBook}
           onRemove={onRemoveBook}
+          onSetHidden={onSetBookHidden}
         />
       )}
 
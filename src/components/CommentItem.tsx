@@ -0,0 +1,224 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Trash2, Reply, Pencil, SmilePlus, Flag } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { ReportDialog } from '@/components/ReportDialog';
+import { COMMENT_REACTIONS, splitMentions } from '@/lib/comments';
+import { getReportTargetLabel, type ReportTargetType } from '@/lib/reports';
+import type { BookComment } from '@/hooks/useBookInteractions';
+import { cn } from '@/lib/utils';
+
+// Club thread posts render the same way as book comments
+type CommentLike = Pick<BookComment, 'id' | 'userId' | 'content' | 'createdAt' | 'editedAt' | 'reactions' | 'username' | 'avatarUrl'>;
+
+interface CommentItemProps {
+  comment: CommentLike;
+  reportTargetType?: ReportTargetType;
+  /** Lets someone other than the author delete it, e.g. a club owner */
+  canModerate?: boolean;
+  currentUserId?: string;
+  onReply?: () => void;
+  onEdit: (content: string) => Promise<boolean>;
+  onDelete: () => void;
+  onToggleReaction: (emoji: string) => void;
+}
+
+export function CommentItem({
+  comment,
+  reportTargetType = 'comment',
+  canModerate = false,
+  currentUserId,
+  onReply,
+  onEdit,
+  onDelete,
+  onToggleReaction,
+}: CommentItemProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(comment.content);
+  const [reportOpen, setReportOpen] = useState(false);
+  const isOwn = currentUserId === comment.userId;
+
+  // Group reactions by emoji, keeping the picker's order
+  const reactionCounts = COMMENT_REACTIONS.map((emoji) => {
+    const matching = comment.reactions.filter((r) => r.emoji === emoji);
+    return { emoji, count: matching.length, mine: matching.some((r) => r.userId === currentUserId) };
+  }).filter((r) => r.count > 0);
+
+  const handleSave = async () => {
+    if (draft.trim() === comment.content) {
+      setIsEditing(false);
+      return;
+    }
+    if (await onEdit(draft)) setIsEditing(false);
+  };
+
+  return (
+    <div className="bg-muted/50 rounded-lg px-3 py-2 text-sm group">
+      <div className="flex items-start justify-between gap-2">
+        <div className="flex-1 min-w-0">
+          {/* Username */}
+          {comment.username ? (
+            <Link
+              to={`/u/${comment.username}`}
+              className="inline-flex items-center gap-1.5 mb-1"
+            >
+              <Avatar className="w-4 h-4">
+                <AvatarImage src={comment.avatarUrl || undefined} alt={comment.username} />
+                <AvatarFallback className="text-[10px]">
+                  {comment.username.slice(0, 2).toUpperCase()}
+                </AvatarFallback>
+              </Avatar>
+              <span className="text-xs font-medium hover:underline">{comment.username}</span>
+            </Link>
+          ) : (
+            <span className="text-xs text-muted-foreground mb-1 block">Anonymous</span>
+          )}
+
+          {isEditing ? (
+            <div className="space-y-1.5">
+              <Textarea
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                className="min-h-[60px] text-sm resize-none"
+                maxLength={500}
+                autoFocus
+              />
+              <div className="flex justify-end gap-1">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 text-xs"
+                  onClick={() => {
+                    setDraft(comment.content);
+                    setIsEditing(false);
+                  }}
+                >
+                  Cancel
+                </Button>
+                <Button size="sm" className="h-6 text-xs" disabled={!draft.trim()} onClick={handleSave}>
+                  Save
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <p className="text-foreground leading-relaxed break-words">
+              {splitMentions(comment.content).map((part, i) =>
+                part.username ? (
+                  <Link key={i} to={`/u/${part.username}`} className="text-primary font-medium hover:underline">
+                    {part.text}
+                  </Link>
+                ) : (
+                  <span key={i}>{part.text}</span>
+                )
+              )}
+            </p>
+          )}
+        </div>
+        {currentUserId && !isOwn && (
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6 opacity-0 group-hover:opacity-100 transition-opacity text-muted-foreground hover:text-destructive"
+            onClick={() => setReportOpen(true)}
+            title={`Report ${getReportTargetLabel(reportTargetType)}`}
+          >
+            <Flag className="w-3 h-3" />
+          </Button>
+        )}
+        {!isOwn && canModerate && (
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6 opacity-0 group-hover:opacity-100 transition-opacity text-muted-foreground hover:text-destructive"
+            onClick={onDelete}
+            title="Remove"
+          >
+            <Trash2 className="w-3 h-3" />
+          </Button>
+        )}
+        {isOwn && !isEditing && (
+          <div className="flex opacity-0 group-hover:opacity-100 transition-opacity">
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6 text-muted-foreground"
+              onClick={() => setIsEditing(true)}
+            >
+              <Pencil className="w-3 h-3" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6 text-muted-foreground hover:text-destructive"
+              onClick={onDelete}
+            >
+              <Trash2 className="w-3 h-3" />
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {/* Reactions */}
+      {reactionCounts.length > 0 && (
+        <div className="flex flex-wrap gap-1 mt-1.5">
+          {reactionCounts.map(({ emoji, count, mine }) => (
+            <button
+              key={emoji}
+              type="button"
+              onClick={() => onToggleReaction(emoji)}
+              className={cn(
+                'inline-flex items-center gap-1 rounded-full border px-1.5 py-0.5 text-xs transition-colors',
+                mine ? 'border-primary bg-primary/10' : 'border-border hover:bg-muted'
+              )}
+            >
+              <span>{emoji}</span>
+              <span className="text-muted-foreground">{count}</span>
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="flex items-center gap-2 mt-1">
+        <p className="text-xs text-muted-foreground">
+          {formatDistanceToNow(new Date(comment.createdAt), { addSuffix: true })}
+          {comment.editedAt && <span className="italic"> · edited</span>}
+        </p>
+        {currentUserId && (
+          <>
+            <Popover>
+              <PopoverTrigger asChild>
+                <Button variant="ghost" size="icon" className="h-5 w-5 text-muted-foreground">
+                  <SmilePlus className="w-3 h-3" />
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent className="w-auto p-1 flex gap-0.5" align="start">
+                {COMMENT_REACTIONS.map((emoji) => (
+                  <button
+                    key={emoji}
+                    type="button"
+                    onClick={() => onToggleReaction(emoji)}
+                    className="rounded p-1 text-base hover:bg-muted transition-colors"
+                  >
+                    {emoji}
+                  </button>
+                ))}
+              </PopoverContent>
+            </Popover>
+            {onReply && (
+              <Button variant="ghost" size="sm" className="h-5 px-1.5 gap-1 text-xs text-muted-foreground" onClick={onReply}>
+                <Reply className="w-3 h-3" />
+                Reply
+              </Button>
+            )}
+          </>
+        )}
+      </div>
+
+      <ReportDialog open={reportOpen} onOpenChange={setReportOpen} targetType={reportTargetType} targetId={comment.id} />
+    </div>
+  );
+}
@@ -11,11 +11,13 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { Search, Users, Loader2, ExternalLink, Mail, Send, Copy, Check } from 'lucide-react';
+import { Search, Users, Loader2, ExternalLink, Mail, Send, Copy, Check, VolumeX } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
 import { useProfile } from '@/hooks/useProfile';
 import { useShelfSettings } from '@/hooks/useShelfSettings';
+import { useBlocks } from '@/hooks/useBlocks';
+import { FriendSuggestions } from '@/components/FriendSuggestions';
 import { Link } from 'react-router-dom';
 import { toast } from 'sonner';
 
@@ -37,6 +39,7 @@ export function FindFriendsDialog({ open: controlledOpen, onOpenChange: controll
   const { user } = useAuth();
   const { profile } = useProfile();
   const { settings } = useShelfSettings();
+  const { isBlocked, isMuted } = useBlocks();
   const [internalOpen, setInternalOpen] = useState(false);
   const [activeTab, setActiveTab] = useState<'find' | 'invite'>(initialTab || 'find');
   
@@ -55,6 +58,9 @@ export function FindFriendsDialog({ open: controlledOpen, onOpenChange: controll
   const [sendingInvite, setSendingInvite] = useState(false);
   const [copied, setCopied] = useState(false);
 
+  // find-user already leaves blocked users out; this catches blocks made since the search
+  const visibleResults = results.filter((r) => !isBlocked(r.userId));
+
   const shelfUrl = settings?.share_id 
     ? `https://shelvy-books.lovable.app/shelf/${settings.share_id}` 
     : null;
@@ -233,16 +239,16 @@ export function FindFriendsDialog({ open: controlledOpen, onOpenChange: controll
               </div>
             )}
 
-            {!loading && searched && results.length === 0 && (
+            {!loading && searched && visibleResults.length === 0 && (
               <div className="text-center py-8 text-muted-foreground">
                 <p>No users found with public shelves.</p>
                 <p className="text-sm mt-1">Try a different search term or invite them!</p>
               </div>
             )}
 
-            {!loading && results.length > 0 && (
+            {!loading && visibleResults.length > 0 && (
               <div className="space-y-2">
-                {results.map((result) => (
+                {visibleResults.map((result) => (
                   <Link
                     key={result.userId}
                     to={`/shelf/${result.shareId}`}
@@ -257,8 +263,15 @@ export function FindFriendsDialog({ open: controlledOpen, onOpenChange: controll
                     </Avatar>
                     <div className="flex-1 min-w-0">
                       <p className="font-medium truncate">{result.username}</p>
-                      <p className="text-xs text-muted-foreground">
+                      <p className="text-xs text-muted-foreground flex items-center gap-1">
                         Found by {result.matchedBy}
+                        {isMuted(result.userId) && (
+                          <>
+                            {' · '}
+                            <VolumeX className="h-3 w-3" />
+                            Muted
+                          </>
+                        )}
                       </p>
                     </div>
                     <ExternalLink className="h-4 w-4 text-muted-foreground opacity-0 group-hover:opacity-100 transition-opacity flex-shrink-0" />
@@ -268,10 +281,13 @@ export function FindFriendsDialog({ open: controlledOpen, onOpenChange: controll
             )}
 
             {!loading && !searched && (
-              <div className="text-center py-8 text-muted-foreground">
-                <Search className="h-8 w-8 mx-auto mb-2 opacity-50" />
-                <p className="text-sm">Enter a username or email to search</p>
-              </div>
+              <>
+                <div className="text-center py-6 text-muted-foreground">
+                  <Search className="h-8 w-8 mx-auto mb-2 opacity-50" />
+                  <p className="text-sm">Enter a username or email to search</p>
+                </div>
+                <FriendSuggestions onNavigate={() => setOpen(false)} />
+              </>
             )}
           </div>
         </TabsContent>
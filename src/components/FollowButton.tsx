@@ -1,4 +1,4 @@
-import { UserPlus, UserMinus, Loader2 } from 'lucide-react';
+import { UserPlus, UserMinus, Loader2, Clock } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { useFollows } from '@/hooks/useFollows';
 import { useAuth } from '@/contexts/AuthContext';
@@ -11,14 +11,16 @@ interface FollowButtonProps {
 
 export function FollowButton({ targetUserId, iconOnly = false }: FollowButtonProps) {
   const { user, setAuthDialogOpen } = useAuth();
-  const { isFollowing, follow, unfollow, isFollowPending, isUnfollowPending } = useFollows();
+  const { isFollowing, isRequested, isBlocked, follow, unfollow, isFollowPending, isUnfollowPending } = useFollows();
 
-  // Don't show button for own shelf or when target is current user
-  if (user?.id === targetUserId) {
+  // Don't show button for own shelf, when target is current user, or across a block
+  if (user?.id === targetUserId || isBlocked(targetUserId)) {
     return null;
   }
 
   const following = isFollowing(targetUserId);
+  // Waiting on the owner to accept; clicking again withdraws the request
+  const requested = isRequested(targetUserId);
   const isPending = isFollowPending || isUnfollowPending;
 
   const handleClick = () => {
@@ -27,7 +29,7 @@ export function FollowButton({ targetUserId, iconOnly = false }: FollowButtonPro
       return;
     }
 
-    if (following) {
+    if (following || requested) {
       unfollow(targetUserId);
     } else {
       follow(targetUserId);
@@ -35,16 +37,17 @@ export function FollowButton({ targetUserId, iconOnly = false }: FollowButtonPro
   };
 
   // Keep consistent width by always rendering the same structure
-  const Icon = isPending ? Loader2 : following ? UserMinus : UserPlus;
-  const label = following ? "Following" : "Follow";
+  const Icon = isPending ? Loader2 : following ? UserMinus : requested ? Clock : UserPlus;
+  const label = following ? "Following" : requested ? "Requested" : "Follow";
 
   return (
     <Button
-      variant={following ? "outline" : "default"}
+      variant={following || requested ? "outline" : "default"}
       size="sm"
       onClick={handleClick}
       disabled={isPending}
-      className={following 
+      title={requested ? "Cancel follow request" : undefined}
+      className={following || requested 
         ? "gap-1.5 font-sans" 
         : "gap-1.5 bg-gradient-to-r from-amber-600 to-amber-700 hover:from-amber-700 hover:to-amber-800 text-white font-sans"
       }
@@ -5,7 +5,8 @@ import { useFollows } from '@/hooks/useFollows';
 import { useAuth } from '@/contexts/AuthContext';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { Loader2, ExternalLink, Users, UserCheck } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Loader2, ExternalLink, Users, UserCheck, UserX } from 'lucide-react';
 
 interface UserInfo {
   userId: string;
@@ -21,7 +22,7 @@ interface FollowTabsProps {
 
 export function FollowTabs({ targetUserId, isOwnProfile }: FollowTabsProps) {
   const { user } = useAuth();
-  const { following, loadingFollowing } = useFollows();
+  const { following, loadingFollowing, removeFollower } = useFollows();
 
   // Fetch followers for the target user
   const { data: followers = [], isLoading: loadingFollowers } = useQuery({
@@ -31,6 +32,7 @@ export function FollowTabs({ targetUserId, isOwnProfile }: FollowTabsProps) {
         .from('follows')
         .select('follower_id, created_at')
         .eq('following_id', targetUserId)
+        .eq('status', 'accepted')
         .order('created_at', { ascending: false });
 
       if (followsError) throw followsError;
@@ -109,7 +111,7 @@ export function FollowTabs({ targetUserId, isOwnProfile }: FollowTabsProps) {
     <Link
       key={userInfo.userId}
       to={userInfo.shareId ? `/shelf/${userInfo.shareId}` : `/u/${userInfo.username}`}
-      className="flex items-center gap-2 py-2 px-2 rounded-md hover:bg-muted/50 transition-colors group text-left"
+      className="flex flex-1 min-w-0 items-center gap-2 py-2 px-2 rounded-md hover:bg-muted/50 transition-colors group text-left"
     >
       <Avatar className="w-7 h-7 shrink-0">
         <AvatarImage src={userInfo.avatarUrl || undefined} alt={userInfo.username} />
@@ -124,6 +126,22 @@ export function FollowTabs({ targetUserId, isOwnProfile }: FollowTabsProps) {
     </Link>
   );
 
+  // Own followers get a remove action next to the row
+  const renderFollowerRow = (userInfo: UserInfo) => (
+    <div key={userInfo.userId} className="flex items-center gap-1">
+      {renderUserRow(userInfo)}
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-7 w-7 shrink-0 text-muted-foreground hover:text-destructive"
+        onClick={() => removeFollower(userInfo.userId)}
+        title="Remove follower"
+      >
+        <UserX className="w-3.5 h-3.5" />
+      </Button>
+    </div>
+  );
+
   const renderEmptyState = (message: string) => (
     <div className="text-center py-6 text-sm text-muted-foreground font-sans">
       {message}
@@ -182,7 +200,7 @@ export function FollowTabs({ targetUserId, isOwnProfile }: FollowTabsProps) {
           ) : followers.length === 0 ? (
             renderEmptyState("No followers yet")
           ) : (
-            followers.map(renderUserRow)
+            followers.map(renderFollowerRow)
           )}
         </div>
       </TabsContent>
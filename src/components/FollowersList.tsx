@@ -2,9 +2,11 @@ import { useState } from 'react';
 import { useQuery } from '@tanstack/react-query';
 import { Link } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useFollows } from '@/hooks/useFollows';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Button } from '@/components/ui/button';
-import { Loader2, ExternalLink, Users, ChevronDown, ChevronUp } from 'lucide-react';
+import { Loader2, ExternalLink, Users, ChevronDown, ChevronUp, UserX } from 'lucide-react';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
 
 interface Follower {
@@ -21,6 +23,10 @@ interface FollowersListProps {
 
 export function FollowersList({ targetUserId, initiallyExpanded = false }: FollowersListProps) {
   const [isOpen, setIsOpen] = useState(initiallyExpanded);
+  const { user } = useAuth();
+  const { removeFollower } = useFollows();
+  // Only the person being followed can remove followers
+  const canManage = user?.id === targetUserId;
 
   // Fetch followers for the target user
   const { data: followers = [], isLoading, error } = useQuery({
@@ -31,6 +37,7 @@ export function FollowersList({ targetUserId, initiallyExpanded = false }: Follo
         .from('follows')
         .select('follower_id, created_at')
         .eq('following_id', targetUserId)
+        .eq('status', 'accepted')
         .order('created_at', { ascending: false });
 
       if (followsError) throw followsError;
@@ -141,6 +148,17 @@ export function FollowersList({ targetUserId, initiallyExpanded = false }: Follo
                     </Link>
                   </Button>
                 )}
+                {canManage && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                    onClick={() => removeFollower(follower.userId)}
+                    title="Remove follower"
+                  >
+                    <UserX className="w-4 h-4" />
+                  </Button>
+                )}
               </div>
             ))}
           </div>
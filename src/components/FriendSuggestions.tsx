@@ -0,0 +1,64 @@
+import { Link } from 'react-router-dom';
+import { X, Sparkles } from 'lucide-react';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Button } from '@/components/ui/button';
+import { FollowButton } from '@/components/FollowButton';
+import { useFriendSuggestions } from '@/hooks/useFriendSuggestions';
+import { useBlocks } from '@/hooks/useBlocks';
+import { describeSuggestion } from '@/lib/friendSuggestions';
+
+interface FriendSuggestionsProps {
+  /** Called when a suggestion's profile or shelf is opened, e.g. to close the surrounding dialog */
+  onNavigate?: () => void;
+}
+
+/** "People you may know" from shared clubs, mutual follows and books in common */
+export function FriendSuggestions({ onNavigate }: FriendSuggestionsProps) {
+  const { suggestions, isLoading, dismiss } = useFriendSuggestions();
+  const { isBlocked } = useBlocks();
+
+  const visibleSuggestions = suggestions.filter((s) => !isBlocked(s.userId));
+
+  if (isLoading || visibleSuggestions.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs font-medium text-muted-foreground flex items-center gap-1.5">
+        <Sparkles className="h-3.5 w-3.5" />
+        People you may know
+      </p>
+      {visibleSuggestions.map((suggestion) => (
+        <div key={suggestion.userId} className="flex items-center gap-3 p-3 rounded-lg border">
+          <Link
+            to={suggestion.shareId ? `/shelf/${suggestion.shareId}` : `/u/${suggestion.username}`}
+            onClick={onNavigate}
+            className="flex items-center gap-3 flex-1 min-w-0"
+          >
+            <Avatar className="h-10 w-10">
+              <AvatarImage src={suggestion.avatarUrl || undefined} alt={suggestion.username} />
+              <AvatarFallback className="bg-primary/10 text-primary">
+                {suggestion.username.slice(0, 2).toUpperCase()}
+              </AvatarFallback>
+            </Avatar>
+            <div className="flex-1 min-w-0">
+              <p className="font-medium truncate hover:underline">{suggestion.username}</p>
+              <p className="text-xs text-muted-foreground truncate">{describeSuggestion(suggestion)}</p>
+            </div>
+          </Link>
+          <FollowButton targetUserId={suggestion.userId} iconOnly />
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8 shrink-0 text-muted-foreground"
+            onClick={() => dismiss(suggestion.userId)}
+            title="Not interested"
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,48 @@
+import { useBookAnimations } from '@/contexts/BookAnimationContext';
+import { Trophy } from 'lucide-react';
+
+const CONFETTI_COLORS = ['hsl(45 95% 60%)', 'hsl(25 90% 55%)', 'hsl(340 80% 65%)', 'hsl(200 80% 60%)', 'hsl(140 55% 50%)'];
+
+// Fixed layout so the burst looks the same every time (and renders identically on re-mount)
+const CONFETTI = Array.from({ length: 28 }, (_, i) => ({
+  left: `${(i * 37) % 100}%`,
+  color: CONFETTI_COLORS[i % CONFETTI_COLORS.length],
+  delay: `${(i % 7) * 0.12}s`,
+  duration: `${2.2 + (i % 5) * 0.2}s`,
+  drift: `${((i % 9) - 4) * 12}px`,
+  size: `${6 + (i % 4) * 2}px`,
+}));
+
+/**
+ * Screen-wide confetti shown while BookAnimationContext is celebrating a reached goal.
+ */
+export function GoalCelebration() {
+  const { isCelebratingGoal } = useBookAnimations();
+
+  if (!isCelebratingGoal) return null;
+
+  return (
+    <div className="fixed inset-0 z-[100] pointer-events-none overflow-hidden" aria-hidden="true">
+      {CONFETTI.map((piece, i) => (
+        <div
+          key={i}
+          className="goal-confetti"
+          style={{
+            left: piece.left,
+            background: piece.color,
+            '--delay': piece.delay,
+            '--duration': piece.duration,
+            '--drift': piece.drift,
+            '--size': piece.size,
+          } as React.CSSProperties}
+        />
+      ))}
+      <div className="absolute top-24 left-1/2 -translate-x-1/2 animate-fade-in">
+        <div className="flex items-center gap-2 rounded-full bg-amber-500 text-white px-4 py-2 shadow-lg">
+          <Trophy className="w-4 h-4" />
+          <span className="text-sm font-medium">Goal reached!</span>
+        </div>
+      </div>
+    </div>
+  );
+}
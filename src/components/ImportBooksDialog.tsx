@@ -1,52 +1,37 @@
-import { useState, useCallback, useRef } from 'react';
+import { useState, useCallback, useRef, useMemo, useEffect } from 'react';
 import Papa from 'papaparse';
+import { format } from 'date-fns';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger, DialogDescription } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { Progress } from '@/components/ui/progress';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { BookStatus } from '@/types/book';
-import { Upload, FileText, Loader2, CheckCircle2, AlertCircle, Book } from 'lucide-react';
+import { Upload, FileText, Loader2, CheckCircle2, AlertCircle, Book, Star, Columns3 } from 'lucide-react';
 import { cn } from '@/lib/utils';
-import { fetchCoverUrl } from '@/hooks/useBookSearch';
-
-interface ParsedBook {
-  title: string;
-  author: string;
-  status: BookStatus;
-  selected: boolean;
-}
-
-interface GoodreadsRow {
-  Title?: string;
-  Author?: string;
-  'Author l-f'?: string;
-  'Exclusive Shelf'?: string;
-  'Bookshelves'?: string;
-  [key: string]: string | undefined;
-}
+import { useBookImportContext } from '@/contexts/BookImportContext';
+import {
+  ColumnMapping,
+  ImportField,
+  ImportRow,
+  ImportSource,
+  IMPORT_FIELD_LABELS,
+  IMPORT_SOURCE_LABELS,
+  detectImportSource,
+  mapImportRow,
+  resolveColumnMapping,
+} from '@/lib/bookImport';
+
+const MAPPABLE_FIELDS: ImportField[] = ['title', 'author', 'isbn', 'status', 'dateRead', 'rating'];
+const UNMAPPED = '__none__';
 
 interface ImportBooksDialogProps {
-  onAddBook: (book: {
-    title: string;
-    author: string;
-    coverUrl: string;
-    status: BookStatus;
-    openLibraryKey: string;
-  }) => Promise<void>;
   existingBooks: { title: string; author: string }[];
   open?: boolean;
   onOpenChange?: (open: boolean) => void;
 }
 
-function mapGoodreadsStatus(shelf: string | undefined): BookStatus {
-  if (!shelf) return 'want-to-read';
-  const lower = shelf.toLowerCase();
-  if (lower === 'currently-reading' || lower.includes('currently')) return 'reading';
-  if (lower === 'read') return 'read';
-  return 'want-to-read';
-}
-
 function normalizeForComparison(str: string): string {
   return str
     .toLowerCase()
@@ -101,123 +86,131 @@ function isDuplicate(book: { title: string; author: string }, existingBooks: { t
   });
 }
 
-export function ImportBooksDialog({ onAddBook, existingBooks, open: controlledOpen, onOpenChange: controlledOnOpenChange }: ImportBooksDialogProps) {
+export function ImportBooksDialog({ existingBooks, open: controlledOpen, onOpenChange: controlledOnOpenChange }: ImportBooksDialogProps) {
   const [internalOpen, setInternalOpen] = useState(false);
   
   const isControlled = controlledOpen !== undefined;
   const open = isControlled ? controlledOpen : internalOpen;
   const setOpen = isControlled ? controlledOnOpenChange! : setInternalOpen;
-  const [step, setStep] = useState<'upload' | 'preview' | 'importing' | 'done'>('upload');
-  const [parsedBooks, setParsedBooks] = useState<(ParsedBook & { isDuplicate: boolean })[]>([]);
+  const [step, setStep] = useState<'upload' | 'preview' | 'progress'>('upload');
+  const { activeImport, starting, startImport } = useBookImportContext();
+  const hasUnfinishedImport = activeImport?.status === 'enriching';
+  const [rows, setRows] = useState<ImportRow[]>([]);
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [source, setSource] = useState<ImportSource>('generic');
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [showMapping, setShowMapping] = useState(false);
+  // Rows the user unticked (or ticked back on) in the preview, keyed by row index
+  const [selectionOverrides, setSelectionOverrides] = useState<Record<number, boolean>>({});
   const [error, setError] = useState<string | null>(null);
-  const [importProgress, setImportProgress] = useState(0);
-  const [importResults, setImportResults] = useState({ success: 0, failed: 0 });
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  // Reopening the dialog mid-import shows where it got to instead of a fresh upload
+  useEffect(() => {
+    if (open && hasUnfinishedImport) {
+      setStep((current) => (current === 'upload' ? 'progress' : current));
+    }
+  }, [open, hasUnfinishedImport]);
+
   const handleFileSelect = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
 
     setError(null);
 
-    if (!file.name.endsWith('.csv')) {
+    const lowerName = file.name.toLowerCase();
+    if (!lowerName.endsWith('.csv') && !lowerName.endsWith('.tsv')) {
       setError('Please select a CSV file');
       return;
     }
 
-    Papa.parse<GoodreadsRow>(file, {
+    // Delimiter is auto-detected, so tab-separated LibraryThing exports work too
+    Papa.parse<ImportRow>(file, {
       header: true,
       skipEmptyLines: true,
       complete: (results) => {
-        if (results.errors.length > 0) {
+        if (results.errors.length > 0 && results.data.length === 0) {
           setError('Error parsing CSV: ' + results.errors[0].message);
           return;
         }
 
-        const books = results.data
-          .filter((row) => row.Title && row.Title.trim())
-          .map((row) => {
-            const book = {
-              title: row.Title?.trim() || '',
-              author: row.Author?.trim() || row['Author l-f']?.trim() || 'Unknown Author',
-              status: mapGoodreadsStatus(row['Exclusive Shelf'] || row['Bookshelves']),
-            };
-            const duplicate = isDuplicate(book, existingBooks);
-            return {
-              ...book,
-              selected: !duplicate, // Deselect duplicates by default
-              isDuplicate: duplicate,
-            };
-          });
-
-        if (books.length === 0) {
-          setError('No books found in the CSV file. Make sure it\'s a Goodreads export.');
+        const fileHeaders = (results.meta.fields || []).filter(Boolean);
+        const detected = detectImportSource(fileHeaders);
+        const detectedMapping = resolveColumnMapping(fileHeaders, detected);
+
+        if (results.data.length === 0 || fileHeaders.length === 0) {
+          setError('No books found in the CSV file.');
           return;
         }
 
-        setParsedBooks(books);
+        setRows(results.data);
+        setHeaders(fileHeaders);
+        setSource(detected);
+        setMapping(detectedMapping);
+        // Let the user pick columns straight away if we couldn't find the title
+        setShowMapping(detected === 'generic' || !detectedMapping.title);
+        setSelectionOverrides({});
         setStep('preview');
       },
       error: (err) => {
         setError('Failed to read file: ' + err.message);
       },
     });
-  }, [existingBooks]);
+  }, []);
 
-  const toggleBook = useCallback((index: number) => {
-    setParsedBooks((prev) =>
-      prev.map((book, i) => (i === index ? { ...book, selected: !book.selected } : book))
-    );
+  // Re-mapped whenever the user changes a column in the preview
+  const parsedBooks = useMemo(() => {
+    return rows.flatMap((row, rowIndex) => {
+      const book = mapImportRow(row, mapping);
+      if (!book) return [];
+      const duplicate = isDuplicate(book, existingBooks);
+      return [{
+        ...book,
+        rowIndex,
+        selected: selectionOverrides[rowIndex] ?? !duplicate, // Deselect duplicates by default
+        isDuplicate: duplicate,
+      }];
+    });
+  }, [rows, mapping, existingBooks, selectionOverrides]);
+
+  const updateMapping = useCallback((field: ImportField, header: string) => {
+    setMapping((prev) => ({ ...prev, [field]: header === UNMAPPED ? undefined : header }));
   }, []);
 
-  const toggleAll = useCallback((selected: boolean) => {
-    setParsedBooks((prev) => prev.map((book) => ({ ...book, selected })));
+  const toggleBook = useCallback((rowIndex: number, selected: boolean) => {
+    setSelectionOverrides((prev) => ({ ...prev, [rowIndex]: !selected }));
   }, []);
 
+  const toggleAll = useCallback((selected: boolean) => {
+    setSelectionOverrides(Object.fromEntries(rows.map((_, i) => [i, selected])));
+  }, [rows]);
+
   const handleImport = useCallback(async () => {
-    const selectedBooks = parsedBooks.filter((b) => b.selected);
+    const selectedBooks = parsedBooks
+      .filter((b) => b.selected)
+      .map(({ title, author, status, isbn, completedAt, rating }) => ({ title, author, status, isbn, completedAt, rating }));
     if (selectedBooks.length === 0) return;
 
-    setStep('importing');
-    setImportProgress(0);
-    setImportResults({ success: 0, failed: 0 });
-
-    let success = 0;
-    let failed = 0;
-
-    for (let i = 0; i < selectedBooks.length; i++) {
-      const book = selectedBooks[i];
-      try {
-        // Fetch cover from Google Books API
-        const coverUrl = await fetchCoverUrl(book.title, book.author);
-        
-        await onAddBook({
-          title: book.title,
-          author: book.author,
-          coverUrl: coverUrl || '',
-          status: book.status,
-          openLibraryKey: `goodreads-import-${Date.now()}-${i}`,
-        });
-        success++;
-      } catch {
-        failed++;
-      }
-      setImportProgress(((i + 1) / selectedBooks.length) * 100);
-      setImportResults({ success, failed });
+    setError(null);
+    // Everything is inserted server-side in one go; covers and details follow in the background
+    const ok = await startImport(source, selectedBooks);
+    if (ok) {
+      setStep('progress');
+    } else {
+      setError('Import failed. No books were added, so it\'s safe to try again.');
     }
-
-    setStep('done');
-  }, [parsedBooks, onAddBook]);
+  }, [parsedBooks, source, startImport]);
 
   const handleClose = useCallback(() => {
     setOpen(false);
     // Reset after animation
     setTimeout(() => {
       setStep('upload');
-      setParsedBooks([]);
+      setRows([]);
+      setHeaders([]);
+      setMapping({});
+      setSelectionOverrides({});
       setError(null);
-      setImportProgress(0);
-      setImportResults({ success: 0, failed: 0 });
       if (fileInputRef.current) {
         fileInputRef.current.value = '';
       }
@@ -235,9 +228,9 @@ export function ImportBooksDialog({ onAddBook, existingBooks, open: controlledOp
   const dialogContent = (
     <DialogContent className="max-w-2xl w-[90vw] overflow-hidden">
       <DialogHeader>
-        <DialogTitle className="font-sans text-lg font-semibold">Import from Goodreads</DialogTitle>
+        <DialogTitle className="font-sans text-lg font-semibold">Import Books</DialogTitle>
         <DialogDescription className="text-sm">
-          Upload your Goodreads library export (CSV) to bulk-add books
+          Upload a Goodreads, StoryGraph or LibraryThing export, or any CSV, to bulk-add books
         </DialogDescription>
       </DialogHeader>
 
@@ -254,12 +247,12 @@ export function ImportBooksDialog({ onAddBook, existingBooks, open: controlledOp
             <FileText className="w-10 h-10 mx-auto mb-3 text-muted-foreground" />
             <p className="text-sm font-medium mb-1">Click to upload CSV</p>
             <p className="text-xs text-muted-foreground">
-              Export from Goodreads → My Books → Import/Export
+              Goodreads, StoryGraph, LibraryThing or your own spreadsheet
             </p>
             <input
               ref={fileInputRef}
               type="file"
-              accept=".csv"
+              accept=".csv,.tsv"
               onChange={handleFileSelect}
               className="hidden"
             />
@@ -273,13 +266,13 @@ export function ImportBooksDialog({ onAddBook, existingBooks, open: controlledOp
           )}
 
           <div className="text-xs text-muted-foreground space-y-1">
-            <p className="font-medium">How to export from Goodreads:</p>
-            <ol className="list-decimal list-inside space-y-0.5 ml-1">
-              <li>Go to goodreads.com → My Books</li>
-              <li>Click "Import and export" in the left sidebar</li>
-              <li>Click "Export Library"</li>
-              <li>Upload the downloaded CSV here</li>
-            </ol>
+            <p className="font-medium">Where to find your export:</p>
+            <ul className="list-disc list-inside space-y-0.5 ml-1">
+              <li>Goodreads: My Books → Import and export → Export Library</li>
+              <li>StoryGraph: Manage Account → Export StoryGraph Library</li>
+              <li>LibraryThing: More → Import/Export → Export as CSV</li>
+              <li>Any other CSV: you'll pick the columns in the next step</li>
+            </ul>
           </div>
         </div>
       )}
@@ -289,6 +282,7 @@ export function ImportBooksDialog({ onAddBook, existingBooks, open: controlledOp
           <div className="flex items-center justify-between gap-2">
             <p className="text-sm text-muted-foreground">
               Found <span className="font-medium text-foreground">{parsedBooks.length}</span> books
+              {source !== 'generic' && <> in your {IMPORT_SOURCE_LABELS[source]} export</>}
             </p>
             <div className="flex items-center gap-2">
               <Button variant="ghost" size="sm" onClick={() => toggleAll(true)}>
@@ -300,24 +294,70 @@ export function ImportBooksDialog({ onAddBook, existingBooks, open: controlledOp
             </div>
           </div>
 
-          <ScrollArea className="h-[300px] border rounded-lg">
+          {showMapping ? (
+            <div className="border rounded-lg p-3 space-y-2">
+              <p className="text-xs text-muted-foreground">Match your columns to book fields</p>
+              <div className="grid grid-cols-2 gap-x-3 gap-y-2">
+                {MAPPABLE_FIELDS.map((field) => (
+                  <div key={field} className="flex items-center gap-2">
+                    <span className="text-xs font-medium w-16 flex-shrink-0">{IMPORT_FIELD_LABELS[field]}</span>
+                    <Select value={mapping[field] ?? UNMAPPED} onValueChange={(value) => updateMapping(field, value)}>
+                      <SelectTrigger className="h-8 text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={UNMAPPED} className="text-xs">None</SelectItem>
+                        {headers.map((header) => (
+                          <SelectItem key={header} value={header} className="text-xs">{header}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+            </div>
+          ) : (
+            <Button variant="ghost" size="sm" className="gap-1.5 h-7 px-2 text-xs" onClick={() => setShowMapping(true)}>
+              <Columns3 className="w-3.5 h-3.5" />
+              Edit column mapping
+            </Button>
+          )}
+
+          <ScrollArea className={cn('border rounded-lg', showMapping ? 'h-[220px]' : 'h-[300px]')}>
             <div className="p-2 space-y-1">
-              {parsedBooks.map((book, index) => (
+              {parsedBooks.length === 0 && (
+                <p className="text-sm text-muted-foreground text-center py-8">
+                  Choose which column holds the title to see your books
+                </p>
+              )}
+              {parsedBooks.map((book) => (
                 <div
-                  key={index}
+                  key={book.rowIndex}
                   className={cn(
                     'flex items-center gap-2 p-2 rounded-md transition-colors',
                     'hover:bg-muted/50 cursor-pointer',
                     !book.selected && 'opacity-50'
                   )}
-                  onClick={() => toggleBook(index)}
+                  onClick={() => toggleBook(book.rowIndex, book.selected)}
                 >
                   <Checkbox checked={book.selected} className="pointer-events-none flex-shrink-0" />
                   <Book className="w-4 h-4 text-muted-foreground flex-shrink-0" />
                   <div className="flex-1 min-w-0">
                     <p className="text-sm font-medium truncate" title={book.title}>{book.title}</p>
-                    <p className="text-xs text-muted-foreground truncate">{book.author}</p>
+                    <p className="text-xs text-muted-foreground truncate">
+                      {[
+                        book.author,
+                        book.isbn && `ISBN ${book.isbn}`,
+                        book.completedAt && `Read ${format(new Date(book.completedAt), 'MMM d, yyyy')}`,
+                      ].filter(Boolean).join(' · ')}
+                    </p>
                   </div>
+                  {book.rating !== undefined && (
+                    <span className="flex items-center gap-0.5 text-xs text-muted-foreground flex-shrink-0">
+                      <Star className="w-3 h-3 fill-amber-400 text-amber-400" />
+                      {book.rating}
+                    </span>
+                  )}
                   <span
                     className={cn(
                       'text-xs px-2 py-0.5 rounded-full flex-shrink-0 whitespace-nowrap',
@@ -337,44 +377,52 @@ export function ImportBooksDialog({ onAddBook, existingBooks, open: controlledOp
             </div>
           </ScrollArea>
 
+          {error && (
+            <div className="flex items-center gap-2 text-destructive text-sm">
+              <AlertCircle className="w-4 h-4 flex-shrink-0" />
+              <span>{error}</span>
+            </div>
+          )}
+
           <div className="flex gap-2">
-            <Button variant="outline" onClick={() => setStep('upload')} className="flex-1">
+            <Button variant="outline" onClick={() => setStep('upload')} disabled={starting} className="flex-1">
               Back
             </Button>
-            <Button onClick={handleImport} disabled={selectedCount === 0} className="flex-1">
+            <Button onClick={handleImport} disabled={selectedCount === 0 || starting} className="flex-1">
+              {starting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
               Import {selectedCount} {selectedCount === 1 ? 'book' : 'books'}
             </Button>
           </div>
         </div>
       )}
 
-      {step === 'importing' && (
-        <div className="space-y-4 py-4">
-          <div className="flex items-center justify-center">
-            <Loader2 className="w-8 h-8 animate-spin text-primary" />
-          </div>
-          <div className="space-y-2">
-            <Progress value={importProgress} />
-            <p className="text-sm text-center text-muted-foreground">
-              Importing books... {importResults.success + importResults.failed} /{' '}
-              {parsedBooks.filter((b) => b.selected).length}
-            </p>
-          </div>
-        </div>
-      )}
-
-      {step === 'done' && (
+      {step === 'progress' && activeImport && (
         <div className="space-y-4 py-4">
           <div className="flex items-center justify-center">
-            <CheckCircle2 className="w-12 h-12 text-green-500" />
+            {activeImport.status === 'completed' ? (
+              <CheckCircle2 className="w-12 h-12 text-green-500" />
+            ) : (
+              <Loader2 className="w-8 h-8 animate-spin text-primary" />
+            )}
           </div>
           <div className="text-center space-y-1">
-            <p className="text-lg font-medium">Import Complete!</p>
+            <p className="text-lg font-medium">
+              Added {activeImport.totalCount} {activeImport.totalCount === 1 ? 'book' : 'books'} to your shelf
+            </p>
             <p className="text-sm text-muted-foreground">
-              Successfully added {importResults.success} {importResults.success === 1 ? 'book' : 'books'}
-              {importResults.failed > 0 && ` (${importResults.failed} failed)`}
+              {activeImport.status === 'completed'
+                ? 'Covers and details are all filled in.'
+                : 'Fetching covers and details. You can close this; it keeps going in the background.'}
             </p>
           </div>
+          {activeImport.status !== 'completed' && (
+            <div className="space-y-2">
+              <Progress value={activeImport.totalCount > 0 ? (activeImport.enrichedCount / activeImport.totalCount) * 100 : 0} />
+              <p className="text-sm text-center text-muted-foreground tabular-nums">
+                {activeImport.enrichedCount} / {activeImport.totalCount}
+              </p>
+            </div>
+          )}
           <Button onClick={handleClose} className="w-full">
             Done
           </Button>
@@ -0,0 +1,49 @@
+import { useBookImportContext } from '@/contexts/BookImportContext';
+import { IMPORT_SOURCE_LABELS } from '@/lib/bookImport';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { CheckCircle2, Loader2, X } from 'lucide-react';
+
+/**
+ * Shelf banner for a background import. Books are already on the shelf;
+ * this tracks covers and details filling in, and survives closing the import dialog or the tab.
+ */
+export function ImportProgressBanner() {
+  const { activeImport, dismissImport } = useBookImportContext();
+
+  if (!activeImport) return null;
+
+  const isComplete = activeImport.status === 'completed';
+  const percent = activeImport.totalCount > 0
+    ? Math.round((activeImport.enrichedCount / activeImport.totalCount) * 100)
+    : 0;
+  const sourceLabel = IMPORT_SOURCE_LABELS[activeImport.source] ?? 'CSV';
+
+  return (
+    <div className="mb-4 py-3 px-4 rounded-lg bg-muted/50 border flex items-center gap-3">
+      {isComplete ? (
+        <CheckCircle2 className="w-5 h-5 text-green-500 shrink-0" />
+      ) : (
+        <Loader2 className="w-5 h-5 text-muted-foreground animate-spin shrink-0" />
+      )}
+      <div className="flex-1 min-w-0 space-y-1.5">
+        <p className="text-sm">
+          <span className="font-medium">
+            {isComplete ? `${sourceLabel} import complete` : `Importing from ${sourceLabel}`}
+          </span>
+          <span className="text-muted-foreground">
+            {isComplete
+              ? ` — ${activeImport.totalCount} ${activeImport.totalCount === 1 ? 'book' : 'books'} added`
+              : ` — fetching covers and details ${activeImport.enrichedCount} / ${activeImport.totalCount}`}
+          </span>
+        </p>
+        {!isComplete && <Progress value={percent} className="h-1.5" />}
+      </div>
+      {isComplete && (
+        <Button variant="ghost" size="icon" className="h-7 w-7 shrink-0" onClick={dismissImport}>
+          <X className="w-4 h-4" />
+        </Button>
+      )}
+    </div>
+  );
+}
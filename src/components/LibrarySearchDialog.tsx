@@ -0,0 +1,203 @@
+import { useState, useMemo, useCallback } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { Book } from '@/types/book';
+import { Dialog, DialogContent, DialogTitle } from '@/components/ui/dialog';
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from '@/components/ui/command';
+import { Badge } from '@/components/ui/badge';
+import { normalizeCoverUrl } from '@/lib/normalizeCoverUrl';
+import {
+  EMPTY_SEARCH_FILTERS,
+  LibrarySearchFilters,
+  PAGE_RANGES,
+  SearchMatchField,
+  getCompletionYears,
+  searchLibrary,
+} from '@/lib/librarySearch';
+import { cn } from '@/lib/utils';
+import { BookOpen, CalendarCheck, Users, X } from 'lucide-react';
+
+const MAX_RESULTS = 50;
+
+const MATCH_LABELS: Partial<Record<SearchMatchField, string>> = {
+  isbn: 'ISBN',
+  note: 'Note',
+  review: 'Review',
+  description: 'Description',
+};
+
+interface LibrarySearchDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  books: Book[];
+  onSelectBook: (book: Book) => void;
+  /** Clubs the user belongs to that have books, for the club filter */
+  clubs?: { id: string; name: string }[];
+  getBookClubIds?: (book: Book) => string[];
+}
+
+function FilterChip({ active, onClick, children }: { active: boolean; onClick: () => void; children: React.ReactNode }) {
+  return (
+    <Badge
+      variant={active ? 'default' : 'outline'}
+      className="cursor-pointer whitespace-nowrap text-[11px] font-normal px-2 py-0.5"
+      onClick={onClick}
+    >
+      {children}
+    </Badge>
+  );
+}
+
+/**
+ * Command palette over your own library: title, author, ISBN, notes, reviews and descriptions,
+ * narrowed by page count, completion year and club chips.
+ */
+export function LibrarySearchDialog({ open, onOpenChange, books, onSelectBook, clubs = [], getBookClubIds }: LibrarySearchDialogProps) {
+  const { user } = useAuth();
+  const [query, setQuery] = useState('');
+  const [filters, setFilters] = useState<LibrarySearchFilters>(EMPTY_SEARCH_FILTERS);
+
+  // Notes aren't part of shelf state, so load them all once the palette is first opened
+  const { data: notes } = useQuery({
+    queryKey: ['library-search-notes', user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('book_notes')
+        .select('book_id, content')
+        .eq('user_id', user!.id);
+      if (error) throw error;
+      return new Map((data || []).map((n) => [n.book_id, n.content]));
+    },
+    enabled: open && !!user,
+    staleTime: 1000 * 60,
+  });
+
+  const completionYears = useMemo(() => getCompletionYears(books), [books]);
+
+  const results = useMemo(
+    () => searchLibrary(books, query, filters, { notes, getClubIds: getBookClubIds }),
+    [books, query, filters, notes, getBookClubIds]
+  );
+
+  const hasFilters = filters.pageRange !== null || filters.completionYear !== null || filters.clubId !== null;
+
+  const toggleFilter = useCallback(<K extends keyof LibrarySearchFilters>(key: K, value: LibrarySearchFilters[K]) => {
+    setFilters((prev) => ({ ...prev, [key]: prev[key] === value ? null : value }));
+  }, []);
+
+  const handleOpenChange = (isOpen: boolean) => {
+    onOpenChange(isOpen);
+    if (!isOpen) {
+      setQuery('');
+      setFilters(EMPTY_SEARCH_FILTERS);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="overflow-hidden p-0 shadow-lg sm:max-w-xl">
+        <DialogTitle className="sr-only">Search your library</DialogTitle>
+        {/* Filtering is done by searchLibrary so notes and descriptions count too */}
+        <Command shouldFilter={false}>
+          <CommandInput
+            value={query}
+            onValueChange={setQuery}
+            placeholder="Search titles, authors, ISBNs, notes…"
+          />
+
+          <div className="border-b px-3 py-2 space-y-1.5">
+            <div className="flex items-center gap-1.5 overflow-x-auto">
+              <BookOpen className="w-3.5 h-3.5 shrink-0 text-muted-foreground" />
+              {PAGE_RANGES.map((range) => (
+                <FilterChip
+                  key={range.value}
+                  active={filters.pageRange === range.value}
+                  onClick={() => toggleFilter('pageRange', range.value)}
+                >
+                  {range.label}
+                </FilterChip>
+              ))}
+            </div>
+            {completionYears.length > 0 && (
+              <div className="flex items-center gap-1.5 overflow-x-auto">
+                <CalendarCheck className="w-3.5 h-3.5 shrink-0 text-muted-foreground" />
+                {completionYears.map((year) => (
+                  <FilterChip
+                    key={year}
+                    active={filters.completionYear === year}
+                    onClick={() => toggleFilter('completionYear', year)}
+                  >
+                    Read in {year}
+                  </FilterChip>
+                ))}
+              </div>
+            )}
+            {clubs.length > 0 && (
+              <div className="flex items-center gap-1.5 overflow-x-auto">
+                <Users className="w-3.5 h-3.5 shrink-0 text-muted-foreground" />
+                {clubs.map((club) => (
+                  <FilterChip
+                    key={club.id}
+                    active={filters.clubId === club.id}
+                    onClick={() => toggleFilter('clubId', club.id)}
+                  >
+                    {club.name}
+                  </FilterChip>
+                ))}
+              </div>
+            )}
+            {hasFilters && (
+              <button
+                className="flex items-center gap-1 text-[11px] text-muted-foreground hover:text-foreground"
+                onClick={() => setFilters(EMPTY_SEARCH_FILTERS)}
+              >
+                <X className="w-3 h-3" />
+                Clear filters
+              </button>
+            )}
+          </div>
+
+          <CommandList className="max-h-[360px]">
+            <CommandEmpty>No books match.</CommandEmpty>
+            {results.length > 0 && (
+              <CommandGroup
+                heading={`${results.length} ${results.length === 1 ? 'book' : 'books'}${results.length > MAX_RESULTS ? ` · showing ${MAX_RESULTS}` : ''}`}
+              >
+                {results.slice(0, MAX_RESULTS).map(({ book, matchedField, snippet }) => (
+                  <CommandItem
+                    key={book.id}
+                    value={book.id}
+                    onSelect={() => {
+                      onSelectBook(book);
+                      handleOpenChange(false);
+                    }}
+                    className="flex items-start gap-3 cursor-pointer"
+                  >
+                    <div
+                      className="w-8 h-12 shrink-0 rounded-sm bg-muted bg-cover bg-center"
+                      style={{ backgroundImage: `url(${normalizeCoverUrl(book.coverUrl)})` }}
+                    />
+                    <div className="min-w-0 flex-1">
+                      <p className="text-sm font-medium truncate">{book.title}</p>
+                      <p className="text-xs text-muted-foreground truncate">
+                        {book.author}
+                        {book.pageCount ? ` · ${book.pageCount} pages` : ''}
+                      </p>
+                      {matchedField && MATCH_LABELS[matchedField] && (
+                        <p className={cn('text-xs text-muted-foreground mt-0.5', snippet && 'line-clamp-2')}>
+                          <span className="font-medium text-foreground/70">{MATCH_LABELS[matchedField]}:</span>{' '}
+                          {snippet ?? book.isbn}
+                        </p>
+                      )}
+                    </div>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            )}
+          </CommandList>
+        </Command>
+      </DialogContent>
+    </Dialog>
+  );
+}
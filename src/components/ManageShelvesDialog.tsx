@@ -0,0 +1,210 @@
+import { useState } from 'react';
+import posthog from 'posthog-js';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { ArrowUp, ArrowDown, Trash2, Link2, Plus, Pencil, Check, X, Lock, Globe } from 'lucide-react';
+import { useShelvesContext } from '@/contexts/ShelvesContext';
+import { useShelfSettingsContext } from '@/contexts/ShelfSettingsContext';
+import { NamedShelf } from '@/types/book';
+import { toast } from 'sonner';
+
+interface ManageShelvesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function ManageShelvesDialog({ open, onOpenChange }: ManageShelvesDialogProps) {
+  const { shelves, createShelf, updateShelf, deleteShelf, reorderShelves } = useShelvesContext();
+  const { getShareUrl } = useShelfSettingsContext();
+  const [newShelfName, setNewShelfName] = useState('');
+  const [creating, setCreating] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editValue, setEditValue] = useState('');
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newShelfName.trim()) return;
+    setCreating(true);
+    const created = await createShelf(newShelfName);
+    setCreating(false);
+    if (created) setNewShelfName('');
+  };
+
+  const handleRename = async (shelf: NamedShelf) => {
+    const trimmed = editValue.trim();
+    if (trimmed && trimmed !== shelf.name) {
+      await updateShelf(shelf.id, { name: trimmed });
+    }
+    setEditingId(null);
+  };
+
+  const handleMove = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= shelves.length) return;
+    const ids = shelves.map((s) => s.id);
+    [ids[index], ids[target]] = [ids[target], ids[index]];
+    reorderShelves(ids);
+  };
+
+  const handleCopyLink = async (shelf: NamedShelf) => {
+    const baseUrl = getShareUrl();
+    if (!baseUrl) return;
+
+    try {
+      await navigator.clipboard.writeText(`${baseUrl}/${shelf.id}`);
+      posthog.capture('shelf_link_copied', { shelf_name: shelf.name });
+      toast.success('Link copied to clipboard!');
+    } catch {
+      toast.error('Failed to copy link');
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Your Shelves</DialogTitle>
+          <DialogDescription>
+            Group books however you like. Public shelves get their own share link.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleCreate} className="flex gap-2">
+          <Input
+            value={newShelfName}
+            onChange={(e) => setNewShelfName(e.target.value)}
+            placeholder="e.g. Book club backlog"
+            maxLength={50}
+          />
+          <Button type="submit" size="sm" disabled={!newShelfName.trim() || creating} className="gap-1.5 shrink-0">
+            <Plus className="w-4 h-4" />
+            Add
+          </Button>
+        </form>
+
+        {shelves.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">
+            No shelves yet. Create one above, then add books from a book's details.
+          </p>
+        ) : (
+          <ScrollArea className="max-h-[320px]">
+            <div className="space-y-2 pr-3">
+              {shelves.map((shelf, index) => (
+                <div key={shelf.id} className="flex items-center gap-2 rounded-lg border border-border px-3 py-2">
+                  <div className="flex flex-col">
+                    <button
+                      type="button"
+                      onClick={() => handleMove(index, -1)}
+                      disabled={index === 0}
+                      className="text-muted-foreground hover:text-foreground disabled:opacity-30"
+                      aria-label="Move up"
+                    >
+                      <ArrowUp className="w-3 h-3" />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleMove(index, 1)}
+                      disabled={index === shelves.length - 1}
+                      className="text-muted-foreground hover:text-foreground disabled:opacity-30"
+                      aria-label="Move down"
+                    >
+                      <ArrowDown className="w-3 h-3" />
+                    </button>
+                  </div>
+
+                  <div className="flex-1 min-w-0">
+                    {editingId === shelf.id ? (
+                      <div className="flex items-center gap-1">
+                        <Input
+                          value={editValue}
+                          onChange={(e) => setEditValue(e.target.value)}
+                          onKeyDown={(e) => {
+                            if (e.key === 'Enter') handleRename(shelf);
+                            if (e.key === 'Escape') setEditingId(null);
+                          }}
+                          className="h-7 text-sm"
+                          maxLength={50}
+                          autoFocus
+                        />
+                        <Button size="icon" variant="ghost" className="h-7 w-7" onClick={() => handleRename(shelf)}>
+                          <Check className="w-3.5 h-3.5" />
+                        </Button>
+                        <Button size="icon" variant="ghost" className="h-7 w-7" onClick={() => setEditingId(null)}>
+                          <X className="w-3.5 h-3.5" />
+                        </Button>
+                      </div>
+                    ) : (
+                      <>
+                        <p className="text-sm font-medium truncate">{shelf.name}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {shelf.bookIds.length} {shelf.bookIds.length === 1 ? 'book' : 'books'}
+                        </p>
+                      </>
+                    )}
+                  </div>
+
+                  {editingId !== shelf.id && (
+                    <div className="flex items-center gap-1 shrink-0">
+                      <div className="flex items-center gap-1" title={shelf.isPublic ? 'Visible on your shared shelf' : 'Only you can see this shelf'}>
+                        {shelf.isPublic ? (
+                          <Globe className="w-3.5 h-3.5 text-muted-foreground" />
+                        ) : (
+                          <Lock className="w-3.5 h-3.5 text-muted-foreground" />
+                        )}
+                        <Switch
+                          checked={shelf.isPublic}
+                          onCheckedChange={(checked) => updateShelf(shelf.id, { isPublic: checked })}
+                          aria-label="Public shelf"
+                        />
+                      </div>
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        className="h-7 w-7"
+                        disabled={!shelf.isPublic}
+                        onClick={() => handleCopyLink(shelf)}
+                        title="Copy share link"
+                      >
+                        <Link2 className="w-3.5 h-3.5" />
+                      </Button>
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        className="h-7 w-7"
+                        onClick={() => {
+                          setEditValue(shelf.name);
+                          setEditingId(shelf.id);
+                        }}
+                        title="Rename"
+                      >
+                        <Pencil className="w-3.5 h-3.5" />
+                      </Button>
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        className="h-7 w-7 text-muted-foreground hover:text-destructive"
+                        onClick={() => deleteShelf(shelf.id)}
+                        title="Delete shelf"
+                      >
+                        <Trash2 className="w-3.5 h-3.5" />
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
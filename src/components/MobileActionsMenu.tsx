@@ -113,7 +113,6 @@ export function MobileActionsMenu({
       <ImportBooksDialog 
         open={importOpen} 
         onOpenChange={setImportOpen} 
-        onAddBook={onAddBook} 
         existingBooks={existingBooks} 
       />
       <AddBookDialog 
@@ -7,6 +7,9 @@ import { ShelfDecoration, DECORATION_TYPES, DecorationType } from './ShelfDecora
 import { cn } from '@/lib/utils';
 import { useState, useMemo, useRef, useEffect } from 'react';
 import { useBookNotes, BookNote, NoteColor } from '@/hooks/useBookNotes';
+import { useShelfDrag, BookDragState } from '@/hooks/useShelfDrag';
+import type { DropPlacement } from '@/lib/shelfOrder';
+import { groupBySeries } from '@/lib/series';
 
 interface MobileBookshelfProps {
   books: Book[];
@@ -16,6 +19,9 @@ interface MobileBookshelfProps {
   onMoveBook?: (id: string, status: BookStatus) => void;
   onRemoveBook?: (id: string) => void;
   onUpdateCompletedAt?: (id: string, completedAt: string | null) => void;
+  onLogProgress?: (id: string, entry: { page?: number; percent?: number; note?: string }) => Promise<boolean>;
+  onDeleteProgress?: (id: string, entryId: string) => Promise<boolean>;
+  onUpdateReview?: (id: string, review: { rating: number | null; review: string | null; hasSpoilers: boolean }) => Promise<boolean>;
   getBookClubInfo?: (title: string, author: string) => ClubInfo[];
   /** External handler for book selection - when set, clicks open this instead of internal dialog */
   onSelectBook?: (book: Book) => void;
@@ -33,6 +39,14 @@ interface MobileBookshelfProps {
   ownerName?: string;
   /** Callback when visitor wants to recommend a book */
   onRecommendBook?: () => void;
+  /** Owner empty-state text override (e.g. for an empty named shelf) */
+  emptyMessage?: string;
+  /** Set in custom sort on your own shelf; books can then be dragged into a new position */
+  onReorderBook?: (draggedId: string, targetId: string, placement: DropPlacement) => void;
+  /** Keep books of the same series together, in reading order */
+  groupSeries?: boolean;
+  /** Hide or show a book on the owner's shared shelf */
+  onSetBookHidden?: (id: string, hidden: boolean) => void;
 }
 
 const BOOK_WIDTH = 55; // Width of mobile book covers
@@ -152,6 +166,8 @@ function MiniShelfRow({
   likesPerBook,
   onAddToShelf,
   isBookOnShelf,
+  onBookPointerDown,
+  getDragState,
 }: {
   books: Book[]; 
   skin: ShelfSkin; 
@@ -168,6 +184,8 @@ function MiniShelfRow({
   likesPerBook?: Record<string, number>;
   onAddToShelf?: (book: Book) => void;
   isBookOnShelf?: (title: string, author: string) => boolean;
+  onBookPointerDown?: (bookId: string, e: React.PointerEvent<HTMLElement>) => void;
+  getDragState: (bookId: string) => BookDragState | undefined;
 }) {
   const grainClass = settings.showWoodGrain ? '' : 'no-grain';
   
@@ -235,6 +253,8 @@ function MiniShelfRow({
                 onAddToShelf={onAddToShelf}
                 isOnShelf={isBookOnShelf?.(item.book.title, item.book.author)}
                 readingAnimation={settings.readingAnimation}
+                onReorderPointerDown={onBookPointerDown ? (e) => onBookPointerDown(item.book.id, e) : undefined}
+                dragState={getDragState(item.book.id)}
               />
             );
           }
@@ -266,6 +286,9 @@ export function MobileBookshelf({
   onMoveBook, 
   onRemoveBook,
   onUpdateCompletedAt,
+  onLogProgress,
+  onDeleteProgress,
+  onUpdateReview,
   getBookClubInfo,
   onSelectBook,
   likesPerBook,
@@ -275,6 +298,10 @@ export function MobileBookshelf({
   isOwner,
   ownerName,
   onRecommendBook,
+  emptyMessage,
+  onReorderBook,
+  groupSeries,
+  onSetBookHidden,
 }: MobileBookshelfProps) {
   const [internalSelectedBook, setInternalSelectedBook] = useState<Book | null>(null);
   const [noteBook, setNoteBook] = useState<Book | null>(null);
@@ -285,11 +312,16 @@ export function MobileBookshelf({
 
   // Use external handler if provided, otherwise use internal state
   const handleSelectBook = onSelectBook || setInternalSelectedBook;
-  const selectedBook = onSelectBook ? null : internalSelectedBook;
+  // Resolve against the live list so edits made in the dialog (progress, dates) show up immediately
+  const selectedBook = onSelectBook
+    ? null
+    : (internalSelectedBook && books.find((b) => b.id === internalSelectedBook.id)) || internalSelectedBook;
 
   // Get all book IDs for fetching notes
   const bookIds = useMemo(() => books.map((b) => b.id), [books]);
   const { notes, saveNote, deleteNote, getNote } = useBookNotes(bookIds);
+  const { onBookPointerDown, getDragState } = useShelfDrag(onReorderBook);
+  const shelfBooks = useMemo(() => (groupSeries ? groupBySeries(books) : books), [books, groupSeries]);
 
   const handleSaveNote = async (content: string, color: NoteColor): Promise<boolean> => {
     if (!noteBook) return false;
@@ -345,11 +377,11 @@ export function MobileBookshelf({
   // Split books into rows based on calculated capacity
   const bookRows = useMemo(() => {
     const rows: Book[][] = [];
-    for (let i = 0; i < books.length; i += booksPerRow) {
-      rows.push(books.slice(i, i + booksPerRow));
+    for (let i = 0; i < shelfBooks.length; i += booksPerRow) {
+      rows.push(shelfBooks.slice(i, i + booksPerRow));
     }
     return rows;
-  }, [books, booksPerRow]);
+  }, [shelfBooks, booksPerRow]);
 
   return (
     <div ref={containerRef} className={cn('mobile-bookcase relative', skinClass, grainClass)}>
@@ -368,7 +400,7 @@ export function MobileBookshelf({
           {/* Empty state message overlay */}
           <div className="absolute inset-0 flex flex-col items-center justify-center text-muted-foreground text-sm gap-3 z-10">
             {isOwner !== false ? (
-              <span className="italic">Add some books to your shelf...</span>
+              <span className="italic">{emptyMessage || 'Add some books to your shelf...'}</span>
             ) : (
               <>
                 <span className="italic">{ownerName || 'This reader'} hasn't added any books yet</span>
@@ -404,6 +436,8 @@ export function MobileBookshelf({
               likesPerBook={likesPerBook}
               onAddToShelf={onAddToShelf}
               isBookOnShelf={isBookOnShelf}
+              onBookPointerDown={onBookPointerDown}
+              getDragState={getDragState}
             />
           ))}
         </div>
@@ -416,8 +450,12 @@ export function MobileBookshelf({
           open={!!selectedBook}
           onOpenChange={(open) => !open && setInternalSelectedBook(null)}
           onUpdateCompletedAt={onUpdateCompletedAt}
+          onLogProgress={onLogProgress}
+          onDeleteProgress={onDeleteProgress}
+          onUpdateReview={onUpdateReview}
           onMove={onMoveBook}
           onRemove={onRemoveBook}
+          onSetHidden={onSetBookHidden}
           onAddToShelf={onAddToShelf}
           isOnShelf={selectedBook ? isBookOnShelf?.(selectedBook.title, selectedBook.author) : false}
         />
@@ -1,13 +1,14 @@
 import { useState } from 'react';
-import { Bell, Heart, Check, BookPlus, UserPlus, Gift, X } from 'lucide-react';
+import { Bell, Heart, Check, BookPlus } from 'lucide-react';
 import { Link } from 'react-router-dom';
 import { useNotifications } from '@/hooks/useNotifications';
-import { useFollowedUsersBooks } from '@/hooks/useFollows';
-import { useFollowerNotifications } from '@/hooks/useFollowerNotifications';
+import { useFollows, useFollowedUsersBooks } from '@/hooks/useFollows';
 import { useBookRecommendations, BookRecommendation } from '@/hooks/useBookRecommendations';
 import { useMysteryBooks, MysteryBook } from '@/hooks/useMysteryBooks';
 import { useBooksContext } from '@/contexts/BooksContext';
+import { NotificationItem } from '@/components/NotificationItem';
 import { MysteryBookNotificationCard } from '@/components/MysteryBookNotificationCard';
+import { RecommendationNotificationCard } from '@/components/RecommendationNotificationCard';
 import { MysteryBookUnwrapDialog } from '@/components/MysteryBookUnwrapDialog';
 import { formatDistanceToNow } from 'date-fns';
 import { cn } from '@/lib/utils';
@@ -26,44 +27,41 @@ export function NotificationBell() {
   const [activeTab, setActiveTab] = useState<'activity' | 'following'>('activity');
   const [unwrapDialogOpen, setUnwrapDialogOpen] = useState(false);
   const [selectedMysteryBook, setSelectedMysteryBook] = useState<MysteryBook | null>(null);
-  const { newLikesCount, newLikes, markAsSeen: markLikesAsSeen, isLoading } = useNotifications();
+  const { groups, markAsRead, markAllAsRead, isLoading } = useNotifications();
   const { data: followedBooks = [], newCount: followedBooksCount, isLoading: loadingFollowedBooks, markAsSeen: markFollowsAsSeen } = useFollowedUsersBooks();
-  const { newFollowers, newCount: newFollowersCount, isLoading: loadingFollowers, markAsSeen: markFollowersAsSeen } = useFollowerNotifications();
-  const {
-    pendingRecommendations,
-    pendingCount: newRecommendationsCount,
-    isLoading: loadingRecommendations,
-    acceptRecommendation,
-    declineRecommendation,
-    markAsSeen: markRecommendationsAsSeen
-  } = useBookRecommendations();
+  const { pendingRecommendations, acceptRecommendation, declineRecommendation } = useBookRecommendations();
   const {
     pendingMysteryBooks,
-    reactionNotifications,
-    pendingCount: newMysteryBooksCount,
-    isLoading: loadingMysteryBooks,
     unwrapMysteryBook,
     acceptMysteryBook,
     declineMysteryBook,
     reactToMysteryBook,
-    markAsSeen: markMysteryBooksAsSeen,
   } = useMysteryBooks();
+  const { followRequests, acceptFollowRequest, removeFollower } = useFollows();
   const { refetchBooks } = useBooksContext();
 
-  // Activity = likes + new followers + recommendations + mystery books
-  const activityCount = newLikesCount + newFollowersCount + newRecommendationsCount + newMysteryBooksCount;
+  // Pending recommendations and mystery books come from their own tables, so they can be answered
+  // even when their notification was turned off or has dropped out of the inbox
+  const pendingItems = [
+    ...pendingMysteryBooks.map((mb) => ({ type: 'mystery_book' as const, data: mb, createdAt: mb.createdAt })),
+    ...pendingRecommendations.map((r) => ({ type: 'recommendation' as const, data: r, createdAt: r.createdAt })),
+  ].sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+  const pendingIds = new Set(pendingItems.map((item) => item.data.id));
+  const inboxGroups = groups.filter(
+    (g) => !((g.type === 'recommendation' || g.type === 'mystery_book') && g.latest.entityId && pendingIds.has(g.latest.entityId))
+  );
+  const inboxUnreadCount = inboxGroups.filter((g) => g.unread).length;
+
+  const activityCount = inboxUnreadCount + pendingItems.length;
   const totalCount = activityCount + followedBooksCount;
 
   // Determine which clear action to show based on active tab
-  const showClearButton = (activeTab === 'activity' && activityCount > 0) ||
+  const showClearButton = (activeTab === 'activity' && inboxUnreadCount > 0) ||
                           (activeTab === 'following' && followedBooksCount > 0);
 
   const handleClear = () => {
     if (activeTab === 'activity') {
-      markLikesAsSeen();
-      markFollowersAsSeen();
-      markRecommendationsAsSeen();
-      markMysteryBooksAsSeen();
+      markAllAsRead();
     } else {
       markFollowsAsSeen();
     }
@@ -128,239 +126,63 @@ export function NotificationBell() {
                 className="h-6 text-xs gap-1 text-muted-foreground hover:text-foreground font-sans"
               >
                 <Check className="h-3 w-3" />
-                Clear
+                {activeTab === 'activity' ? 'Mark all read' : 'Clear'}
               </Button>
             )}
           </div>
 
-          {/* Activity Tab (Likes + Followers + Recommendations) */}
+          {/* Activity Tab (pending gifts first, then the notifications inbox) */}
           <TabsContent value="activity" className="m-0">
             <ScrollArea className="max-h-[320px]">
-              {(isLoading || loadingFollowers || loadingRecommendations || loadingMysteryBooks) ? (
+              {isLoading ? (
                 <div className="p-4 text-center text-sm text-muted-foreground font-sans">
                   Loading...
                 </div>
-              ) : (newLikes.length === 0 && newFollowers.length === 0 && pendingRecommendations.length === 0 && pendingMysteryBooks.length === 0 && reactionNotifications.length === 0) ? (
+              ) : inboxGroups.length === 0 && pendingItems.length === 0 ? (
                 <div className="p-6 text-center">
                   <Heart className="h-8 w-8 mx-auto text-muted-foreground/50 mb-2" />
                   <p className="text-sm text-muted-foreground font-sans">
-                    No new activity
+                    No notifications yet
                   </p>
                   <p className="text-xs text-muted-foreground/70 mt-1 font-sans">
-                    Likes, followers, and book recommendations will appear here
+                    Likes, comments, followers, and book recommendations will appear here
                   </p>
                 </div>
               ) : (
                 <div className="divide-y divide-border">
-                  {/* Combine and sort by date */}
-                  {[
-                    ...reactionNotifications.map(mb => ({ type: 'mysteryBookReaction' as const, data: mb, date: new Date(mb.reactedAt!) })),
-                    ...pendingMysteryBooks.map(mb => ({ type: 'mysteryBook' as const, data: mb, date: new Date(mb.createdAt) })),
-                    ...pendingRecommendations.map(r => ({ type: 'recommendation' as const, data: r, date: new Date(r.createdAt) })),
-                    ...newFollowers.map(f => ({ type: 'follower' as const, data: f, date: new Date(f.followedAt) })),
-                    ...newLikes.map(l => ({ type: 'like' as const, data: l, date: new Date(l.likedAt) })),
-                  ]
-                    .sort((a, b) => b.date.getTime() - a.date.getTime())
-                    .map((item) => (
-                      <div
-                        key={
-                          item.type === 'mysteryBookReaction'
-                            ? `mbr-${item.data.id}`
-                            : item.type === 'mysteryBook'
-                              ? `mb-${item.data.id}`
-                              : item.type === 'recommendation'
-                                ? `rec-${item.data.id}`
-                                : item.type === 'follower'
-                                  ? `follower-${item.data.id}`
-                                  : `like-${item.data.id}`
-                        }
-                        className="px-3 py-2.5 hover:bg-muted/50 transition-colors"
-                      >
-                        {item.type === 'mysteryBookReaction' ? (
-                          /* Reaction on a mystery book the current user sent */
-                          <div className="flex items-start gap-2.5">
-                            {(item.data as MysteryBook).toUsername ? (
-                              <Link to={`/u/${(item.data as MysteryBook).toUsername}`} className="shrink-0">
-                                <Avatar className="w-8 h-8">
-                                  <AvatarImage src={(item.data as MysteryBook).toAvatarUrl || undefined} alt={(item.data as MysteryBook).toUsername!} />
-                                  <AvatarFallback className="text-xs font-sans">
-                                    {(item.data as MysteryBook).toUsername!.slice(0, 2).toUpperCase()}
-                                  </AvatarFallback>
-                                </Avatar>
-                              </Link>
-                            ) : (
-                              <div className="p-1.5 rounded-full bg-amber-100 dark:bg-amber-900/30 shrink-0">
-                                <Gift className="h-3.5 w-3.5 text-amber-600" />
-                              </div>
-                            )}
-                            <div className="flex-1 min-w-0">
-                              <p className="text-sm leading-snug font-sans">
-                                {(item.data as MysteryBook).toUsername ? (
-                                  <Link
-                                    to={`/u/${(item.data as MysteryBook).toUsername}`}
-                                    className="font-medium hover:underline"
-                                  >
-                                    {(item.data as MysteryBook).toUsername}
-                                  </Link>
-                                ) : (
-                                  <span className="text-muted-foreground">Someone</span>
-                                )}
-                                {' reacted '}
-                                <span className="text-lg">{(item.data as MysteryBook).reactionEmoji}</span>
-                                {' to your mystery book '}
-                                <span className="font-medium">{(item.data as MysteryBook).title}</span>
-                              </p>
-                              {(item.data as MysteryBook).reactionNote && (
-                                <p className="text-xs text-muted-foreground mt-0.5 italic font-sans">
-                                  "{(item.data as MysteryBook).reactionNote}"
-                                </p>
-                              )}
-                              <p className="text-xs text-muted-foreground mt-0.5 font-sans">
-                                {formatDistanceToNow(item.date, { addSuffix: true })}
-                              </p>
-                            </div>
-                            <Gift className="h-4 w-4 text-amber-600 shrink-0 mt-0.5" />
-                          </div>
-                        ) : item.type === 'mysteryBook' ? (
-                          <MysteryBookNotificationCard
-                            mysteryBook={item.data as MysteryBook}
-                            onUnwrap={handleOpenUnwrap}
-                          />
-                        ) : item.type === 'recommendation' ? (
-                          <div className="space-y-2">
-                            <div className="flex items-start gap-2.5">
-                              {item.data.fromUsername ? (
-                                <Link to={`/u/${item.data.fromUsername}`} className="shrink-0">
-                                  <Avatar className="w-8 h-8">
-                                    <AvatarImage src={item.data.fromAvatarUrl || undefined} alt={item.data.fromUsername} />
-                                    <AvatarFallback className="text-xs font-sans">
-                                      {item.data.fromUsername.slice(0, 2).toUpperCase()}
-                                    </AvatarFallback>
-                                  </Avatar>
-                                </Link>
-                              ) : (
-                                <div className="p-1.5 rounded-full bg-amber-100 dark:bg-amber-900/30 shrink-0">
-                                  <Gift className="h-3.5 w-3.5 text-amber-600" />
-                                </div>
-                              )}
-                              <div className="flex-1 min-w-0">
-                                <p className="text-sm leading-snug font-sans">
-                                  {item.data.fromUsername ? (
-                                    <Link
-                                      to={`/u/${item.data.fromUsername}`}
-                                      className="font-medium hover:underline"
-                                    >
-                                      {item.data.fromUsername}
-                                    </Link>
-                                  ) : (
-                                    <span className="text-muted-foreground">Someone</span>
-                                  )}
-                                  {' recommends '}
-                                  <span className="font-medium">{item.data.title}</span>
-                                </p>
-                                {item.data.message && (
-                                  <p className="text-xs text-muted-foreground mt-0.5 italic font-sans">
-                                    "{item.data.message}"
-                                  </p>
-                                )}
-                                <p className="text-xs text-muted-foreground mt-0.5 font-sans">
-                                  {formatDistanceToNow(item.date, { addSuffix: true })}
-                                </p>
-                              </div>
-                              <Gift className="h-4 w-4 text-amber-600 shrink-0 mt-0.5" />
-                            </div>
-                            {/* Accept/Decline buttons */}
-                            <div className="flex gap-2 ml-10">
-                              <Button
-                                size="sm"
-                                variant="default"
-                                className="h-7 text-xs gap-1 flex-1"
-                                onClick={() => handleAccept(item.data)}
-                              >
-                                <Check className="h-3 w-3" />
-                                Add to shelf
-                              </Button>
-                              <Button
-                                size="sm"
-                                variant="ghost"
-                                className="h-7 text-xs gap-1 text-muted-foreground"
-                                onClick={() => handleDecline(item.data.id)}
-                              >
-                                <X className="h-3 w-3" />
-                                Decline
-                              </Button>
-                            </div>
-                          </div>
-                        ) : (
-                          <div className="flex items-start gap-2.5">
-                            {item.type === 'follower' ? (
-                              <>
-                                <Link to={`/u/${item.data.username}`} className="shrink-0">
-                                  <Avatar className="w-8 h-8">
-                                    <AvatarImage src={item.data.avatarUrl || undefined} alt={item.data.username} />
-                                    <AvatarFallback className="text-xs font-sans">
-                                      {item.data.username.slice(0, 2).toUpperCase()}
-                                    </AvatarFallback>
-                                  </Avatar>
-                                </Link>
-                                <div className="flex-1 min-w-0">
-                                  <p className="text-sm leading-snug font-sans">
-                                    <Link
-                                      to={`/u/${item.data.username}`}
-                                      className="font-medium hover:underline"
-                                    >
-                                      {item.data.username}
-                                    </Link>
-                                    {' started following you'}
-                                  </p>
-                                  <p className="text-xs text-muted-foreground mt-0.5 font-sans">
-                                    {formatDistanceToNow(item.date, { addSuffix: true })}
-                                  </p>
-                                </div>
-                                <UserPlus className="h-4 w-4 text-primary shrink-0 mt-0.5" />
-                              </>
-                            ) : (
-                              <>
-                                {item.data.username ? (
-                                  <Link to={`/u/${item.data.username}`} className="shrink-0">
-                                    <Avatar className="w-8 h-8">
-                                      <AvatarImage src={item.data.avatarUrl || undefined} alt={item.data.username} />
-                                      <AvatarFallback className="text-xs font-sans">
-                                        {item.data.username.slice(0, 2).toUpperCase()}
-                                      </AvatarFallback>
-                                    </Avatar>
-                                  </Link>
-                                ) : (
-                                  <div className="p-1.5 rounded-full bg-pink-100 dark:bg-pink-900/30 shrink-0">
-                                    <Heart className="h-3.5 w-3.5 text-pink-500 fill-pink-500" />
-                                  </div>
-                                )}
-                                <div className="flex-1 min-w-0">
-                                  <p className="text-sm leading-snug font-sans">
-                                    {item.data.username ? (
-                                      <Link
-                                        to={`/u/${item.data.username}`}
-                                        className="font-medium hover:underline"
-                                      >
-                                        {item.data.username}
-                                      </Link>
-                                    ) : (
-                                      <span className="text-muted-foreground">Someone</span>
-                                    )}
-                                    {' liked '}
-                                    <span className="font-medium">{item.data.bookTitle}</span>
-                                  </p>
-                                  <p className="text-xs text-muted-foreground mt-0.5 font-sans">
-                                    {formatDistanceToNow(item.date, { addSuffix: true })}
-                                  </p>
-                                </div>
-                                <Heart className="h-4 w-4 text-pink-500 fill-pink-500 shrink-0 mt-0.5" />
-                              </>
-                            )}
-                          </div>
-                        )}
-                      </div>
-                    ))}
+                  {pendingItems.map((item) => (
+                    <div key={`${item.type}-${item.data.id}`} className="px-3 py-2.5 bg-primary/5">
+                      {item.type === 'mystery_book' ? (
+                        <MysteryBookNotificationCard mysteryBook={item.data} onUnwrap={handleOpenUnwrap} />
+                      ) : (
+                        <RecommendationNotificationCard
+                          recommendation={item.data}
+                          onAccept={handleAccept}
+                          onDecline={handleDecline}
+                        />
+                      )}
+                    </div>
+                  ))}
+                  {inboxGroups.map((group) => (
+                    <div
+                      key={group.key}
+                      onClick={() => group.unread && markAsRead(group.notifications.map((n) => n.id))}
+                      className={cn(
+                        "relative px-3 py-2.5 hover:bg-muted/50 transition-colors",
+                        group.unread && "bg-primary/5"
+                      )}
+                    >
+                      {group.unread && (
+                        <span className="absolute left-1 top-1/2 -translate-y-1/2 w-1.5 h-1.5 rounded-full bg-primary" aria-label="Unread" />
+                      )}
+                      <NotificationItem
+                        group={group}
+                        followRequestPending={followRequests.some((f) => f.id === group.latest.entityId)}
+                        onAcceptFollowRequest={acceptFollowRequest}
+                        onDeclineFollowRequest={removeFollower}
+                      />
+                    </div>
+                  ))}
                 </div>
               )}
             </ScrollArea>
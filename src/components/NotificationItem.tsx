@@ -0,0 +1,146 @@
+import { Link } from 'react-router-dom';
+import { Heart, MessageCircle, Reply, AtSign, UserPlus, UserCheck, Gift, CalendarDays, MessagesSquare, Check, X } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Button } from '@/components/ui/button';
+import { formatActors, type NotificationGroup } from '@/lib/notifications';
+import { cn } from '@/lib/utils';
+
+interface NotificationItemProps {
+  group: NotificationGroup;
+  /** Whether the follow request behind this notification is still waiting on an answer */
+  followRequestPending?: boolean;
+  onAcceptFollowRequest: (followerUserId: string) => void;
+  onDeclineFollowRequest: (followerUserId: string) => void;
+}
+
+const TYPE_ICONS = {
+  like: <Heart className="h-4 w-4 text-pink-500 fill-pink-500 shrink-0 mt-0.5" />,
+  comment: <MessageCircle className="h-4 w-4 text-primary shrink-0 mt-0.5" />,
+  reply: <Reply className="h-4 w-4 text-primary shrink-0 mt-0.5" />,
+  mention: <AtSign className="h-4 w-4 text-primary shrink-0 mt-0.5" />,
+  follow: <UserPlus className="h-4 w-4 text-primary shrink-0 mt-0.5" />,
+  follow_request: <UserPlus className="h-4 w-4 text-primary shrink-0 mt-0.5" />,
+  follow_accepted: <UserCheck className="h-4 w-4 text-primary shrink-0 mt-0.5" />,
+  recommendation: <Gift className="h-4 w-4 text-amber-600 shrink-0 mt-0.5" />,
+  mystery_book: <Gift className="h-4 w-4 text-amber-600 shrink-0 mt-0.5" />,
+  mystery_reaction: <Gift className="h-4 w-4 text-amber-600 shrink-0 mt-0.5" />,
+  club_meeting: <CalendarDays className="h-4 w-4 text-primary shrink-0 mt-0.5" />,
+  meeting_reminder: <CalendarDays className="h-4 w-4 text-primary shrink-0 mt-0.5" />,
+  club_discussion: <MessagesSquare className="h-4 w-4 text-primary shrink-0 mt-0.5" />,
+};
+
+export function NotificationItem({
+  group,
+  followRequestPending,
+  onAcceptFollowRequest,
+  onDeclineFollowRequest,
+}: NotificationItemProps) {
+  const { latest } = group;
+
+  const isSingleActor = new Set(group.notifications.map((n) => n.actorId)).size === 1;
+  const actors = formatActors(group);
+
+  const action = {
+    like: <>{' liked '}<span className="font-medium">{latest.title}</span></>,
+    comment: <>{' commented on '}<span className="font-medium">{latest.title}</span></>,
+    reply: <>{' replied to your comment on '}<span className="font-medium">{latest.title}</span></>,
+    mention: <>{' mentioned you on '}<span className="font-medium">{latest.title}</span></>,
+    follow: ' started following you',
+    follow_request: ' wants to follow you',
+    follow_accepted: ' accepted your follow request',
+    recommendation: <>{' recommends '}<span className="font-medium">{latest.title}</span></>,
+    mystery_book: ' wrapped a mystery book for you',
+    mystery_reaction: (
+      <>
+        {' reacted '}
+        <span className="text-lg">{latest.body?.split(' ')[0]}</span>
+        {' to your mystery book '}
+        <span className="font-medium">{latest.title}</span>
+      </>
+    ),
+    club_meeting: <>{' scheduled a meeting for '}<span className="font-medium">{latest.title}</span></>,
+    meeting_reminder: <>{'Reminder: '}<span className="font-medium">{latest.title}</span>{' meets within a day'}</>,
+    club_discussion: <>{' replied in '}<span className="font-medium">{latest.title}</span></>,
+  }[group.type];
+
+  // Comment text, recommendation message or reaction note, only when it's one person's
+  const quote =
+    group.notifications.length > 1
+      ? null
+      : group.type === 'mystery_reaction'
+        ? latest.body?.split(' ').slice(1).join(' ')
+        : group.type === 'mystery_book'
+          ? null
+          : latest.body;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-start gap-2.5">
+        {latest.actorUsername ? (
+          <Link to={`/u/${latest.actorUsername}`} className="shrink-0">
+            <Avatar className="w-8 h-8">
+              <AvatarImage src={latest.actorAvatarUrl || undefined} alt={latest.actorUsername} />
+              <AvatarFallback className="text-xs font-sans">
+                {latest.actorUsername.slice(0, 2).toUpperCase()}
+              </AvatarFallback>
+            </Avatar>
+          </Link>
+        ) : (
+          <div className="p-1.5 rounded-full bg-muted shrink-0">
+            {TYPE_ICONS[group.type]}
+          </div>
+        )}
+        <div className="flex-1 min-w-0">
+          <p className="text-sm leading-snug font-sans">
+            {/* Reminders come from the app rather than a person */}
+            {group.type === 'meeting_reminder' ? null : isSingleActor && latest.actorUsername ? (
+              <Link
+                to={`/u/${latest.actorUsername}`}
+                className="font-medium hover:underline"
+              >
+                {latest.actorUsername}
+              </Link>
+            ) : (
+              <span className={cn('font-medium', !latest.actorUsername && 'text-muted-foreground')}>{actors}</span>
+            )}
+            {action}
+          </p>
+          {quote && (
+            <p className="text-xs text-muted-foreground mt-0.5 italic font-sans line-clamp-2">
+              "{quote}"
+            </p>
+          )}
+          <p className="text-xs text-muted-foreground mt-0.5 font-sans">
+            {formatDistanceToNow(new Date(latest.createdAt), { addSuffix: true })}
+          </p>
+        </div>
+        {TYPE_ICONS[group.type]}
+      </div>
+
+      {/* Accept/Decline buttons while the follow request is still pending */}
+      {group.type === 'follow_request' && followRequestPending && latest.actorId && (
+        <div className="flex gap-2 ml-10">
+          <Button
+            size="sm"
+            variant="default"
+            className="h-7 text-xs gap-1 flex-1"
+            onClick={() => onAcceptFollowRequest(latest.actorId!)}
+          >
+            <Check className="h-3 w-3" />
+            Accept
+          </Button>
+          <Button
+            size="sm"
+            variant="ghost"
+            className="h-7 text-xs gap-1 text-muted-foreground"
+            onClick={() => onDeclineFollowRequest(latest.actorId!)}
+          >
+            <X className="h-3 w-3" />
+            Decline
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+import { Switch } from '@/components/ui/switch';
+import { useNotificationPreferences } from '@/hooks/useNotificationPreferences';
+import { NOTIFICATION_TYPES } from '@/lib/notifications';
+
+/** In-app and email toggles for each notification type */
+export function NotificationPreferences() {
+  const { preferences, weeklyDigest, isLoading, updatePreference, updateWeeklyDigest } = useNotificationPreferences();
+
+  return (
+    <div className="space-y-2">
+      <h3 className="text-sm font-medium font-sans">Notifications</h3>
+      <p className="text-sm text-muted-foreground font-sans">
+        Choose what shows up in your inbox and what we email you about.
+      </p>
+      <div className="rounded-lg border border-border divide-y divide-border">
+        <div className="grid grid-cols-[1fr_auto_auto] gap-x-4 px-3 py-1.5 text-xs text-muted-foreground font-sans">
+          <span />
+          <span className="w-11 text-center">In-app</span>
+          <span className="w-11 text-center">Email</span>
+        </div>
+        {NOTIFICATION_TYPES.map(({ type, label, description, hasEmail }) => (
+          <div key={type} className="grid grid-cols-[1fr_auto_auto] items-center gap-x-4 px-3 py-2">
+            <div className="min-w-0">
+              <p className="text-sm font-medium font-sans">{label}</p>
+              <p className="text-xs text-muted-foreground font-sans">{description}</p>
+            </div>
+            <Switch
+              checked={preferences[type].in_app}
+              onCheckedChange={(checked) => updatePreference(type, 'in_app', checked)}
+              disabled={isLoading}
+              aria-label={`${label} in-app`}
+            />
+            {hasEmail ? (
+              <Switch
+                checked={preferences[type].email}
+                onCheckedChange={(checked) => updatePreference(type, 'email', checked)}
+                disabled={isLoading}
+                aria-label={`${label} email`}
+              />
+            ) : (
+              <span className="w-11 text-center text-xs text-muted-foreground">—</span>
+            )}
+          </div>
+        ))}
+        <div className="grid grid-cols-[1fr_auto_auto] items-center gap-x-4 px-3 py-2">
+          <div className="min-w-0">
+            <p className="text-sm font-medium font-sans">Weekly digest</p>
+            <p className="text-xs text-muted-foreground font-sans">
+              A weekly roundup of friends' finished books, comments on your books and club news
+            </p>
+          </div>
+          <span className="w-11" />
+          <Switch
+            checked={weeklyDigest}
+            onCheckedChange={updateWeeklyDigest}
+            disabled={isLoading}
+            aria-label="Weekly digest email"
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,214 @@
+import { useState, useEffect, useMemo, useRef } from 'react';
+import posthog from 'posthog-js';
+import { Book, GoalMetric, GoalPeriod, ReadingGoal } from '@/types/book';
+import { useReadingGoals } from '@/hooks/useReadingGoals';
+import { useBookAnimations } from '@/contexts/BookAnimationContext';
+import { computeGoalProgress, formatGoalLabel, formatGoalPeriod, getGoalPeriodStart } from '@/lib/readingGoals';
+import { ReadingGoalProgress } from '@/components/ReadingGoalProgress';
+import { GoalCelebration } from '@/components/GoalCelebration';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { cn } from '@/lib/utils';
+import { Pencil, Target } from 'lucide-react';
+import { toast } from 'sonner';
+
+interface ReadingGoalCardProps {
+  /** The owner's books - progress is computed from these */
+  books: Book[];
+  className?: string;
+}
+
+const DEFAULT_TARGETS: Record<GoalPeriod, Record<GoalMetric, number>> = {
+  year: { books: 24, pages: 7500 },
+  month: { books: 2, pages: 600 },
+};
+
+/**
+ * The signed-in user's current yearly/monthly goals with an inline editor.
+ * Fires the goal celebration when a goal flips to complete while the card is mounted.
+ */
+export function ReadingGoalCard({ books, className }: ReadingGoalCardProps) {
+  const { goals, yearlyGoal, loading, setGoal, removeGoal } = useReadingGoals();
+  const { celebrateGoal } = useBookAnimations();
+  const [editorOpen, setEditorOpen] = useState(false);
+  const [period, setPeriod] = useState<GoalPeriod>('year');
+  const [metric, setMetric] = useState<GoalMetric>('books');
+  const [target, setTarget] = useState(String(DEFAULT_TARGETS.year.books));
+  const [saving, setSaving] = useState(false);
+
+  // Yearly goal first, then monthly
+  const sortedGoals = useMemo(
+    () => [...goals].sort((a, b) => (a.period === b.period ? 0 : a.period === 'year' ? -1 : 1)),
+    [goals]
+  );
+
+  const progressByGoal = useMemo(
+    () => new Map(sortedGoals.map((goal) => [goal.id, computeGoalProgress(goal, books)])),
+    [sortedGoals, books]
+  );
+
+  // Remember completion per goal so only a transition (not the initial load) celebrates
+  const completionRef = useRef<Map<string, boolean>>(new Map());
+  useEffect(() => {
+    if (loading) return;
+    sortedGoals.forEach((goal) => {
+      const key = `${goal.id}:${goal.target}:${goal.metric}`;
+      const isComplete = progressByGoal.get(goal.id)?.isComplete ?? false;
+      const wasComplete = completionRef.current.get(key);
+      if (wasComplete === false && isComplete) {
+        celebrateGoal();
+        toast.success(`You reached your ${formatGoalLabel(goal.period, goal.periodStart)}!`);
+        posthog.capture('reading_goal_completed', { period: goal.period, metric: goal.metric, target: goal.target });
+      }
+      completionRef.current.set(key, isComplete);
+    });
+  }, [loading, sortedGoals, progressByGoal, celebrateGoal]);
+
+  const openEditor = (goal?: ReadingGoal) => {
+    const nextPeriod = goal?.period ?? (yearlyGoal ? 'month' : 'year');
+    const nextMetric = goal?.metric ?? 'books';
+    setPeriod(nextPeriod);
+    setMetric(nextMetric);
+    setTarget(String(goal?.target ?? DEFAULT_TARGETS[nextPeriod][nextMetric]));
+    setEditorOpen(true);
+  };
+
+  const existingForPeriod = goals.find((g) => g.period === period);
+  const numericTarget = Number(target);
+  const isValid = Number.isInteger(numericTarget) && numericTarget > 0;
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isValid) return;
+    setSaving(true);
+    const success = await setGoal(period, metric, numericTarget);
+    setSaving(false);
+    if (success) setEditorOpen(false);
+  };
+
+  const handleRemove = async () => {
+    if (!existingForPeriod) return;
+    await removeGoal(existingForPeriod.id);
+    setEditorOpen(false);
+  };
+
+  if (loading) return null;
+
+  return (
+    <>
+      <div className={cn('mb-4 py-3 px-4 rounded-lg border border-border bg-card/60', className)}>
+        <Popover open={editorOpen} onOpenChange={setEditorOpen}>
+          {sortedGoals.length === 0 ? (
+            <div className="flex items-center gap-3">
+              <Target className="w-5 h-5 text-muted-foreground shrink-0" />
+              <p className="text-sm text-muted-foreground flex-1">
+                How many books will you read in {formatGoalPeriod('year', getGoalPeriodStart('year'))}?
+              </p>
+              <PopoverTrigger asChild>
+                <Button variant="outline" size="sm" className="shrink-0" onClick={() => openEditor()}>
+                  Set a goal
+                </Button>
+              </PopoverTrigger>
+            </div>
+          ) : (
+            <div className="flex items-start gap-3">
+              <div className="flex-1 min-w-0 space-y-3">
+                {sortedGoals.map((goal) => (
+                  <ReadingGoalProgress
+                    key={goal.id}
+                    label={formatGoalLabel(goal.period, goal.periodStart)}
+                    metric={goal.metric}
+                    progress={progressByGoal.get(goal.id)!}
+                  />
+                ))}
+              </div>
+              <PopoverTrigger asChild>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7 shrink-0 text-muted-foreground"
+                  onClick={() => openEditor(sortedGoals[0])}
+                  title="Edit goals"
+                >
+                  <Pencil className="w-3.5 h-3.5" />
+                </Button>
+              </PopoverTrigger>
+            </div>
+          )}
+
+          <PopoverContent align="end" className="w-72">
+            <form onSubmit={handleSave} className="space-y-3">
+              <p className="text-sm font-medium">Reading goal</p>
+              <ToggleGroup
+                type="single"
+                size="sm"
+                value={period}
+                onValueChange={(v) => {
+                  if (!v) return;
+                  const nextPeriod = v as GoalPeriod;
+                  const existing = goals.find((g) => g.period === nextPeriod);
+                  setPeriod(nextPeriod);
+                  setMetric(existing?.metric ?? metric);
+                  setTarget(String(existing?.target ?? DEFAULT_TARGETS[nextPeriod][existing?.metric ?? metric]));
+                }}
+                className="justify-start"
+              >
+                <ToggleGroupItem value="year" className="h-8 px-3 text-xs">
+                  This year
+                </ToggleGroupItem>
+                <ToggleGroupItem value="month" className="h-8 px-3 text-xs">
+                  This month
+                </ToggleGroupItem>
+              </ToggleGroup>
+              <div className="flex items-center gap-2">
+                <Input
+                  type="number"
+                  inputMode="numeric"
+                  min={1}
+                  value={target}
+                  onChange={(e) => setTarget(e.target.value)}
+                  className="h-8 text-sm w-24"
+                />
+                <ToggleGroup
+                  type="single"
+                  size="sm"
+                  value={metric}
+                  onValueChange={(v) => v && setMetric(v as GoalMetric)}
+                >
+                  <ToggleGroupItem value="books" className="h-8 px-3 text-xs">
+                    Books
+                  </ToggleGroupItem>
+                  <ToggleGroupItem value="pages" className="h-8 px-3 text-xs">
+                    Pages
+                  </ToggleGroupItem>
+                </ToggleGroup>
+              </div>
+              <div className="flex items-center justify-between gap-2">
+                {existingForPeriod ? (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                    onClick={handleRemove}
+                  >
+                    Remove
+                  </Button>
+                ) : (
+                  <span />
+                )}
+                <Button type="submit" size="sm" disabled={!isValid || saving}>
+                  Save
+                </Button>
+              </div>
+            </form>
+          </PopoverContent>
+        </Popover>
+      </div>
+
+      <GoalCelebration />
+    </>
+  );
+}
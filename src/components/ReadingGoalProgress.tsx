@@ -0,0 +1,33 @@
+import { GoalMetric } from '@/types/book';
+import { GoalProgress, formatGoalMetric } from '@/lib/readingGoals';
+import { Progress } from '@/components/ui/progress';
+import { cn } from '@/lib/utils';
+import { Target, Trophy } from 'lucide-react';
+
+interface ReadingGoalProgressProps {
+  label: string;
+  metric: GoalMetric;
+  progress: GoalProgress;
+  className?: string;
+}
+
+/** Read-only goal bar, shared by the owner's card, profiles and public shelves */
+export function ReadingGoalProgress({ label, metric, progress, className }: ReadingGoalProgressProps) {
+  const Icon = progress.isComplete ? Trophy : Target;
+
+  return (
+    <div className={cn('space-y-1.5', className)}>
+      <div className="flex items-center justify-between gap-2 text-xs">
+        <span className="flex items-center gap-1.5 font-medium text-foreground/80">
+          <Icon className={cn('w-3.5 h-3.5', progress.isComplete ? 'text-amber-500' : 'text-muted-foreground')} />
+          {label}
+        </span>
+        <span className="text-muted-foreground tabular-nums">
+          {progress.current.toLocaleString()} / {formatGoalMetric(metric, progress.target)}
+        </span>
+      </div>
+      <Progress value={progress.percent} className="h-1.5" />
+    </div>
+  );
+}
+
@@ -0,0 +1,155 @@
+import { useState } from 'react';
+import { Book } from '@/types/book';
+import { useReadingProgress } from '@/hooks/useReadingProgress';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Progress } from '@/components/ui/progress';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { formatDistanceToNow } from 'date-fns';
+import { Loader2, Trash2, TrendingUp } from 'lucide-react';
+
+type ProgressMode = 'page' | 'percent';
+
+interface ReadingProgressSectionProps {
+  book: Book;
+  onLogProgress: (id: string, entry: { page?: number; percent?: number; note?: string }) => Promise<boolean>;
+  onDeleteProgress?: (id: string, entryId: string) => Promise<boolean>;
+}
+
+/**
+ * Progress log for a currently-reading book: a fill bar, a quick
+ * page/percent update form and the recent history underneath.
+ */
+export function ReadingProgressSection({ book, onLogProgress, onDeleteProgress }: ReadingProgressSectionProps) {
+  const { entries, loading, refetch } = useReadingProgress(book.id);
+  const [mode, setMode] = useState<ProgressMode>(book.pageCount ? 'page' : 'percent');
+  const [value, setValue] = useState('');
+  const [note, setNote] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const percent = book.progressPercent ?? 0;
+  const numericValue = Number(value);
+  const maxValue = mode === 'page' ? book.pageCount : 100;
+  const isValid = value.trim() !== '' && Number.isFinite(numericValue) && numericValue >= 0 &&
+    (maxValue === undefined || numericValue <= maxValue);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isValid) return;
+
+    setSaving(true);
+    const success = await onLogProgress(book.id, {
+      page: mode === 'page' ? Math.round(numericValue) : undefined,
+      percent: mode === 'percent' ? numericValue : undefined,
+      note: note.trim() || undefined,
+    });
+    setSaving(false);
+
+    if (success) {
+      setValue('');
+      setNote('');
+      refetch();
+    }
+  };
+
+  const handleDelete = async (entryId: string) => {
+    if (!onDeleteProgress) return;
+    const success = await onDeleteProgress(book.id, entryId);
+    if (success) refetch();
+  };
+
+  const formatEntry = (page: number | null, entryPercent: number | null) => {
+    if (page !== null && entryPercent !== null) return `Page ${page} · ${Math.round(entryPercent)}%`;
+    if (page !== null) return `Page ${page}`;
+    return `${Math.round(entryPercent ?? 0)}%`;
+  };
+
+  return (
+    <div className="border-t border-border pt-3 space-y-3">
+      <div className="flex items-center justify-between">
+        <p className="text-xs font-medium text-muted-foreground flex items-center gap-1.5">
+          <TrendingUp className="w-3.5 h-3.5" />
+          Progress
+        </p>
+        <span className="text-xs text-muted-foreground">
+          {book.currentPage && book.pageCount
+            ? `${book.currentPage} / ${book.pageCount} pages`
+            : `${Math.round(percent)}%`}
+        </span>
+      </div>
+      <Progress value={percent} className="h-2" />
+
+      <form onSubmit={handleSubmit} className="space-y-2">
+        <div className="flex items-center gap-2">
+          <ToggleGroup
+            type="single"
+            size="sm"
+            value={mode}
+            onValueChange={(v) => v && setMode(v as ProgressMode)}
+            className="shrink-0"
+          >
+            <ToggleGroupItem value="page" className="h-8 px-2 text-xs" disabled={!book.pageCount}>
+              Page
+            </ToggleGroupItem>
+            <ToggleGroupItem value="percent" className="h-8 px-2 text-xs">
+              %
+            </ToggleGroupItem>
+          </ToggleGroup>
+          <Input
+            type="number"
+            inputMode="numeric"
+            min={0}
+            max={maxValue}
+            value={value}
+            onChange={(e) => setValue(e.target.value)}
+            placeholder={mode === 'page' ? `of ${book.pageCount}` : '0–100'}
+            className="h-8 text-sm"
+          />
+          <Button type="submit" size="sm" className="h-8 shrink-0" disabled={!isValid || saving}>
+            {saving ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : 'Update'}
+          </Button>
+        </div>
+        <Input
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          placeholder="Add a note (optional)"
+          maxLength={280}
+          className="h-8 text-sm"
+        />
+      </form>
+
+      {loading ? (
+        <div className="flex justify-center py-2">
+          <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+        </div>
+      ) : entries.length > 0 && (
+        <div className="space-y-1.5 max-h-32 overflow-y-auto">
+          {entries.map((entry) => (
+            <div key={entry.id} className="flex items-start justify-between gap-2 text-xs group">
+              <div className="min-w-0">
+                <span className="font-medium">{formatEntry(entry.page, entry.percent)}</span>
+                <span className="text-muted-foreground">
+                  {' · '}
+                  {formatDistanceToNow(new Date(entry.createdAt), { addSuffix: true })}
+                </span>
+                {entry.note && (
+                  <p className="text-muted-foreground italic truncate">{entry.note}</p>
+                )}
+              </div>
+              {onDeleteProgress && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-5 w-5 shrink-0 opacity-0 group-hover:opacity-100 transition-opacity text-muted-foreground hover:text-destructive"
+                  onClick={() => handleDelete(entry.id)}
+                >
+                  <Trash2 className="w-3 h-3" />
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
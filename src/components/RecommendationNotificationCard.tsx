@@ -0,0 +1,84 @@
+import { Link } from 'react-router-dom';
+import { Check, Gift, X } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Button } from '@/components/ui/button';
+import type { BookRecommendation } from '@/hooks/useBookRecommendations';
+
+interface RecommendationNotificationCardProps {
+  recommendation: BookRecommendation;
+  onAccept: (recommendation: BookRecommendation) => void;
+  onDecline: (recommendationId: string) => void;
+}
+
+export function RecommendationNotificationCard({
+  recommendation,
+  onAccept,
+  onDecline,
+}: RecommendationNotificationCardProps) {
+  return (
+    <div className="space-y-2">
+      <div className="flex items-start gap-2.5">
+        {recommendation.fromUsername ? (
+          <Link to={`/u/${recommendation.fromUsername}`} className="shrink-0">
+            <Avatar className="w-8 h-8">
+              <AvatarImage src={recommendation.fromAvatarUrl || undefined} alt={recommendation.fromUsername} />
+              <AvatarFallback className="text-xs font-sans">
+                {recommendation.fromUsername.slice(0, 2).toUpperCase()}
+              </AvatarFallback>
+            </Avatar>
+          </Link>
+        ) : (
+          <div className="p-1.5 rounded-full bg-amber-100 dark:bg-amber-900/30 shrink-0">
+            <Gift className="h-3.5 w-3.5 text-amber-600" />
+          </div>
+        )}
+        <div className="flex-1 min-w-0">
+          <p className="text-sm leading-snug font-sans">
+            {recommendation.fromUsername ? (
+              <Link
+                to={`/u/${recommendation.fromUsername}`}
+                className="font-medium hover:underline"
+              >
+                {recommendation.fromUsername}
+              </Link>
+            ) : (
+              <span className="text-muted-foreground">Someone</span>
+            )}
+            {' recommends '}
+            <span className="font-medium">{recommendation.title}</span>
+          </p>
+          {recommendation.message && (
+            <p className="text-xs text-muted-foreground mt-0.5 italic font-sans line-clamp-2">
+              "{recommendation.message}"
+            </p>
+          )}
+          <p className="text-xs text-muted-foreground mt-0.5 font-sans">
+            {formatDistanceToNow(new Date(recommendation.createdAt), { addSuffix: true })}
+          </p>
+        </div>
+        <Gift className="h-4 w-4 text-amber-600 shrink-0 mt-0.5" />
+      </div>
+      <div className="flex gap-2 ml-10">
+        <Button
+          size="sm"
+          variant="default"
+          className="h-7 text-xs gap-1 flex-1"
+          onClick={() => onAccept(recommendation)}
+        >
+          <Check className="h-3 w-3" />
+          Add to shelf
+        </Button>
+        <Button
+          size="sm"
+          variant="ghost"
+          className="h-7 text-xs gap-1 text-muted-foreground"
+          onClick={() => onDecline(recommendation.id)}
+        >
+          <X className="h-3 w-3" />
+          Decline
+        </Button>
+      </div>
+    </div>
+  );
+}
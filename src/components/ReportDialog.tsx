@@ -0,0 +1,113 @@
+import { useState } from 'react';
+import posthog from 'posthog-js';
+import { Loader2, Flag } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Textarea } from '@/components/ui/textarea';
+import { REPORT_REASONS, getReportTargetLabel, type ReportReason, type ReportTargetType } from '@/lib/reports';
+import { toast } from 'sonner';
+
+interface ReportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  targetType: ReportTargetType;
+  targetId: string;
+}
+
+export function ReportDialog({ open, onOpenChange, targetType, targetId }: ReportDialogProps) {
+  const { user } = useAuth();
+  const [reason, setReason] = useState<ReportReason | null>(null);
+  const [details, setDetails] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleOpenChange = (isOpen: boolean) => {
+    onOpenChange(isOpen);
+    if (!isOpen) {
+      setReason(null);
+      setDetails('');
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (!user || !reason) return;
+
+    setIsSubmitting(true);
+    try {
+      const { error } = await supabase.from('content_reports').insert({
+        reporter_id: user.id,
+        target_type: targetType,
+        target_id: targetId,
+        reason,
+        details: details.trim() || null,
+      });
+
+      // Unique violation: this person already reported it
+      if (error && error.code !== '23505') throw error;
+
+      posthog.capture('content_reported', { target_type: targetType, reason });
+      toast.success('Thanks for letting us know', {
+        description: "We'll review your report shortly.",
+      });
+      handleOpenChange(false);
+    } catch (error) {
+      console.error('Report error:', error);
+      toast.error('Failed to send report');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Flag className="h-5 w-5" />
+            Report {getReportTargetLabel(targetType)}
+          </DialogTitle>
+          <DialogDescription>
+            Reports are private. Our moderators will take a look.
+          </DialogDescription>
+        </DialogHeader>
+
+        <RadioGroup value={reason ?? ''} onValueChange={(v) => setReason(v as ReportReason)} className="gap-2">
+          {REPORT_REASONS.map(({ value, label }) => (
+            <div key={value} className="flex items-center gap-2">
+              <RadioGroupItem value={value} id={`report-${value}`} />
+              <Label htmlFor={`report-${value}`} className="font-normal">{label}</Label>
+            </div>
+          ))}
+        </RadioGroup>
+
+        <Textarea
+          value={details}
+          onChange={(e) => setDetails(e.target.value)}
+          placeholder="Anything else we should know? (optional)"
+          className="min-h-[80px] text-sm resize-none"
+          maxLength={500}
+        />
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={() => handleOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button variant="destructive" onClick={handleSubmit} disabled={!reason || isSubmitting}>
+            {isSubmitting && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+            Send report
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -2,6 +2,7 @@ import { useState, useEffect, useRef } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import { useProfile } from '@/contexts/ProfileContext';
 import { useBookSearch, getCoverUrl } from '@/hooks/useBookSearch';
+import { useBlocks } from '@/hooks/useBlocks';
 import { supabase } from '@/integrations/supabase/client';
 import {
   Dialog,
@@ -37,6 +38,7 @@ export function SendMysteryBookDialog({
   const { user } = useAuth();
   const { profile } = useProfile();
   const { results, isLoading, searchBooks, clearResults } = useBookSearch();
+  const { isBlocked } = useBlocks();
 
   const [step, setStep] = useState<Step>('search');
   const [query, setQuery] = useState('');
@@ -151,6 +153,10 @@ export function SendMysteryBookDialog({
 
   const handleSend = async () => {
     if (!user || !selectedBook || !selectedMood || !teaser.trim() || !emojiClue.trim()) return;
+    if (isBlocked(targetUserId)) {
+      toast.error(`You can't send mystery books to ${targetUsername}`);
+      return;
+    }
 
     setIsSending(true);
     try {
@@ -11,8 +11,11 @@ import {
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { Share2, Copy, Check, Globe } from 'lucide-react';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Share2, Copy, Check } from 'lucide-react';
 import { useShelfSettingsContext } from '@/contexts/ShelfSettingsContext';
+import { SHELF_VISIBILITY_OPTIONS } from '@/lib/shelfVisibility';
+import type { ShelfVisibility } from '@/types/book';
 import { toast } from 'sonner';
 
 interface ShareShelfDialogProps {
@@ -21,7 +24,7 @@ interface ShareShelfDialogProps {
 }
 
 export function ShareShelfDialog({ open: controlledOpen, onOpenChange: controlledOnOpenChange }: ShareShelfDialogProps = {}) {
-  const { settings, loading, updateDisplayName, getShareUrl } = useShelfSettingsContext();
+  const { settings, loading, updateDisplayName, updateVisibility, getShareUrl } = useShelfSettingsContext();
   const [internalOpen, setInternalOpen] = useState(false);
   const [copied, setCopied] = useState(false);
   const [displayNameInput, setDisplayNameInput] = useState('');
@@ -73,17 +76,27 @@ export function ShareShelfDialog({ open: controlledOpen, onOpenChange: controlle
       </DialogHeader>
 
       <div className="space-y-6 py-4">
-        {/* Public status indicator */}
-        <div className="flex items-center gap-3 p-3 rounded-lg bg-emerald-50 dark:bg-emerald-900/20 border border-emerald-200 dark:border-emerald-800">
-          <Globe className="w-5 h-5 text-emerald-600 dark:text-emerald-400" />
-          <div>
-            <p className="text-sm font-medium text-emerald-700 dark:text-emerald-300">
-              Your shelf is public
-            </p>
-            <p className="text-xs text-emerald-600/80 dark:text-emerald-400/80">
-              Anyone with the link can view your books
-            </p>
-          </div>
+        {/* Who can see the shelf */}
+        <div className="space-y-2">
+          <Label>Who can see your shelf</Label>
+          <RadioGroup
+            value={settings.visibility}
+            onValueChange={(v) => updateVisibility(v as ShelfVisibility)}
+            className="gap-2"
+          >
+            {SHELF_VISIBILITY_OPTIONS.map(({ value, label, description }) => (
+              <div key={value} className="flex items-start gap-2">
+                <RadioGroupItem value={value} id={`visibility-${value}`} className="mt-0.5" />
+                <Label htmlFor={`visibility-${value}`} className="font-normal leading-snug">
+                  {label}
+                  <span className="block text-xs text-muted-foreground">{description}</span>
+                </Label>
+              </div>
+            ))}
+          </RadioGroup>
+          <p className="text-xs text-muted-foreground">
+            You can also hide individual books from their details.
+          </p>
         </div>
 
         {/* Display name */}
@@ -120,7 +133,7 @@ export function ShareShelfDialog({ open: controlledOpen, onOpenChange: controlle
         </div>
 
         {/* Share link */}
-        {shareUrl && (
+        {shareUrl && settings.visibility !== 'private' && (
           <div className="space-y-2">
             <Label>Share Link</Label>
             <div className="flex gap-2 items-center">
@@ -1,10 +1,12 @@
 import { BookStatus, SortOption } from '@/types/book';
-import { BookOpen, BookMarked, CheckCircle, Shuffle, ArrowDownAZ, Clock, Layers, Filter, ChevronDown, Tag } from 'lucide-react';
+import { BookOpen, BookMarked, CheckCircle, Shuffle, ArrowDownAZ, Clock, Layers, Star, GripVertical, Filter, ChevronDown, Tag, Library, Settings2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import {
   DropdownMenu,
+  DropdownMenuCheckboxItem,
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
 import {
@@ -29,6 +31,18 @@ interface ShelfControlsProps {
   activeCategoryFilters?: string[];
   /** Callback when category filters change */
   onCategoryFilterChange?: (categories: string[]) => void;
+  /** Named shelves the viewer can switch between */
+  shelves?: { id: string; name: string; bookCount: number }[];
+  /** Currently selected named shelf (null = whole library) */
+  activeShelfId?: string | null;
+  /** Callback when the selected named shelf changes */
+  onShelfChange?: (shelfId: string | null) => void;
+  /** Opens shelf management - only passed for the shelf owner */
+  onManageShelves?: () => void;
+  /** Whether books of the same series are kept together on the shelf */
+  groupSeries?: boolean;
+  /** Toggles series grouping; the option is hidden when not set */
+  onGroupSeriesChange?: (groupSeries: boolean) => void;
   /** Compact mode - hides labels, shows only icons */
   compact?: boolean;
   /** Spread buttons to fill available width */
@@ -46,6 +60,8 @@ const sortOptions: { value: SortOption; label: string; icon: React.ReactNode }[]
   { value: 'recent', label: 'Recently Added', icon: <Clock className="w-4 h-4" /> },
   { value: 'status-author', label: 'Status + Author', icon: <Layers className="w-4 h-4" /> },
   { value: 'author-title', label: 'Author + Title', icon: <ArrowDownAZ className="w-4 h-4" /> },
+  { value: 'rating', label: 'Highest Rated', icon: <Star className="w-4 h-4" /> },
+  { value: 'custom', label: 'Custom Order', icon: <GripVertical className="w-4 h-4" /> },
 ];
 
 export function ShelfControls({
@@ -58,11 +74,18 @@ export function ShelfControls({
   availableCategories = [],
   activeCategoryFilters = [],
   onCategoryFilterChange,
+  shelves = [],
+  activeShelfId = null,
+  onShelfChange,
+  onManageShelves,
+  groupSeries = false,
+  onGroupSeriesChange,
   compact = false,
   spread = false,
 }: ShelfControlsProps) {
   const [filterOpen, setFilterOpen] = useState(false);
   const [categoryOpen, setCategoryOpen] = useState(false);
+  const [shelfOpen, setShelfOpen] = useState(false);
 
   const toggleFilter = (status: BookStatus) => {
     if (activeFilters.includes(status)) {
@@ -112,8 +135,94 @@ export function ShelfControls({
   // Show category filter only if there are categories available
   const showCategoryFilter = availableCategories.length > 0 && onCategoryFilterChange;
 
+  // Show shelf picker when there are named shelves, or the owner can create one
+  const showShelfPicker = !!onShelfChange && (shelves.length > 0 || !!onManageShelves);
+  const activeShelf = shelves.find((s) => s.id === activeShelfId);
+
+  const getShelfLabel = () => {
+    if (!activeShelf) return 'All Books';
+    return activeShelf.name.length > 16 ? activeShelf.name.slice(0, 16) + '…' : activeShelf.name;
+  };
+
   return (
     <div className={cn("flex items-center gap-1.5 flex-nowrap", spread && "w-full")}>
+      {/* Named Shelf Picker */}
+      {showShelfPicker && (
+        <Popover open={shelfOpen} onOpenChange={setShelfOpen}>
+          <PopoverTrigger asChild>
+            <Button
+              variant="outline"
+              size="sm"
+              className={cn(
+                "gap-1.5 sm:gap-2 focus-visible:ring-0 focus-visible:ring-offset-0",
+                activeShelf && "border-primary/50 bg-primary/5",
+                spread && "flex-1"
+              )}
+            >
+              <Library className="w-4 h-4" />
+              {!compact && <span className="hidden sm:inline">{getShelfLabel()}</span>}
+              <ChevronDown className={cn(
+                "w-3 h-3 transition-transform",
+                shelfOpen && "rotate-180"
+              )} />
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-60 p-2 bg-popover" align="start">
+            <div className="flex flex-col gap-1">
+              <Button
+                variant={!activeShelf ? 'default' : 'ghost'}
+                size="sm"
+                onClick={() => {
+                  onShelfChange?.(null);
+                  setShelfOpen(false);
+                }}
+                className="justify-start gap-2"
+              >
+                All Books
+              </Button>
+
+              <ScrollArea className="max-h-[240px]">
+                <div className="flex flex-col gap-1 pr-2">
+                  {shelves.map((shelf) => {
+                    const isActive = shelf.id === activeShelfId;
+                    return (
+                      <Button
+                        key={shelf.id}
+                        variant={isActive ? 'default' : 'ghost'}
+                        size="sm"
+                        onClick={() => {
+                          onShelfChange?.(shelf.id);
+                          setShelfOpen(false);
+                        }}
+                        className="justify-start gap-2 text-left"
+                      >
+                        <span className="truncate">{shelf.name}</span>
+                        <span className="text-xs opacity-70 ml-auto">({shelf.bookCount})</span>
+                      </Button>
+                    );
+                  })}
+                </div>
+              </ScrollArea>
+
+              {onManageShelves && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => {
+                    setShelfOpen(false);
+                    onManageShelves();
+                  }}
+                  className="justify-start gap-2 border-t border-border rounded-t-none mt-1 pt-2 text-muted-foreground"
+                >
+                  <Settings2 className="w-4 h-4" />
+                  Manage shelves…
+                </Button>
+              )}
+            </div>
+          </PopoverContent>
+        </Popover>
+      )}
+
       {/* Filter Popover */}
       <Popover open={filterOpen} onOpenChange={setFilterOpen}>
         <PopoverTrigger asChild>
@@ -250,6 +359,19 @@ export function ShelfControls({
               {option.label}
             </DropdownMenuItem>
           ))}
+          {onGroupSeriesChange && (
+            <>
+              <DropdownMenuSeparator />
+              {/* Custom order is hand-arranged, so grouping would fight the drag positions */}
+              <DropdownMenuCheckboxItem
+                checked={groupSeries && sortOption !== 'custom'}
+                disabled={sortOption === 'custom'}
+                onCheckedChange={(checked) => onGroupSeriesChange(checked === true)}
+              >
+                Group series
+              </DropdownMenuCheckboxItem>
+            </>
+          )}
         </DropdownMenuContent>
       </DropdownMenu>
 
@@ -0,0 +1,66 @@
+import { useState } from 'react';
+import { Star } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface StarRatingProps {
+  /** 0.5-5 in half-star steps; undefined/null shows empty stars */
+  value?: number | null;
+  /** Makes the stars clickable. Clicking the current value clears it. */
+  onChange?: (value: number | null) => void;
+  size?: 'sm' | 'md';
+  className?: string;
+}
+
+const STARS = [1, 2, 3, 4, 5];
+
+/** Five stars with half-star precision. Read-only unless onChange is given. */
+export function StarRating({ value, onChange, size = 'sm', className }: StarRatingProps) {
+  const [hoverValue, setHoverValue] = useState<number | null>(null);
+  const displayValue = hoverValue ?? value ?? 0;
+  const iconClass = size === 'sm' ? 'w-3.5 h-3.5' : 'w-6 h-6';
+
+  // Left half of a star picks the half value
+  const valueFromPointer = (star: number, e: React.MouseEvent<HTMLElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return e.clientX - rect.left < rect.width / 2 ? star - 0.5 : star;
+  };
+
+  return (
+    <div
+      className={cn('flex items-center', onChange ? 'gap-0.5' : 'gap-px', className)}
+      onMouseLeave={() => setHoverValue(null)}
+      aria-label={value ? `${value} out of 5 stars` : 'Not rated'}
+    >
+      {STARS.map((star) => {
+        const fill = Math.max(0, Math.min(1, displayValue - (star - 1)));
+        const icon = (
+          <span className="relative inline-block">
+            <Star className={cn(iconClass, 'text-muted-foreground/30')} />
+            {fill > 0 && (
+              <span className="absolute inset-0 overflow-hidden" style={{ width: `${fill * 100}%` }}>
+                <Star className={cn(iconClass, 'fill-amber-400 text-amber-400')} />
+              </span>
+            )}
+          </span>
+        );
+
+        if (!onChange) return <span key={star}>{icon}</span>;
+
+        return (
+          <button
+            key={star}
+            type="button"
+            className="p-0.5 transition-transform hover:scale-110"
+            onMouseMove={(e) => setHoverValue(valueFromPointer(star, e))}
+            onClick={(e) => {
+              const next = valueFromPointer(star, e);
+              onChange(next === value ? null : next);
+            }}
+          >
+            {icon}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,103 @@
+import { useState } from 'react';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Button } from '@/components/ui/button';
+import { MoreHorizontal, Ban, VolumeX, Volume2, Flag } from 'lucide-react';
+import { ReportDialog } from '@/components/ReportDialog';
+import { useBlocks } from '@/hooks/useBlocks';
+import { useAuth } from '@/contexts/AuthContext';
+
+interface UserSafetyMenuProps {
+  targetUserId: string;
+  targetUsername?: string;
+}
+
+/** Mute, block and report actions for someone else's profile or shelf */
+export function UserSafetyMenu({ targetUserId, targetUsername }: UserSafetyMenuProps) {
+  const { user } = useAuth();
+  const { hasBlocked, isMuted, block, unblock, mute, unmute } = useBlocks();
+  const [confirmBlockOpen, setConfirmBlockOpen] = useState(false);
+  const [reportOpen, setReportOpen] = useState(false);
+
+  if (!user || user.id === targetUserId) {
+    return null;
+  }
+
+  const blocked = hasBlocked(targetUserId);
+  const muted = isMuted(targetUserId);
+  const name = targetUsername || 'this user';
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="icon" className="h-9 w-9 focus-visible:ring-0 focus-visible:ring-offset-0">
+            <MoreHorizontal className="w-4 h-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-48 bg-background border shadow-lg z-50">
+          <DropdownMenuItem
+            onClick={() => (muted ? unmute(targetUserId) : mute(targetUserId))}
+            className="gap-2 cursor-pointer"
+          >
+            {muted ? <Volume2 className="w-4 h-4" /> : <VolumeX className="w-4 h-4" />}
+            {muted ? 'Unmute' : 'Mute'}
+          </DropdownMenuItem>
+          <DropdownMenuItem
+            onClick={() => (blocked ? unblock(targetUserId) : setConfirmBlockOpen(true))}
+            className="gap-2 cursor-pointer"
+          >
+            <Ban className="w-4 h-4" />
+            {blocked ? 'Unblock' : 'Block'}
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem
+            onClick={() => setReportOpen(true)}
+            className="gap-2 cursor-pointer text-destructive focus:text-destructive"
+          >
+            <Flag className="w-4 h-4" />
+            Report profile
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <AlertDialog open={confirmBlockOpen} onOpenChange={setConfirmBlockOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Block {name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              You'll stop following each other, and neither of you will be able to follow, comment on
+              the other's books or send mystery books. They won't be told.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => block(targetUserId)}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Block
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <ReportDialog open={reportOpen} onOpenChange={setReportOpen} targetType="profile" targetId={targetUserId} />
+    </>
+  );
+}
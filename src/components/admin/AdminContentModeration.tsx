@@ -3,7 +3,8 @@ import { supabase } from "@/integrations/supabase/client";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
-import { Trash2, User, MessageSquare } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Trash2, User, MessageSquare, Reply } from "lucide-react";
 import { format } from "date-fns";
 import { toast } from "sonner";
 
@@ -20,7 +21,9 @@ export function AdminContentModeration() {
           content,
           created_at,
           user_id,
-          book_id
+          book_id,
+          parent_id,
+          edited_at
         `)
         .order("created_at", { ascending: false })
         .limit(50);
@@ -45,10 +48,24 @@ export function AdminContentModeration() {
 
       const bookMap = new Map(books?.map((b) => [b.id, b.title]));
 
+      // Replies (deleted along with their comment) and reactions per comment
+      const commentIds = data?.map((c) => c.id) ?? [];
+      const [{ data: replies }, { data: reactions }] = await Promise.all([
+        supabase.from("book_comments").select("parent_id").in("parent_id", commentIds),
+        supabase.from("book_comment_reactions").select("comment_id").in("comment_id", commentIds),
+      ]);
+
+      const replyCounts = new Map<string, number>();
+      replies?.forEach((r) => replyCounts.set(r.parent_id!, (replyCounts.get(r.parent_id!) ?? 0) + 1));
+      const reactionCounts = new Map<string, number>();
+      reactions?.forEach((r) => reactionCounts.set(r.comment_id, (reactionCounts.get(r.comment_id) ?? 0) + 1));
+
       return data?.map((c) => ({
         ...c,
         profile: profileMap.get(c.user_id),
         bookTitle: bookMap.get(c.book_id) ?? "Unknown Book",
+        replyCount: replyCounts.get(c.id) ?? 0,
+        reactionCount: reactionCounts.get(c.id) ?? 0,
       }));
     },
   });
@@ -115,11 +132,18 @@ export function AdminContentModeration() {
                     </AvatarFallback>
                   </Avatar>
                   <div>
-                    <p className="font-medium text-sm">
+                    <p className="font-medium text-sm flex items-center gap-2">
                       {comment.profile?.username ?? "Unknown User"}
+                      {comment.parent_id && (
+                        <Badge variant="secondary" className="gap-1 text-xs font-normal">
+                          <Reply className="h-3 w-3" />
+                          Reply
+                        </Badge>
+                      )}
                     </p>
                     <p className="text-xs text-muted-foreground">
                       on "{comment.bookTitle}" • {format(new Date(comment.created_at), "MMM d, yyyy 'at' h:mm a")}
+                      {comment.edited_at && " • edited"}
                     </p>
                   </div>
                 </div>
@@ -128,12 +152,19 @@ export function AdminContentModeration() {
                   size="icon"
                   className="text-destructive hover:text-destructive hover:bg-destructive/10"
                   onClick={() => deleteComment.mutate(comment.id)}
+                  title={comment.replyCount > 0 ? `Also deletes ${comment.replyCount} ${comment.replyCount === 1 ? "reply" : "replies"}` : undefined}
                   disabled={deleteComment.isPending}
                 >
                   <Trash2 className="h-4 w-4" />
                 </Button>
               </div>
               <p className="text-sm bg-muted/50 rounded p-3">{comment.content}</p>
+              {(comment.replyCount > 0 || comment.reactionCount > 0) && (
+                <p className="text-xs text-muted-foreground">
+                  {comment.replyCount} {comment.replyCount === 1 ? "reply" : "replies"} • {comment.reactionCount}{" "}
+                  {comment.reactionCount === 1 ? "reaction" : "reactions"}
+                </p>
+              )}
             </div>
           ))}
 
@@ -0,0 +1,224 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Flag, Check, X, Trash2 } from "lucide-react";
+import { format } from "date-fns";
+import { toast } from "sonner";
+import { getReportReasonLabel, getReportTargetLabel, type ReportStatus, type ReportTargetType } from "@/lib/reports";
+
+export function AdminReportsQueue() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [status, setStatus] = useState<ReportStatus>("open");
+
+  const { data: reports, isLoading } = useQuery({
+    queryKey: ["admin-reports", status],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("content_reports")
+        .select("*")
+        .eq("status", status)
+        // Oldest open reports first; closed ones newest first
+        .order("created_at", { ascending: status === "open" })
+        .limit(100);
+
+      if (error) throw error;
+
+      // Reporter and reported usernames
+      const userIds = [...new Set(data?.flatMap((r) => [r.reporter_id, r.reported_user_id].filter(Boolean) as string[]) ?? [])];
+      const { data: profiles } = await supabase
+        .from("profiles")
+        .select("user_id, username")
+        .in("user_id", userIds);
+
+      const usernameMap = new Map(profiles?.map((p) => [p.user_id, p.username]));
+
+      // The reported text, while it still exists
+      const commentIds = data?.filter((r) => r.target_type === "comment").map((r) => r.target_id) ?? [];
+      const reflectionIds = data?.filter((r) => r.target_type === "reflection").map((r) => r.target_id) ?? [];
+      const clubPostIds = data?.filter((r) => r.target_type === "club_post").map((r) => r.target_id) ?? [];
+      const [{ data: comments }, { data: reflections }, { data: clubPosts }] = await Promise.all([
+        supabase.from("book_comments").select("id, content").in("id", commentIds),
+        supabase.from("book_club_reflections").select("id, content").in("id", reflectionIds),
+        supabase.from("book_club_thread_posts").select("id, content").in("id", clubPostIds),
+      ]);
+
+      const contentMap = new Map<string, string>([
+        ...(comments?.map((c) => [c.id, c.content] as [string, string]) ?? []),
+        ...(reflections?.map((r) => [r.id, r.content] as [string, string]) ?? []),
+        ...(clubPosts?.map((p) => [p.id, p.content] as [string, string]) ?? []),
+      ]);
+
+      return data?.map((r) => ({
+        ...r,
+        reporterUsername: usernameMap.get(r.reporter_id) ?? "Unknown User",
+        reportedUsername: r.reported_user_id ? usernameMap.get(r.reported_user_id) ?? "Unknown User" : "Unknown User",
+        content: contentMap.get(r.target_id) ?? null,
+      }));
+    },
+  });
+
+  const updateStatus = useMutation({
+    mutationFn: async ({ reportId, newStatus }: { reportId: string; newStatus: ReportStatus }) => {
+      const { error } = await supabase
+        .from("content_reports")
+        .update({ status: newStatus, resolved_by: user?.id, resolved_at: new Date().toISOString() })
+        .eq("id", reportId);
+
+      if (error) throw error;
+      return newStatus;
+    },
+    onSuccess: (newStatus) => {
+      queryClient.invalidateQueries({ queryKey: ["admin-reports"] });
+      toast.success(newStatus === "resolved" ? "Report resolved" : "Report dismissed");
+    },
+    onError: () => {
+      toast.error("Failed to update report");
+    },
+  });
+
+  // Deletes the comment, reflection or club post and closes every open report about it
+  const removeContent = useMutation({
+    mutationFn: async ({ targetType, targetId }: { targetType: ReportTargetType; targetId: string }) => {
+      const table =
+        targetType === "comment" ? "book_comments"
+        : targetType === "club_post" ? "book_club_thread_posts"
+        : "book_club_reflections";
+      const { error: deleteError } = await supabase
+        .from(table)
+        .delete()
+        .eq("id", targetId);
+
+      if (deleteError) throw deleteError;
+
+      const { error } = await supabase
+        .from("content_reports")
+        .update({ status: "resolved", resolved_by: user?.id, resolved_at: new Date().toISOString() })
+        .eq("target_type", targetType)
+        .eq("target_id", targetId)
+        .eq("status", "open");
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["admin-reports"] });
+      queryClient.invalidateQueries({ queryKey: ["admin-comments"] });
+      toast.success("Content removed and report resolved");
+    },
+    onError: () => {
+      toast.error("Failed to remove content");
+    },
+  });
+
+  const isPending = updateStatus.isPending || removeContent.isPending;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Flag className="h-5 w-5" />
+          Reports
+        </CardTitle>
+        <CardDescription>
+          Comments, reflections, club posts and profiles flagged by users
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Tabs value={status} onValueChange={(v) => setStatus(v as ReportStatus)}>
+          <TabsList>
+            <TabsTrigger value="open">Open</TabsTrigger>
+            <TabsTrigger value="resolved">Resolved</TabsTrigger>
+            <TabsTrigger value="dismissed">Dismissed</TabsTrigger>
+          </TabsList>
+        </Tabs>
+
+        {isLoading ? (
+          <div className="animate-pulse space-y-4">
+            {[...Array(3)].map((_, i) => (
+              <div key={i} className="h-24 bg-muted rounded" />
+            ))}
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {reports?.map((report) => (
+              <div key={report.id} className="border rounded-lg p-4 space-y-3">
+                <div className="flex items-start justify-between gap-3">
+                  <div className="space-y-1">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <Badge variant="outline" className="capitalize">{getReportTargetLabel(report.target_type)}</Badge>
+                      <Badge variant="secondary">{getReportReasonLabel(report.reason)}</Badge>
+                    </div>
+                    <p className="text-sm">
+                      <span className="font-medium">{report.reporterUsername}</span>
+                      {" reported "}
+                      <span className="font-medium">{report.reportedUsername}</span>
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {format(new Date(report.created_at), "MMM d, yyyy 'at' h:mm a")}
+                      {report.resolved_at && ` • closed ${format(new Date(report.resolved_at), "MMM d, yyyy")}`}
+                    </p>
+                  </div>
+                  {report.status === "open" && (
+                    <div className="flex gap-1 shrink-0">
+                      {report.target_type !== "profile" && report.content !== null && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="gap-1 text-destructive hover:text-destructive hover:bg-destructive/10"
+                          onClick={() => removeContent.mutate({ targetType: report.target_type as ReportTargetType, targetId: report.target_id })}
+                          disabled={isPending}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                          Remove
+                        </Button>
+                      )}
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="gap-1"
+                        onClick={() => updateStatus.mutate({ reportId: report.id, newStatus: "resolved" })}
+                        disabled={isPending}
+                      >
+                        <Check className="h-4 w-4" />
+                        Resolve
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="gap-1 text-muted-foreground"
+                        onClick={() => updateStatus.mutate({ reportId: report.id, newStatus: "dismissed" })}
+                        disabled={isPending}
+                      >
+                        <X className="h-4 w-4" />
+                        Dismiss
+                      </Button>
+                    </div>
+                  )}
+                </div>
+                {report.target_type !== "profile" && (
+                  <p className="text-sm bg-muted/50 rounded p-3">
+                    {report.content ?? <span className="italic text-muted-foreground">Content has been deleted</span>}
+                  </p>
+                )}
+                {report.details && (
+                  <p className="text-xs text-muted-foreground italic">"{report.details}"</p>
+                )}
+              </div>
+            ))}
+
+            {reports?.length === 0 && (
+              <div className="p-8 text-center text-muted-foreground">
+                No {status} reports
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
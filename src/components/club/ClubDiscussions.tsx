@@ -0,0 +1,388 @@
+import { useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import {
+  ChevronDown,
+  ChevronUp,
+  HelpCircle,
+  Loader2,
+  Lock,
+  MessagesSquare,
+  Plus,
+  Send,
+  Trash2,
+} from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { CommentItem } from '@/components/CommentItem';
+import { getThreadSections } from '@/lib/clubThreads';
+import { hasReachedMilestone } from '@/lib/readingSchedule';
+import { cn } from '@/lib/utils';
+import type { NewThreadInput } from '@/hooks/useClubThreads';
+import type { BookClubMilestone, ClubThread, ClubThreadKind, ClubThreadPost } from '@/types/bookClub';
+
+const WHOLE_BOOK = 'whole-book';
+
+interface ClubDiscussionsProps {
+  threads: ClubThread[];
+  milestones: BookClubMilestone[];
+  userPosition: string | null;
+  currentUserId?: string;
+  /** Hosts can pose questions to the club */
+  isHost: boolean;
+  /** Moderators and hosts can remove any thread or post */
+  canModerate: boolean;
+  /** Past reads show their threads as an archive with no new posts */
+  readOnly?: boolean;
+  getPostsForThread: (threadId: string) => ClubThreadPost[];
+  onCreateThread?: (input: Omit<NewThreadInput, 'suggestionId'>) => Promise<boolean>;
+  onDeleteThread: (threadId: string) => void;
+  onAddPost: (threadId: string, content: string) => Promise<boolean>;
+  onEditPost: (postId: string, content: string) => Promise<boolean>;
+  onDeletePost: (postId: string) => void;
+  onToggleReaction: (postId: string, emoji: string) => void;
+}
+
+export function ClubDiscussions({
+  threads,
+  milestones,
+  userPosition,
+  currentUserId,
+  isHost,
+  canModerate,
+  readOnly = false,
+  getPostsForThread,
+  onCreateThread,
+  onDeleteThread,
+  onAddPost,
+  onEditPost,
+  onDeletePost,
+  onToggleReaction,
+}: ClubDiscussionsProps) {
+  const [formOpen, setFormOpen] = useState(false);
+  // Bumped on every open so the form starts empty
+  const [formKey, setFormKey] = useState(0);
+
+  if (readOnly && threads.length === 0) return null;
+
+  const sections = getThreadSections(threads, milestones, userPosition)
+    // An archive has nothing to show for empty sections
+    .filter(section => !readOnly || section.threads.length > 0);
+
+  const handleOpenForm = () => {
+    setFormKey(k => k + 1);
+    setFormOpen(true);
+  };
+
+  return (
+    <div className={cn('space-y-3', !readOnly && 'mt-4 pt-4 border-t border-primary/10')}>
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <MessagesSquare className="w-4 h-4 text-primary" />
+          <h4 className="text-sm font-semibold font-sans">Discussions</h4>
+          {threads.length > 0 && <Badge variant="outline">{threads.length}</Badge>}
+        </div>
+        {!readOnly && onCreateThread && (
+          <Button variant="outline" size="sm" className="h-8 gap-1.5" onClick={handleOpenForm}>
+            <Plus className="w-4 h-4" />
+            New Thread
+          </Button>
+        )}
+      </div>
+
+      {sections.map((section) => (
+        <div key={section.milestone?.id ?? WHOLE_BOOK} className="space-y-2">
+          {section.milestone && (
+            <p className="text-xs font-medium text-muted-foreground flex items-center gap-1.5">
+              {section.locked && <Lock className="w-3 h-3" />}
+              {section.milestone.label}
+            </p>
+          )}
+          {section.locked ? (
+            <p className="text-xs text-muted-foreground">
+              Threads about this part unlock once you've read it.
+            </p>
+          ) : section.threads.length === 0 ? (
+            !section.milestone && (
+              <p className="text-xs text-muted-foreground">
+                No threads yet. Start one about the book as a whole or a part you've read.
+              </p>
+            )
+          ) : (
+            section.threads.map((thread) => (
+              <ThreadCard
+                key={thread.id}
+                thread={thread}
+                posts={getPostsForThread(thread.id)}
+                currentUserId={currentUserId}
+                canModerate={canModerate}
+                readOnly={readOnly}
+                onDelete={() => onDeleteThread(thread.id)}
+                onAddPost={(content) => onAddPost(thread.id, content)}
+                onEditPost={onEditPost}
+                onDeletePost={onDeletePost}
+                onToggleReaction={onToggleReaction}
+              />
+            ))
+          )}
+        </div>
+      ))}
+
+      {!readOnly && onCreateThread && (
+        <ThreadFormDialog
+          key={formKey}
+          open={formOpen}
+          onOpenChange={setFormOpen}
+          isHost={isHost}
+          milestones={milestones.filter(m => hasReachedMilestone(milestones, userPosition, m.id))}
+          onSubmit={onCreateThread}
+        />
+      )}
+    </div>
+  );
+}
+
+// Thread Card Component
+interface ThreadCardProps {
+  thread: ClubThread;
+  posts: ClubThreadPost[];
+  currentUserId?: string;
+  canModerate: boolean;
+  readOnly: boolean;
+  onDelete: () => void;
+  onAddPost: (content: string) => Promise<boolean>;
+  onEditPost: (postId: string, content: string) => Promise<boolean>;
+  onDeletePost: (postId: string) => void;
+  onToggleReaction: (postId: string, emoji: string) => void;
+}
+
+function ThreadCard({
+  thread,
+  posts,
+  currentUserId,
+  canModerate,
+  readOnly,
+  onDelete,
+  onAddPost,
+  onEditPost,
+  onDeletePost,
+  onToggleReaction,
+}: ThreadCardProps) {
+  const [expanded, setExpanded] = useState(false);
+  const [reply, setReply] = useState('');
+  const [isPosting, setIsPosting] = useState(false);
+  const canDelete = !readOnly && (canModerate || thread.createdBy === currentUserId);
+
+  const handleReply = async () => {
+    if (!reply.trim()) return;
+    setIsPosting(true);
+    const success = await onAddPost(reply);
+    setIsPosting(false);
+    if (success) setReply('');
+  };
+
+  return (
+    <div className="rounded-md border bg-background/60">
+      <button
+        type="button"
+        className="w-full flex items-start gap-2 p-3 text-left hover:bg-muted/30 transition-colors"
+        onClick={() => setExpanded(!expanded)}
+      >
+        {thread.kind === 'question' ? (
+          <HelpCircle className="w-4 h-4 mt-0.5 text-primary shrink-0" />
+        ) : (
+          <MessagesSquare className="w-4 h-4 mt-0.5 text-muted-foreground shrink-0" />
+        )}
+        <div className="flex-1 min-w-0">
+          <p className="text-sm font-medium font-sans">{thread.title}</p>
+          <p className="text-xs text-muted-foreground">
+            {thread.kind === 'question' ? 'Question from ' : 'Started by '}
+            {thread.username || 'a member'} · {posts.length} {posts.length === 1 ? 'reply' : 'replies'}
+            {posts.length > 0 && ` · ${formatDistanceToNow(new Date(thread.lastPostAt), { addSuffix: true })}`}
+          </p>
+        </div>
+        {expanded ? (
+          <ChevronUp className="w-4 h-4 text-muted-foreground shrink-0" />
+        ) : (
+          <ChevronDown className="w-4 h-4 text-muted-foreground shrink-0" />
+        )}
+      </button>
+
+      {expanded && (
+        <div className="border-t p-3 space-y-2">
+          {thread.body && (
+            <p className="text-sm whitespace-pre-wrap break-words">{thread.body}</p>
+          )}
+
+          {posts.map((post) => (
+            <CommentItem
+              key={post.id}
+              comment={post}
+              reportTargetType="club_post"
+              canModerate={canModerate && !readOnly}
+              currentUserId={currentUserId}
+              onEdit={(content) => onEditPost(post.id, content)}
+              onDelete={() => onDeletePost(post.id)}
+              onToggleReaction={(emoji) => onToggleReaction(post.id, emoji)}
+            />
+          ))}
+
+          {!readOnly && (
+            <div className="flex gap-2">
+              <Textarea
+                value={reply}
+                onChange={(e) => setReply(e.target.value)}
+                placeholder="Add a reply..."
+                maxLength={1000}
+                rows={2}
+                className="text-sm resize-none"
+              />
+              <Button
+                size="icon"
+                className="shrink-0 self-end"
+                onClick={handleReply}
+                disabled={!reply.trim() || isPosting}
+                aria-label="Post reply"
+              >
+                {isPosting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+              </Button>
+            </div>
+          )}
+
+          {canDelete && (
+            <div className="flex justify-end">
+              <Button variant="ghost" size="sm" className="h-7 text-xs text-muted-foreground" onClick={onDelete}>
+                <Trash2 className="w-3.5 h-3.5 mr-1" />
+                Delete thread
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Thread Form Dialog Component
+interface ThreadFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  isHost: boolean;
+  /** Only milestones the user has reached can hold new threads */
+  milestones: BookClubMilestone[];
+  onSubmit: (input: Omit<NewThreadInput, 'suggestionId'>) => Promise<boolean>;
+}
+
+function ThreadFormDialog({ open, onOpenChange, isHost, milestones, onSubmit }: ThreadFormDialogProps) {
+  const [kind, setKind] = useState<ClubThreadKind>('discussion');
+  const [title, setTitle] = useState('');
+  const [body, setBody] = useState('');
+  const [milestoneId, setMilestoneId] = useState(WHOLE_BOOK);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSubmit = async () => {
+    if (!title.trim()) return;
+    setIsSaving(true);
+    const success = await onSubmit({
+      kind,
+      title,
+      body: body.trim() || null,
+      milestoneId: milestoneId === WHOLE_BOOK ? null : milestoneId,
+    });
+    setIsSaving(false);
+    if (success) onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="font-sans">Start a Thread</DialogTitle>
+          <DialogDescription>
+            Tie it to a part of the schedule to keep it hidden from members who haven't read that far.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-2">
+          <div className={cn('grid gap-3', isHost && 'grid-cols-2')}>
+            {isHost && (
+              <div className="space-y-2">
+                <Label>Type</Label>
+                <Select value={kind} onValueChange={(value) => setKind(value as ClubThreadKind)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="discussion">Discussion</SelectItem>
+                    <SelectItem value="question">Question for the club</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label>About</Label>
+              <Select value={milestoneId} onValueChange={setMilestoneId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={WHOLE_BOOK}>The book in general</SelectItem>
+                  {milestones.map((milestone) => (
+                    <SelectItem key={milestone.id} value={milestone.id}>
+                      {milestone.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="thread-title">Title</Label>
+            <Input
+              id="thread-title"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              placeholder={kind === 'question' ? 'Who did you trust least by the end of part one?' : 'That twist in chapter 5'}
+              maxLength={140}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="thread-body">Details (optional)</Label>
+            <Textarea
+              id="thread-body"
+              value={body}
+              onChange={(e) => setBody(e.target.value)}
+              maxLength={2000}
+              rows={3}
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={!title.trim() || isSaving}>
+            {isSaving && <Loader2 className="w-4 h-4 mr-1.5 animate-spin" />}
+            Start Thread
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,110 @@
+import { useState } from 'react';
+import { addDays, format, isPast } from 'date-fns';
+import { Check, Copy, Loader2, RefreshCw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+
+const NEVER = 'never';
+
+const EXPIRY_OPTIONS = [
+  { value: NEVER, label: 'Never expires' },
+  { value: '1', label: 'Expires in 1 day' },
+  { value: '7', label: 'Expires in 7 days' },
+  { value: '30', label: 'Expires in 30 days' },
+];
+
+interface ClubInviteDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  inviteUrl: string;
+  expiresAt: string | null;
+  onRegenerate: (expiresAt: string | null) => Promise<boolean>;
+}
+
+export function ClubInviteDialog({ open, onOpenChange, inviteUrl, expiresAt, onRegenerate }: ClubInviteDialogProps) {
+  const { toast } = useToast();
+  const [expiry, setExpiry] = useState(NEVER);
+  const [isSaving, setIsSaving] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const expired = !!expiresAt && isPast(new Date(expiresAt));
+
+  const handleCopy = () => {
+    navigator.clipboard.writeText(inviteUrl);
+    setCopied(true);
+    toast({ title: 'Invite link copied!' });
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const handleRegenerate = async () => {
+    setIsSaving(true);
+    await onRegenerate(expiry === NEVER ? null : addDays(new Date(), Number(expiry)).toISOString());
+    setIsSaving(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="font-sans">Invite Link</DialogTitle>
+          <DialogDescription>
+            Anyone with the link can join. Make a new one to stop old links from working.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <div className="flex gap-2">
+              <Input value={inviteUrl} readOnly className="text-xs" onFocus={(e) => e.target.select()} />
+              <Button variant="outline" size="icon" onClick={handleCopy} disabled={expired}>
+                {copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {!expiresAt
+                ? "This link doesn't expire."
+                : expired
+                  ? `This link expired on ${format(new Date(expiresAt), 'MMM d, h:mm a')}.`
+                  : `This link works until ${format(new Date(expiresAt), 'MMM d, h:mm a')}.`}
+            </p>
+          </div>
+          <div className="space-y-2">
+            <Label>New link</Label>
+            <div className="flex gap-2">
+              <Select value={expiry} onValueChange={setExpiry}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {EXPIRY_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button variant="secondary" onClick={handleRegenerate} disabled={isSaving} className="gap-1.5 shrink-0">
+                {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+                Regenerate
+              </Button>
+            </div>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,582 @@
+import { useState, useEffect } from 'react';
+import { format } from 'date-fns';
+import {
+  CalendarDays,
+  CalendarPlus,
+  Check,
+  Copy,
+  Download,
+  Loader2,
+  MapPin,
+  MoreVertical,
+  Pencil,
+  Plus,
+  Rss,
+  Trash2,
+  Video,
+  BookOpen,
+} from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+import { useToast } from '@/hooks/use-toast';
+import { buildIcsCalendar } from '@/lib/ics';
+import { downloadFile } from '@/lib/libraryExport';
+import {
+  MEETING_DURATION_OPTIONS,
+  RSVP_OPTIONS,
+  countRsvps,
+  meetingToIcsEvent,
+  splitMeetings,
+} from '@/lib/clubMeetings';
+import type { MeetingInput } from '@/hooks/useClubMeetings';
+import type { ClubMemberWithProfile } from '@/hooks/useBookClubs';
+import type {
+  BookClubMeeting,
+  BookClubMeetingRsvp,
+  BookClubSuggestion,
+  MeetingRsvpResponse,
+} from '@/types/bookClub';
+
+const NO_BOOK = 'none';
+const PAST_MEETINGS_SHOWN = 3;
+
+interface ClubMeetingsSectionProps {
+  clubName: string;
+  isHost: boolean;
+  meetings: BookClubMeeting[];
+  members: ClubMemberWithProfile[];
+  suggestions: BookClubSuggestion[];
+  getUserRsvp: (meetingId: string) => MeetingRsvpResponse | null;
+  getRsvpsForMeeting: (meetingId: string) => BookClubMeetingRsvp[];
+  onSchedule: (input: MeetingInput) => Promise<boolean>;
+  onUpdate: (meetingId: string, input: MeetingInput) => Promise<boolean>;
+  onCancel: (meetingId: string) => Promise<boolean>;
+  onRsvp: (meetingId: string, response: MeetingRsvpResponse) => void;
+  onGetCalendarFeedUrl: () => Promise<string | null>;
+}
+
+export function ClubMeetingsSection({
+  clubName,
+  isHost,
+  meetings,
+  members,
+  suggestions,
+  getUserRsvp,
+  getRsvpsForMeeting,
+  onSchedule,
+  onUpdate,
+  onCancel,
+  onRsvp,
+  onGetCalendarFeedUrl,
+}: ClubMeetingsSectionProps) {
+  const [formOpen, setFormOpen] = useState(false);
+  const [editingMeeting, setEditingMeeting] = useState<BookClubMeeting | null>(null);
+  const [subscribeOpen, setSubscribeOpen] = useState(false);
+  // Bumped on every open so the form remounts with fresh (or the edited meeting's) values
+  const [formKey, setFormKey] = useState(0);
+
+  const { upcoming, past } = splitMeetings(meetings);
+  const getBookTitle = (suggestionId: string | null) =>
+    suggestions.find(s => s.id === suggestionId)?.title ?? null;
+
+  const handleOpenSchedule = () => {
+    setEditingMeeting(null);
+    setFormKey(k => k + 1);
+    setFormOpen(true);
+  };
+
+  const handleOpenEdit = (meeting: BookClubMeeting) => {
+    setEditingMeeting(meeting);
+    setFormKey(k => k + 1);
+    setFormOpen(true);
+  };
+
+  const handleDownload = (meeting: BookClubMeeting) => {
+    const ics = buildIcsCalendar(clubName, [meetingToIcsEvent(meeting, clubName, getBookTitle(meeting.suggestionId))]);
+    downloadFile(ics, `meeting-${format(new Date(meeting.startsAt), 'yyyy-MM-dd')}.ics`, 'text/calendar;charset=utf-8');
+  };
+
+  return (
+    <section className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <CalendarDays className="w-5 h-5 text-muted-foreground" />
+          <h2 className="text-lg font-semibold font-sans">Meetings</h2>
+          <Badge variant="outline">{upcoming.length}</Badge>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="sm" className="gap-1.5" onClick={() => setSubscribeOpen(true)}>
+            <Rss className="w-4 h-4" />
+            Subscribe
+          </Button>
+          {isHost && (
+            <Button size="sm" className="gap-1.5" onClick={handleOpenSchedule}>
+              <Plus className="w-4 h-4" />
+              Schedule
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {upcoming.length === 0 ? (
+        <div className="text-center py-8 border rounded-lg bg-muted/20">
+          <CalendarDays className="w-10 h-10 mx-auto text-muted-foreground mb-3" />
+          <p className="text-muted-foreground">
+            {isHost ? 'Schedule the next meeting so everyone can RSVP' : 'No meetings scheduled yet'}
+          </p>
+        </div>
+      ) : (
+        <div className="grid gap-3">
+          {upcoming.map((meeting) => (
+            <MeetingCard
+              key={meeting.id}
+              meeting={meeting}
+              bookTitle={getBookTitle(meeting.suggestionId)}
+              members={members}
+              rsvps={getRsvpsForMeeting(meeting.id)}
+              userRsvp={getUserRsvp(meeting.id)}
+              isHost={isHost}
+              onRsvp={(response) => onRsvp(meeting.id, response)}
+              onDownload={() => handleDownload(meeting)}
+              onEdit={() => handleOpenEdit(meeting)}
+              onCancel={() => onCancel(meeting.id)}
+            />
+          ))}
+        </div>
+      )}
+
+      {past.length > 0 && (
+        <div className="space-y-1">
+          <p className="text-xs font-medium text-muted-foreground uppercase tracking-wide">Past meetings</p>
+          {past.slice(0, PAST_MEETINGS_SHOWN).map((meeting) => {
+            const bookTitle = getBookTitle(meeting.suggestionId);
+            return (
+              <p key={meeting.id} className="text-sm text-muted-foreground font-sans">
+                {format(new Date(meeting.startsAt), 'MMM d, yyyy')}
+                {bookTitle && <> · {bookTitle}</>}
+                {' · '}
+                {countRsvps(getRsvpsForMeeting(meeting.id)).going} went
+              </p>
+            );
+          })}
+        </div>
+      )}
+
+      <MeetingFormDialog
+        key={formKey}
+        open={formOpen}
+        onOpenChange={setFormOpen}
+        meeting={editingMeeting}
+        suggestions={suggestions.filter(s => s.status !== 'read' || s.id === editingMeeting?.suggestionId)}
+        onSubmit={(input) => (editingMeeting ? onUpdate(editingMeeting.id, input) : onSchedule(input))}
+      />
+
+      <SubscribeDialog
+        open={subscribeOpen}
+        onOpenChange={setSubscribeOpen}
+        onGetCalendarFeedUrl={onGetCalendarFeedUrl}
+      />
+    </section>
+  );
+}
+
+// Meeting Card Component
+interface MeetingCardProps {
+  meeting: BookClubMeeting;
+  bookTitle: string | null;
+  members: ClubMemberWithProfile[];
+  rsvps: BookClubMeetingRsvp[];
+  userRsvp: MeetingRsvpResponse | null;
+  isHost: boolean;
+  onRsvp: (response: MeetingRsvpResponse) => void;
+  onDownload: () => void;
+  onEdit: () => void;
+  onCancel: () => void;
+}
+
+function MeetingCard({
+  meeting,
+  bookTitle,
+  members,
+  rsvps,
+  userRsvp,
+  isHost,
+  onRsvp,
+  onDownload,
+  onEdit,
+  onCancel,
+}: MeetingCardProps) {
+  const [cancelOpen, setCancelOpen] = useState(false);
+  const startsAt = new Date(meeting.startsAt);
+  const counts = countRsvps(rsvps);
+  const goingNames = rsvps
+    .filter(r => r.response === 'going')
+    .map(r => members.find(m => m.userId === r.userId)?.displayName || 'Anonymous');
+
+  return (
+    <div className="p-4 rounded-lg border bg-card space-y-3">
+      <div className="flex items-start gap-3">
+        <div className="w-12 shrink-0 rounded-md border bg-primary/5 text-center py-1">
+          <p className="text-[10px] font-medium uppercase text-primary">{format(startsAt, 'MMM')}</p>
+          <p className="text-lg font-semibold leading-none font-sans">{format(startsAt, 'd')}</p>
+        </div>
+        <div className="flex-1 min-w-0 space-y-1">
+          <p className="font-medium font-sans">
+            {format(startsAt, 'EEEE, h:mm a')}
+            <span className="text-sm text-muted-foreground font-normal"> · {meeting.durationMinutes} min</span>
+          </p>
+          {bookTitle && (
+            <p className="text-sm text-muted-foreground flex items-center gap-1.5">
+              <BookOpen className="w-3.5 h-3.5 shrink-0" />
+              <span className="truncate">{bookTitle}</span>
+            </p>
+          )}
+          {meeting.location && (
+            <p className="text-sm text-muted-foreground flex items-center gap-1.5">
+              <MapPin className="w-3.5 h-3.5 shrink-0" />
+              <span className="truncate">{meeting.location}</span>
+            </p>
+          )}
+          {meeting.videoUrl && (
+            <a
+              href={meeting.videoUrl}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-sm text-primary hover:underline flex items-center gap-1.5"
+            >
+              <Video className="w-3.5 h-3.5 shrink-0" />
+              Join video call
+            </a>
+          )}
+          {meeting.notes && (
+            <p className="text-sm text-muted-foreground whitespace-pre-wrap">{meeting.notes}</p>
+          )}
+        </div>
+        <div className="flex items-center gap-1 shrink-0">
+          <Button variant="ghost" size="icon" className="h-8 w-8" onClick={onDownload} title="Add to calendar">
+            <CalendarPlus className="w-4 h-4" />
+          </Button>
+          {isHost && (
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="ghost" size="icon" className="h-8 w-8">
+                  <MoreVertical className="w-4 h-4" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end" className="bg-popover">
+                <DropdownMenuItem onClick={onEdit}>
+                  <Pencil className="w-4 h-4 mr-2" />
+                  Edit
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={onDownload}>
+                  <Download className="w-4 h-4 mr-2" />
+                  Download .ics
+                </DropdownMenuItem>
+                <DropdownMenuSeparator />
+                <DropdownMenuItem
+                  onClick={() => setCancelOpen(true)}
+                  className="text-destructive focus:text-destructive"
+                >
+                  <Trash2 className="w-4 h-4 mr-2" />
+                  Cancel meeting
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          )}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex gap-1.5">
+          {RSVP_OPTIONS.map(({ response, label }) => (
+            <Button
+              key={response}
+              variant={userRsvp === response ? 'default' : 'outline'}
+              size="sm"
+              className="h-7 text-xs gap-1"
+              onClick={() => onRsvp(response)}
+            >
+              {userRsvp === response && <Check className="w-3 h-3" />}
+              {label}
+            </Button>
+          ))}
+        </div>
+        <p
+          className="text-xs text-muted-foreground"
+          title={goingNames.length > 0 ? goingNames.join(', ') : undefined}
+        >
+          {counts.going} going{counts.maybe > 0 && ` · ${counts.maybe} maybe`}
+        </p>
+      </div>
+
+      <AlertDialog open={cancelOpen} onOpenChange={setCancelOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle className="font-sans">Cancel this meeting?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The meeting and everyone's RSVPs will be removed, and it will drop off subscribed calendars.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Keep Meeting</AlertDialogCancel>
+            <AlertDialogAction onClick={onCancel}>Cancel Meeting</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
+
+// Schedule / Edit Meeting Dialog
+interface MeetingFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  meeting: BookClubMeeting | null;
+  suggestions: BookClubSuggestion[];
+  onSubmit: (input: MeetingInput) => Promise<boolean>;
+}
+
+function MeetingFormDialog({ open, onOpenChange, meeting, suggestions, onSubmit }: MeetingFormDialogProps) {
+  const initialStart = meeting ? new Date(meeting.startsAt) : null;
+  const [date, setDate] = useState(initialStart ? format(initialStart, 'yyyy-MM-dd') : '');
+  const [time, setTime] = useState(initialStart ? format(initialStart, 'HH:mm') : '19:00');
+  const [duration, setDuration] = useState(String(meeting?.durationMinutes ?? 60));
+  const [location, setLocation] = useState(meeting?.location ?? '');
+  const [videoUrl, setVideoUrl] = useState(meeting?.videoUrl ?? '');
+  const [suggestionId, setSuggestionId] = useState(
+    meeting?.suggestionId ?? suggestions.find(s => s.status === 'reading')?.id ?? NO_BOOK
+  );
+  const [notes, setNotes] = useState(meeting?.notes ?? '');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const startsAt = date && time ? new Date(`${date}T${time}`) : null;
+  const videoUrlValid = !videoUrl.trim() || /^https?:\/\/\S+$/i.test(videoUrl.trim());
+  const canSave = !!startsAt && !Number.isNaN(startsAt.getTime()) && videoUrlValid;
+
+  const handleSubmit = async () => {
+    if (!canSave || !startsAt) return;
+    setIsSaving(true);
+    const success = await onSubmit({
+      startsAt: startsAt.toISOString(),
+      durationMinutes: Number(duration),
+      location: location.trim() || null,
+      videoUrl: videoUrl.trim() || null,
+      suggestionId: suggestionId === NO_BOOK ? null : suggestionId,
+      notes: notes.trim() || null,
+    });
+    setIsSaving(false);
+    if (success) onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="font-sans">{meeting ? 'Edit Meeting' : 'Schedule a Meeting'}</DialogTitle>
+          <DialogDescription>
+            {meeting
+              ? 'Members who subscribed will see the change in their calendar.'
+              : 'Members get a notification now and a reminder the day before.'}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-2">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="meeting-date">Date</Label>
+              <Input id="meeting-date" type="date" value={date} onChange={(e) => setDate(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="meeting-time">Time</Label>
+              <Input id="meeting-time" type="time" value={time} onChange={(e) => setTime(e.target.value)} />
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label>Length</Label>
+              <Select value={duration} onValueChange={setDuration}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {MEETING_DURATION_OPTIONS.map((minutes) => (
+                    <SelectItem key={minutes} value={String(minutes)}>
+                      {minutes < 60 ? `${minutes} min` : `${minutes / 60} hr`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Book</Label>
+              <Select value={suggestionId} onValueChange={setSuggestionId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_BOOK}>No specific book</SelectItem>
+                  {suggestions.map((suggestion) => (
+                    <SelectItem key={suggestion.id} value={suggestion.id}>
+                      {suggestion.title}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="meeting-location">Location (optional)</Label>
+            <Input
+              id="meeting-location"
+              value={location}
+              onChange={(e) => setLocation(e.target.value)}
+              placeholder="The corner café on Main St"
+              maxLength={200}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="meeting-video">Video link (optional)</Label>
+            <Input
+              id="meeting-video"
+              value={videoUrl}
+              onChange={(e) => setVideoUrl(e.target.value)}
+              placeholder="https://meet.google.com/..."
+              maxLength={500}
+              className={cn(!videoUrlValid && 'border-destructive')}
+            />
+            {!videoUrlValid && (
+              <p className="text-xs text-destructive">Links need to start with http:// or https://</p>
+            )}
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="meeting-notes">Notes (optional)</Label>
+            <Textarea
+              id="meeting-notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="Read up to chapter 12"
+              maxLength={1000}
+              rows={3}
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={!canSave || isSaving}>
+            {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            {meeting ? 'Save Changes' : 'Schedule'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Calendar Feed Dialog
+interface SubscribeDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onGetCalendarFeedUrl: () => Promise<string | null>;
+}
+
+function SubscribeDialog({ open, onOpenChange, onGetCalendarFeedUrl }: SubscribeDialogProps) {
+  const { toast } = useToast();
+  const [feedUrl, setFeedUrl] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  // The token is created on first use, so only ask for the link once the dialog opens
+  useEffect(() => {
+    if (!open || feedUrl) return;
+    let cancelled = false;
+    setLoading(true);
+    onGetCalendarFeedUrl().then((url) => {
+      if (cancelled) return;
+      setFeedUrl(url);
+      setLoading(false);
+      if (!url) onOpenChange(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [open, feedUrl, onGetCalendarFeedUrl, onOpenChange]);
+
+  const handleCopy = () => {
+    if (!feedUrl) return;
+    navigator.clipboard.writeText(feedUrl);
+    setCopied(true);
+    toast({ title: 'Calendar link copied!' });
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="font-sans">Subscribe to Meetings</DialogTitle>
+          <DialogDescription>
+            Add this link to Google Calendar, Apple Calendar or Outlook and new meetings will show up automatically.
+            The link is personal — don't share it.
+          </DialogDescription>
+        </DialogHeader>
+        {loading || !feedUrl ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="space-y-3">
+            <div className="flex gap-2">
+              <Input value={feedUrl} readOnly className="text-xs" onFocus={(e) => e.target.select()} />
+              <Button variant="outline" size="icon" onClick={handleCopy}>
+                {copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+              </Button>
+            </div>
+            <Button asChild variant="secondary" className="w-full gap-1.5">
+              <a href={feedUrl.replace(/^https?:\/\//, 'webcal://')}>
+                <CalendarPlus className="w-4 h-4" />
+                Open in calendar app
+              </a>
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,213 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { formatDistanceToNow } from 'date-fns';
+import { Ban, Crown, ExternalLink, MoreVertical, Shield, ShieldCheck, UserMinus, Users } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Avatar, AvatarFallback } from '@/components/ui/avatar';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { CLUB_ROLE_LABELS, canManageMember, getAssignableRoles, sortMembersByRole } from '@/lib/clubRoles';
+import type { ClubMemberWithProfile } from '@/hooks/useBookClubs';
+import type { BookClubBan, ClubRole } from '@/types/bookClub';
+
+interface ClubMembersSectionProps {
+  members: ClubMemberWithProfile[];
+  currentUserId?: string;
+  currentRole: ClubRole | null;
+  bans: BookClubBan[];
+  onSetRole: (userId: string, role: ClubRole) => void;
+  onRemove: (userId: string, ban: boolean) => void;
+  onLiftBan: (banId: string) => void;
+}
+
+export function ClubMembersSection({
+  members,
+  currentUserId,
+  currentRole,
+  bans,
+  onSetRole,
+  onRemove,
+  onLiftBan,
+}: ClubMembersSectionProps) {
+  const [pendingRemoval, setPendingRemoval] = useState<{ member: ClubMemberWithProfile; ban: boolean } | null>(null);
+
+  const handleConfirmRemoval = () => {
+    if (!pendingRemoval) return;
+    onRemove(pendingRemoval.member.userId, pendingRemoval.ban);
+    setPendingRemoval(null);
+  };
+
+  return (
+    <section className="space-y-4">
+      <div className="flex items-center gap-2">
+        <Users className="w-5 h-5 text-muted-foreground" />
+        <h2 className="text-lg font-semibold font-sans">Members</h2>
+        <Badge variant="outline">{members.length}</Badge>
+      </div>
+      <div className="grid gap-2 sm:grid-cols-2 lg:grid-cols-3">
+        {sortMembersByRole(members).map((member) => (
+          <MemberCard
+            key={member.id}
+            member={member}
+            assignableRoles={
+              member.userId !== currentUserId && canManageMember(currentRole, member.role)
+                ? getAssignableRoles(currentRole).filter((role) => role !== member.role)
+                : null
+            }
+            onSetRole={(role) => onSetRole(member.userId, role)}
+            onRemove={(ban) => setPendingRemoval({ member, ban })}
+          />
+        ))}
+      </div>
+
+      {bans.length > 0 && (
+        <div className="space-y-2">
+          <p className="text-sm font-medium text-muted-foreground flex items-center gap-1.5">
+            <Ban className="w-4 h-4" />
+            Banned
+          </p>
+          <div className="grid gap-2 sm:grid-cols-2 lg:grid-cols-3">
+            {bans.map((ban) => (
+              <div key={ban.id} className="flex items-center justify-between gap-2 p-3 rounded-lg border bg-muted/20">
+                <div className="min-w-0">
+                  <p className="text-sm font-sans truncate">{ban.username || 'A former member'}</p>
+                  <p className="text-xs text-muted-foreground">
+                    Banned {formatDistanceToNow(new Date(ban.createdAt), { addSuffix: true })}
+                  </p>
+                </div>
+                <Button variant="ghost" size="sm" onClick={() => onLiftBan(ban.id)}>
+                  Lift Ban
+                </Button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <AlertDialog open={!!pendingRemoval} onOpenChange={(open) => !open && setPendingRemoval(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle className="font-sans">
+              {pendingRemoval?.ban ? 'Remove and ban' : 'Remove'} {pendingRemoval?.member.displayName || 'this member'}?
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingRemoval?.ban
+                ? "They'll be removed from the club and can't rejoin, even with an invite link, until a host lifts the ban."
+                : 'They can rejoin later with an invite link.'}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleConfirmRemoval}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {pendingRemoval?.ban ? 'Remove and Ban' : 'Remove'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </section>
+  );
+}
+
+const ROLE_ICONS: Partial<Record<ClubRole, JSX.Element>> = {
+  owner: <Crown className="w-3.5 h-3.5 text-amber-500 shrink-0" />,
+  cohost: <ShieldCheck className="w-3.5 h-3.5 text-primary shrink-0" />,
+  moderator: <Shield className="w-3.5 h-3.5 text-muted-foreground shrink-0" />,
+};
+
+// Member Card Component
+interface MemberCardProps {
+  member: ClubMemberWithProfile;
+  /** Roles the current user can give this member; null when they can't manage them */
+  assignableRoles: ClubRole[] | null;
+  onSetRole: (role: ClubRole) => void;
+  onRemove: (ban: boolean) => void;
+}
+
+function MemberCard({ member, assignableRoles, onSetRole, onRemove }: MemberCardProps) {
+  const displayName = member.displayName || 'Anonymous';
+  const initials = displayName.slice(0, 2).toUpperCase();
+
+  const content = (
+    <div className="flex items-center gap-3 min-w-0">
+      <Avatar className="h-9 w-9">
+        <AvatarFallback className="text-xs bg-primary/10 text-primary">
+          {initials}
+        </AvatarFallback>
+      </Avatar>
+      <div className="flex-1 min-w-0">
+        <div className="flex items-center gap-2">
+          <p className="font-medium truncate font-sans text-sm">{displayName}</p>
+          {ROLE_ICONS[member.role]}
+        </div>
+        {member.role !== 'member' && (
+          <p className="text-xs text-muted-foreground">{CLUB_ROLE_LABELS[member.role]}</p>
+        )}
+      </div>
+      {member.isPublic && member.shareId && (
+        <ExternalLink className="w-4 h-4 text-muted-foreground shrink-0" />
+      )}
+    </div>
+  );
+
+  return (
+    <div className="flex items-center gap-1 p-3 rounded-lg border bg-card hover:bg-muted/30 transition-colors">
+      {member.isPublic && member.shareId ? (
+        <Link to={`/shelf/${member.shareId}`} className="block flex-1 min-w-0">
+          {content}
+        </Link>
+      ) : (
+        <div className="flex-1 min-w-0">{content}</div>
+      )}
+      {assignableRoles && (
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="ghost" size="icon" className="h-8 w-8 shrink-0" aria-label={`Manage ${displayName}`}>
+              <MoreVertical className="w-4 h-4" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end" className="bg-popover font-sans">
+            {assignableRoles.length > 0 && (
+              <>
+                <DropdownMenuLabel className="text-xs text-muted-foreground">Change role</DropdownMenuLabel>
+                {assignableRoles.map((role) => (
+                  <DropdownMenuItem key={role} onClick={() => onSetRole(role)}>
+                    {CLUB_ROLE_LABELS[role]}
+                  </DropdownMenuItem>
+                ))}
+                <DropdownMenuSeparator />
+              </>
+            )}
+            <DropdownMenuItem onClick={() => onRemove(false)}>
+              <UserMinus className="w-4 h-4 mr-2" />
+              Remove from Club
+            </DropdownMenuItem>
+            <DropdownMenuItem onClick={() => onRemove(true)} className="text-destructive focus:text-destructive">
+              <Ban className="w-4 h-4 mr-2" />
+              Remove and Ban
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+      )}
+    </div>
+  );
+}
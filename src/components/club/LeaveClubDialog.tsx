@@ -0,0 +1,87 @@
+import { useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { CLUB_ROLE_LABELS, sortMembersByRole } from '@/lib/clubRoles';
+import type { ClubMemberWithProfile } from '@/hooks/useBookClubs';
+
+interface LeaveClubDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  clubName: string;
+  /** Owners pick who takes the club over before they go */
+  isOwner: boolean;
+  otherMembers: ClubMemberWithProfile[];
+  onLeave: (newOwnerId?: string) => Promise<boolean>;
+}
+
+export function LeaveClubDialog({ open, onOpenChange, clubName, isOwner, otherMembers, onLeave }: LeaveClubDialogProps) {
+  const [newOwnerId, setNewOwnerId] = useState('');
+  const [isLeaving, setIsLeaving] = useState(false);
+
+  const handleLeave = async () => {
+    setIsLeaving(true);
+    const success = await onLeave(isOwner ? newOwnerId : undefined);
+    setIsLeaving(false);
+    if (success) onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="font-sans">Leave "{clubName}"?</DialogTitle>
+          <DialogDescription>
+            {isOwner
+              ? 'Choose who runs the club after you. They become the owner and you leave the club.'
+              : "You'll need a new invite link to rejoin."}
+          </DialogDescription>
+        </DialogHeader>
+        {isOwner && (
+          <div className="space-y-2">
+            <Label>New owner</Label>
+            <Select value={newOwnerId} onValueChange={setNewOwnerId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Pick a member" />
+              </SelectTrigger>
+              <SelectContent>
+                {sortMembersByRole(otherMembers).map((member) => (
+                  <SelectItem key={member.userId} value={member.userId}>
+                    {member.displayName || 'Anonymous'}
+                    {member.role !== 'member' && ` · ${CLUB_ROLE_LABELS[member.role]}`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button
+            variant="destructive"
+            onClick={handleLeave}
+            disabled={isLeaving || (isOwner && !newOwnerId)}
+          >
+            {isLeaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            {isOwner ? 'Hand Over and Leave' : 'Leave Club'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
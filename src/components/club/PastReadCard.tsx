@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useState, type ReactNode } from 'react';
 import { Link } from 'react-router-dom';
 import { 
   ChevronDown, 
@@ -10,7 +10,8 @@ import {
   BookMarked,
   Pencil,
   Trash2,
-  MoreVertical
+  MoreVertical,
+  EyeOff
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -58,10 +59,17 @@ interface PastReadCardProps {
   hasUserReflected: boolean;
   userReflection?: ClubReflection;
   isOnShelf: boolean;
+  /** Other members' reflections held back until the user reaches the end of the schedule */
+  hiddenReflectionCount?: number;
   onAddReflection: (rating: number, content: string, isAnonymous: boolean) => Promise<boolean>;
   onUpdateReflection: (reflectionId: string, rating: number, content: string, isAnonymous: boolean) => Promise<boolean>;
   onDeleteReflection: (reflectionId: string) => Promise<boolean>;
+  /** Set for club moderators so they can remove other members' reflections */
+  onRemoveReflection?: (reflectionId: string) => void;
   onAddToShelf: () => void;
+  onMarkFinished?: () => void;
+  /** The book's discussion threads, kept as a read-only archive */
+  discussions?: ReactNode;
 }
 
 export function PastReadCard({
@@ -71,10 +79,14 @@ export function PastReadCard({
   hasUserReflected,
   userReflection,
   isOnShelf,
+  hiddenReflectionCount = 0,
   onAddReflection,
   onUpdateReflection,
   onDeleteReflection,
+  onRemoveReflection,
   onAddToShelf,
+  onMarkFinished,
+  discussions,
 }: PastReadCardProps) {
   const [expanded, setExpanded] = useState(false);
   const [showAddDialog, setShowAddDialog] = useState(false);
@@ -240,12 +252,30 @@ export function PastReadCard({
             )}
           </div>
 
+          {/* Spoiler gate from the club's reading schedule */}
+          {hiddenReflectionCount > 0 && (
+            <div className="flex flex-wrap items-center justify-between gap-2 p-3 rounded-md bg-muted/40 text-sm">
+              <span className="flex items-center gap-2 text-muted-foreground">
+                <EyeOff className="w-4 h-4 shrink-0" />
+                {hiddenReflectionCount} {hiddenReflectionCount === 1 ? 'reflection is' : 'reflections are'} hidden until you finish the book
+              </span>
+              {onMarkFinished && (
+                <Button variant="outline" size="sm" onClick={onMarkFinished}>
+                  I've finished it
+                </Button>
+              )}
+            </div>
+          )}
+
           {/* Reflections Mosaic */}
           <ReflectionMosaic
             reflections={reflections}
             averageRating={averageRating}
             bookTitle={suggestion.title}
+            onRemoveReflection={onRemoveReflection}
           />
+
+          {discussions}
         </div>
       )}
 
@@ -0,0 +1,154 @@
+import { useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { AlertCircle, CheckCircle2, Circle, Flag, Loader2, Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { cn } from '@/lib/utils';
+import { countMembersReached, getOverdueMilestone, hasReachedMilestone } from '@/lib/readingSchedule';
+import type { BookClubMilestone, ReadingPosition } from '@/types/bookClub';
+
+interface ReadingScheduleProps {
+  milestones: BookClubMilestone[];
+  positions: ReadingPosition[];
+  memberCount: number;
+  userPosition: string | null;
+  isHost: boolean;
+  onAddMilestone: (label: string, dueDate: string) => Promise<boolean>;
+  onRemoveMilestone: (milestoneId: string) => void;
+  onSetPosition: (milestoneId: string | null) => void;
+}
+
+export function ReadingSchedule({
+  milestones,
+  positions,
+  memberCount,
+  userPosition,
+  isHost,
+  onAddMilestone,
+  onRemoveMilestone,
+  onSetPosition,
+}: ReadingScheduleProps) {
+  const [label, setLabel] = useState('');
+  const [dueDate, setDueDate] = useState('');
+  const [isAdding, setIsAdding] = useState(false);
+
+  if (milestones.length === 0 && !isHost) return null;
+
+  const reachedCounts = countMembersReached(milestones, positions);
+  const overdue = getOverdueMilestone(milestones, userPosition, format(new Date(), 'yyyy-MM-dd'));
+
+  // Ticking the milestone you're on steps back to the one before it
+  const handleToggle = (milestone: BookClubMilestone, index: number) => {
+    if (milestone.id === userPosition) {
+      onSetPosition(index > 0 ? milestones[index - 1].id : null);
+    } else {
+      onSetPosition(milestone.id);
+    }
+  };
+
+  const handleAdd = async () => {
+    if (!label.trim() || !dueDate) return;
+    setIsAdding(true);
+    const success = await onAddMilestone(label, dueDate);
+    setIsAdding(false);
+    if (success) {
+      setLabel('');
+      setDueDate('');
+    }
+  };
+
+  return (
+    <div className="mt-4 pt-4 border-t border-primary/10 space-y-3">
+      <div className="flex items-center gap-2">
+        <Flag className="w-4 h-4 text-primary" />
+        <h4 className="text-sm font-semibold font-sans">Reading Schedule</h4>
+      </div>
+
+      {overdue && (
+        <p className="text-xs text-amber-700 dark:text-amber-400 flex items-center gap-1.5">
+          <AlertCircle className="w-3.5 h-3.5 shrink-0" />
+          "{overdue.label}" was due {format(parseISO(overdue.dueDate), 'EEE, MMM d')} — spoilers past your spot stay hidden.
+        </p>
+      )}
+
+      {milestones.length > 0 && (
+        <ol className="space-y-1.5">
+          {milestones.map((milestone, index) => {
+            const reached = hasReachedMilestone(milestones, userPosition, milestone.id);
+            return (
+              <li key={milestone.id} className="flex items-center gap-2.5 group">
+                <button
+                  type="button"
+                  onClick={() => handleToggle(milestone, index)}
+                  className="shrink-0"
+                  aria-label={reached ? `Unmark ${milestone.label}` : `Mark ${milestone.label} as read`}
+                >
+                  {reached ? (
+                    <CheckCircle2 className="w-5 h-5 text-primary" />
+                  ) : (
+                    <Circle className="w-5 h-5 text-muted-foreground hover:text-primary transition-colors" />
+                  )}
+                </button>
+                <div className="flex-1 min-w-0">
+                  <p className={cn('text-sm font-sans truncate', reached && 'text-muted-foreground')}>
+                    {milestone.label}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    Due {format(parseISO(milestone.dueDate), 'EEE, MMM d')} · {reachedCounts.get(milestone.id) ?? 0}/{memberCount} there
+                  </p>
+                </div>
+                {isHost && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7 opacity-0 group-hover:opacity-100 focus-visible:opacity-100"
+                    onClick={() => onRemoveMilestone(milestone.id)}
+                    aria-label={`Remove ${milestone.label}`}
+                  >
+                    <Trash2 className="w-3.5 h-3.5 text-muted-foreground" />
+                  </Button>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+      )}
+
+      {isHost && (
+        <div className="space-y-1.5">
+          {milestones.length === 0 && (
+            <p className="text-xs text-muted-foreground">
+              Add milestones to pace the club. Reflections stay hidden until each member reaches the last one.
+            </p>
+          )}
+          <div className="flex gap-2">
+            <Input
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+              placeholder="Chapters 1–8"
+              maxLength={100}
+              className="h-8 text-sm"
+              onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+            />
+            <Input
+              type="date"
+              value={dueDate}
+              onChange={(e) => setDueDate(e.target.value)}
+              className="h-8 text-sm w-40 shrink-0"
+            />
+            <Button
+              size="sm"
+              variant="outline"
+              className="h-8 shrink-0"
+              onClick={handleAdd}
+              disabled={!label.trim() || !dueDate || isAdding}
+              aria-label="Add milestone"
+            >
+              {isAdding ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
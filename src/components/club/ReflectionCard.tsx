@@ -1,15 +1,24 @@
+import { useState } from 'react';
 import { Link } from 'react-router-dom';
-import { Star, User } from 'lucide-react';
+import { Star, User, Flag, Trash2 } from 'lucide-react';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
+import { ReportDialog } from '@/components/ReportDialog';
+import { useAuth } from '@/contexts/AuthContext';
 import { cn } from '@/lib/utils';
 import { ClubReflection } from '@/hooks/useClubReflections';
 
 interface ReflectionCardProps {
   reflection: ClubReflection;
   compact?: boolean;
+  /** Lets club moderators take down another member's reflection */
+  onRemove?: () => void;
 }
 
-export function ReflectionCard({ reflection, compact = false }: ReflectionCardProps) {
+export function ReflectionCard({ reflection, compact = false, onRemove }: ReflectionCardProps) {
+  const { user } = useAuth();
+  const [reportOpen, setReportOpen] = useState(false);
+  const canReport = !!user && user.id !== reflection.userId;
+  const canRemove = !!onRemove && canReport;
   const displayName = reflection.isAnonymous ? 'Anonymous' : (reflection.displayName || 'A member');
   const initials = reflection.isAnonymous ? '?' : displayName.slice(0, 2).toUpperCase();
   
@@ -31,12 +40,46 @@ export function ReflectionCard({ reflection, compact = false }: ReflectionCardPr
   const content = (
     <div
       className={cn(
-        'p-3 rounded-lg border transition-transform hover:scale-[1.02]',
+        'relative group p-3 rounded-lg border transition-transform hover:scale-[1.02]',
         colorClass,
         compact ? 'text-sm' : ''
       )}
       style={{ transform: `rotate(${rotation})` }}
     >
+      {(canReport || canRemove) && (
+        <div className="absolute top-2 right-2 flex items-center gap-0.5 opacity-0 group-hover:opacity-100 transition-opacity">
+          {canRemove && (
+            <button
+              type="button"
+              onClick={(e) => {
+                e.preventDefault();
+                e.stopPropagation();
+                onRemove();
+              }}
+              className="p-1 rounded text-muted-foreground hover:text-destructive"
+              title="Remove reflection"
+            >
+              <Trash2 className="w-3 h-3" />
+            </button>
+          )}
+          {canReport && (
+            <button
+              type="button"
+              onClick={(e) => {
+                // Don't follow the card's shelf link
+                e.preventDefault();
+                e.stopPropagation();
+                setReportOpen(true);
+              }}
+              className="p-1 rounded text-muted-foreground hover:text-destructive"
+              title="Report reflection"
+            >
+              <Flag className="w-3 h-3" />
+            </button>
+          )}
+        </div>
+      )}
+
       {/* Rating */}
       <div className="flex items-center gap-0.5 mb-2">
         {[1, 2, 3, 4, 5].map((star) => (
@@ -74,14 +117,27 @@ export function ReflectionCard({ reflection, compact = false }: ReflectionCardPr
     </div>
   );
 
+  // Kept outside the link so clicks inside the dialog don't navigate
+  const reportDialog = canReport && (
+    <ReportDialog open={reportOpen} onOpenChange={setReportOpen} targetType="reflection" targetId={reflection.id} />
+  );
+
   // Link to shelf if not anonymous and has public shelf
   if (!reflection.isAnonymous && reflection.shareId) {
     return (
-      <Link to={`/shelf/${reflection.shareId}`} className="block">
-        {content}
-      </Link>
+      <>
+        <Link to={`/shelf/${reflection.shareId}`} className="block">
+          {content}
+        </Link>
+        {reportDialog}
+      </>
     );
   }
 
-  return content;
+  return (
+    <>
+      {content}
+      {reportDialog}
+    </>
+  );
 }
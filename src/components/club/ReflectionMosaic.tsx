@@ -7,9 +7,10 @@ interface ReflectionMosaicProps {
   reflections: ClubReflection[];
   averageRating: number | null;
   bookTitle?: string;
+  onRemoveReflection?: (reflectionId: string) => void;
 }
 
-export function ReflectionMosaic({ reflections, averageRating, bookTitle }: ReflectionMosaicProps) {
+export function ReflectionMosaic({ reflections, averageRating, bookTitle, onRemoveReflection }: ReflectionMosaicProps) {
   if (reflections.length === 0) {
     return (
       <div className="text-center py-6 text-muted-foreground text-sm">
@@ -39,7 +40,11 @@ export function ReflectionMosaic({ reflections, averageRating, bookTitle }: Refl
       {/* Mosaic Grid */}
       <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">
         {reflections.map((reflection) => (
-          <ReflectionCard key={reflection.id} reflection={reflection} />
+          <ReflectionCard
+            key={reflection.id}
+            reflection={reflection}
+            onRemove={onRemoveReflection && (() => onRemoveReflection(reflection.id))}
+          />
         ))}
       </div>
     </div>
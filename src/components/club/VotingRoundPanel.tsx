@@ -0,0 +1,423 @@
+import { useState } from 'react';
+import { addDays, differenceInDays, formatDistanceToNow } from 'date-fns';
+import { Check, EyeOff, Loader2, Trophy, Vote } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+import { ROUND_LENGTH_OPTIONS, VOTING_METHODS, tallyBallots } from '@/lib/votingRounds';
+import type { VotingRoundInput } from '@/hooks/useClubVotingRounds';
+import type { BookClubSuggestion, RoundBallot, VotingMethod, VotingRound } from '@/types/bookClub';
+
+// How long a closed round's result stays pinned above the suggestions
+const RESULT_VISIBLE_DAYS = 7;
+
+interface VotingRoundPanelProps {
+  round: VotingRound | null;
+  ballots: RoundBallot[];
+  turnout: number;
+  memberCount: number;
+  userBallot: string[];
+  suggestions: BookClubSuggestion[];
+  isHost: boolean;
+  onOpenRound: (input: VotingRoundInput) => Promise<boolean>;
+  onCastBallot: (suggestionIds: string[]) => Promise<boolean>;
+  onCloseRound: () => Promise<boolean>;
+  onCancelRound: () => Promise<boolean>;
+}
+
+export function VotingRoundPanel({
+  round,
+  ballots,
+  turnout,
+  memberCount,
+  userBallot,
+  suggestions,
+  isHost,
+  onOpenRound,
+  onCastBallot,
+  onCloseRound,
+  onCancelRound,
+}: VotingRoundPanelProps) {
+  const [formOpen, setFormOpen] = useState(false);
+  const [formKey, setFormKey] = useState(0);
+
+  // Oldest first, matching the server's tie-breaks
+  const byAge = [...suggestions].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  const candidates = byAge.filter((s) => s.status === 'suggested');
+  const getTitle = (id: string | null) => suggestions.find((s) => s.id === id)?.title ?? 'A removed book';
+
+  const isOpen = round?.status === 'open';
+  const showRecentResult = round?.status === 'closed' && !!round.closedAt
+    && differenceInDays(new Date(), new Date(round.closedAt)) < RESULT_VISIBLE_DAYS;
+
+  if (!isOpen && !showRecentResult && !(isHost && candidates.length >= 2)) return null;
+
+  const handleOpenForm = () => {
+    setFormKey((k) => k + 1);
+    setFormOpen(true);
+  };
+
+  return (
+    <div className="p-4 rounded-lg border bg-muted/20 space-y-3">
+      {isOpen && round ? (
+        <>
+          <OpenRoundHeader round={round} turnout={turnout} memberCount={memberCount} />
+          <BallotEditor
+            key={`${round.id}-${userBallot.join()}`}
+            method={round.method}
+            candidates={candidates}
+            userBallot={userBallot}
+            disabled={new Date(round.endsAt) <= new Date()}
+            onSubmit={onCastBallot}
+          />
+          {round.hideResults ? (
+            <p className="text-xs text-muted-foreground flex items-center gap-1.5">
+              <EyeOff className="w-3.5 h-3.5" />
+              Tallies stay hidden until voting closes.
+            </p>
+          ) : (
+            <RoundResults
+              method={round.method}
+              candidateIds={candidates.map((s) => s.id)}
+              ballots={ballots}
+              getTitle={getTitle}
+            />
+          )}
+          {isHost && (
+            <div className="flex items-center gap-2 pt-1">
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <Button variant="outline" size="sm">Close Voting Now</Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle className="font-sans">Close voting early?</AlertDialogTitle>
+                    <AlertDialogDescription>
+                      Ballots are counted now and the winner becomes the current read if the club isn't reading anything.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Keep Voting</AlertDialogCancel>
+                    <AlertDialogAction onClick={onCloseRound}>Close and Count</AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+              <Button variant="ghost" size="sm" className="text-muted-foreground" onClick={onCancelRound}>
+                Cancel Round
+              </Button>
+            </div>
+          )}
+        </>
+      ) : (
+        <>
+          {showRecentResult && round && (
+            <ClosedRoundSummary
+              round={round}
+              candidateIds={byAge.map((s) => s.id)}
+              ballots={ballots}
+              getTitle={getTitle}
+            />
+          )}
+          {isHost && candidates.length >= 2 && (
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <p className="text-sm text-muted-foreground">
+                Let the club choose the next book with a timed vote.
+              </p>
+              <Button size="sm" className="gap-1.5" onClick={handleOpenForm}>
+                <Vote className="w-4 h-4" />
+                Start a Vote
+              </Button>
+            </div>
+          )}
+        </>
+      )}
+
+      {isHost && (
+        <RoundFormDialog key={formKey} open={formOpen} onOpenChange={setFormOpen} onSubmit={onOpenRound} />
+      )}
+    </div>
+  );
+}
+
+function OpenRoundHeader({ round, turnout, memberCount }: { round: VotingRound; turnout: number; memberCount: number }) {
+  const method = VOTING_METHODS.find((m) => m.method === round.method);
+  const pastDeadline = new Date(round.endsAt) <= new Date();
+
+  return (
+    <div className="space-y-1">
+      <div className="flex flex-wrap items-center gap-2">
+        <Vote className="w-4 h-4 text-primary" />
+        <h3 className="text-sm font-semibold font-sans">Vote for the next book</h3>
+        {method && <Badge variant="secondary">{method.label}</Badge>}
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {pastDeadline
+          ? 'Voting has ended — counting ballots…'
+          : `Closes ${formatDistanceToNow(new Date(round.endsAt), { addSuffix: true })}`}
+        {' · '}
+        {turnout} of {memberCount} voted
+      </p>
+      {method && <p className="text-xs text-muted-foreground">{method.description}</p>}
+    </div>
+  );
+}
+
+// Ballot Editor Component
+interface BallotEditorProps {
+  method: VotingMethod;
+  candidates: BookClubSuggestion[];
+  userBallot: string[];
+  disabled: boolean;
+  onSubmit: (suggestionIds: string[]) => Promise<boolean>;
+}
+
+function BallotEditor({ method, candidates, userBallot, disabled, onSubmit }: BallotEditorProps) {
+  const [picks, setPicks] = useState<string[]>(userBallot);
+  const [isSaving, setIsSaving] = useState(false);
+  const unchanged = picks.join() === userBallot.join();
+
+  // Ranked: clicking adds the book as the next choice, clicking again drops it
+  const handleToggle = (id: string) => {
+    if (method === 'plurality') {
+      setPicks(picks[0] === id ? [] : [id]);
+    } else {
+      setPicks(picks.includes(id) ? picks.filter((p) => p !== id) : [...picks, id]);
+    }
+  };
+
+  const handleSubmit = async () => {
+    setIsSaving(true);
+    await onSubmit(picks);
+    setIsSaving(false);
+  };
+
+  return (
+    <div className="space-y-2">
+      {method === 'ranked' && (
+        <p className="text-xs text-muted-foreground">Tap books in order of preference.</p>
+      )}
+      <div className="grid gap-1.5">
+        {candidates.map((suggestion) => {
+          const position = picks.indexOf(suggestion.id);
+          const picked = position >= 0;
+          return (
+            <button
+              key={suggestion.id}
+              type="button"
+              disabled={disabled}
+              onClick={() => handleToggle(suggestion.id)}
+              className={cn(
+                'flex items-center gap-2.5 px-3 py-2 rounded-md border text-left text-sm transition-colors disabled:opacity-60',
+                picked ? 'border-primary bg-primary/10' : 'hover:bg-muted/50'
+              )}
+            >
+              <span
+                className={cn(
+                  'w-5 h-5 shrink-0 rounded-full border flex items-center justify-center text-[11px] font-semibold',
+                  picked && 'bg-primary border-primary text-primary-foreground'
+                )}
+              >
+                {picked && (method === 'ranked' ? position + 1 : <Check className="w-3 h-3" />)}
+              </span>
+              <span className="flex-1 min-w-0 truncate font-sans">{suggestion.title}</span>
+              <span className="text-xs text-muted-foreground truncate max-w-[40%]">{suggestion.author}</span>
+            </button>
+          );
+        })}
+      </div>
+      {!disabled && (
+        <div className="flex justify-end">
+          <Button size="sm" onClick={handleSubmit} disabled={unchanged || isSaving}>
+            {isSaving && <Loader2 className="w-4 h-4 mr-1.5 animate-spin" />}
+            {picks.length === 0 && userBallot.length > 0
+              ? 'Withdraw Ballot'
+              : userBallot.length > 0 ? 'Update Ballot' : 'Cast Ballot'}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Round Results Component
+interface RoundResultsProps {
+  method: VotingMethod;
+  /** Oldest first */
+  candidateIds: string[];
+  ballots: RoundBallot[];
+  getTitle: (id: string) => string;
+}
+
+function RoundResults({ method, candidateIds, ballots, getTitle }: RoundResultsProps) {
+  const { steps } = tallyBallots(method, candidateIds, ballots);
+  const final = steps[steps.length - 1];
+  if (!final || ballots.length === 0) return null;
+
+  const rows = Object.entries(final.counts).sort(([, a], [, b]) => b - a);
+  const total = rows.reduce((sum, [, n]) => sum + n, 0);
+
+  return (
+    <div className="space-y-1.5">
+      {rows.map(([id, count]) => (
+        <div key={id} className="space-y-0.5">
+          <div className="flex justify-between text-xs">
+            <span className="truncate">{getTitle(id)}</span>
+            <span className="text-muted-foreground shrink-0 ml-2">{count}</span>
+          </div>
+          <div className="h-1.5 rounded-full bg-muted overflow-hidden">
+            <div className="h-full bg-primary" style={{ width: `${total ? (count / total) * 100 : 0}%` }} />
+          </div>
+        </div>
+      ))}
+      {method === 'ranked' && steps.length > 1 && (
+        <p className="text-xs text-muted-foreground">
+          After {steps.length - 1} {steps.length === 2 ? 'runoff' : 'runoffs'}, dropping{' '}
+          {steps.filter((s) => s.eliminated).map((s) => getTitle(s.eliminated as string)).join(', ')}.
+        </p>
+      )}
+    </div>
+  );
+}
+
+function ClosedRoundSummary({ round, candidateIds, ballots, getTitle }: Omit<RoundResultsProps, 'method'> & { round: VotingRound }) {
+  // Only books that got a vote matter once the winner has left the suggestion list
+  const voted = new Set(ballots.map((b) => b.suggestionId));
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <Trophy className="w-4 h-4 text-amber-500" />
+        <p className="text-sm font-sans">
+          {round.winnerSuggestionId ? (
+            <>The club picked <span className="font-semibold">{getTitle(round.winnerSuggestionId)}</span></>
+          ) : (
+            'The last vote closed without any ballots'
+          )}
+        </p>
+      </div>
+      <RoundResults
+        method={round.method}
+        candidateIds={candidateIds.filter((id) => voted.has(id))}
+        ballots={ballots}
+        getTitle={getTitle}
+      />
+    </div>
+  );
+}
+
+// Round Form Dialog Component
+interface RoundFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (input: VotingRoundInput) => Promise<boolean>;
+}
+
+function RoundFormDialog({ open, onOpenChange, onSubmit }: RoundFormDialogProps) {
+  const [method, setMethod] = useState<VotingMethod>('plurality');
+  const [days, setDays] = useState('3');
+  const [hideResults, setHideResults] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSubmit = async () => {
+    setIsSaving(true);
+    const success = await onSubmit({
+      method,
+      endsAt: addDays(new Date(), Number(days)).toISOString(),
+      hideResults,
+    });
+    setIsSaving(false);
+    if (success) onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="font-sans">Start a Vote</DialogTitle>
+          <DialogDescription>
+            When voting closes, the winner becomes the current read if the club isn't reading anything.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-2">
+          <div className="space-y-2">
+            <Label>Voting method</Label>
+            <Select value={method} onValueChange={(value) => setMethod(value as VotingMethod)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {VOTING_METHODS.map((option) => (
+                  <SelectItem key={option.method} value={option.method}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              {VOTING_METHODS.find((m) => m.method === method)?.description}
+            </p>
+          </div>
+          <div className="space-y-2">
+            <Label>Voting closes in</Label>
+            <Select value={days} onValueChange={setDays}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ROUND_LENGTH_OPTIONS.map((n) => (
+                  <SelectItem key={n} value={String(n)}>
+                    {n === 1 ? '1 day' : `${n} days`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <Label htmlFor="hide-results">Hide tallies until it closes</Label>
+              <p className="text-xs text-muted-foreground">Members only see how many people have voted.</p>
+            </div>
+            <Switch id="hide-results" checked={hideResults} onCheckedChange={setHideResults} />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={isSaving}>
+            {isSaving && <Loader2 className="w-4 h-4 mr-1.5 animate-spin" />}
+            Open Voting
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,126 @@
+import { useMemo, useState } from 'react';
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { Book } from '@/types/book';
+import { computeReadingStats, getStatsYears, RankedStat } from '@/lib/readingStats';
+import { YearInReviewCard } from '@/components/stats/YearInReviewCard';
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { BarChart3 } from 'lucide-react';
+
+interface ReadingStatsViewProps {
+  books: Book[];
+  /** Used in the year-in-review card, e.g. "Jason" */
+  ownerName: string;
+}
+
+type MonthMetric = 'books' | 'pages';
+
+const monthChartConfig = {
+  books: { label: 'Books', color: 'hsl(var(--primary))' },
+  pages: { label: 'Pages', color: 'hsl(var(--primary))' },
+} satisfies ChartConfig;
+
+function RankedList({ title, items, emptyText }: { title: string; items: RankedStat[]; emptyText: string }) {
+  const max = items[0]?.count || 1;
+
+  return (
+    <div className="rounded-lg border border-border bg-card p-4">
+      <h3 className="text-sm font-medium mb-3">{title}</h3>
+      {items.length === 0 ? (
+        <p className="text-sm text-muted-foreground">{emptyText}</p>
+      ) : (
+        <ul className="space-y-2">
+          {items.map((item) => (
+            <li key={item.name} className="text-sm">
+              <div className="flex items-center justify-between gap-2 mb-1">
+                <span className="truncate">{item.name}</span>
+                <span className="text-muted-foreground tabular-nums shrink-0">{item.count}</span>
+              </div>
+              <div className="h-1.5 rounded-full bg-muted overflow-hidden">
+                <div className="h-full bg-primary/70 rounded-full" style={{ width: `${(item.count / max) * 100}%` }} />
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Charts and summaries for a set of books - shared by /stats and the public stats page.
+ */
+export function ReadingStatsView({ books, ownerName }: ReadingStatsViewProps) {
+  const years = useMemo(() => getStatsYears(books), [books]);
+  const [selectedYear, setSelectedYear] = useState<string>(() => String(years[0] ?? new Date().getFullYear()));
+  const [monthMetric, setMonthMetric] = useState<MonthMetric>('books');
+
+  const year = selectedYear === 'all' ? null : Number(selectedYear);
+  const stats = useMemo(() => computeReadingStats(books, year), [books, year]);
+
+  // Make sure the current year is always selectable, even before anything is finished
+  const yearOptions = useMemo(() => {
+    const current = new Date().getFullYear();
+    return years.includes(current) ? years : [current, ...years];
+  }, [years]);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between gap-3">
+        <h1 className="text-2xl font-sans font-semibold flex items-center gap-2">
+          <BarChart3 className="w-6 h-6 text-muted-foreground" />
+          Reading stats
+        </h1>
+        <Select value={selectedYear} onValueChange={setSelectedYear}>
+          <SelectTrigger className="w-32">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {yearOptions.map((y) => (
+              <SelectItem key={y} value={String(y)}>{y}</SelectItem>
+            ))}
+            <SelectItem value="all">All time</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <YearInReviewCard stats={stats} ownerName={ownerName} />
+
+      <div className="rounded-lg border border-border bg-card p-4">
+        <div className="flex items-center justify-between gap-2 mb-3">
+          <h3 className="text-sm font-medium">Finished per month</h3>
+          <ToggleGroup
+            type="single"
+            size="sm"
+            value={monthMetric}
+            onValueChange={(v) => v && setMonthMetric(v as MonthMetric)}
+          >
+            <ToggleGroupItem value="books" className="h-7 px-2 text-xs">Books</ToggleGroupItem>
+            <ToggleGroupItem value="pages" className="h-7 px-2 text-xs">Pages</ToggleGroupItem>
+          </ToggleGroup>
+        </div>
+        {stats.booksFinished === 0 ? (
+          <p className="text-sm text-muted-foreground py-8 text-center">
+            No finished books {year === null ? 'yet' : `in ${year}`}. Mark books as read to see them here.
+          </p>
+        ) : (
+          <ChartContainer config={monthChartConfig} className="h-56 w-full">
+            <BarChart data={stats.byMonth} margin={{ left: -16, right: 4 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="month" tickLine={false} axisLine={false} tickMargin={8} />
+              <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={48} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <Bar dataKey={monthMetric} fill={`var(--color-${monthMetric})`} radius={4} />
+            </BarChart>
+          </ChartContainer>
+        )}
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-2">
+        <RankedList title="Top genres" items={stats.topCategories} emptyText="No genre data yet." />
+        <RankedList title="Most-read authors" items={stats.topAuthors} emptyText="No finished books yet." />
+      </div>
+    </div>
+  );
+}
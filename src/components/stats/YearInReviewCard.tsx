@@ -0,0 +1,103 @@
+import { useState } from 'react';
+import posthog from 'posthog-js';
+import { ReadingStats } from '@/lib/readingStats';
+import { renderYearInReviewImage } from '@/lib/yearInReviewImage';
+import { Button } from '@/components/ui/button';
+import { Loader2, Share2, Sparkles } from 'lucide-react';
+import { toast } from 'sonner';
+
+interface YearInReviewCardProps {
+  stats: ReadingStats;
+  /** Shown as "<name>'s" on the shared image; may be empty */
+  ownerName: string;
+}
+
+export function YearInReviewCard({ stats, ownerName }: YearInReviewCardProps) {
+  const [sharing, setSharing] = useState(false);
+  const periodLabel = stats.year === null ? 'All time' : String(stats.year);
+
+  const handleShare = async () => {
+    setSharing(true);
+    try {
+      const blob = await renderYearInReviewImage(stats, ownerName);
+      const fileName = `shelvy-${periodLabel.toLowerCase().replace(/\s+/g, '-')}-in-books.png`;
+      const file = new File([blob], fileName, { type: 'image/png' });
+
+      // Prefer the native share sheet (mobile); fall back to downloading the image
+      if (navigator.canShare?.({ files: [file] })) {
+        await navigator.share({ files: [file], title: ownerName ? `${ownerName}'s ${periodLabel} in books` : `My ${periodLabel} in books` });
+      } else {
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = fileName;
+        link.click();
+        URL.revokeObjectURL(url);
+        toast.success('Image downloaded');
+      }
+      posthog.capture('year_in_review_shared', { year: stats.year, books: stats.booksFinished });
+    } catch (err) {
+      // User dismissing the share sheet is not an error worth surfacing
+      if (err instanceof DOMException && err.name === 'AbortError') return;
+      console.error('Error sharing year in review:', err);
+      toast.error('Failed to create image');
+    } finally {
+      setSharing(false);
+    }
+  };
+
+  return (
+    <div className="rounded-xl p-6 bg-gradient-to-br from-amber-700 to-amber-950 text-amber-50 shadow-lg">
+      <div className="flex items-start justify-between gap-3 mb-6">
+        <div>
+          <p className="text-sm text-amber-100/80 flex items-center gap-1.5">
+            <Sparkles className="w-3.5 h-3.5" />
+            {periodLabel === 'All time' ? 'All time' : 'Year in review'}
+          </p>
+          <h2 className="text-3xl font-display leading-tight">{periodLabel} in books</h2>
+        </div>
+        <Button
+          size="sm"
+          variant="secondary"
+          className="gap-1.5 shrink-0"
+          onClick={handleShare}
+          disabled={sharing || stats.booksFinished === 0}
+        >
+          {sharing ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Share2 className="w-3.5 h-3.5" />}
+          Share
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-3 gap-4 text-center">
+        <div>
+          <p className="text-3xl font-display">{stats.booksFinished.toLocaleString()}</p>
+          <p className="text-xs text-amber-100/70">{stats.booksFinished === 1 ? 'book' : 'books'}</p>
+        </div>
+        <div>
+          <p className="text-3xl font-display">{stats.pagesRead.toLocaleString()}</p>
+          <p className="text-xs text-amber-100/70">pages</p>
+        </div>
+        <div>
+          <p className="text-3xl font-display">{stats.averagePages?.toLocaleString() ?? '—'}</p>
+          <p className="text-xs text-amber-100/70">avg. length</p>
+        </div>
+      </div>
+
+      {(stats.topCategories[0] || stats.topAuthors[0] || stats.longestBook) && (
+        <div className="mt-6 space-y-1.5 text-sm">
+          {stats.topCategories[0] && (
+            <p><span className="text-amber-100/70">Favorite genre:</span> {stats.topCategories[0].name}</p>
+          )}
+          {stats.topAuthors[0] && (
+            <p><span className="text-amber-100/70">Most-read author:</span> {stats.topAuthors[0].name}</p>
+          )}
+          {stats.longestBook && (
+            <p className="truncate">
+              <span className="text-amber-100/70">Longest read:</span> {stats.longestBook.title} ({stats.longestBook.pageCount} pages)
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -6,6 +6,8 @@ interface BookAnimationContextType {
   markAsAdded: (bookId: string) => void;
   markAsCompleted: (bookId: string) => void;
   clearAnimation: (bookId: string) => void;
+  isCelebratingGoal: boolean;
+  celebrateGoal: () => void;
 }
 
 const BookAnimationContext = createContext<BookAnimationContextType | null>(null);
@@ -13,6 +15,7 @@ const BookAnimationContext = createContext<BookAnimationContextType | null>(null
 export function BookAnimationProvider({ children }: { children: ReactNode }) {
   const [recentlyAddedBooks, setRecentlyAddedBooks] = useState<Set<string>>(new Set());
   const [recentlyCompletedBooks, setRecentlyCompletedBooks] = useState<Set<string>>(new Set());
+  const [isCelebratingGoal, setIsCelebratingGoal] = useState(false);
 
   const markAsAdded = useCallback((bookId: string) => {
     setRecentlyAddedBooks(prev => new Set(prev).add(bookId));
@@ -51,6 +54,12 @@ export function BookAnimationProvider({ children }: { children: ReactNode }) {
     });
   }, []);
 
+  // Reading goal reached - a longer, screen-wide celebration
+  const celebrateGoal = useCallback(() => {
+    setIsCelebratingGoal(true);
+    setTimeout(() => setIsCelebratingGoal(false), 3000);
+  }, []);
+
   return (
     <BookAnimationContext.Provider value={{
       recentlyAddedBooks,
@@ -58,6 +67,8 @@ export function BookAnimationProvider({ children }: { children: ReactNode }) {
       markAsAdded,
       markAsCompleted,
       clearAnimation,
+      isCelebratingGoal,
+      celebrateGoal,
     }}>
       {children}
     </BookAnimationContext.Provider>
@@ -74,6 +85,8 @@ export function useBookAnimations() {
       markAsAdded: () => {},
       markAsCompleted: () => {},
       clearAnimation: () => {},
+      isCelebratingGoal: false,
+      celebrateGoal: () => {},
     };
   }
   return context;
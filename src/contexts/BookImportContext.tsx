@@ -0,0 +1,35 @@
+import { createContext, useContext, ReactNode, useCallback } from 'react';
+import { useBookImport, BookImport } from '@/hooks/useBookImport';
+import { useBooksContext } from '@/contexts/BooksContext';
+import type { ImportedBook, ImportSource } from '@/lib/bookImport';
+
+interface BookImportContextType {
+  activeImport: BookImport | null;
+  starting: boolean;
+  startImport: (source: ImportSource, books: ImportedBook[]) => Promise<boolean>;
+  dismissImport: () => void;
+}
+
+const BookImportContext = createContext<BookImportContextType | null>(null);
+
+export function BookImportProvider({ children }: { children: ReactNode }) {
+  const { refetchBooks } = useBooksContext();
+  const refreshShelf = useCallback(() => {
+    refetchBooks({ silent: true });
+  }, [refetchBooks]);
+  const importState = useBookImport(refreshShelf);
+
+  return (
+    <BookImportContext.Provider value={importState}>
+      {children}
+    </BookImportContext.Provider>
+  );
+}
+
+export function useBookImportContext() {
+  const context = useContext(BookImportContext);
+  if (!context) {
+    throw new Error('useBookImportContext must be used within a BookImportProvider');
+  }
+  return context;
+}
@@ -13,9 +13,14 @@ interface BooksContextType {
   removeBook: (id: string) => Promise<void>;
   moveBook: (id: string, status: BookStatus) => Promise<void>;
   updateBookCover: (id: string, coverUrl: string) => Promise<void>;
+  setBookHidden: (id: string, hidden: boolean) => Promise<void>;
   updateBookCompletedAt: (id: string, completedAt: string | null) => Promise<void>;
+  updateBookReview: (id: string, review: { rating: number | null; review: string | null; hasSpoilers: boolean }) => Promise<boolean>;
+  reorderBooks: (orderedIds: string[]) => Promise<void>;
+  logProgress: (id: string, entry: { page?: number; percent?: number; note?: string }) => Promise<boolean>;
+  deleteProgress: (id: string, entryId: string) => Promise<boolean>;
   getBooksByStatus: (status: BookStatus) => Book[];
-  refetchBooks: () => Promise<void>;
+  refetchBooks: (options?: { silent?: boolean }) => Promise<void>;
 }
 
 const BooksContext = createContext<BooksContextType | null>(null);
@@ -1,10 +1,12 @@
 import { createContext, useContext, ReactNode } from 'react';
 import { useShelfSettings, ShelfSettings } from '@/hooks/useShelfSettings';
+import type { ShelfVisibility } from '@/types/book';
 
 interface ShelfSettingsContextType {
   settings: ShelfSettings | null;
   loading: boolean;
   updateDisplayName: (displayName: string) => Promise<void>;
+  updateVisibility: (visibility: ShelfVisibility) => Promise<void>;
   getShareUrl: () => string | null;
   refetch: () => Promise<void>;
 }
@@ -0,0 +1,36 @@
+import { createContext, useContext, ReactNode } from 'react';
+import { useShelves } from '@/hooks/useShelves';
+import { NamedShelf } from '@/types/book';
+
+interface ShelvesContextType {
+  shelves: NamedShelf[];
+  loading: boolean;
+  createShelf: (name: string, description?: string) => Promise<NamedShelf | null>;
+  updateShelf: (id: string, patch: { name?: string; description?: string | null; isPublic?: boolean }) => Promise<void>;
+  deleteShelf: (id: string) => Promise<void>;
+  reorderShelves: (orderedIds: string[]) => Promise<void>;
+  addBookToShelf: (shelfId: string, bookId: string) => Promise<void>;
+  removeBookFromShelf: (shelfId: string, bookId: string) => Promise<void>;
+  getShelvesForBook: (bookId: string) => NamedShelf[];
+  refetch: () => Promise<void>;
+}
+
+const ShelvesContext = createContext<ShelvesContextType | null>(null);
+
+export function ShelvesProvider({ children }: { children: ReactNode }) {
+  const shelvesState = useShelves();
+
+  return (
+    <ShelvesContext.Provider value={shelvesState}>
+      {children}
+    </ShelvesContext.Provider>
+  );
+}
+
+export function useShelvesContext() {
+  const context = useContext(ShelvesContext);
+  if (!context) {
+    throw new Error('useShelvesContext must be used within a ShelvesProvider');
+  }
+  return context;
+}
@@ -0,0 +1,149 @@
+import { useEffect, useMemo } from 'react';
+import { useInfiniteQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useFollows } from '@/hooks/useFollows';
+
+export type ActivityEventType = 'added' | 'started' | 'finished' | 'rated' | 'liked' | 'commented' | 'joined_club';
+
+export interface ActivityEvent {
+  id: string;
+  userId: string;
+  type: ActivityEventType;
+  createdAt: string;
+  username?: string;
+  avatarUrl?: string | null;
+  bookId?: string;
+  bookTitle?: string;
+  bookAuthor?: string;
+  bookCoverUrl?: string;
+  /** Whose copy was liked or commented on */
+  bookOwnerUsername?: string;
+  clubId?: string;
+  clubName?: string;
+  rating?: number;
+}
+
+const DEFAULT_PAGE_SIZE = 20;
+
+/**
+ * Write an event to the activity feed. Fire-and-forget: a failed feed write
+ * should never block the action that caused it.
+ */
+export function recordActivity(
+  eventType: ActivityEventType,
+  details: { bookId?: string; clubId?: string; rating?: number } = {}
+) {
+  supabase
+    .rpc('record_activity', {
+      _event_type: eventType,
+      _book_id: details.bookId,
+      _club_id: details.clubId,
+      _rating: details.rating,
+    })
+    .then(({ error }) => {
+      if (error) console.error('Error recording activity:', error);
+    });
+}
+
+/** What the people you follow have been reading, newest first, loaded a page at a time */
+export function useActivityFeed(pageSize = DEFAULT_PAGE_SIZE) {
+  const { user } = useAuth();
+  const { following } = useFollows();
+  const queryClient = useQueryClient();
+
+  const followingIds = useMemo(() => following.map((f) => f.following_id).sort(), [following]);
+  const queryKey = ['activity-feed', user?.id, followingIds.join(','), pageSize];
+
+  const query = useInfiniteQuery({
+    queryKey,
+    queryFn: async ({ pageParam }): Promise<ActivityEvent[]> => {
+      let request = supabase
+        .from('activity_events')
+        .select('*')
+        .in('user_id', followingIds)
+        .order('created_at', { ascending: false })
+        .limit(pageSize);
+      if (pageParam) request = request.lt('created_at', pageParam);
+
+      const { data, error } = await request;
+      if (error) throw error;
+      if (!data || data.length === 0) return [];
+
+      // Actors and the owners of liked/commented books
+      const userIds = new Set<string>();
+      data.forEach((e) => {
+        userIds.add(e.user_id);
+        if (e.book_owner_id && e.book_owner_id !== e.user_id) userIds.add(e.book_owner_id);
+      });
+
+      const profilesMap = new Map<string, { username: string; avatar_url: string | null }>();
+      const { data: profilesData } = await supabase
+        .from('profiles')
+        .select('user_id, username, avatar_url')
+        .in('user_id', Array.from(userIds));
+      profilesData?.forEach((p) => profilesMap.set(p.user_id, { username: p.username, avatar_url: p.avatar_url }));
+
+      return data.map((e) => {
+        const profile = profilesMap.get(e.user_id);
+        return {
+          id: e.id,
+          userId: e.user_id,
+          type: e.event_type as ActivityEventType,
+          createdAt: e.created_at,
+          username: profile?.username,
+          avatarUrl: profile?.avatar_url,
+          bookId: e.book_id ?? undefined,
+          bookTitle: e.book_title ?? undefined,
+          bookAuthor: e.book_author ?? undefined,
+          bookCoverUrl: e.book_cover_url ?? undefined,
+          bookOwnerUsername:
+            e.book_owner_id && e.book_owner_id !== e.user_id ? profilesMap.get(e.book_owner_id)?.username : undefined,
+          clubId: e.club_id ?? undefined,
+          clubName: e.club_name ?? undefined,
+          rating: e.rating ?? undefined,
+        };
+      });
+    },
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => (lastPage.length < pageSize ? undefined : lastPage[lastPage.length - 1].createdAt),
+    enabled: !!user && followingIds.length > 0,
+  });
+
+  // Subscribe to realtime activity from people we follow
+  useEffect(() => {
+    if (!user || followingIds.length === 0) return;
+
+    const channel = supabase
+      .channel(`activity-feed-${pageSize}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'activity_events',
+        },
+        (payload) => {
+          if (followingIds.includes((payload.new as { user_id: string }).user_id)) {
+            queryClient.invalidateQueries({ queryKey: ['activity-feed', user.id] });
+          }
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user, followingIds, pageSize, queryClient]);
+
+  const events = useMemo(() => query.data?.pages.flat() ?? [], [query.data]);
+
+  return {
+    events,
+    isFollowingAnyone: followingIds.length > 0,
+    isLoading: query.isLoading,
+    hasNextPage: query.hasNextPage,
+    fetchNextPage: query.fetchNextPage,
+    isFetchingNextPage: query.isFetchingNextPage,
+  };
+}
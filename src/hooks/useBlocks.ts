@@ -0,0 +1,192 @@
+import { useMemo } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import posthog from 'posthog-js';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from 'sonner';
+
+export interface ListedUser {
+  userId: string;
+  username?: string;
+  avatarUrl?: string | null;
+  createdAt: string;
+}
+
+async function withProfiles(rows: { userId: string; createdAt: string }[]): Promise<ListedUser[]> {
+  if (rows.length === 0) return [];
+  const { data: profiles } = await supabase
+    .from('profiles')
+    .select('user_id, username, avatar_url')
+    .in('user_id', rows.map((r) => r.userId));
+
+  const profileMap = new Map(profiles?.map((p) => [p.user_id, p]) || []);
+  return rows.map((r) => ({
+    ...r,
+    username: profileMap.get(r.userId)?.username,
+    avatarUrl: profileMap.get(r.userId)?.avatar_url,
+  }));
+}
+
+export function useBlocks() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  // People I've blocked, for the settings list
+  const { data: blockedUsers = [], isLoading: loadingBlocked } = useQuery({
+    queryKey: ['blocked-users', user?.id],
+    queryFn: async () => {
+      if (!user) return [];
+      const { data, error } = await supabase
+        .from('user_blocks')
+        .select('blocked_id, created_at')
+        .eq('blocker_id', user.id)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return withProfiles(data.map((b) => ({ userId: b.blocked_id, createdAt: b.created_at })));
+    },
+    enabled: !!user,
+  });
+
+  // Blocks in either direction - someone who blocked me is just as off-limits
+  const { data: blockedIds = [] } = useQuery({
+    queryKey: ['blocked-user-ids', user?.id],
+    queryFn: async () => {
+      if (!user) return [];
+      const { data, error } = await supabase.rpc('get_blocked_user_ids');
+      if (error) throw error;
+      return (data ?? []) as string[];
+    },
+    enabled: !!user,
+  });
+
+  const { data: mutedUsers = [], isLoading: loadingMuted } = useQuery({
+    queryKey: ['muted-users', user?.id],
+    queryFn: async () => {
+      if (!user) return [];
+      const { data, error } = await supabase
+        .from('user_mutes')
+        .select('muted_id, created_at')
+        .eq('muter_id', user.id)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return withProfiles(data.map((m) => ({ userId: m.muted_id, createdAt: m.created_at })));
+    },
+    enabled: !!user,
+  });
+
+  const mutedIds = useMemo(() => mutedUsers.map((m) => m.userId), [mutedUsers]);
+
+  const isBlocked = (userId: string) => blockedIds.includes(userId);
+  const hasBlocked = (userId: string) => blockedUsers.some((b) => b.userId === userId);
+  const isMuted = (userId: string) => mutedIds.includes(userId);
+
+  const invalidateBlocks = () => {
+    queryClient.invalidateQueries({ queryKey: ['blocked-users', user?.id] });
+    queryClient.invalidateQueries({ queryKey: ['blocked-user-ids', user?.id] });
+    // Blocking removes follows both ways
+    queryClient.invalidateQueries({ queryKey: ['following', user?.id] });
+    queryClient.invalidateQueries({ queryKey: ['followers', user?.id] });
+  };
+
+  const blockMutation = useMutation({
+    mutationFn: async (targetUserId: string) => {
+      if (!user) throw new Error('Not authenticated');
+      const { error } = await supabase
+        .from('user_blocks')
+        .insert({ blocker_id: user.id, blocked_id: targetUserId });
+      if (error) throw error;
+      return targetUserId;
+    },
+    onSuccess: (targetUserId) => {
+      invalidateBlocks();
+      posthog.capture('user_blocked', { target_user_id: targetUserId });
+      toast.success('User blocked');
+    },
+    onError: (error: Error) => {
+      console.error('Block error:', error);
+      toast.error('Failed to block user');
+    },
+  });
+
+  const unblockMutation = useMutation({
+    mutationFn: async (targetUserId: string) => {
+      if (!user) throw new Error('Not authenticated');
+      const { error } = await supabase
+        .from('user_blocks')
+        .delete()
+        .eq('blocker_id', user.id)
+        .eq('blocked_id', targetUserId);
+      if (error) throw error;
+      return targetUserId;
+    },
+    onSuccess: (targetUserId) => {
+      invalidateBlocks();
+      posthog.capture('user_unblocked', { target_user_id: targetUserId });
+      toast.success('User unblocked');
+    },
+    onError: (error: Error) => {
+      console.error('Unblock error:', error);
+      toast.error('Failed to unblock user');
+    },
+  });
+
+  const muteMutation = useMutation({
+    mutationFn: async (targetUserId: string) => {
+      if (!user) throw new Error('Not authenticated');
+      const { error } = await supabase
+        .from('user_mutes')
+        .insert({ muter_id: user.id, muted_id: targetUserId });
+      if (error) throw error;
+      return targetUserId;
+    },
+    onSuccess: (targetUserId) => {
+      queryClient.invalidateQueries({ queryKey: ['muted-users', user?.id] });
+      posthog.capture('user_muted', { target_user_id: targetUserId });
+      toast.success("Muted - you won't see their comments or notifications");
+    },
+    onError: (error: Error) => {
+      console.error('Mute error:', error);
+      toast.error('Failed to mute user');
+    },
+  });
+
+  const unmuteMutation = useMutation({
+    mutationFn: async (targetUserId: string) => {
+      if (!user) throw new Error('Not authenticated');
+      const { error } = await supabase
+        .from('user_mutes')
+        .delete()
+        .eq('muter_id', user.id)
+        .eq('muted_id', targetUserId);
+      if (error) throw error;
+      return targetUserId;
+    },
+    onSuccess: (targetUserId) => {
+      queryClient.invalidateQueries({ queryKey: ['muted-users', user?.id] });
+      posthog.capture('user_unmuted', { target_user_id: targetUserId });
+      toast.success('User unmuted');
+    },
+    onError: (error: Error) => {
+      console.error('Unmute error:', error);
+      toast.error('Failed to unmute user');
+    },
+  });
+
+  return {
+    blockedUsers,
+    mutedUsers,
+    blockedIds,
+    mutedIds,
+    loadingBlocked,
+    loadingMuted,
+    isBlocked,
+    hasBlocked,
+    isMuted,
+    block: blockMutation.mutate,
+    unblock: unblockMutation.mutate,
+    mute: muteMutation.mutate,
+    unmute: unmuteMutation.mutate,
+  };
+}
@@ -3,7 +3,9 @@ import posthog from 'posthog-js';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/hooks/use-toast';
-import { BookClub, BookClubMember, BookClubSuggestion } from '@/types/bookClub';
+import { recordActivity } from '@/hooks/useActivityFeed';
+import { canModerateRole, isHostRole } from '@/lib/clubRoles';
+import { BookClub, BookClubMember, BookClubSuggestion, ClubRole } from '@/types/bookClub';
 
 
 // Extended member type with profile info
@@ -80,6 +82,7 @@ export function useBookClubs() {
             name: row.name,
             description: row.description,
             inviteCode: row.invite_code,
+            inviteExpiresAt: row.invite_expires_at,
             ownerId: row.owner_id,
             createdAt: row.created_at,
           }))
@@ -131,6 +134,7 @@ export function useBookClubs() {
         name: clubData.name,
         description: clubData.description,
         inviteCode: clubData.invite_code,
+        inviteExpiresAt: clubData.invite_expires_at,
         ownerId: clubData.owner_id,
         createdAt: clubData.created_at,
       };
@@ -167,7 +171,7 @@ export function useBookClubs() {
       if (clubError || !clubData || clubData.length === 0) {
         toast({
           title: 'Club not found',
-          description: 'Check the invite code and try again.',
+          description: 'Check the invite code and try again. Invites can expire, so you may need a new one.',
           variant: 'destructive',
         });
         return null;
@@ -199,14 +203,9 @@ export function useBookClubs() {
         };
       }
 
-      // Join the club
+      // Join through the RPC so expired invites and bans are enforced
       const { error: joinError } = await supabase
-        .from('book_club_members')
-        .insert({
-          club_id: foundClub.id,
-          user_id: user.id,
-          role: 'member',
-        });
+        .rpc('join_club_by_invite_code', { _invite_code: inviteCode });
 
       if (joinError) {
         console.error('Error joining club:', joinError);
@@ -230,6 +229,7 @@ export function useBookClubs() {
         name: foundClub.name,
         description: fullClubData?.description || null,
         inviteCode: fullClubData?.invite_code || inviteCode,
+        inviteExpiresAt: fullClubData?.invite_expires_at ?? null,
         ownerId: fullClubData?.owner_id || '',
         createdAt: fullClubData?.created_at || '',
       };
@@ -237,6 +237,7 @@ export function useBookClubs() {
       setClubs((prev) => [newClub, ...prev]);
 
       posthog.capture('club_joined', { club_name: foundClub.name });
+      recordActivity('joined_club', { clubId: foundClub.id });
 
       toast({
         title: 'Joined club!',
@@ -248,19 +249,37 @@ export function useBookClubs() {
     [user, toast]
   );
 
+  // Owners hand the club to newOwnerId first; they stay on as co-host until the membership is removed
   const leaveClub = useCallback(
-    async (clubId: string) => {
-      if (!user) return;
+    async (clubId: string, newOwnerId?: string): Promise<boolean> => {
+      if (!user) return false;
 
       const club = clubs.find((c) => c.id === clubId);
       
-      if (club?.ownerId === user.id) {
+      if (club?.ownerId === user.id && !newOwnerId) {
         toast({
           title: 'Cannot leave',
-          description: 'You own this club. Delete it instead.',
+          description: 'You own this club. Hand it to another member or delete it instead.',
           variant: 'destructive',
         });
-        return;
+        return false;
+      }
+
+      if (newOwnerId) {
+        const { error: transferError } = await supabase
+          .rpc('transfer_club_ownership', { _club_id: clubId, _new_owner_id: newOwnerId });
+
+        if (transferError) {
+          console.error('Error transferring club:', transferError);
+          toast({
+            title: 'Error handing over club',
+            description: transferError.message,
+            variant: 'destructive',
+          });
+          return false;
+        }
+
+        posthog.capture('club_ownership_transferred', { club_name: club?.name });
       }
 
       const { error } = await supabase
@@ -276,7 +295,7 @@ export function useBookClubs() {
           description: error.message,
           variant: 'destructive',
         });
-        return;
+        return false;
       }
 
       setClubs((prev) => prev.filter((c) => c.id !== clubId));
@@ -287,6 +306,7 @@ export function useBookClubs() {
         title: 'Left club',
         description: club ? `You've left "${club.name}".` : 'You\'ve left the club.',
       });
+      return true;
     },
     [user, clubs, toast]
   );
@@ -383,6 +403,7 @@ export function useClubDetails(clubId: string | undefined) {
   const [votes, setVotes] = useState<VoteWithUser[]>([]);
   const [loading, setLoading] = useState(true);
   const [isOwner, setIsOwner] = useState(false);
+  const [role, setRole] = useState<ClubRole | null>(null);
 
   const fetchClubData = useCallback(async () => {
     if (!clubId || !user) {
@@ -410,6 +431,7 @@ export function useClubDetails(clubId: string | undefined) {
       name: clubData.name,
       description: clubData.description,
       inviteCode: clubData.invite_code,
+      inviteExpiresAt: clubData.invite_expires_at,
       ownerId: clubData.owner_id,
       createdAt: clubData.created_at,
     });
@@ -423,6 +445,7 @@ export function useClubDetails(clubId: string | undefined) {
       .eq('club_id', clubId);
 
     if (memberData) {
+      setRole((memberData.find(m => m.user_id === user.id)?.role as ClubRole) ?? null);
       const memberIds = memberData.map(m => m.user_id);
       
       // Create maps for shelf settings and profiles
@@ -482,7 +505,7 @@ export function useClubDetails(clubId: string | undefined) {
             id: m.id,
             clubId: m.club_id,
             userId: m.user_id,
-            role: m.role as 'owner' | 'member',
+            role: m.role as ClubRole,
             joinedAt: m.joined_at,
             displayName,
             shareId: shelf?.shareId || null,
@@ -727,9 +750,11 @@ export function useClubDetails(clubId: string | undefined) {
     [user, clubId, suggestions]
   );
 
+  const isHost = isHostRole(role);
+
   const updateSuggestionStatus = useCallback(
     async (suggestionId: string, status: 'suggested' | 'reading' | 'read') => {
-      if (!user || !isOwner) return;
+      if (!user || !isHost) return;
 
       const suggestion = suggestions.find((s) => s.id === suggestionId);
 
@@ -770,7 +795,7 @@ export function useClubDetails(clubId: string | undefined) {
         }
       }
     },
-    [user, isOwner, suggestions, toast, fetchClubData]
+    [user, isHost, suggestions, toast, fetchClubData]
   );
 
   const removeSuggestion = useCallback(
@@ -813,6 +838,9 @@ export function useClubDetails(clubId: string | undefined) {
     votes,
     loading,
     isOwner,
+    role,
+    isHost,
+    canModerate: canModerateRole(role),
     addSuggestion,
     vote,
     updateSuggestionStatus,
@@ -0,0 +1,163 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import posthog from 'posthog-js';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import type { ImportedBook, ImportSource } from '@/lib/bookImport';
+
+export interface BookImport {
+  id: string;
+  source: ImportSource;
+  status: 'enriching' | 'completed';
+  totalCount: number;
+  enrichedCount: number;
+  updatedAt: string;
+}
+
+const POLL_INTERVAL_MS = 3000;
+// The import-books function heartbeats after every book; silence this long means it stopped
+const STALLED_AFTER_MS = 60_000;
+
+function mapImportRow(row: {
+  id: string;
+  source: string;
+  status: string;
+  total_count: number;
+  enriched_count: number;
+  updated_at: string;
+}): BookImport {
+  return {
+    id: row.id,
+    source: row.source as ImportSource,
+    status: row.status as BookImport['status'],
+    totalCount: row.total_count,
+    enrichedCount: row.enriched_count,
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * Server-side batch import. Books are inserted in one transaction by the import-books function,
+ * which then fills in covers and metadata in the background. Progress is polled, and an import that
+ * stalls (closed tab, function timeout, expired token) is resumed from wherever it stopped.
+ */
+export function useBookImport(onBooksChanged?: () => void) {
+  const { user } = useAuth();
+  const [activeImport, setActiveImport] = useState<BookImport | null>(null);
+  const [starting, setStarting] = useState(false);
+  const lastResumeRef = useRef(0);
+  const onBooksChangedRef = useRef(onBooksChanged);
+  onBooksChangedRef.current = onBooksChanged;
+
+  const fetchImport = useCallback(async (importId: string) => {
+    const { data, error } = await supabase
+      .from('book_imports')
+      .select('id, source, status, total_count, enriched_count, updated_at')
+      .eq('id', importId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching import progress:', error);
+      return null;
+    }
+    return data ? mapImportRow(data) : null;
+  }, []);
+
+  // Pick up an import that was still enriching when the user last left
+  useEffect(() => {
+    if (!user) {
+      setActiveImport(null);
+      return;
+    }
+
+    supabase
+      .from('book_imports')
+      .select('id, source, status, total_count, enriched_count, updated_at')
+      .eq('user_id', user.id)
+      .eq('status', 'enriching')
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+      .then(({ data, error }) => {
+        if (error) {
+          console.error('Error fetching unfinished import:', error);
+          return;
+        }
+        if (data) setActiveImport(mapImportRow(data));
+      });
+  }, [user]);
+
+  const resumeImport = useCallback(async (importId: string) => {
+    lastResumeRef.current = Date.now();
+    const { error } = await supabase.functions.invoke('import-books', {
+      body: { importId },
+    });
+    if (error) console.error('Error resuming import:', error);
+  }, []);
+
+  const activeImportId = activeImport?.id;
+  const isEnriching = activeImport?.status === 'enriching';
+
+  useEffect(() => {
+    if (!activeImportId || !isEnriching) return;
+
+    const interval = setInterval(async () => {
+      const latest = await fetchImport(activeImportId);
+      if (!latest) return;
+
+      setActiveImport(latest);
+
+      if (latest.status === 'completed') {
+        onBooksChangedRef.current?.();
+        return;
+      }
+
+      const stalled = Date.now() - new Date(latest.updatedAt).getTime() > STALLED_AFTER_MS;
+      if (stalled && Date.now() - lastResumeRef.current > STALLED_AFTER_MS) {
+        resumeImport(activeImportId);
+      }
+    }, POLL_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [activeImportId, isEnriching, fetchImport, resumeImport]);
+
+  const startImport = useCallback(
+    async (source: ImportSource, books: ImportedBook[]): Promise<boolean> => {
+      if (!user || books.length === 0) return false;
+
+      setStarting(true);
+      try {
+        const { data, error } = await supabase.functions.invoke('import-books', {
+          body: { source, books },
+        });
+
+        if (error) throw error;
+        if (data?.error) throw new Error(data.error);
+
+        lastResumeRef.current = Date.now();
+        const created = await fetchImport(data.importId);
+        setActiveImport(created);
+        onBooksChangedRef.current?.();
+
+        posthog.capture('books_imported', { source, book_count: data.total });
+        return true;
+      } catch (err) {
+        console.error('Error importing books:', err);
+        return false;
+      } finally {
+        setStarting(false);
+      }
+    },
+    [user, fetchImport]
+  );
+
+  const dismissImport = useCallback(() => {
+    setActiveImport(null);
+  }, []);
+
+  return {
+    activeImport,
+    starting,
+    startImport,
+    dismissImport,
+  };
+}
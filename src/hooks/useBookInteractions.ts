@@ -1,8 +1,11 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo } from 'react';
 import posthog from 'posthog-js';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/hooks/use-toast';
+import { recordActivity } from '@/hooks/useActivityFeed';
+import { useBlocks } from '@/hooks/useBlocks';
+import { buildCommentThreads, extractMentions } from '@/lib/comments';
 
 export interface BookLike {
   userId: string;
@@ -11,12 +14,21 @@ export interface BookLike {
   createdAt: string;
 }
 
+export interface CommentReaction {
+  emoji: string;
+  userId: string;
+}
+
 export interface BookComment {
   id: string;
   bookId: string;
   userId: string;
   content: string;
   createdAt: string;
+  /** Top-level comment this replies to */
+  parentId: string | null;
+  editedAt: string | null;
+  reactions: CommentReaction[];
   username?: string;
   avatarUrl?: string | null;
 }
@@ -24,6 +36,7 @@ export interface BookComment {
 export function useBookInteractions(bookId: string) {
   const { user } = useAuth();
   const { toast } = useToast();
+  const { blockedIds, mutedIds } = useBlocks();
   const [likes, setLikes] = useState<BookLike[]>([]);
   const [comments, setComments] = useState<BookComment[]>([]);
   const [loading, setLoading] = useState(true);
@@ -41,6 +54,22 @@ export function useBookInteractions(bookId: string) {
         supabase.from('book_comments').select('*').eq('book_id', bookId).order('created_at', { ascending: true }),
       ]);
 
+      // Reactions for all loaded comments
+      const commentIds = commentsRes.data?.map((c) => c.id) ?? [];
+      const reactionsByComment = new Map<string, CommentReaction[]>();
+      if (commentIds.length > 0) {
+        const { data: reactionsData } = await supabase
+          .from('book_comment_reactions')
+          .select('comment_id, user_id, emoji')
+          .in('comment_id', commentIds);
+
+        reactionsData?.forEach((r) => {
+          const list = reactionsByComment.get(r.comment_id) ?? [];
+          list.push({ emoji: r.emoji, userId: r.user_id });
+          reactionsByComment.set(r.comment_id, list);
+        });
+      }
+
       // Collect all user IDs from likes and comments
       const userIds = new Set<string>();
       if (likesRes.data) {
@@ -89,6 +118,9 @@ export function useBookInteractions(bookId: string) {
               userId: c.user_id,
               content: c.content,
               createdAt: c.created_at,
+              parentId: c.parent_id,
+              editedAt: c.edited_at,
+              reactions: reactionsByComment.get(c.id) ?? [],
               username: profile?.username,
               avatarUrl: profile?.avatar_url,
             };
@@ -128,6 +160,17 @@ export function useBookInteractions(bookId: string) {
       }
       setLikes((prev) => prev.filter((l) => l.userId !== user.id));
       posthog.capture('book_unliked', { book_id: bookId });
+
+      // Take the like back out of followers' feeds too
+      supabase
+        .from('activity_events')
+        .delete()
+        .eq('user_id', user.id)
+        .eq('event_type', 'liked')
+        .eq('book_id', bookId)
+        .then(({ error: deleteError }) => {
+          if (deleteError) console.error('Error removing like activity:', deleteError);
+        });
     } else {
       // Like
       const { data, error } = await supabase
@@ -158,11 +201,12 @@ export function useBookInteractions(bookId: string) {
         },
       ]);
       posthog.capture('book_liked', { book_id: bookId });
+      recordActivity('liked', { bookId });
     }
   }, [user, bookId, hasLiked, toast]);
 
   const addComment = useCallback(
-    async (content: string) => {
+    async (content: string, parentId?: string) => {
       if (!user) {
         toast({
           title: 'Sign in required',
@@ -177,12 +221,14 @@ export function useBookInteractions(bookId: string) {
 
       const { data, error } = await supabase
         .from('book_comments')
-        .insert({ book_id: bookId, user_id: user.id, content: trimmed })
+        .insert({ book_id: bookId, user_id: user.id, content: trimmed, parent_id: parentId ?? null })
         .select()
         .single();
 
       if (error) {
-        toast({ title: 'Error', description: error.message, variant: 'destructive' });
+        // 42501: RLS refused it, which for a signed-in user means a block
+        const description = error.code === '42501' ? "You can't comment on this book." : error.message;
+        toast({ title: 'Error', description, variant: 'destructive' });
         return;
       }
 
@@ -201,15 +247,92 @@ export function useBookInteractions(bookId: string) {
           userId: data.user_id,
           content: data.content,
           createdAt: data.created_at,
+          parentId: data.parent_id,
+          editedAt: data.edited_at,
+          reactions: [],
           username: profileData?.username,
           avatarUrl: profileData?.avatar_url,
         },
       ]);
-      posthog.capture('comment_added', { book_id: bookId });
+      posthog.capture(parentId ? 'comment_replied' : 'comment_added', {
+        book_id: bookId,
+        mentions: extractMentions(trimmed).length,
+      });
+      recordActivity('commented', { bookId });
     },
     [user, bookId, toast]
   );
 
+  const editComment = useCallback(
+    async (commentId: string, content: string) => {
+      const trimmed = content.trim();
+      if (!trimmed) return false;
+
+      const { data, error } = await supabase
+        .from('book_comments')
+        .update({ content: trimmed })
+        .eq('id', commentId)
+        .select('content, edited_at')
+        .single();
+
+      if (error) {
+        toast({ title: 'Error', description: error.message, variant: 'destructive' });
+        return false;
+      }
+
+      setComments((prev) =>
+        prev.map((c) => (c.id === commentId ? { ...c, content: data.content, editedAt: data.edited_at } : c))
+      );
+      posthog.capture('comment_edited', { book_id: bookId });
+      return true;
+    },
+    [bookId, toast]
+  );
+
+  const toggleReaction = useCallback(
+    async (commentId: string, emoji: string) => {
+      if (!user) {
+        toast({
+          title: 'Sign in required',
+          description: 'Please sign in to react to comments.',
+          variant: 'destructive',
+        });
+        return;
+      }
+
+      const comment = comments.find((c) => c.id === commentId);
+      const hasReacted = comment?.reactions.some((r) => r.userId === user.id && r.emoji === emoji);
+
+      const { error } = hasReacted
+        ? await supabase
+            .from('book_comment_reactions')
+            .delete()
+            .eq('comment_id', commentId)
+            .eq('user_id', user.id)
+            .eq('emoji', emoji)
+        : await supabase
+            .from('book_comment_reactions')
+            .insert({ comment_id: commentId, user_id: user.id, emoji });
+
+      if (error) {
+        toast({ title: 'Error', description: error.message, variant: 'destructive' });
+        return;
+      }
+
+      setComments((prev) =>
+        prev.map((c) => {
+          if (c.id !== commentId) return c;
+          const reactions = hasReacted
+            ? c.reactions.filter((r) => !(r.userId === user.id && r.emoji === emoji))
+            : [...c.reactions, { emoji, userId: user.id }];
+          return { ...c, reactions };
+        })
+      );
+      if (!hasReacted) posthog.capture('comment_reaction_added', { book_id: bookId, emoji });
+    },
+    [user, bookId, comments, toast]
+  );
+
   const deleteComment = useCallback(
     async (commentId: string) => {
       const { error } = await supabase.from('book_comments').delete().eq('id', commentId);
@@ -219,19 +342,30 @@ export function useBookInteractions(bookId: string) {
         return;
       }
 
-      setComments((prev) => prev.filter((c) => c.id !== commentId));
+      // Replies go with their comment
+      setComments((prev) => prev.filter((c) => c.id !== commentId && c.parentId !== commentId));
     },
     [toast]
   );
 
+  // Blocked and muted users' comments stay out of sight
+  const visibleComments = useMemo(
+    () => comments.filter((c) => !blockedIds.includes(c.userId) && !mutedIds.includes(c.userId)),
+    [comments, blockedIds, mutedIds]
+  );
+  const threads = useMemo(() => buildCommentThreads(visibleComments), [visibleComments]);
+
   return {
     likes,
     likeCount,
     hasLiked,
     toggleLike,
-    comments,
+    comments: visibleComments,
+    threads,
     addComment,
+    editComment,
     deleteComment,
+    toggleReaction,
     loading,
   };
 }
@@ -25,12 +25,9 @@ export interface BookRecommendation {
 
 interface UseBookRecommendationsResult {
   pendingRecommendations: BookRecommendation[];
-  pendingCount: number;
   isLoading: boolean;
-  lastSeenAt: Date | null;
   acceptRecommendation: (recommendation: BookRecommendation) => Promise<void>;
   declineRecommendation: (recommendationId: string) => Promise<void>;
-  markAsSeen: () => Promise<void>;
   refetch: () => Promise<void>;
 }
 
@@ -38,8 +35,6 @@ export function useBookRecommendations(): UseBookRecommendationsResult {
   const { user } = useAuth();
   const [pendingRecommendations, setPendingRecommendations] = useState<BookRecommendation[]>([]);
   const [isLoading, setIsLoading] = useState(true);
-  const [lastSeenAt, setLastSeenAt] = useState<Date | null>(null);
-  const [lastSeenLoaded, setLastSeenLoaded] = useState(false);
 
   const fetchRecommendations = useCallback(async () => {
     if (!user) {
@@ -48,19 +43,6 @@ export function useBookRecommendations(): UseBookRecommendationsResult {
     }
 
     try {
-      // Get notification settings for last seen timestamp
-      const { data: settings } = await supabase
-        .from('notification_settings')
-        .select('last_seen_recommendations_at')
-        .eq('user_id', user.id)
-        .single();
-
-      const lastSeen = settings?.last_seen_recommendations_at
-        ? new Date(settings.last_seen_recommendations_at)
-        : new Date(0);
-      setLastSeenAt(lastSeen);
-      setLastSeenLoaded(true);
-
       // Fetch pending recommendations for this user
       const { data: recommendations, error } = await supabase
         .from('book_recommendations')
@@ -186,21 +168,6 @@ export function useBookRecommendations(): UseBookRecommendationsResult {
     }
   }, [user]);
 
-  const markAsSeen = useCallback(async () => {
-    if (!user) return;
-
-    try {
-      await supabase
-        .from('notification_settings')
-        .update({ last_seen_recommendations_at: new Date().toISOString() })
-        .eq('user_id', user.id);
-
-      setLastSeenAt(new Date());
-    } catch (error) {
-      console.error('Error marking recommendations as seen:', error);
-    }
-  }, [user]);
-
   useEffect(() => {
     fetchRecommendations();
   }, [fetchRecommendations]);
@@ -230,19 +197,11 @@ export function useBookRecommendations(): UseBookRecommendationsResult {
     };
   }, [user, fetchRecommendations]);
 
-  // Calculate new count (recommendations after last seen)
-  const pendingCount = lastSeenLoaded 
-    ? pendingRecommendations.filter(r => new Date(r.createdAt) > (lastSeenAt || new Date(0))).length
-    : 0;
-
   return {
     pendingRecommendations,
-    pendingCount,
     isLoading,
-    lastSeenAt,
     acceptRecommendation,
     declineRecommendation,
-    markAsSeen,
     refetch: fetchRecommendations,
   };
 }
@@ -1,10 +1,13 @@
 import { useState, useEffect, useCallback } from 'react';
 import posthog from 'posthog-js';
+import { toast as sonnerToast } from 'sonner';
 import { Book, BookStatus, ShelfSkin, ShelfSettings, ReadingAnimation } from '@/types/book';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/hooks/use-toast';
 import { useBookAnimations } from '@/contexts/BookAnimationContext';
+import { findNextInSeries, parseSeries, seriesNamePattern } from '@/lib/series';
+import { recordActivity } from '@/hooks/useActivityFeed';
 
 // Note: Settings are stored server-side only - no localStorage caching
 
@@ -115,14 +118,15 @@ export function useBooks() {
   }, [user]);
 
   // Fetch books from database when user changes
-  const fetchBooks = useCallback(async () => {
+  // `silent` refreshes in place without flipping `loading`, so the shelf doesn't unmount
+  const fetchBooks = useCallback(async (options?: { silent?: boolean }) => {
     if (!user) {
       setBooks([]);
       setLoading(false);
       return;
     }
 
-    setLoading(true);
+    if (!options?.silent) setLoading(true);
     const { data, error } = await supabase
       .from('books')
       .select('*')
@@ -145,11 +149,22 @@ export function useBooks() {
           coverUrl: row.cover_url || '',
           status: row.status as BookStatus,
           openLibraryKey: undefined,
+          startedAt: row.started_at || undefined,
           completedAt: row.completed_at || undefined,
           pageCount: row.page_count || undefined,
+          currentPage: row.current_page ?? undefined,
+          progressPercent: row.progress_percent ?? undefined,
+          rating: row.rating ?? undefined,
+          review: row.review || undefined,
+          reviewHasSpoilers: row.review_has_spoilers,
+          reviewedAt: row.reviewed_at || undefined,
+          shelfPosition: row.shelf_position ?? undefined,
+          seriesName: row.series_name || undefined,
+          seriesPosition: row.series_position ?? undefined,
           isbn: row.isbn || undefined,
           description: row.description || undefined,
           categories: row.categories || undefined,
+          isHidden: row.is_hidden,
         }))
       );
     }
@@ -194,7 +209,7 @@ export function useBooks() {
     [persistShelfAppearance]
   );
 
-  // Enrich book with ISBNdb metadata before saving
+  // Enrich book from the shared catalog (or ISBNdb on a miss) before saving
   const enrichBook = useCallback(
     async (book: Omit<Book, 'id'>): Promise<Omit<Book, 'id'>> => {
       // Skip enrichment if book already has metadata
@@ -204,7 +219,7 @@ export function useBooks() {
 
       try {
         const { data, error } = await supabase.functions.invoke('enrich-book', {
-          body: { title: book.title, author: book.author },
+          body: { title: book.title, author: book.author, isbn: book.isbn },
         });
 
         if (error || !data?.enriched) {
@@ -218,6 +233,8 @@ export function useBooks() {
           isbn: book.isbn || enrichedData.isbn,
           description: book.description || enrichedData.description,
           categories: book.categories || enrichedData.categories,
+          seriesName: book.seriesName || enrichedData.seriesName,
+          seriesPosition: book.seriesName ? book.seriesPosition : enrichedData.seriesPosition,
           // Only use ISBNdb cover if current one is missing or placeholder
           coverUrl: (!book.coverUrl || book.coverUrl.includes('placeholder')) 
             ? (enrichedData.coverUrl || book.coverUrl) 
@@ -261,6 +278,7 @@ export function useBooks() {
 
       // Enrich with ISBNdb before saving
       const enrichedBook = await enrichBook(book);
+      const titleSeries = enrichedBook.seriesName ? null : parseSeries(enrichedBook.title);
 
       const { data, error } = await supabase
         .from('books')
@@ -270,10 +288,15 @@ export function useBooks() {
           author: enrichedBook.author,
           cover_url: enrichedBook.coverUrl,
           status: enrichedBook.status,
+          started_at: enrichedBook.status === 'reading' ? new Date().toISOString() : null,
+          completed_at: enrichedBook.completedAt || null,
+          rating: enrichedBook.rating ?? null,
           page_count: enrichedBook.pageCount,
           isbn: enrichedBook.isbn,
           description: enrichedBook.description,
           categories: enrichedBook.categories,
+          series_name: enrichedBook.seriesName ?? titleSeries?.name,
+          series_position: enrichedBook.seriesName ? enrichedBook.seriesPosition : titleSeries?.position,
         })
         .select()
         .single();
@@ -296,10 +319,15 @@ export function useBooks() {
           author: data.author,
           coverUrl: data.cover_url || '',
           status: data.status as BookStatus,
+          startedAt: data.started_at || undefined,
+          completedAt: data.completed_at || undefined,
+          rating: data.rating ?? undefined,
           pageCount: data.page_count || undefined,
           isbn: data.isbn || undefined,
           description: data.description || undefined,
           categories: data.categories || undefined,
+          seriesName: data.series_name || undefined,
+          seriesPosition: data.series_position ?? undefined,
         },
       ]);
 
@@ -311,6 +339,10 @@ export function useBooks() {
         book_author: enrichedBook.author,
         status: enrichedBook.status,
       });
+      recordActivity(
+        enrichedBook.status === 'reading' ? 'started' : enrichedBook.status === 'read' ? 'finished' : 'added',
+        { bookId: data.id }
+      );
 
       toast({
         title: 'Book added',
@@ -353,18 +385,78 @@ export function useBooks() {
     [user, books, toast]
   );
 
+  // After finishing a book in a series, point at the next one: already on the shelf, or from the shared catalog
+  const suggestNextInSeries = useCallback(
+    async (book: Book) => {
+      if (!book.seriesName || book.seriesPosition === undefined) return;
+
+      const owned = findNextInSeries(books, book);
+      if (owned) {
+        if (owned.status === 'want-to-read') {
+          sonnerToast(`Next in ${book.seriesName}`, {
+            description: `"${owned.title}" is waiting on your Want to Read list.`,
+          });
+        }
+        return;
+      }
+
+      const { data: next, error } = await supabase
+        .from('book_works')
+        .select('title, author, series_position, book_editions(cover_url, page_count)')
+        .ilike('series_name', seriesNamePattern(book.seriesName))
+        .gt('series_position', book.seriesPosition)
+        .order('series_position', { ascending: true })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error finding next in series:', error);
+        return;
+      }
+      if (!next) return;
+
+      const edition = next.book_editions.find((e) => e.cover_url) ?? next.book_editions[0];
+      sonnerToast(`Next in ${book.seriesName}`, {
+        description: `"${next.title}" by ${next.author}`,
+        action: {
+          label: 'Want to Read',
+          onClick: () => {
+            posthog.capture('series_next_added', { series_name: book.seriesName, series_position: next.series_position });
+            addBook({
+              title: next.title,
+              author: next.author,
+              coverUrl: edition?.cover_url || '',
+              status: 'want-to-read',
+              pageCount: edition?.page_count ?? undefined,
+              seriesName: book.seriesName,
+              seriesPosition: next.series_position ?? undefined,
+            });
+          },
+        },
+      });
+    },
+    [books, addBook]
+  );
+
   const moveBook = useCallback(
     async (id: string, status: BookStatus) => {
       if (!user) return;
 
       const previousStatus = books.find(b => b.id === id)?.status;
       const isNewlyCompleted = status === 'read' && previousStatus !== 'read';
-      const completedAt = isNewlyCompleted ? new Date().toISOString() : undefined;
+      const isNewlyStarted = status === 'reading' && previousStatus !== 'reading';
+      const now = new Date().toISOString();
+      const completedAt = isNewlyCompleted ? now : undefined;
+      const startedAt = isNewlyStarted ? now : undefined;
 
-      const updateData: { status: BookStatus; completed_at?: string } = { status };
+      const updateData: { status: BookStatus; completed_at?: string; started_at?: string } = { status };
       if (isNewlyCompleted) {
         updateData.completed_at = completedAt;
       }
+      // Capture the start date so reading duration can be computed on completion
+      if (isNewlyStarted) {
+        updateData.started_at = startedAt;
+      }
 
       const { error } = await supabase
         .from('books')
@@ -383,7 +475,16 @@ export function useBooks() {
 
       const movedBook = books.find(b => b.id === id);
       setBooks((prev) =>
-        prev.map((book) => (book.id === id ? { ...book, status, completedAt: isNewlyCompleted ? completedAt : book.completedAt } : book))
+        prev.map((book) =>
+          book.id === id
+            ? {
+                ...book,
+                status,
+                completedAt: isNewlyCompleted ? completedAt : book.completedAt,
+                startedAt: isNewlyStarted ? startedAt : book.startedAt,
+              }
+            : book
+        )
       );
 
       posthog.capture('book_status_changed', {
@@ -391,13 +492,16 @@ export function useBooks() {
         from_status: previousStatus,
         to_status: status,
       });
+      if (isNewlyStarted) recordActivity('started', { bookId: id });
+      if (isNewlyCompleted) recordActivity('finished', { bookId: id });
 
       // Trigger sparkle animation when marked as read
       if (isNewlyCompleted) {
         markAsCompleted(id);
+        if (movedBook) suggestNextInSeries(movedBook);
       }
     },
-    [user, toast, books, markAsCompleted]
+    [user, toast, books, markAsCompleted, suggestNextInSeries]
   );
 
   const updateBookCover = useCallback(
@@ -421,6 +525,40 @@ export function useBooks() {
     [user]
   );
 
+  const setBookHidden = useCallback(
+    async (id: string, hidden: boolean) => {
+      if (!user) return;
+
+      const { error } = await supabase
+        .from('books')
+        .update({ is_hidden: hidden })
+        .eq('id', id);
+
+      if (error) {
+        console.error('Error updating book visibility:', error);
+        toast({
+          title: 'Error updating book',
+          description: error.message,
+          variant: 'destructive',
+        });
+        return;
+      }
+
+      setBooks((prev) =>
+        prev.map((book) => (book.id === id ? { ...book, isHidden: hidden } : book))
+      );
+
+      posthog.capture(hidden ? 'book_hidden' : 'book_unhidden', { book_id: id });
+      toast({
+        title: hidden ? 'Hidden from shared shelf' : 'Shown on shared shelf',
+        description: hidden
+          ? 'Only you can see this book now.'
+          : 'This book is visible to anyone who can see your shelf.',
+      });
+    },
+    [user, toast]
+  );
+
   const updateBookCompletedAt = useCallback(
     async (id: string, completedAt: string | null) => {
       if (!user) return;
@@ -452,6 +590,173 @@ export function useBooks() {
     [user, toast]
   );
 
+  // Save the personal rating and review together; null clears either
+  const updateBookReview = useCallback(
+    async (id: string, review: { rating: number | null; review: string | null; hasSpoilers: boolean }) => {
+      if (!user) return false;
+
+      const content = review.review?.trim() || null;
+      const reviewedAt = review.rating !== null || content ? new Date().toISOString() : null;
+
+      const { error } = await supabase
+        .from('books')
+        .update({
+          rating: review.rating,
+          review: content,
+          review_has_spoilers: content ? review.hasSpoilers : false,
+          reviewed_at: reviewedAt,
+        })
+        .eq('id', id);
+
+      if (error) {
+        console.error('Error saving review:', error);
+        toast({
+          title: 'Error saving review',
+          description: error.message,
+          variant: 'destructive',
+        });
+        return false;
+      }
+
+      setBooks((prev) =>
+        prev.map((book) =>
+          book.id === id
+            ? {
+                ...book,
+                rating: review.rating ?? undefined,
+                review: content ?? undefined,
+                reviewHasSpoilers: content ? review.hasSpoilers : false,
+                reviewedAt: reviewedAt ?? undefined,
+              }
+            : book
+        )
+      );
+
+      posthog.capture('book_reviewed', { rating: review.rating, has_review: !!content, has_spoilers: review.hasSpoilers });
+      if (review.rating !== null && review.rating !== books.find((b) => b.id === id)?.rating) {
+        recordActivity('rated', { bookId: id, rating: review.rating });
+      }
+      return true;
+    },
+    [user, toast, books]
+  );
+
+  // Save a hand-arranged order for the 'custom' sort; ids are the whole shelf, first to last
+  const reorderBooks = useCallback(
+    async (orderedIds: string[]) => {
+      if (!user) return;
+
+      const previous = books;
+      const positions = new Map(orderedIds.map((id, position) => [id, position]));
+      setBooks((prev) =>
+        prev.map((book) => (positions.has(book.id) ? { ...book, shelfPosition: positions.get(book.id) } : book))
+      );
+
+      const { error } = await supabase.rpc('reorder_books', { _book_ids: orderedIds });
+
+      if (error) {
+        console.error('Error reordering books:', error);
+        toast({
+          title: 'Error saving shelf order',
+          description: error.message,
+          variant: 'destructive',
+        });
+        setBooks(previous);
+        return;
+      }
+
+      posthog.capture('books_reordered', { book_count: orderedIds.length });
+    },
+    [user, books, toast]
+  );
+
+  // Log a progress update (page and/or percent) for a book
+  const logProgress = useCallback(
+    async (id: string, entry: { page?: number; percent?: number; note?: string }) => {
+      if (!user) return false;
+
+      if (entry.page === undefined && entry.percent === undefined) return false;
+
+      const { data, error } = await supabase
+        .from('reading_progress')
+        .insert({
+          book_id: id,
+          user_id: user.id,
+          page: entry.page ?? null,
+          percent: entry.percent ?? null,
+          note: entry.note || null,
+        })
+        .select('page, percent')
+        .single();
+
+      if (error) {
+        console.error('Error logging progress:', error);
+        toast({
+          title: 'Error saving progress',
+          description: error.message,
+          variant: 'destructive',
+        });
+        return false;
+      }
+
+      setBooks((prev) =>
+        prev.map((book) =>
+          book.id === id
+            ? { ...book, currentPage: data.page ?? undefined, progressPercent: data.percent ?? undefined }
+            : book
+        )
+      );
+
+      posthog.capture('reading_progress_logged', {
+        book_id: id,
+        percent: data.percent,
+      });
+
+      toast({
+        title: 'Progress saved',
+        description: data.percent !== null ? `You're ${Math.round(data.percent)}% through.` : `On page ${data.page}.`,
+      });
+      return true;
+    },
+    [user, toast]
+  );
+
+  // Remove a progress entry; the latest remaining entry becomes the book's position
+  const deleteProgress = useCallback(
+    async (id: string, entryId: string) => {
+      if (!user) return false;
+
+      const { error } = await supabase.from('reading_progress').delete().eq('id', entryId);
+
+      if (error) {
+        console.error('Error deleting progress:', error);
+        toast({
+          title: 'Error removing progress',
+          description: error.message,
+          variant: 'destructive',
+        });
+        return false;
+      }
+
+      // Position is recomputed server-side; read it back
+      const { data } = await supabase
+        .from('books')
+        .select('current_page, progress_percent')
+        .eq('id', id)
+        .maybeSingle();
+
+      setBooks((prev) =>
+        prev.map((book) =>
+          book.id === id
+            ? { ...book, currentPage: data?.current_page ?? undefined, progressPercent: data?.progress_percent ?? undefined }
+            : book
+        )
+      );
+      return true;
+    },
+    [user, toast]
+  );
+
   const getBooksByStatus = useCallback(
     (status: BookStatus) => {
       return books.filter((book) => book.status === status);
@@ -489,7 +794,12 @@ export function useBooks() {
     removeBook,
     moveBook,
     updateBookCover,
+    setBookHidden,
     updateBookCompletedAt,
+    updateBookReview,
+    reorderBooks,
+    logProgress,
+    deleteProgress,
     getBooksByStatus,
     refetchBooks: fetchBooks,
   };
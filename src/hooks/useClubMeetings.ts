@@ -0,0 +1,280 @@
+import { useState, useEffect, useCallback } from 'react';
+import posthog from 'posthog-js';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { BookClubMeeting, BookClubMeetingRsvp, MeetingRsvpResponse } from '@/types/bookClub';
+
+export interface MeetingInput {
+  startsAt: string;
+  durationMinutes: number;
+  location: string | null;
+  videoUrl: string | null;
+  suggestionId: string | null;
+  notes: string | null;
+}
+
+export function useClubMeetings(clubId: string | undefined) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [meetings, setMeetings] = useState<BookClubMeeting[]>([]);
+  const [rsvps, setRsvps] = useState<BookClubMeetingRsvp[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchMeetings = useCallback(async () => {
+    if (!clubId || !user) {
+      setLoading(false);
+      return;
+    }
+
+    const { data, error } = await supabase
+      .from('book_club_meetings')
+      .select('*')
+      .eq('club_id', clubId)
+      .order('starts_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching meetings:', error);
+      setLoading(false);
+      return;
+    }
+
+    const mappedMeetings: BookClubMeeting[] = (data || []).map(m => ({
+      id: m.id,
+      clubId: m.club_id,
+      suggestionId: m.suggestion_id,
+      createdBy: m.created_by,
+      startsAt: m.starts_at,
+      durationMinutes: m.duration_minutes,
+      location: m.location,
+      videoUrl: m.video_url,
+      notes: m.notes,
+      createdAt: m.created_at,
+      updatedAt: m.updated_at,
+    }));
+    setMeetings(mappedMeetings);
+
+    if (mappedMeetings.length > 0) {
+      const { data: rsvpData, error: rsvpError } = await supabase
+        .from('book_club_meeting_rsvps')
+        .select('id, meeting_id, user_id, response')
+        .in('meeting_id', mappedMeetings.map(m => m.id));
+
+      if (rsvpError) {
+        console.error('Error fetching RSVPs:', rsvpError);
+      }
+
+      setRsvps((rsvpData || []).map(r => ({
+        id: r.id,
+        meetingId: r.meeting_id,
+        userId: r.user_id,
+        response: r.response as MeetingRsvpResponse,
+      })));
+    } else {
+      setRsvps([]);
+    }
+
+    setLoading(false);
+  }, [clubId, user]);
+
+  useEffect(() => {
+    fetchMeetings();
+  }, [fetchMeetings]);
+
+  const scheduleMeeting = useCallback(
+    async (input: MeetingInput): Promise<boolean> => {
+      if (!user || !clubId) return false;
+
+      const { error } = await supabase
+        .from('book_club_meetings')
+        .insert({
+          club_id: clubId,
+          created_by: user.id,
+          starts_at: input.startsAt,
+          duration_minutes: input.durationMinutes,
+          location: input.location,
+          video_url: input.videoUrl,
+          suggestion_id: input.suggestionId,
+          notes: input.notes,
+        });
+
+      if (error) {
+        console.error('Error scheduling meeting:', error);
+        toast({
+          title: 'Error scheduling meeting',
+          description: error.message,
+          variant: 'destructive',
+        });
+        return false;
+      }
+
+      toast({
+        title: 'Meeting scheduled',
+        description: 'Members have been notified.',
+      });
+      posthog.capture('club_meeting_scheduled', { has_video: !!input.videoUrl, has_book: !!input.suggestionId });
+
+      await fetchMeetings();
+      return true;
+    },
+    [user, clubId, toast, fetchMeetings]
+  );
+
+  const updateMeeting = useCallback(
+    async (meetingId: string, input: MeetingInput): Promise<boolean> => {
+      if (!user) return false;
+
+      const { error } = await supabase
+        .from('book_club_meetings')
+        .update({
+          starts_at: input.startsAt,
+          duration_minutes: input.durationMinutes,
+          location: input.location,
+          video_url: input.videoUrl,
+          suggestion_id: input.suggestionId,
+          notes: input.notes,
+        })
+        .eq('id', meetingId);
+
+      if (error) {
+        console.error('Error updating meeting:', error);
+        toast({
+          title: 'Error updating meeting',
+          description: error.message,
+          variant: 'destructive',
+        });
+        return false;
+      }
+
+      toast({
+        title: 'Meeting updated',
+      });
+
+      await fetchMeetings();
+      return true;
+    },
+    [user, toast, fetchMeetings]
+  );
+
+  const cancelMeeting = useCallback(
+    async (meetingId: string): Promise<boolean> => {
+      if (!user) return false;
+
+      const { error } = await supabase
+        .from('book_club_meetings')
+        .delete()
+        .eq('id', meetingId);
+
+      if (error) {
+        console.error('Error cancelling meeting:', error);
+        toast({
+          title: 'Error cancelling meeting',
+          description: error.message,
+          variant: 'destructive',
+        });
+        return false;
+      }
+
+      toast({
+        title: 'Meeting cancelled',
+      });
+      posthog.capture('club_meeting_cancelled');
+
+      await fetchMeetings();
+      return true;
+    },
+    [user, toast, fetchMeetings]
+  );
+
+  // Choosing the answer you already gave clears it
+  const setRsvp = useCallback(
+    async (meetingId: string, response: MeetingRsvpResponse): Promise<void> => {
+      if (!user) return;
+
+      const existing = rsvps.find(r => r.meetingId === meetingId && r.userId === user.id);
+
+      const { error } = existing?.response === response
+        ? await supabase
+            .from('book_club_meeting_rsvps')
+            .delete()
+            .eq('id', existing.id)
+        : await supabase
+            .from('book_club_meeting_rsvps')
+            .upsert(
+              { meeting_id: meetingId, user_id: user.id, response },
+              { onConflict: 'meeting_id,user_id' }
+            );
+
+      if (error) {
+        console.error('Error saving RSVP:', error);
+        toast({
+          title: 'Error saving RSVP',
+          description: error.message,
+          variant: 'destructive',
+        });
+        return;
+      }
+
+      posthog.capture('club_meeting_rsvp', { response: existing?.response === response ? 'cleared' : response });
+      await fetchMeetings();
+    },
+    [user, rsvps, toast, fetchMeetings]
+  );
+
+  // The feed URL carries the user's calendar token, created the first time they ask for it
+  const getCalendarFeedUrl = useCallback(async (): Promise<string | null> => {
+    if (!user || !clubId) return null;
+
+    const { data: existing, error: fetchError } = await supabase
+      .from('calendar_feed_tokens')
+      .select('token')
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    let token = existing?.token;
+
+    if (!token && !fetchError) {
+      const { data: created, error: createError } = await supabase
+        .from('calendar_feed_tokens')
+        .insert({ user_id: user.id })
+        .select('token')
+        .single();
+      if (createError) console.error('Error creating calendar token:', createError);
+      token = created?.token;
+    }
+
+    if (!token) {
+      toast({
+        title: 'Could not create calendar link',
+        description: 'Please try again in a moment.',
+        variant: 'destructive',
+      });
+      return null;
+    }
+
+    return `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/club-calendar?club=${clubId}&token=${token}`;
+  }, [user, clubId, toast]);
+
+  const getUserRsvp = useCallback(
+    (meetingId: string) => rsvps.find(r => r.meetingId === meetingId && r.userId === user?.id)?.response ?? null,
+    [rsvps, user]
+  );
+
+  const getRsvpsForMeeting = useCallback(
+    (meetingId: string) => rsvps.filter(r => r.meetingId === meetingId),
+    [rsvps]
+  );
+
+  return {
+    meetings,
+    loading,
+    scheduleMeeting,
+    updateMeeting,
+    cancelMeeting,
+    setRsvp,
+    getUserRsvp,
+    getRsvpsForMeeting,
+    getCalendarFeedUrl,
+    refetch: fetchMeetings,
+  };
+}
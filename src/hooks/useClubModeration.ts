@@ -0,0 +1,169 @@
+import { useState, useEffect, useCallback } from 'react';
+import posthog from 'posthog-js';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { CLUB_ROLE_LABELS } from '@/lib/clubRoles';
+import { BookClubBan, ClubRole } from '@/types/bookClub';
+
+/**
+ * Host tools for a club: roles, removals, bans and the invite link. `onChange` reloads the
+ * club details after anything that changes the member list or invite.
+ */
+export function useClubModeration(clubId: string | undefined, isHost: boolean, onChange?: () => void) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [bans, setBans] = useState<BookClubBan[]>([]);
+
+  const fetchBans = useCallback(async () => {
+    if (!clubId || !user || !isHost) {
+      setBans([]);
+      return;
+    }
+
+    const { data, error } = await supabase
+      .from('book_club_bans')
+      .select('id, user_id, created_at')
+      .eq('club_id', clubId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching bans:', error);
+      return;
+    }
+
+    // Banned users no longer share the club, so their profile may not be visible
+    const usernames = new Map<string, string>();
+    if (data.length > 0) {
+      const { data: profilesData } = await supabase
+        .from('profiles')
+        .select('user_id, username')
+        .in('user_id', data.map((b) => b.user_id));
+      profilesData?.forEach((p) => usernames.set(p.user_id, p.username));
+    }
+
+    setBans(data.map((b) => ({
+      id: b.id,
+      userId: b.user_id,
+      username: usernames.get(b.user_id) ?? null,
+      createdAt: b.created_at,
+    })));
+  }, [clubId, user, isHost]);
+
+  useEffect(() => {
+    fetchBans();
+  }, [fetchBans]);
+
+  const setMemberRole = useCallback(
+    async (userId: string, role: ClubRole): Promise<boolean> => {
+      if (!clubId) return false;
+
+      const { error } = await supabase.rpc('set_club_member_role', {
+        _club_id: clubId,
+        _user_id: userId,
+        _role: role,
+      });
+
+      if (error) {
+        console.error('Error changing role:', error);
+        toast({
+          title: 'Error changing role',
+          description: error.message,
+          variant: 'destructive',
+        });
+        return false;
+      }
+
+      posthog.capture('club_member_role_changed', { role });
+      toast({ title: `Role changed to ${CLUB_ROLE_LABELS[role]}` });
+      onChange?.();
+      return true;
+    },
+    [clubId, toast, onChange]
+  );
+
+  const removeMember = useCallback(
+    async (userId: string, ban = false): Promise<boolean> => {
+      if (!clubId) return false;
+
+      const { error } = await supabase.rpc('remove_club_member', {
+        _club_id: clubId,
+        _user_id: userId,
+        _ban: ban,
+      });
+
+      if (error) {
+        console.error('Error removing member:', error);
+        toast({
+          title: 'Error removing member',
+          description: error.message,
+          variant: 'destructive',
+        });
+        return false;
+      }
+
+      posthog.capture(ban ? 'club_member_banned' : 'club_member_removed');
+      toast({ title: ban ? 'Member removed and banned' : 'Member removed' });
+      if (ban) await fetchBans();
+      onChange?.();
+      return true;
+    },
+    [clubId, toast, fetchBans, onChange]
+  );
+
+  const liftBan = useCallback(
+    async (banId: string): Promise<boolean> => {
+      const { error } = await supabase.from('book_club_bans').delete().eq('id', banId);
+
+      if (error) {
+        console.error('Error lifting ban:', error);
+        toast({
+          title: 'Error lifting ban',
+          description: error.message,
+          variant: 'destructive',
+        });
+        return false;
+      }
+
+      setBans((prev) => prev.filter((b) => b.id !== banId));
+      toast({ title: 'Ban lifted', description: 'They can rejoin with an invite link.' });
+      return true;
+    },
+    [toast]
+  );
+
+  const regenerateInvite = useCallback(
+    async (expiresAt: string | null): Promise<boolean> => {
+      if (!clubId) return false;
+
+      const { error } = await supabase.rpc('regenerate_club_invite', {
+        _club_id: clubId,
+        _expires_at: expiresAt,
+      });
+
+      if (error) {
+        console.error('Error regenerating invite:', error);
+        toast({
+          title: 'Error creating invite',
+          description: error.message,
+          variant: 'destructive',
+        });
+        return false;
+      }
+
+      posthog.capture('club_invite_regenerated', { expires: !!expiresAt });
+      toast({ title: 'New invite link ready', description: 'Old invite links no longer work.' });
+      onChange?.();
+      return true;
+    },
+    [clubId, toast, onChange]
+  );
+
+  return {
+    bans,
+    setMemberRole,
+    removeMember,
+    liftBan,
+    regenerateInvite,
+  };
+}
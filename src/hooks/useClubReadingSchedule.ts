@@ -0,0 +1,179 @@
+import { useState, useEffect, useCallback } from 'react';
+import posthog from 'posthog-js';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { BookClubMilestone, ReadingPosition } from '@/types/bookClub';
+import { sortMilestones } from '@/lib/readingSchedule';
+
+export function useClubReadingSchedule(clubId: string | undefined) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [milestones, setMilestones] = useState<BookClubMilestone[]>([]);
+  const [positions, setPositions] = useState<ReadingPosition[]>([]);
+  // Other members' reflections per book that stay hidden until the user finishes it
+  const [hiddenReflectionCounts, setHiddenReflectionCounts] = useState<Map<string, number>>(new Map());
+  const [loading, setLoading] = useState(true);
+
+  const fetchSchedule = useCallback(async () => {
+    if (!clubId || !user) {
+      setLoading(false);
+      return;
+    }
+
+    const [milestonesResult, positionsResult, hiddenResult] = await Promise.all([
+      supabase
+        .from('book_club_milestones')
+        .select('id, club_id, suggestion_id, label, due_date, created_at')
+        .eq('club_id', clubId),
+      supabase
+        .from('book_club_reading_positions')
+        .select('user_id, suggestion_id, milestone_id')
+        .eq('club_id', clubId),
+      supabase.rpc('get_hidden_reflection_counts', { _club_id: clubId }),
+    ]);
+
+    if (milestonesResult.error) console.error('Error fetching milestones:', milestonesResult.error);
+    if (positionsResult.error) console.error('Error fetching reading positions:', positionsResult.error);
+    if (hiddenResult.error) console.error('Error fetching hidden reflections:', hiddenResult.error);
+
+    setMilestones(sortMilestones((milestonesResult.data || []).map(m => ({
+      id: m.id,
+      clubId: m.club_id,
+      suggestionId: m.suggestion_id,
+      label: m.label,
+      dueDate: m.due_date,
+      createdAt: m.created_at,
+    }))));
+    setPositions((positionsResult.data || []).map(p => ({
+      userId: p.user_id,
+      suggestionId: p.suggestion_id,
+      milestoneId: p.milestone_id,
+    })));
+    setHiddenReflectionCounts(new Map((hiddenResult.data || []).map(h => [h.suggestion_id, h.hidden_count])));
+    setLoading(false);
+  }, [clubId, user]);
+
+  useEffect(() => {
+    fetchSchedule();
+  }, [fetchSchedule]);
+
+  const addMilestone = useCallback(
+    async (suggestionId: string, label: string, dueDate: string): Promise<boolean> => {
+      if (!user || !clubId) return false;
+
+      const { error } = await supabase
+        .from('book_club_milestones')
+        .insert({
+          club_id: clubId,
+          suggestion_id: suggestionId,
+          label: label.trim(),
+          due_date: dueDate,
+        });
+
+      if (error) {
+        console.error('Error adding milestone:', error);
+        toast({
+          title: 'Error adding milestone',
+          description: error.message,
+          variant: 'destructive',
+        });
+        return false;
+      }
+
+      posthog.capture('club_milestone_added');
+      await fetchSchedule();
+      return true;
+    },
+    [user, clubId, toast, fetchSchedule]
+  );
+
+  const removeMilestone = useCallback(
+    async (milestoneId: string): Promise<boolean> => {
+      if (!user) return false;
+
+      const { error } = await supabase
+        .from('book_club_milestones')
+        .delete()
+        .eq('id', milestoneId);
+
+      if (error) {
+        console.error('Error removing milestone:', error);
+        toast({
+          title: 'Error removing milestone',
+          description: error.message,
+          variant: 'destructive',
+        });
+        return false;
+      }
+
+      await fetchSchedule();
+      return true;
+    },
+    [user, toast, fetchSchedule]
+  );
+
+  // Passing null clears the position (not started)
+  const setPosition = useCallback(
+    async (suggestionId: string, milestoneId: string | null): Promise<boolean> => {
+      if (!user || !clubId) return false;
+
+      const { error } = milestoneId
+        ? await supabase
+            .from('book_club_reading_positions')
+            .upsert(
+              { club_id: clubId, suggestion_id: suggestionId, milestone_id: milestoneId, user_id: user.id },
+              { onConflict: 'suggestion_id,user_id' }
+            )
+        : await supabase
+            .from('book_club_reading_positions')
+            .delete()
+            .eq('suggestion_id', suggestionId)
+            .eq('user_id', user.id);
+
+      if (error) {
+        console.error('Error updating reading position:', error);
+        toast({
+          title: 'Error updating your progress',
+          description: error.message,
+          variant: 'destructive',
+        });
+        return false;
+      }
+
+      posthog.capture('club_reading_position_set', { cleared: !milestoneId });
+      await fetchSchedule();
+      return true;
+    },
+    [user, clubId, toast, fetchSchedule]
+  );
+
+  const getMilestonesForSuggestion = useCallback(
+    (suggestionId: string) => milestones.filter(m => m.suggestionId === suggestionId),
+    [milestones]
+  );
+
+  const getPositionsForSuggestion = useCallback(
+    (suggestionId: string) => positions.filter(p => p.suggestionId === suggestionId),
+    [positions]
+  );
+
+  const getUserPosition = useCallback(
+    (suggestionId: string) =>
+      positions.find(p => p.suggestionId === suggestionId && p.userId === user?.id)?.milestoneId ?? null,
+    [positions, user]
+  );
+
+  return {
+    milestones,
+    loading,
+    hiddenReflectionCounts,
+    addMilestone,
+    removeMilestone,
+    setPosition,
+    getMilestonesForSuggestion,
+    getPositionsForSuggestion,
+    getUserPosition,
+    refetch: fetchSchedule,
+  };
+}
@@ -243,6 +243,34 @@ export function useClubReflections(clubId: string | undefined, suggestionId?: st
     [user, toast, fetchReflections]
   );
 
+  // Moderators can take down anyone's reflection; RLS checks the role
+  const removeReflection = useCallback(
+    async (reflectionId: string): Promise<boolean> => {
+      const { error } = await supabase
+        .from('book_club_reflections')
+        .delete()
+        .eq('id', reflectionId);
+
+      if (error) {
+        console.error('Error removing reflection:', error);
+        toast({
+          title: 'Error removing reflection',
+          description: error.message,
+          variant: 'destructive',
+        });
+        return false;
+      }
+
+      toast({
+        title: 'Reflection removed',
+      });
+
+      await fetchReflections();
+      return true;
+    },
+    [toast, fetchReflections]
+  );
+
   // Get reflections for a specific suggestion
   const getReflectionsForSuggestion = useCallback(
     (targetSuggestionId: string) => {
@@ -277,6 +305,7 @@ export function useClubReflections(clubId: string | undefined, suggestionId?: st
     addReflection,
     updateReflection,
     deleteReflection,
+    removeReflection,
     getReflectionsForSuggestion,
     hasReflectedOn,
     getAverageRating,
@@ -0,0 +1,306 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import posthog from 'posthog-js';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { useBlocks } from '@/hooks/useBlocks';
+import { ClubThread, ClubThreadKind, ClubThreadPost } from '@/types/bookClub';
+
+export interface NewThreadInput {
+  suggestionId: string;
+  kind: ClubThreadKind;
+  title: string;
+  body: string | null;
+  milestoneId: string | null;
+}
+
+export function useClubThreads(clubId: string | undefined) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { blockedIds, mutedIds } = useBlocks();
+  const [threads, setThreads] = useState<ClubThread[]>([]);
+  const [posts, setPosts] = useState<ClubThreadPost[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchThreads = useCallback(async () => {
+    if (!clubId || !user) {
+      setLoading(false);
+      return;
+    }
+
+    // RLS leaves out threads (and their posts) past the user's reading position
+    const [threadsRes, postsRes] = await Promise.all([
+      supabase.from('book_club_threads').select('*').eq('club_id', clubId),
+      supabase.from('book_club_thread_posts').select('*').eq('club_id', clubId).order('created_at', { ascending: true }),
+    ]);
+
+    if (threadsRes.error) console.error('Error fetching threads:', threadsRes.error);
+    if (postsRes.error) console.error('Error fetching thread posts:', postsRes.error);
+
+    const { data: reactionsData } = await supabase
+      .from('book_club_thread_reactions')
+      .select('post_id, user_id, emoji')
+      .eq('club_id', clubId);
+
+    const reactionsByPost = new Map<string, { emoji: string; userId: string }[]>();
+    reactionsData?.forEach((r) => {
+      const list = reactionsByPost.get(r.post_id) ?? [];
+      list.push({ emoji: r.emoji, userId: r.user_id });
+      reactionsByPost.set(r.post_id, list);
+    });
+
+    const userIds = new Set<string>();
+    threadsRes.data?.forEach((t) => userIds.add(t.created_by));
+    postsRes.data?.forEach((p) => userIds.add(p.user_id));
+
+    const profilesMap = new Map<string, { username: string; avatar_url: string | null }>();
+    if (userIds.size > 0) {
+      const { data: profilesData } = await supabase
+        .from('profiles')
+        .select('user_id, username, avatar_url')
+        .in('user_id', Array.from(userIds));
+      profilesData?.forEach((p) => profilesMap.set(p.user_id, { username: p.username, avatar_url: p.avatar_url }));
+    }
+
+    setThreads((threadsRes.data || []).map((t) => ({
+      id: t.id,
+      clubId: t.club_id,
+      suggestionId: t.suggestion_id,
+      milestoneId: t.milestone_id,
+      kind: t.kind as ClubThreadKind,
+      title: t.title,
+      body: t.body,
+      createdBy: t.created_by,
+      username: profilesMap.get(t.created_by)?.username,
+      avatarUrl: profilesMap.get(t.created_by)?.avatar_url,
+      lastPostAt: t.last_post_at,
+      createdAt: t.created_at,
+    })));
+    setPosts((postsRes.data || []).map((p) => ({
+      id: p.id,
+      threadId: p.thread_id,
+      userId: p.user_id,
+      content: p.content,
+      createdAt: p.created_at,
+      editedAt: p.edited_at,
+      reactions: reactionsByPost.get(p.id) ?? [],
+      username: profilesMap.get(p.user_id)?.username,
+      avatarUrl: profilesMap.get(p.user_id)?.avatar_url,
+    })));
+    setLoading(false);
+  }, [clubId, user]);
+
+  useEffect(() => {
+    fetchThreads();
+  }, [fetchThreads]);
+
+  // Live updates while the club page is open
+  useEffect(() => {
+    if (!clubId || !user) return;
+
+    const filter = `club_id=eq.${clubId}`;
+    const channel = supabase
+      .channel(`club-threads-${clubId}`)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'book_club_threads', filter }, () => {
+        fetchThreads();
+      })
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'book_club_thread_posts', filter }, () => {
+        fetchThreads();
+      })
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'book_club_thread_reactions', filter }, () => {
+        fetchThreads();
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [clubId, user, fetchThreads]);
+
+  const createThread = useCallback(
+    async (input: NewThreadInput): Promise<boolean> => {
+      if (!user || !clubId) return false;
+
+      const { error } = await supabase
+        .from('book_club_threads')
+        .insert({
+          club_id: clubId,
+          suggestion_id: input.suggestionId,
+          milestone_id: input.milestoneId,
+          kind: input.kind,
+          title: input.title.trim(),
+          body: input.body?.trim() || null,
+          created_by: user.id,
+        });
+
+      if (error) {
+        console.error('Error starting thread:', error);
+        toast({
+          title: 'Error starting discussion',
+          description: error.message,
+          variant: 'destructive',
+        });
+        return false;
+      }
+
+      posthog.capture('club_thread_created', { kind: input.kind, has_milestone: !!input.milestoneId });
+      await fetchThreads();
+      return true;
+    },
+    [user, clubId, toast, fetchThreads]
+  );
+
+  const deleteThread = useCallback(
+    async (threadId: string): Promise<boolean> => {
+      const { error } = await supabase.from('book_club_threads').delete().eq('id', threadId);
+
+      if (error) {
+        console.error('Error deleting thread:', error);
+        toast({
+          title: 'Error deleting discussion',
+          description: error.message,
+          variant: 'destructive',
+        });
+        return false;
+      }
+
+      toast({ title: 'Discussion deleted' });
+      await fetchThreads();
+      return true;
+    },
+    [toast, fetchThreads]
+  );
+
+  const addPost = useCallback(
+    async (threadId: string, content: string): Promise<boolean> => {
+      if (!user || !clubId) return false;
+
+      const { error } = await supabase
+        .from('book_club_thread_posts')
+        .insert({ thread_id: threadId, club_id: clubId, user_id: user.id, content: content.trim() });
+
+      if (error) {
+        console.error('Error posting reply:', error);
+        toast({
+          title: 'Error posting reply',
+          description: error.message,
+          variant: 'destructive',
+        });
+        return false;
+      }
+
+      posthog.capture('club_thread_reply');
+      await fetchThreads();
+      return true;
+    },
+    [user, clubId, toast, fetchThreads]
+  );
+
+  const editPost = useCallback(
+    async (postId: string, content: string): Promise<boolean> => {
+      const { error } = await supabase
+        .from('book_club_thread_posts')
+        .update({ content: content.trim() })
+        .eq('id', postId);
+
+      if (error) {
+        console.error('Error editing reply:', error);
+        toast({
+          title: 'Error editing reply',
+          description: error.message,
+          variant: 'destructive',
+        });
+        return false;
+      }
+
+      await fetchThreads();
+      return true;
+    },
+    [toast, fetchThreads]
+  );
+
+  const deletePost = useCallback(
+    async (postId: string) => {
+      const { error } = await supabase.from('book_club_thread_posts').delete().eq('id', postId);
+
+      if (error) {
+        console.error('Error deleting reply:', error);
+        toast({
+          title: 'Error deleting reply',
+          description: error.message,
+          variant: 'destructive',
+        });
+        return;
+      }
+
+      await fetchThreads();
+    },
+    [toast, fetchThreads]
+  );
+
+  const toggleReaction = useCallback(
+    async (postId: string, emoji: string) => {
+      if (!user || !clubId) return;
+
+      const post = posts.find((p) => p.id === postId);
+      const hasReacted = post?.reactions.some((r) => r.userId === user.id && r.emoji === emoji);
+
+      const { error } = hasReacted
+        ? await supabase
+            .from('book_club_thread_reactions')
+            .delete()
+            .eq('post_id', postId)
+            .eq('user_id', user.id)
+            .eq('emoji', emoji)
+        : await supabase
+            .from('book_club_thread_reactions')
+            .insert({ post_id: postId, club_id: clubId, user_id: user.id, emoji });
+
+      if (error) {
+        toast({ title: 'Error', description: error.message, variant: 'destructive' });
+        return;
+      }
+
+      setPosts((prev) =>
+        prev.map((p) => {
+          if (p.id !== postId) return p;
+          const reactions = hasReacted
+            ? p.reactions.filter((r) => !(r.userId === user.id && r.emoji === emoji))
+            : [...p.reactions, { emoji, userId: user.id }];
+          return { ...p, reactions };
+        })
+      );
+    },
+    [user, clubId, posts, toast]
+  );
+
+  // Blocked and muted members' replies are left out, same as book comments
+  const visiblePosts = useMemo(
+    () => posts.filter((p) => !blockedIds.includes(p.userId) && !mutedIds.includes(p.userId)),
+    [posts, blockedIds, mutedIds]
+  );
+
+  const getThreadsForSuggestion = useCallback(
+    (suggestionId: string) => threads.filter((t) => t.suggestionId === suggestionId),
+    [threads]
+  );
+
+  const getPostsForThread = useCallback(
+    (threadId: string) => visiblePosts.filter((p) => p.threadId === threadId),
+    [visiblePosts]
+  );
+
+  return {
+    threads,
+    loading,
+    createThread,
+    deleteThread,
+    addPost,
+    editPost,
+    deletePost,
+    toggleReaction,
+    getThreadsForSuggestion,
+    getPostsForThread,
+    refetch: fetchThreads,
+  };
+}
@@ -0,0 +1,224 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import posthog from 'posthog-js';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { groupBallots } from '@/lib/votingRounds';
+import { RoundBallot, VotingMethod, VotingRound } from '@/types/bookClub';
+
+export interface VotingRoundInput {
+  method: VotingMethod;
+  endsAt: string;
+  hideResults: boolean;
+}
+
+/**
+ * The club's latest voting round and its ballots. `onRoundClosed` runs whenever a round
+ * closes (by the owner or the deadline) since the winner may now be the current read.
+ */
+export function useClubVotingRounds(clubId: string | undefined, onRoundClosed?: () => void) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [round, setRound] = useState<VotingRound | null>(null);
+  const [ballots, setBallots] = useState<RoundBallot[]>([]);
+  const [turnout, setTurnout] = useState(0);
+  const [loading, setLoading] = useState(true);
+
+  const fetchRound = useCallback(async () => {
+    if (!clubId || !user) {
+      setLoading(false);
+      return;
+    }
+
+    const { data: roundData, error } = await supabase
+      .from('book_club_voting_rounds')
+      .select('*')
+      .eq('club_id', clubId)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) console.error('Error fetching voting round:', error);
+
+    if (!roundData) {
+      setRound(null);
+      setBallots([]);
+      setTurnout(0);
+      setLoading(false);
+      return;
+    }
+
+    // Hidden tallies leave only the user's own ballot visible until the round closes
+    const [ballotsRes, turnoutRes] = await Promise.all([
+      supabase.from('book_club_round_ballots').select('user_id, suggestion_id, rank').eq('round_id', roundData.id),
+      supabase.rpc('get_round_turnout', { _round_id: roundData.id }),
+    ]);
+
+    if (ballotsRes.error) console.error('Error fetching ballots:', ballotsRes.error);
+
+    setRound({
+      id: roundData.id,
+      clubId: roundData.club_id,
+      createdBy: roundData.created_by,
+      method: roundData.method as VotingMethod,
+      endsAt: roundData.ends_at,
+      hideResults: roundData.hide_results,
+      status: roundData.status as 'open' | 'closed',
+      winnerSuggestionId: roundData.winner_suggestion_id,
+      closedAt: roundData.closed_at,
+      createdAt: roundData.created_at,
+    });
+    setBallots((ballotsRes.data || []).map((b) => ({
+      userId: b.user_id,
+      suggestionId: b.suggestion_id,
+      rank: b.rank,
+    })));
+    setTurnout(turnoutRes.data ?? 0);
+    setLoading(false);
+  }, [clubId, user]);
+
+  useEffect(() => {
+    fetchRound();
+  }, [fetchRound]);
+
+  useEffect(() => {
+    if (!clubId || !user) return;
+
+    const filter = `club_id=eq.${clubId}`;
+    const channel = supabase
+      .channel(`club-voting-${clubId}`)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'book_club_voting_rounds', filter }, (payload) => {
+        fetchRound();
+        if (payload.eventType === 'UPDATE' && (payload.new as { status?: string }).status === 'closed') {
+          onRoundClosed?.();
+        }
+      })
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'book_club_round_ballots', filter }, () => {
+        fetchRound();
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [clubId, user, fetchRound, onRoundClosed]);
+
+  const openRound = useCallback(
+    async (input: VotingRoundInput): Promise<boolean> => {
+      if (!user || !clubId) return false;
+
+      const { error } = await supabase
+        .from('book_club_voting_rounds')
+        .insert({
+          club_id: clubId,
+          created_by: user.id,
+          method: input.method,
+          ends_at: input.endsAt,
+          hide_results: input.hideResults,
+        });
+
+      if (error) {
+        console.error('Error opening voting round:', error);
+        toast({
+          title: 'Error opening voting round',
+          description: error.code === '23505' ? 'A round is already open for this club.' : error.message,
+          variant: 'destructive',
+        });
+        return false;
+      }
+
+      posthog.capture('club_voting_round_opened', { method: input.method, hide_results: input.hideResults });
+      toast({ title: 'Voting is open', description: 'Members can cast their ballots until the deadline.' });
+      await fetchRound();
+      return true;
+    },
+    [user, clubId, toast, fetchRound]
+  );
+
+  const castBallot = useCallback(
+    async (suggestionIds: string[]): Promise<boolean> => {
+      if (!round) return false;
+
+      const { error } = await supabase.rpc('cast_round_ballot', {
+        _round_id: round.id,
+        _suggestion_ids: suggestionIds,
+      });
+
+      if (error) {
+        console.error('Error casting ballot:', error);
+        toast({
+          title: 'Error casting ballot',
+          description: error.message,
+          variant: 'destructive',
+        });
+        return false;
+      }
+
+      posthog.capture('club_ballot_cast', { method: round.method, picks: suggestionIds.length });
+      toast({ title: suggestionIds.length > 0 ? 'Ballot saved' : 'Ballot withdrawn' });
+      await fetchRound();
+      return true;
+    },
+    [round, toast, fetchRound]
+  );
+
+  const closeRound = useCallback(async (): Promise<boolean> => {
+    if (!round) return false;
+
+    const { error } = await supabase.rpc('close_voting_round', { _round_id: round.id });
+
+    if (error) {
+      console.error('Error closing voting round:', error);
+      toast({
+        title: 'Error closing voting round',
+        description: error.message,
+        variant: 'destructive',
+      });
+      return false;
+    }
+
+    posthog.capture('club_voting_round_closed', { method: round.method, early: new Date(round.endsAt) > new Date() });
+    await fetchRound();
+    onRoundClosed?.();
+    return true;
+  }, [round, toast, fetchRound, onRoundClosed]);
+
+  const cancelRound = useCallback(async (): Promise<boolean> => {
+    if (!round) return false;
+
+    const { error } = await supabase.from('book_club_voting_rounds').delete().eq('id', round.id);
+
+    if (error) {
+      console.error('Error cancelling voting round:', error);
+      toast({
+        title: 'Error cancelling voting round',
+        description: error.message,
+        variant: 'destructive',
+      });
+      return false;
+    }
+
+    toast({ title: 'Voting round cancelled' });
+    await fetchRound();
+    return true;
+  }, [round, toast, fetchRound]);
+
+  const userBallot = useMemo(
+    () => (user ? groupBallots(ballots).get(user.id) ?? [] : []),
+    [ballots, user]
+  );
+
+  return {
+    round,
+    activeRound: round?.status === 'open' ? round : null,
+    ballots,
+    turnout,
+    userBallot,
+    loading,
+    openRound,
+    castBallot,
+    closeRound,
+    cancelRound,
+    refetch: fetchRound,
+  };
+}
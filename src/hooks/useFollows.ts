@@ -2,22 +2,28 @@ import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import posthog from 'posthog-js';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
+import { useBlocks } from '@/hooks/useBlocks';
 import { toast } from 'sonner';
-import { useCallback, useState, useEffect } from 'react';
+import { useCallback, useState, useEffect, useMemo } from 'react';
+
+/** Follows of non-public shelves stay 'pending' until the owner accepts them */
+export type FollowStatus = 'pending' | 'accepted';
 
 export interface Follow {
   id: string;
   follower_id: string;
   following_id: string;
+  status: FollowStatus;
   created_at: string;
 }
 
 export function useFollows() {
   const { user } = useAuth();
   const queryClient = useQueryClient();
+  const { isBlocked } = useBlocks();
 
-  // Get users I'm following
-  const { data: following = [], isLoading: loadingFollowing } = useQuery({
+  // Get users I'm following, plus requests still waiting on them
+  const { data: outgoing = [], isLoading: loadingFollowing } = useQuery({
     queryKey: ['following', user?.id],
     queryFn: async () => {
       if (!user) return [];
@@ -32,8 +38,8 @@ export function useFollows() {
     enabled: !!user,
   });
 
-  // Get my followers
-  const { data: followers = [], isLoading: loadingFollowers } = useQuery({
+  // Get my followers, plus requests waiting on me
+  const { data: incoming = [], isLoading: loadingFollowers } = useQuery({
     queryKey: ['followers', user?.id],
     queryFn: async () => {
       if (!user) return [];
@@ -48,15 +54,26 @@ export function useFollows() {
     enabled: !!user,
   });
 
+  const following = useMemo(() => outgoing.filter(f => f.status === 'accepted'), [outgoing]);
+  const followers = useMemo(() => incoming.filter(f => f.status === 'accepted'), [incoming]);
+  const followRequests = useMemo(() => incoming.filter(f => f.status === 'pending'), [incoming]);
+
   // Check if I follow a specific user
   const isFollowing = (userId: string) => {
     return following.some(f => f.following_id === userId);
   };
 
+  // Check if I've asked to follow a specific user and they haven't answered yet
+  const isRequested = (userId: string) => {
+    return outgoing.some(f => f.following_id === userId && f.status === 'pending');
+  };
+
   // Follow a user
   const followMutation = useMutation({
     mutationFn: async (targetUserId: string) => {
       if (!user) throw new Error('Not authenticated');
+      // RLS rejects it too; this just skips the round trip
+      if (isBlocked(targetUserId)) throw new Error('Blocked');
       
       const { data, error } = await supabase
         .from('follows')
@@ -83,7 +100,7 @@ export function useFollows() {
       // Optimistically update
       queryClient.setQueryData<Follow[]>(['following', user?.id], (old = []) => [
         ...old,
-        { id: 'optimistic', follower_id: user!.id, following_id: targetUserId, created_at: new Date().toISOString() }
+        { id: 'optimistic', follower_id: user!.id, following_id: targetUserId, status: 'accepted', created_at: new Date().toISOString() }
       ]);
       
       return { previousFollowing };
@@ -93,16 +110,21 @@ export function useFollows() {
       queryClient.setQueryData<Follow[]>(['following', user?.id], (old = []) =>
         old.map(f => f.id === 'optimistic' && f.following_id === data.following_id ? data : f)
       );
-      posthog.capture('user_followed', { target_user_id: data.following_id });
-      toast.success('Now following this shelf');
+      if (data.status === 'pending') {
+        posthog.capture('follow_requested', { target_user_id: data.following_id });
+        toast.success('Follow request sent');
+      } else {
+        posthog.capture('user_followed', { target_user_id: data.following_id });
+        toast.success('Now following this shelf');
+      }
     },
-    onError: (error: Error, _targetUserId, context) => {
+    onError: (error: Error, targetUserId, context) => {
       // Rollback on error
       if (context?.previousFollowing) {
         queryClient.setQueryData(['following', user?.id], context.previousFollowing);
       }
       console.error('Follow error:', error);
-      toast.error('Failed to follow');
+      toast.error(isBlocked(targetUserId) ? "You can't follow this user" : 'Failed to follow');
     },
   });
 
@@ -124,15 +146,21 @@ export function useFollows() {
       await queryClient.cancelQueries({ queryKey: ['following', user?.id] });
       
       const previousFollowing = queryClient.getQueryData<Follow[]>(['following', user?.id]);
+      const wasRequest = previousFollowing?.some(f => f.following_id === targetUserId && f.status === 'pending') ?? false;
       
       // Optimistically remove
       queryClient.setQueryData<Follow[]>(['following', user?.id], (old = []) =>
         old.filter(f => f.following_id !== targetUserId)
       );
       
-      return { previousFollowing };
+      return { previousFollowing, wasRequest };
     },
-    onSuccess: (_data, targetUserId) => {
+    onSuccess: (_data, targetUserId, context) => {
+      if (context?.wasRequest) {
+        posthog.capture('follow_request_cancelled', { target_user_id: targetUserId });
+        toast.success('Follow request cancelled');
+        return;
+      }
       posthog.capture('user_unfollowed', { target_user_id: targetUserId });
       toast.success('Unfollowed');
       // No invalidation needed - optimistic update already removed it
@@ -146,14 +174,75 @@ export function useFollows() {
     },
   });
 
+  const invalidateFollowers = () => {
+    queryClient.invalidateQueries({ queryKey: ['followers', user?.id] });
+    queryClient.invalidateQueries({ queryKey: ['user-followers', user?.id] });
+  };
+
+  // Accept someone's request to follow me
+  const acceptRequestMutation = useMutation({
+    mutationFn: async (followerUserId: string) => {
+      if (!user) throw new Error('Not authenticated');
+
+      const { error } = await supabase
+        .from('follows')
+        .update({ status: 'accepted' })
+        .eq('follower_id', followerUserId)
+        .eq('following_id', user.id);
+
+      if (error) throw error;
+      return followerUserId;
+    },
+    onSuccess: (followerUserId) => {
+      invalidateFollowers();
+      posthog.capture('follow_request_accepted', { follower_user_id: followerUserId });
+      toast.success('Follow request accepted');
+    },
+    onError: (error: Error) => {
+      console.error('Accept follow request error:', error);
+      toast.error('Failed to accept request');
+    },
+  });
+
+  // Decline a pending request, or remove someone who already follows me
+  const removeFollowerMutation = useMutation({
+    mutationFn: async (followerUserId: string) => {
+      if (!user) throw new Error('Not authenticated');
+      const wasRequest = followRequests.some(f => f.follower_id === followerUserId);
+
+      const { error } = await supabase
+        .from('follows')
+        .delete()
+        .eq('follower_id', followerUserId)
+        .eq('following_id', user.id);
+
+      if (error) throw error;
+      return { followerUserId, wasRequest };
+    },
+    onSuccess: ({ followerUserId, wasRequest }) => {
+      invalidateFollowers();
+      posthog.capture(wasRequest ? 'follow_request_declined' : 'follower_removed', { follower_user_id: followerUserId });
+      toast.success(wasRequest ? 'Follow request declined' : 'Follower removed');
+    },
+    onError: (error: Error) => {
+      console.error('Remove follower error:', error);
+      toast.error('Failed to remove follower');
+    },
+  });
+
   return {
     following,
     followers,
+    followRequests,
     loadingFollowing,
     loadingFollowers,
     isFollowing,
+    isRequested,
+    isBlocked,
     follow: followMutation.mutate,
     unfollow: unfollowMutation.mutate,
+    acceptFollowRequest: acceptRequestMutation.mutate,
+    removeFollower: removeFollowerMutation.mutate,
     isFollowPending: followMutation.isPending,
     isUnfollowPending: unfollowMutation.isPending,
   };
@@ -204,7 +293,8 @@ export function useFollowedUsersBooks() {
       const { data: follows, error: followsError } = await supabase
         .from('follows')
         .select('following_id, created_at')
-        .eq('follower_id', user.id);
+        .eq('follower_id', user.id)
+        .eq('status', 'accepted');
 
       if (followsError) throw followsError;
       if (!follows || follows.length === 0) return [];
@@ -0,0 +1,69 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import posthog from 'posthog-js';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import type { FriendSuggestion } from '@/lib/friendSuggestions';
+import { toast } from 'sonner';
+
+/** "People you may know", ranked server-side so private shelves never feed into it */
+export function useFriendSuggestions(limit = 10) {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const queryKey = ['friend-suggestions', user?.id, limit];
+
+  const { data: suggestions = [], isLoading } = useQuery({
+    queryKey,
+    queryFn: async (): Promise<FriendSuggestion[]> => {
+      if (!user) return [];
+      const { data, error } = await supabase.rpc('get_friend_suggestions', { _limit: limit });
+      if (error) throw error;
+
+      return (data || []).map((s) => ({
+        userId: s.user_id,
+        username: s.username,
+        avatarUrl: s.avatar_url,
+        shareId: s.share_id,
+        sharedBooks: s.shared_books,
+        sharedClubs: s.shared_clubs,
+        mutualFollows: s.mutual_follows,
+      }));
+    },
+    enabled: !!user,
+    staleTime: 1000 * 60 * 5,
+  });
+
+  const dismissMutation = useMutation({
+    mutationFn: async (dismissedUserId: string) => {
+      if (!user) throw new Error('Not authenticated');
+      const { error } = await supabase
+        .from('friend_suggestion_dismissals')
+        .insert({ user_id: user.id, dismissed_user_id: dismissedUserId });
+      if (error) throw error;
+      return dismissedUserId;
+    },
+    onMutate: async (dismissedUserId: string) => {
+      await queryClient.cancelQueries({ queryKey });
+      const previous = queryClient.getQueryData<FriendSuggestion[]>(queryKey);
+      queryClient.setQueryData<FriendSuggestion[]>(queryKey, (old = []) =>
+        old.filter((s) => s.userId !== dismissedUserId)
+      );
+      return { previous };
+    },
+    onSuccess: (dismissedUserId) => {
+      posthog.capture('friend_suggestion_dismissed', { dismissed_user_id: dismissedUserId });
+    },
+    onError: (error: Error, _dismissedUserId, context) => {
+      if (context?.previous) {
+        queryClient.setQueryData(queryKey, context.previous);
+      }
+      console.error('Dismiss suggestion error:', error);
+      toast.error('Failed to dismiss suggestion');
+    },
+  });
+
+  return {
+    suggestions,
+    isLoading,
+    dismiss: dismissMutation.mutate,
+  };
+}
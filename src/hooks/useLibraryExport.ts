@@ -0,0 +1,163 @@
+import { useState, useCallback } from 'react';
+import posthog from 'posthog-js';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { buildGoodreadsCsv, downloadFile, exportFileName } from '@/lib/libraryExport';
+import { toast } from 'sonner';
+
+export type ExportFormat = 'goodreads-csv' | 'json';
+
+/** Bump when the JSON shape changes so future importers can tell versions apart */
+const EXPORT_VERSION = 1;
+
+/**
+ * Builds downloadable backups of the signed-in user's library.
+ * Everything is fetched fresh at export time rather than taken from shelf state.
+ */
+export function useLibraryExport() {
+  const { user } = useAuth();
+  const [exporting, setExporting] = useState<ExportFormat | null>(null);
+
+  const exportGoodreadsCsv = useCallback(async () => {
+    if (!user) return;
+
+    setExporting('goodreads-csv');
+    try {
+      const [booksResult, notesResult] = await Promise.all([
+        supabase
+          .from('books')
+          .select('id, title, author, isbn, status, completed_at, rating, review')
+          .eq('user_id', user.id)
+          .order('created_at', { ascending: true }),
+        supabase.from('book_notes').select('book_id, content').eq('user_id', user.id),
+      ]);
+
+      if (booksResult.error) throw booksResult.error;
+      if (notesResult.error) throw notesResult.error;
+
+      // Notes stand in for a review on books that don't have one
+      const notes = new Map((notesResult.data || []).map((n) => [n.book_id, n.content]));
+      const csv = buildGoodreadsCsv(booksResult.data || [], notes);
+
+      downloadFile(csv, exportFileName('csv'), 'text/csv;charset=utf-8');
+      posthog.capture('library_exported', { format: 'goodreads-csv', book_count: booksResult.data?.length || 0 });
+      toast.success('Library exported');
+    } catch (err) {
+      console.error('Error exporting library:', err);
+      toast.error('Failed to export library');
+    } finally {
+      setExporting(null);
+    }
+  }, [user]);
+
+  const exportJson = useCallback(async () => {
+    if (!user) return;
+
+    setExporting('json');
+    try {
+      const { data: books, error: booksError } = await supabase
+        .from('books')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: true });
+
+      if (booksError) throw booksError;
+
+      const [
+        notesResult,
+        likesGivenResult,
+        likesReceivedResult,
+        commentsWrittenResult,
+        commentsReceivedResult,
+        reflectionsResult,
+        progressResult,
+        goalsResult,
+        shelvesResult,
+        shelfSettingsResult,
+      ] = await Promise.all([
+        supabase.from('book_notes').select('*').eq('user_id', user.id),
+        supabase.from('book_likes').select('*').eq('user_id', user.id),
+        supabase.from('book_likes').select('*, books!inner(user_id)').eq('books.user_id', user.id),
+        supabase.from('book_comments').select('*').eq('user_id', user.id),
+        supabase.from('book_comments').select('*, books!inner(user_id)').eq('books.user_id', user.id),
+        supabase.from('book_club_reflections').select('*').eq('user_id', user.id),
+        supabase.from('reading_progress').select('*').eq('user_id', user.id),
+        supabase.from('reading_goals').select('*').eq('user_id', user.id),
+        supabase.from('shelves').select('*, shelf_books(book_id, position, added_at)').eq('user_id', user.id),
+        supabase.from('shelf_settings').select('*').eq('user_id', user.id).maybeSingle(),
+      ]);
+
+      const firstError = [
+        notesResult,
+        likesGivenResult,
+        likesReceivedResult,
+        commentsWrittenResult,
+        commentsReceivedResult,
+        reflectionsResult,
+        progressResult,
+        goalsResult,
+        shelvesResult,
+        shelfSettingsResult,
+      ].find((r) => r.error)?.error;
+      if (firstError) throw firstError;
+
+      // Give reflections their book/club context so they still make sense outside the app
+      const reflections = reflectionsResult.data || [];
+      const suggestionIds = [...new Set(reflections.map((r) => r.suggestion_id))];
+      const clubIds = [...new Set(reflections.map((r) => r.club_id))];
+      const [suggestionsResult, clubsResult] = await Promise.all([
+        suggestionIds.length > 0
+          ? supabase.from('book_club_suggestions').select('id, title, author').in('id', suggestionIds)
+          : Promise.resolve({ data: [] as { id: string; title: string; author: string }[], error: null }),
+        clubIds.length > 0
+          ? supabase.from('book_clubs').select('id, name').in('id', clubIds)
+          : Promise.resolve({ data: [] as { id: string; name: string }[], error: null }),
+      ]);
+      const suggestions = new Map((suggestionsResult.data || []).map((s) => [s.id, s]));
+      const clubs = new Map((clubsResult.data || []).map((c) => [c.id, c.name]));
+
+      const dump = {
+        version: EXPORT_VERSION,
+        exportedAt: new Date().toISOString(),
+        account: { userId: user.id, email: user.email },
+        shelfSettings: shelfSettingsResult.data,
+        books: books || [],
+        notes: notesResult.data || [],
+        readingProgress: progressResult.data || [],
+        readingGoals: goalsResult.data || [],
+        shelves: shelvesResult.data || [],
+        likes: {
+          given: likesGivenResult.data || [],
+          received: (likesReceivedResult.data || []).map(({ books: _owner, ...like }) => like),
+        },
+        comments: {
+          written: commentsWrittenResult.data || [],
+          received: (commentsReceivedResult.data || [])
+            .filter((c) => c.user_id !== user.id)
+            .map(({ books: _owner, ...comment }) => comment),
+        },
+        clubReflections: reflections.map((r) => ({
+          ...r,
+          club_name: clubs.get(r.club_id) ?? null,
+          book_title: suggestions.get(r.suggestion_id)?.title ?? null,
+          book_author: suggestions.get(r.suggestion_id)?.author ?? null,
+        })),
+      };
+
+      downloadFile(JSON.stringify(dump, null, 2), exportFileName('json'), 'application/json');
+      posthog.capture('library_exported', { format: 'json', book_count: dump.books.length });
+      toast.success('Library exported');
+    } catch (err) {
+      console.error('Error exporting library:', err);
+      toast.error('Failed to export library');
+    } finally {
+      setExporting(null);
+    }
+  }, [user]);
+
+  return {
+    exporting,
+    exportGoodreadsCsv,
+    exportJson,
+  };
+}
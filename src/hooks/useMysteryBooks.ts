@@ -33,25 +33,18 @@ export interface MysteryBook {
 
 interface UseMysteryBooksResult {
   pendingMysteryBooks: MysteryBook[];
-  reactionNotifications: MysteryBook[];
-  pendingCount: number;
   isLoading: boolean;
-  lastSeenAt: Date | null;
   unwrapMysteryBook: (mysteryBookId: string) => Promise<MysteryBook | null>;
   acceptMysteryBook: (mysteryBook: MysteryBook) => Promise<void>;
   declineMysteryBook: (mysteryBookId: string) => Promise<void>;
   reactToMysteryBook: (mysteryBookId: string, emoji: string, note?: string) => Promise<void>;
-  markAsSeen: () => Promise<void>;
   refetch: () => Promise<void>;
 }
 
 export function useMysteryBooks(): UseMysteryBooksResult {
   const { user } = useAuth();
   const [pendingMysteryBooks, setPendingMysteryBooks] = useState<MysteryBook[]>([]);
-  const [reactionNotifications, setReactionNotifications] = useState<MysteryBook[]>([]);
   const [isLoading, setIsLoading] = useState(true);
-  const [lastSeenAt, setLastSeenAt] = useState<Date | null>(null);
-  const [lastSeenLoaded, setLastSeenLoaded] = useState(false);
 
   const fetchMysteryBooks = useCallback(async () => {
     if (!user) {
@@ -60,18 +53,6 @@ export function useMysteryBooks(): UseMysteryBooksResult {
     }
 
     try {
-      const { data: settings } = await (supabase
-        .from('notification_settings')
-        .select('last_seen_mystery_books_at') as any)
-        .eq('user_id', user.id)
-        .single();
-
-      const lastSeen = settings?.last_seen_mystery_books_at
-        ? new Date(settings.last_seen_mystery_books_at)
-        : new Date(0);
-      setLastSeenAt(lastSeen);
-      setLastSeenLoaded(true);
-
       // Fetch mystery books that haven't been fully responded to
       const { data: mysteryBooks, error } = await (supabase
         .from('mystery_books') as any)
@@ -126,59 +107,6 @@ export function useMysteryBooks(): UseMysteryBooksResult {
 
         setPendingMysteryBooks(mapped);
       }
-
-      // Also fetch mystery books I SENT that have reactions (for sender notifications)
-      const { data: reactedBooks, error: reactedError } = await (supabase
-        .from('mystery_books') as any)
-        .select('*')
-        .eq('from_user_id', user.id)
-        .not('reaction_emoji', 'is', null)
-        .gt('reacted_at', lastSeen.toISOString())
-        .order('reacted_at', { ascending: false });
-
-      if (!reactedError && reactedBooks && reactedBooks.length > 0) {
-        // Get recipient profiles
-        const recipientIds = [...new Set(reactedBooks.map((r: any) => r.to_user_id))];
-        const { data: recipientProfiles } = await supabase
-          .from('profiles')
-          .select('user_id, username, avatar_url')
-          .in('user_id', recipientIds);
-
-        const recipientMap = new Map(
-          recipientProfiles?.map(p => [p.user_id, { username: p.username, avatarUrl: p.avatar_url }]) || []
-        );
-
-        const mappedReactions: MysteryBook[] = reactedBooks.map((r: any) => {
-          const recipientProfile = recipientMap.get(r.to_user_id);
-          return {
-            id: r.id,
-            fromUserId: r.from_user_id,
-            toUserId: r.to_user_id,
-            moodTag: r.mood_tag,
-            teaser: r.teaser,
-            emojiClue: r.emoji_clue,
-            title: r.title,
-            author: r.author,
-            coverUrl: r.cover_url,
-            isbn: r.isbn,
-            description: r.description,
-            categories: r.categories,
-            pageCount: r.page_count,
-            status: r.status,
-            unwrappedAt: r.unwrapped_at,
-            respondedAt: r.responded_at,
-            reactionEmoji: r.reaction_emoji,
-            reactionNote: r.reaction_note,
-            reactedAt: r.reacted_at,
-            createdAt: r.created_at,
-            toUsername: recipientProfile?.username,
-            toAvatarUrl: recipientProfile?.avatarUrl,
-          };
-        });
-        setReactionNotifications(mappedReactions);
-      } else {
-        setReactionNotifications([]);
-      }
     } catch (error) {
       console.error('Error fetching mystery books:', error);
     } finally {
@@ -305,22 +233,6 @@ export function useMysteryBooks(): UseMysteryBooksResult {
     }
   }, [user]);
 
-  const markAsSeen = useCallback(async () => {
-    if (!user) return;
-
-    try {
-      await (supabase
-        .from('notification_settings') as any)
-        .update({ last_seen_mystery_books_at: new Date().toISOString() })
-        .eq('user_id', user.id);
-
-      setLastSeenAt(new Date());
-      setReactionNotifications([]);
-    } catch (error) {
-      console.error('Error marking mystery books as seen:', error);
-    }
-  }, [user]);
-
   useEffect(() => {
     fetchMysteryBooks();
   }, [fetchMysteryBooks]);
@@ -343,19 +255,6 @@ export function useMysteryBooks(): UseMysteryBooksResult {
           fetchMysteryBooks();
         }
       )
-      .on(
-        'postgres_changes',
-        {
-          event: 'UPDATE',
-          schema: 'public',
-          table: 'mystery_books',
-          filter: `from_user_id=eq.${user.id}`,
-        },
-        () => {
-          // Refetch to pick up reactions on mystery books I sent
-          fetchMysteryBooks();
-        }
-      )
       .subscribe();
 
     return () => {
@@ -363,22 +262,13 @@ export function useMysteryBooks(): UseMysteryBooksResult {
     };
   }, [user, fetchMysteryBooks]);
 
-  const pendingCount = lastSeenLoaded
-    ? pendingMysteryBooks.filter(mb => new Date(mb.createdAt) > (lastSeenAt || new Date(0))).length
-      + reactionNotifications.length
-    : 0;
-
   return {
     pendingMysteryBooks,
-    reactionNotifications,
-    pendingCount,
     isLoading,
-    lastSeenAt,
     unwrapMysteryBook,
     acceptMysteryBook,
     declineMysteryBook,
     reactToMysteryBook,
-    markAsSeen,
     refetch: fetchMysteryBooks,
   };
 }
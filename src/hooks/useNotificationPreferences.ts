@@ -0,0 +1,96 @@
+import { useState, useEffect, useCallback } from 'react';
+import posthog from 'posthog-js';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import {
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  resolvePreferences,
+  type NotificationChannel,
+  type NotificationPreferences,
+  type NotificationType,
+} from '@/lib/notifications';
+
+/** Which notification types the user wants in the inbox and by email, plus the weekly digest */
+export function useNotificationPreferences() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [preferences, setPreferences] = useState<NotificationPreferences>(DEFAULT_NOTIFICATION_PREFERENCES);
+  const [weeklyDigest, setWeeklyDigest] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    if (!user) {
+      setIsLoading(false);
+      return;
+    }
+
+    supabase
+      .from('notification_settings')
+      .select('preferences, weekly_digest')
+      .eq('user_id', user.id)
+      .maybeSingle()
+      .then(({ data, error }) => {
+        if (error) console.error('Error fetching notification preferences:', error);
+        setPreferences(resolvePreferences(data?.preferences));
+        setWeeklyDigest(data?.weekly_digest ?? false);
+        setIsLoading(false);
+      });
+  }, [user]);
+
+  const updatePreference = useCallback(
+    async (type: NotificationType, channel: NotificationChannel, enabled: boolean) => {
+      if (!user) return;
+
+      const previous = preferences;
+      const next = { ...preferences, [type]: { ...preferences[type], [channel]: enabled } };
+      setPreferences(next);
+
+      const { error } = await supabase
+        .from('notification_settings')
+        .upsert({ user_id: user.id, preferences: next }, { onConflict: 'user_id' });
+
+      if (error) {
+        console.error('Error updating notification preferences:', error);
+        setPreferences(previous);
+        toast({
+          title: 'Error saving preference',
+          description: error.message,
+          variant: 'destructive',
+        });
+        return;
+      }
+
+      posthog.capture('notification_preference_changed', { type, channel, enabled });
+    },
+    [user, preferences, toast]
+  );
+
+  const updateWeeklyDigest = useCallback(
+    async (enabled: boolean) => {
+      if (!user) return;
+
+      setWeeklyDigest(enabled);
+
+      const { error } = await supabase
+        .from('notification_settings')
+        .upsert({ user_id: user.id, weekly_digest: enabled }, { onConflict: 'user_id' });
+
+      if (error) {
+        console.error('Error updating weekly digest:', error);
+        setWeeklyDigest(!enabled);
+        toast({
+          title: 'Error saving preference',
+          description: error.message,
+          variant: 'destructive',
+        });
+        return;
+      }
+
+      posthog.capture(enabled ? 'weekly_digest_subscribed' : 'weekly_digest_unsubscribed');
+    },
+    [user, toast]
+  );
+
+  return { preferences, weeklyDigest, isLoading, updatePreference, updateWeeklyDigest };
+}
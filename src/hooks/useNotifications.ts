@@ -1,33 +1,25 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
+import { groupNotifications, type AppNotification, type NotificationGroup, type NotificationType } from '@/lib/notifications';
 
-interface NewLike {
-  id: string;
-  bookId: string;
-  bookTitle: string;
-  likedAt: string;
-  username?: string;
-  avatarUrl?: string | null;
-}
+const INBOX_LIMIT = 50;
 
 interface NotificationData {
-  newLikesCount: number;
-  newLikes: NewLike[];
-  likesPerBook: Record<string, number>;
+  notifications: AppNotification[];
+  groups: NotificationGroup[];
+  /** Unread entries after grouping, so five likes on one book count once */
+  unreadCount: number;
   totalLikesPerBook: Record<string, number>;
-  lastSeenAt: Date | null;
-  markAsSeen: () => Promise<void>;
+  markAsRead: (ids: string[]) => Promise<void>;
+  markAllAsRead: () => Promise<void>;
   isLoading: boolean;
 }
 
 export function useNotifications(): NotificationData {
   const { user } = useAuth();
-  const [newLikesCount, setNewLikesCount] = useState(0);
-  const [newLikes, setNewLikes] = useState<NewLike[]>([]);
-  const [likesPerBook, setLikesPerBook] = useState<Record<string, number>>({});
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
   const [totalLikesPerBook, setTotalLikesPerBook] = useState<Record<string, number>>({});
-  const [lastSeenAt, setLastSeenAt] = useState<Date | null>(null);
   const [isLoading, setIsLoading] = useState(true);
 
   const fetchNotifications = useCallback(async () => {
@@ -37,103 +29,46 @@ export function useNotifications(): NotificationData {
     }
 
     try {
-      // Get or create notification settings
-      let { data: settings } = await supabase
-        .from('notification_settings')
+      const { data, error } = await supabase
+        .from('notifications')
         .select('*')
         .eq('user_id', user.id)
-        .single();
-
-      if (!settings) {
-        // Create default settings
-        const { data: newSettings } = await supabase
-          .from('notification_settings')
-          .insert({ user_id: user.id })
-          .select()
-          .single();
-        settings = newSettings;
-      }
-
-      const lastSeen = settings?.last_seen_likes_at 
-        ? new Date(settings.last_seen_likes_at) 
-        : new Date(0);
-      setLastSeenAt(lastSeen);
-
-      // Get user's books
-      const { data: userBooks } = await supabase
-        .from('books')
-        .select('id, title')
-        .eq('user_id', user.id);
+        .order('created_at', { ascending: false })
+        .limit(INBOX_LIMIT);
 
-      if (!userBooks || userBooks.length === 0) {
-        setIsLoading(false);
-        return;
-      }
+      if (error) throw error;
 
-      const bookIds = userBooks.map(b => b.id);
-      const bookTitleMap = Object.fromEntries(userBooks.map(b => [b.id, b.title]));
+      // Fetch profiles for everyone who triggered a notification
+      const actorIds = [...new Set((data || []).map((n) => n.actor_id).filter(Boolean))] as string[];
+      const profilesMap = new Map<string, { username: string; avatar_url: string | null }>();
 
-      // Get likes on user's books (excluding self-likes)
-      const { data: likes } = await supabase
-        .from('book_likes')
-        .select('id, book_id, created_at, user_id')
-        .in('book_id', bookIds)
-        .neq('user_id', user.id)
-        .order('created_at', { ascending: false });
-
-      if (!likes) {
-        setIsLoading(false);
-        return;
-      }
-
-      // Count new likes (after last seen)
-      const newLikesData = likes.filter(l => new Date(l.created_at) > lastSeen);
-      setNewLikesCount(newLikesData.length);
-
-      // Fetch profiles for all likers
-      const likerIds = [...new Set(newLikesData.slice(0, 10).map(l => l.user_id))];
-      let profilesMap = new Map<string, { username: string; avatar_url: string | null }>();
-      
-      if (likerIds.length > 0) {
+      if (actorIds.length > 0) {
         const { data: profilesData } = await supabase
           .from('profiles')
           .select('user_id, username, avatar_url')
-          .in('user_id', likerIds);
+          .in('user_id', actorIds);
 
-        if (profilesData) {
-          profilesData.forEach((p) => {
-            profilesMap.set(p.user_id, { username: p.username, avatar_url: p.avatar_url });
-          });
-        }
+        profilesData?.forEach((p) => {
+          profilesMap.set(p.user_id, { username: p.username, avatar_url: p.avatar_url });
+        });
       }
 
-      // Map to NewLike format with usernames
-      setNewLikes(newLikesData.slice(0, 10).map(l => {
-        const profile = profilesMap.get(l.user_id);
+      setNotifications((data || []).map((n) => {
+        const profile = n.actor_id ? profilesMap.get(n.actor_id) : undefined;
         return {
-          id: l.id,
-          bookId: l.book_id,
-          bookTitle: bookTitleMap[l.book_id] || 'Unknown Book',
-          likedAt: l.created_at,
-          username: profile?.username,
-          avatarUrl: profile?.avatar_url,
+          id: n.id,
+          type: n.type as NotificationType,
+          actorId: n.actor_id,
+          actorUsername: profile?.username,
+          actorAvatarUrl: profile?.avatar_url,
+          bookId: n.book_id,
+          entityId: n.entity_id,
+          title: n.title,
+          body: n.body,
+          readAt: n.read_at,
+          createdAt: n.created_at,
         };
       }));
-
-      // Count new likes per book (for notification badges)
-      const perBook: Record<string, number> = {};
-      newLikesData.forEach(l => {
-        perBook[l.book_id] = (perBook[l.book_id] || 0) + 1;
-      });
-      setLikesPerBook(perBook);
-
-      // Count ALL likes per book (for heart stickers - persists after mark as read)
-      const totalPerBook: Record<string, number> = {};
-      likes.forEach(l => {
-        totalPerBook[l.book_id] = (totalPerBook[l.book_id] || 0) + 1;
-      });
-      setTotalLikesPerBook(totalPerBook);
-
     } catch (error) {
       console.error('Error fetching notifications:', error);
     } finally {
@@ -141,34 +76,87 @@ export function useNotifications(): NotificationData {
     }
   }, [user]);
 
-  const markAsSeen = useCallback(async () => {
+  // Count ALL likes per book (for heart stickers - independent of read state)
+  const fetchLikeCounts = useCallback(async () => {
     if (!user) return;
 
     try {
-      await supabase
-        .from('notification_settings')
-        .update({ last_seen_likes_at: new Date().toISOString() })
+      const { data: userBooks } = await supabase
+        .from('books')
+        .select('id')
         .eq('user_id', user.id);
 
-      setNewLikesCount(0);
-      setNewLikes([]);
-      setLikesPerBook({});
-      setLastSeenAt(new Date());
+      if (!userBooks || userBooks.length === 0) return;
+
+      const { data: likes } = await supabase
+        .from('book_likes')
+        .select('book_id')
+        .in('book_id', userBooks.map((b) => b.id))
+        .neq('user_id', user.id);
+
+      const totalPerBook: Record<string, number> = {};
+      likes?.forEach((l) => {
+        totalPerBook[l.book_id] = (totalPerBook[l.book_id] || 0) + 1;
+      });
+      setTotalLikesPerBook(totalPerBook);
     } catch (error) {
-      console.error('Error marking notifications as seen:', error);
+      console.error('Error fetching like counts:', error);
     }
   }, [user]);
 
+  const markAsRead = useCallback(async (ids: string[]) => {
+    if (!user || ids.length === 0) return;
+
+    const readAt = new Date().toISOString();
+    setNotifications((prev) => prev.map((n) => (ids.includes(n.id) && !n.readAt ? { ...n, readAt } : n)));
+
+    const { error } = await supabase
+      .from('notifications')
+      .update({ read_at: readAt })
+      .in('id', ids)
+      .is('read_at', null);
+
+    if (error) console.error('Error marking notifications as read:', error);
+  }, [user]);
+
+  const markAllAsRead = useCallback(async () => {
+    if (!user) return;
+
+    const readAt = new Date().toISOString();
+    setNotifications((prev) => prev.map((n) => (n.readAt ? n : { ...n, readAt })));
+
+    const { error } = await supabase
+      .from('notifications')
+      .update({ read_at: readAt })
+      .eq('user_id', user.id)
+      .is('read_at', null);
+
+    if (error) console.error('Error marking notifications as read:', error);
+  }, [user]);
+
   useEffect(() => {
     fetchNotifications();
-  }, [fetchNotifications]);
+    fetchLikeCounts();
+  }, [fetchNotifications, fetchLikeCounts]);
 
-  // Subscribe to realtime likes
+  // Subscribe to realtime notifications and likes
   useEffect(() => {
     if (!user) return;
 
     const channel = supabase
-      .channel('likes-notifications')
+      .channel('notifications-inbox')
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'notifications',
+          filter: `user_id=eq.${user.id}`,
+        },
+        () => {
+          fetchNotifications();
+        }
+      )
       .on(
         'postgres_changes',
         {
@@ -177,8 +165,7 @@ export function useNotifications(): NotificationData {
           table: 'book_likes',
         },
         () => {
-          // Refetch notifications when new like is added
-          fetchNotifications();
+          fetchLikeCounts();
         }
       )
       .subscribe();
@@ -186,15 +173,18 @@ export function useNotifications(): NotificationData {
     return () => {
       supabase.removeChannel(channel);
     };
-  }, [user, fetchNotifications]);
+  }, [user, fetchNotifications, fetchLikeCounts]);
+
+  const groups = useMemo(() => groupNotifications(notifications), [notifications]);
+  const unreadCount = useMemo(() => groups.filter((g) => g.unread).length, [groups]);
 
   return {
-    newLikesCount,
-    newLikes,
-    likesPerBook,
+    notifications,
+    groups,
+    unreadCount,
     totalLikesPerBook,
-    lastSeenAt,
-    markAsSeen,
+    markAsRead,
+    markAllAsRead,
     isLoading,
   };
 }
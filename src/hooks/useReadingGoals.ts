@@ -0,0 +1,123 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import posthog from 'posthog-js';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { GoalMetric, GoalPeriod, ReadingGoal } from '@/types/book';
+import { getGoalPeriodStart } from '@/lib/readingGoals';
+import { toast } from 'sonner';
+
+/**
+ * The signed-in user's goals for the current year and month.
+ */
+export function useReadingGoals() {
+  const { user } = useAuth();
+  const [goals, setGoals] = useState<ReadingGoal[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchGoals = useCallback(async () => {
+    if (!user) {
+      setGoals([]);
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    const { data, error } = await supabase
+      .from('reading_goals')
+      .select('*')
+      .eq('user_id', user.id)
+      .in('period_start', [getGoalPeriodStart('year'), getGoalPeriodStart('month')]);
+
+    if (error) {
+      console.error('Error fetching reading goals:', error);
+    } else {
+      setGoals(
+        (data || [])
+          .map((row) => ({
+            id: row.id,
+            period: row.period as GoalPeriod,
+            periodStart: row.period_start,
+            metric: row.metric as GoalMetric,
+            target: row.target,
+          }))
+          // January's monthly goal shares the year's start date; drop it once the month is over
+          .filter((goal) => goal.periodStart === getGoalPeriodStart(goal.period))
+      );
+    }
+    setLoading(false);
+  }, [user]);
+
+  useEffect(() => {
+    fetchGoals();
+  }, [fetchGoals]);
+
+  const setGoal = useCallback(
+    async (period: GoalPeriod, metric: GoalMetric, target: number): Promise<boolean> => {
+      if (!user) return false;
+
+      const { data, error } = await supabase
+        .from('reading_goals')
+        .upsert(
+          {
+            user_id: user.id,
+            period,
+            period_start: getGoalPeriodStart(period),
+            metric,
+            target,
+          },
+          { onConflict: 'user_id,period,period_start' }
+        )
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error saving reading goal:', error);
+        toast.error('Failed to save goal');
+        return false;
+      }
+
+      const saved: ReadingGoal = {
+        id: data.id,
+        period: data.period as GoalPeriod,
+        periodStart: data.period_start,
+        metric: data.metric as GoalMetric,
+        target: data.target,
+      };
+      setGoals((prev) => [...prev.filter((g) => g.period !== period), saved]);
+      posthog.capture('reading_goal_set', { period, metric, target });
+      toast.success('Goal saved');
+      return true;
+    },
+    [user]
+  );
+
+  const removeGoal = useCallback(
+    async (id: string) => {
+      if (!user) return;
+
+      const { error } = await supabase.from('reading_goals').delete().eq('id', id);
+
+      if (error) {
+        console.error('Error deleting reading goal:', error);
+        toast.error('Failed to remove goal');
+        return;
+      }
+
+      setGoals((prev) => prev.filter((g) => g.id !== id));
+    },
+    [user]
+  );
+
+  const yearlyGoal = useMemo(() => goals.find((g) => g.period === 'year'), [goals]);
+  const monthlyGoal = useMemo(() => goals.find((g) => g.period === 'month'), [goals]);
+
+  return {
+    goals,
+    yearlyGoal,
+    monthlyGoal,
+    loading,
+    setGoal,
+    removeGoal,
+    refetch: fetchGoals,
+  };
+}
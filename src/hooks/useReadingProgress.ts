@@ -0,0 +1,63 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+
+export interface ReadingProgressEntry {
+  id: string;
+  bookId: string;
+  page: number | null;
+  percent: number | null;
+  note: string | null;
+  createdAt: string;
+}
+
+/**
+ * Progress history for a single book, newest first.
+ * Writes go through useBooks (logProgress / deleteProgress) so shelf state
+ * stays in sync; call refetch() afterwards to pick up the change.
+ */
+export function useReadingProgress(bookId: string | null) {
+  const { user } = useAuth();
+  const [entries, setEntries] = useState<ReadingProgressEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const fetchEntries = useCallback(async () => {
+    if (!user || !bookId) {
+      setEntries([]);
+      return;
+    }
+
+    setLoading(true);
+    const { data, error } = await supabase
+      .from('reading_progress')
+      .select('*')
+      .eq('book_id', bookId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching reading progress:', error);
+    } else {
+      setEntries(
+        (data || []).map((row) => ({
+          id: row.id,
+          bookId: row.book_id,
+          page: row.page,
+          percent: row.percent,
+          note: row.note,
+          createdAt: row.created_at,
+        }))
+      );
+    }
+    setLoading(false);
+  }, [user, bookId]);
+
+  useEffect(() => {
+    fetchEntries();
+  }, [fetchEntries]);
+
+  return {
+    entries,
+    loading,
+    refetch: fetchEntries,
+  };
+}
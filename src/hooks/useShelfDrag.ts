@@ -0,0 +1,163 @@
+import { useState, useRef, useCallback, useEffect } from 'react';
+import type { DropPlacement } from '@/lib/shelfOrder';
+
+// Mouse drags start once the pointer moves a few pixels; touch needs a long press so normal scrolling still works
+const MOUSE_DRAG_THRESHOLD = 6;
+const TOUCH_HOLD_MS = 350;
+const TOUCH_SLOP = 10;
+const EDGE_SCROLL_ZONE = 60;
+const EDGE_SCROLL_STEP = 12;
+
+export type BookDragState = 'dragging' | 'drop-before' | 'drop-after';
+
+interface PendingDrag {
+  bookId: string;
+  pointerId: number;
+  pointerType: string;
+  startX: number;
+  startY: number;
+  active: boolean;
+  holdTimer?: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Pointer-based drag to rearrange books across shelf rows. Works for mouse and touch,
+ * which native HTML drag-and-drop doesn't on most phones.
+ * Book elements are found by their data-book-id attribute, so rows can reflow freely.
+ */
+export function useShelfDrag(onReorder?: (draggedId: string, targetId: string, placement: DropPlacement) => void) {
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<{ bookId: string; placement: DropPlacement } | null>(null);
+  const pendingRef = useRef<PendingDrag | null>(null);
+  const dropTargetRef = useRef<{ bookId: string; placement: DropPlacement } | null>(null);
+  const cleanupRef = useRef<(() => void) | null>(null);
+
+  const updateDropTarget = useCallback((x: number, y: number, draggedId: string) => {
+    const el = document.elementFromPoint(x, y)?.closest<HTMLElement>('[data-book-id]');
+    const bookId = el?.dataset.bookId;
+    let next: { bookId: string; placement: DropPlacement } | null = null;
+    if (el && bookId && bookId !== draggedId) {
+      const rect = el.getBoundingClientRect();
+      next = { bookId, placement: x < rect.left + rect.width / 2 ? 'before' : 'after' };
+    }
+    const current = dropTargetRef.current;
+    if (current?.bookId !== next?.bookId || current?.placement !== next?.placement) {
+      dropTargetRef.current = next;
+      setDropTarget(next);
+    }
+  }, []);
+
+  const endDrag = useCallback(() => {
+    const pending = pendingRef.current;
+    if (pending?.holdTimer) clearTimeout(pending.holdTimer);
+    pendingRef.current = null;
+    dropTargetRef.current = null;
+    setDraggingId(null);
+    setDropTarget(null);
+    cleanupRef.current?.();
+    cleanupRef.current = null;
+  }, []);
+
+  useEffect(() => endDrag, [endDrag]);
+
+  const handlePointerDown = useCallback(
+    (bookId: string, e: React.PointerEvent<HTMLElement>) => {
+      if (!onReorder || e.button !== 0 || pendingRef.current) return;
+
+      const pending: PendingDrag = {
+        bookId,
+        pointerId: e.pointerId,
+        pointerType: e.pointerType,
+        startX: e.clientX,
+        startY: e.clientY,
+        active: false,
+      };
+      pendingRef.current = pending;
+
+      const activate = () => {
+        pending.active = true;
+        setDraggingId(bookId);
+        if (pending.pointerType !== 'mouse') navigator.vibrate?.(10);
+      };
+
+      if (pending.pointerType !== 'mouse') {
+        pending.holdTimer = setTimeout(activate, TOUCH_HOLD_MS);
+      }
+
+      const onMove = (ev: PointerEvent) => {
+        if (ev.pointerId !== pending.pointerId) return;
+        const distance = Math.hypot(ev.clientX - pending.startX, ev.clientY - pending.startY);
+
+        if (!pending.active) {
+          if (pending.pointerType === 'mouse') {
+            if (distance < MOUSE_DRAG_THRESHOLD) return;
+            activate();
+          } else {
+            // Moved before the hold finished - the user is scrolling, not dragging
+            if (distance > TOUCH_SLOP) endDrag();
+            return;
+          }
+        }
+
+        updateDropTarget(ev.clientX, ev.clientY, pending.bookId);
+
+        if (ev.clientY < EDGE_SCROLL_ZONE) window.scrollBy(0, -EDGE_SCROLL_STEP);
+        else if (ev.clientY > window.innerHeight - EDGE_SCROLL_ZONE) window.scrollBy(0, EDGE_SCROLL_STEP);
+      };
+
+      const onUp = (ev: PointerEvent) => {
+        if (ev.pointerId !== pending.pointerId) return;
+        const target = dropTargetRef.current;
+        if (pending.active) {
+          // Swallow the click that follows a drop so it doesn't open the book
+          const suppressClick = (ce: MouseEvent) => {
+            ce.stopPropagation();
+            ce.preventDefault();
+          };
+          window.addEventListener('click', suppressClick, { capture: true, once: true });
+          setTimeout(() => window.removeEventListener('click', suppressClick, { capture: true }), 300);
+
+          if (target) onReorder(pending.bookId, target.bookId, target.placement);
+        }
+        endDrag();
+      };
+
+      // Stop the page scrolling under a touch drag (needs a non-passive listener)
+      const onTouchMove = (ev: TouchEvent) => {
+        if (pending.active) ev.preventDefault();
+      };
+      const onContextMenu = (ev: MouseEvent) => {
+        if (pending.active) ev.preventDefault();
+      };
+
+      window.addEventListener('pointermove', onMove);
+      window.addEventListener('pointerup', onUp);
+      window.addEventListener('pointercancel', endDrag);
+      window.addEventListener('touchmove', onTouchMove, { passive: false });
+      window.addEventListener('contextmenu', onContextMenu);
+      cleanupRef.current = () => {
+        window.removeEventListener('pointermove', onMove);
+        window.removeEventListener('pointerup', onUp);
+        window.removeEventListener('pointercancel', endDrag);
+        window.removeEventListener('touchmove', onTouchMove);
+        window.removeEventListener('contextmenu', onContextMenu);
+      };
+    },
+    [onReorder, endDrag, updateDropTarget]
+  );
+
+  const getDragState = useCallback(
+    (bookId: string): BookDragState | undefined => {
+      if (bookId === draggingId) return 'dragging';
+      if (dropTarget?.bookId === bookId) return dropTarget.placement === 'before' ? 'drop-before' : 'drop-after';
+      return undefined;
+    },
+    [draggingId, dropTarget]
+  );
+
+  return {
+    /** Undefined when reordering is off, so books render exactly as before */
+    onBookPointerDown: onReorder ? handlePointerDown : undefined,
+    getDragState,
+  };
+}
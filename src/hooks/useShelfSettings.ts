@@ -2,11 +2,14 @@ import { useState, useEffect, useCallback } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
 import { toast } from 'sonner';
+import posthog from 'posthog-js';
+import type { ShelfVisibility } from '@/types/book';
 
 export interface ShelfSettings {
   id: string;
   user_id: string;
   is_public: boolean;
+  visibility: ShelfVisibility;
   share_id: string | null;
   display_name: string | null;
   created_at: string;
@@ -61,7 +64,26 @@ export function useShelfSettings() {
     fetchSettings();
   }, [fetchSettings]);
 
-  // Note: All shelves are now public by default - no toggle needed
+  // Shelves start public; is_public is kept in sync by the database
+  const updateVisibility = useCallback(async (visibility: ShelfVisibility) => {
+    if (!settings) return;
+
+    try {
+      const { error } = await supabase
+        .from('shelf_settings')
+        .update({ visibility })
+        .eq('id', settings.id);
+
+      if (error) throw error;
+
+      setSettings(prev => prev ? { ...prev, visibility, is_public: visibility === 'public' } : null);
+      posthog.capture('shelf_visibility_changed', { visibility });
+      toast.success('Shelf visibility updated');
+    } catch (err) {
+      console.error('Error updating shelf visibility:', err);
+      toast.error('Failed to update shelf visibility');
+    }
+  }, [settings]);
 
   // Update display name
   const updateDisplayName = useCallback(async (displayName: string) => {
@@ -93,6 +115,7 @@ export function useShelfSettings() {
     settings,
     loading,
     updateDisplayName,
+    updateVisibility,
     getShareUrl,
     refetch: fetchSettings,
   };
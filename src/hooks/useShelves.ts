@@ -0,0 +1,267 @@
+import { useState, useEffect, useCallback } from 'react';
+import posthog from 'posthog-js';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { NamedShelf } from '@/types/book';
+import { toast } from 'sonner';
+
+export function useShelves() {
+  const { user } = useAuth();
+  const [shelves, setShelves] = useState<NamedShelf[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  // Fetch the user's named shelves together with their book memberships
+  const fetchShelves = useCallback(async () => {
+    if (!user) {
+      setShelves([]);
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const { data: shelvesData, error: shelvesError } = await supabase
+        .from('shelves')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('position', { ascending: true })
+        .order('created_at', { ascending: true });
+
+      if (shelvesError) throw shelvesError;
+
+      const shelfIds = (shelvesData || []).map((s) => s.id);
+      const membership = new Map<string, string[]>();
+
+      if (shelfIds.length > 0) {
+        const { data: shelfBooksData, error: shelfBooksError } = await supabase
+          .from('shelf_books')
+          .select('shelf_id, book_id, position')
+          .in('shelf_id', shelfIds)
+          .order('position', { ascending: true });
+
+        if (shelfBooksError) throw shelfBooksError;
+
+        shelfBooksData?.forEach((sb) => {
+          const list = membership.get(sb.shelf_id) || [];
+          list.push(sb.book_id);
+          membership.set(sb.shelf_id, list);
+        });
+      }
+
+      setShelves(
+        (shelvesData || []).map((s) => ({
+          id: s.id,
+          name: s.name,
+          description: s.description || undefined,
+          position: s.position,
+          isPublic: s.is_public,
+          bookIds: membership.get(s.id) || [],
+        }))
+      );
+    } catch (err) {
+      console.error('Error fetching shelves:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    fetchShelves();
+  }, [fetchShelves]);
+
+  const createShelf = useCallback(
+    async (name: string, description?: string): Promise<NamedShelf | null> => {
+      if (!user) return null;
+
+      const trimmed = name.trim();
+      if (!trimmed) return null;
+
+      if (shelves.some((s) => s.name.toLowerCase() === trimmed.toLowerCase())) {
+        toast.error(`You already have a shelf called "${trimmed}"`);
+        return null;
+      }
+
+      const nextPosition = shelves.reduce((max, s) => Math.max(max, s.position + 1), 0);
+
+      const { data, error } = await supabase
+        .from('shelves')
+        .insert({
+          user_id: user.id,
+          name: trimmed,
+          description: description?.trim() || null,
+          position: nextPosition,
+        })
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error creating shelf:', error);
+        toast.error('Failed to create shelf');
+        return null;
+      }
+
+      const created: NamedShelf = {
+        id: data.id,
+        name: data.name,
+        description: data.description || undefined,
+        position: data.position,
+        isPublic: data.is_public,
+        bookIds: [],
+      };
+      setShelves((prev) => [...prev, created]);
+      posthog.capture('shelf_created', { shelf_name: created.name });
+      toast.success(`Created "${created.name}"`);
+      return created;
+    },
+    [user, shelves]
+  );
+
+  const updateShelf = useCallback(
+    async (id: string, patch: { name?: string; description?: string | null; isPublic?: boolean }) => {
+      if (!user) return;
+
+      const update: { name?: string; description?: string | null; is_public?: boolean } = {};
+      if (patch.name !== undefined) update.name = patch.name.trim();
+      if (patch.description !== undefined) update.description = patch.description?.trim() || null;
+      if (patch.isPublic !== undefined) update.is_public = patch.isPublic;
+
+      const { error } = await supabase.from('shelves').update(update).eq('id', id);
+
+      if (error) {
+        console.error('Error updating shelf:', error);
+        toast.error('Failed to update shelf');
+        return;
+      }
+
+      setShelves((prev) =>
+        prev.map((s) =>
+          s.id === id
+            ? {
+                ...s,
+                name: update.name ?? s.name,
+                description: update.description !== undefined ? update.description || undefined : s.description,
+                isPublic: update.is_public ?? s.isPublic,
+              }
+            : s
+        )
+      );
+    },
+    [user]
+  );
+
+  const deleteShelf = useCallback(
+    async (id: string) => {
+      if (!user) return;
+
+      const shelf = shelves.find((s) => s.id === id);
+      const { error } = await supabase.from('shelves').delete().eq('id', id);
+
+      if (error) {
+        console.error('Error deleting shelf:', error);
+        toast.error('Failed to delete shelf');
+        return;
+      }
+
+      setShelves((prev) => prev.filter((s) => s.id !== id));
+      if (shelf) {
+        posthog.capture('shelf_deleted', { shelf_name: shelf.name });
+        toast.success(`Deleted "${shelf.name}"`);
+      }
+    },
+    [user, shelves]
+  );
+
+  // Persist a new order for the shelf list (ids in display order)
+  const reorderShelves = useCallback(
+    async (orderedIds: string[]) => {
+      if (!user) return;
+
+      const previous = shelves;
+      setShelves((prev) =>
+        orderedIds
+          .map((id, position) => {
+            const shelf = prev.find((s) => s.id === id);
+            return shelf ? { ...shelf, position } : null;
+          })
+          .filter((s): s is NamedShelf => s !== null)
+      );
+
+      const results = await Promise.all(
+        orderedIds.map((id, position) => supabase.from('shelves').update({ position }).eq('id', id))
+      );
+
+      if (results.some((r) => r.error)) {
+        console.error('Error reordering shelves:', results.find((r) => r.error)?.error);
+        toast.error('Failed to save shelf order');
+        setShelves(previous);
+      }
+    },
+    [user, shelves]
+  );
+
+  const addBookToShelf = useCallback(
+    async (shelfId: string, bookId: string) => {
+      if (!user) return;
+
+      const shelf = shelves.find((s) => s.id === shelfId);
+      if (!shelf || shelf.bookIds.includes(bookId)) return;
+
+      const { error } = await supabase
+        .from('shelf_books')
+        .insert({ shelf_id: shelfId, book_id: bookId, position: shelf.bookIds.length });
+
+      if (error) {
+        console.error('Error adding book to shelf:', error);
+        toast.error('Failed to add book to shelf');
+        return;
+      }
+
+      setShelves((prev) =>
+        prev.map((s) => (s.id === shelfId ? { ...s, bookIds: [...s.bookIds, bookId] } : s))
+      );
+      posthog.capture('shelf_book_added', { shelf_name: shelf.name });
+    },
+    [user, shelves]
+  );
+
+  const removeBookFromShelf = useCallback(
+    async (shelfId: string, bookId: string) => {
+      if (!user) return;
+
+      const { error } = await supabase
+        .from('shelf_books')
+        .delete()
+        .eq('shelf_id', shelfId)
+        .eq('book_id', bookId);
+
+      if (error) {
+        console.error('Error removing book from shelf:', error);
+        toast.error('Failed to remove book from shelf');
+        return;
+      }
+
+      setShelves((prev) =>
+        prev.map((s) => (s.id === shelfId ? { ...s, bookIds: s.bookIds.filter((id) => id !== bookId) } : s))
+      );
+    },
+    [user]
+  );
+
+  const getShelvesForBook = useCallback(
+    (bookId: string) => shelves.filter((s) => s.bookIds.includes(bookId)),
+    [shelves]
+  );
+
+  return {
+    shelves,
+    loading,
+    createShelf,
+    updateShelf,
+    deleteShelf,
+    reorderShelves,
+    addBookToShelf,
+    removeBookFromShelf,
+    getShelvesForBook,
+    refetch: fetchShelves,
+  };
+}
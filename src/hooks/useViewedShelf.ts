@@ -59,6 +59,13 @@ export function useViewedShelf(): ViewedShelfState {
         isbn: string | null;
         description: string | null;
         categories: string[] | null;
+        rating: number | null;
+        review: string | null;
+        review_has_spoilers: boolean | null;
+        reviewed_at: string | null;
+        shelf_position: number | null;
+        series_name: string | null;
+        series_position: number | null;
       }) => ({
         id: b.id,
         title: b.title,
@@ -71,6 +78,13 @@ export function useViewedShelf(): ViewedShelfState {
         isbn: b.isbn ?? undefined,
         description: b.description ?? undefined,
         categories: b.categories ?? undefined,
+        rating: b.rating ?? undefined,
+        review: b.review ?? undefined,
+        reviewHasSpoilers: b.review_has_spoilers ?? false,
+        reviewedAt: b.reviewed_at ?? undefined,
+        shelfPosition: b.shelf_position ?? undefined,
+        seriesName: b.series_name ?? undefined,
+        seriesPosition: b.series_position ?? undefined,
       }));
     },
     enabled: !!viewedUser?.shareId,
@@ -14,82 +14,613 @@ export type Database = {
   }
   public: {
     Tables: {
+      activity_events: {
+        Row: {
+          book_author: string | null
+          book_cover_url: string | null
+          book_id: string | null
+          book_owner_id: string | null
+          book_title: string | null
+          club_id: string | null
+          club_name: string | null
+          created_at: string
+          event_type: string
+          id: string
+          rating: number | null
+          user_id: string
+        }
+        Insert: {
+          book_author?: string | null
+          book_cover_url?: string | null
+          book_id?: string | null
+          book_owner_id?: string | null
+          book_title?: string | null
+          club_id?: string | null
+          club_name?: string | null
+          created_at?: string
+          event_type: string
+          id?: string
+          rating?: number | null
+          user_id: string
+        }
+        Update: {
+          book_author?: string | null
+          book_cover_url?: string | null
+          book_id?: string | null
+          book_owner_id?: string | null
+          book_title?: string | null
+          club_id?: string | null
+          club_name?: string | null
+          created_at?: string
+          event_type?: string
+          id?: string
+          rating?: number | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "activity_events_book_id_fkey"
+            columns: ["book_id"]
+            isOneToOne: false
+            referencedRelation: "books"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "activity_events_club_id_fkey"
+            columns: ["club_id"]
+            isOneToOne: false
+            referencedRelation: "book_clubs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      book_club_bans: {
+        Row: {
+          banned_by: string
+          club_id: string
+          created_at: string
+          id: string
+          user_id: string
+        }
+        Insert: {
+          banned_by: string
+          club_id: string
+          created_at?: string
+          id?: string
+          user_id: string
+        }
+        Update: {
+          banned_by?: string
+          club_id?: string
+          created_at?: string
+          id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "book_club_bans_club_id_fkey"
+            columns: ["club_id"]
+            isOneToOne: false
+            referencedRelation: "book_clubs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      book_club_meeting_rsvps: {
+        Row: {
+          created_at: string
+          id: string
+          meeting_id: string
+          response: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          meeting_id: string
+          response: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          meeting_id?: string
+          response?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "book_club_meeting_rsvps_meeting_id_fkey"
+            columns: ["meeting_id"]
+            isOneToOne: false
+            referencedRelation: "book_club_meetings"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      book_club_meetings: {
+        Row: {
+          club_id: string
+          created_at: string
+          created_by: string
+          duration_minutes: number
+          id: string
+          location: string | null
+          notes: string | null
+          reminder_sent_at: string | null
+          starts_at: string
+          suggestion_id: string | null
+          updated_at: string
+          video_url: string | null
+        }
+        Insert: {
+          club_id: string
+          created_at?: string
+          created_by: string
+          duration_minutes?: number
+          id?: string
+          location?: string | null
+          notes?: string | null
+          reminder_sent_at?: string | null
+          starts_at: string
+          suggestion_id?: string | null
+          updated_at?: string
+          video_url?: string | null
+        }
+        Update: {
+          club_id?: string
+          created_at?: string
+          created_by?: string
+          duration_minutes?: number
+          id?: string
+          location?: string | null
+          notes?: string | null
+          reminder_sent_at?: string | null
+          starts_at?: string
+          suggestion_id?: string | null
+          updated_at?: string
+          video_url?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "book_club_meetings_club_id_fkey"
+            columns: ["club_id"]
+            isOneToOne: false
+            referencedRelation: "book_clubs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "book_club_meetings_suggestion_id_fkey"
+            columns: ["suggestion_id"]
+            isOneToOne: false
+            referencedRelation: "book_club_suggestions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       book_club_members: {
         Row: {
           club_id: string
           id: string
-          joined_at: string
-          role: string
+          joined_at: string
+          role: string
+          user_id: string
+        }
+        Insert: {
+          club_id: string
+          id?: string
+          joined_at?: string
+          role?: string
+          user_id: string
+        }
+        Update: {
+          club_id?: string
+          id?: string
+          joined_at?: string
+          role?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "book_club_members_club_id_fkey"
+            columns: ["club_id"]
+            isOneToOne: false
+            referencedRelation: "book_clubs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      book_club_milestones: {
+        Row: {
+          club_id: string
+          created_at: string
+          due_date: string
+          id: string
+          label: string
+          suggestion_id: string
+          updated_at: string
+        }
+        Insert: {
+          club_id: string
+          created_at?: string
+          due_date: string
+          id?: string
+          label: string
+          suggestion_id: string
+          updated_at?: string
+        }
+        Update: {
+          club_id?: string
+          created_at?: string
+          due_date?: string
+          id?: string
+          label?: string
+          suggestion_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "book_club_milestones_club_id_fkey"
+            columns: ["club_id"]
+            isOneToOne: false
+            referencedRelation: "book_clubs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "book_club_milestones_suggestion_id_fkey"
+            columns: ["suggestion_id"]
+            isOneToOne: false
+            referencedRelation: "book_club_suggestions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      book_club_reading_positions: {
+        Row: {
+          club_id: string
+          created_at: string
+          id: string
+          milestone_id: string
+          suggestion_id: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          club_id: string
+          created_at?: string
+          id?: string
+          milestone_id: string
+          suggestion_id: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          club_id?: string
+          created_at?: string
+          id?: string
+          milestone_id?: string
+          suggestion_id?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "book_club_reading_positions_club_id_fkey"
+            columns: ["club_id"]
+            isOneToOne: false
+            referencedRelation: "book_clubs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "book_club_reading_positions_milestone_id_fkey"
+            columns: ["milestone_id"]
+            isOneToOne: false
+            referencedRelation: "book_club_milestones"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "book_club_reading_positions_suggestion_id_fkey"
+            columns: ["suggestion_id"]
+            isOneToOne: false
+            referencedRelation: "book_club_suggestions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      book_club_reflections: {
+        Row: {
+          club_id: string
+          content: string
+          created_at: string
+          id: string
+          is_anonymous: boolean
+          rating: number
+          suggestion_id: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          club_id: string
+          content: string
+          created_at?: string
+          id?: string
+          is_anonymous?: boolean
+          rating: number
+          suggestion_id: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          club_id?: string
+          content?: string
+          created_at?: string
+          id?: string
+          is_anonymous?: boolean
+          rating?: number
+          suggestion_id?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "book_club_reflections_club_id_fkey"
+            columns: ["club_id"]
+            isOneToOne: false
+            referencedRelation: "book_clubs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "book_club_reflections_suggestion_id_fkey"
+            columns: ["suggestion_id"]
+            isOneToOne: false
+            referencedRelation: "book_club_suggestions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      book_club_round_ballots: {
+        Row: {
+          club_id: string
+          created_at: string
+          id: string
+          rank: number | null
+          round_id: string
+          suggestion_id: string
+          user_id: string
+        }
+        Insert: {
+          club_id: string
+          created_at?: string
+          id?: string
+          rank?: number | null
+          round_id: string
+          suggestion_id: string
+          user_id: string
+        }
+        Update: {
+          club_id?: string
+          created_at?: string
+          id?: string
+          rank?: number | null
+          round_id?: string
+          suggestion_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "book_club_round_ballots_club_id_fkey"
+            columns: ["club_id"]
+            isOneToOne: false
+            referencedRelation: "book_clubs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "book_club_round_ballots_round_id_fkey"
+            columns: ["round_id"]
+            isOneToOne: false
+            referencedRelation: "book_club_voting_rounds"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "book_club_round_ballots_suggestion_id_fkey"
+            columns: ["suggestion_id"]
+            isOneToOne: false
+            referencedRelation: "book_club_suggestions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      book_club_suggestions: {
+        Row: {
+          author: string
+          club_id: string
+          cover_url: string | null
+          created_at: string
+          finished_at: string | null
+          id: string
+          status: string
+          suggested_by: string
+          title: string
+        }
+        Insert: {
+          author: string
+          club_id: string
+          cover_url?: string | null
+          created_at?: string
+          finished_at?: string | null
+          id?: string
+          status?: string
+          suggested_by: string
+          title: string
+        }
+        Update: {
+          author?: string
+          club_id?: string
+          cover_url?: string | null
+          created_at?: string
+          finished_at?: string | null
+          id?: string
+          status?: string
+          suggested_by?: string
+          title?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "book_club_suggestions_club_id_fkey"
+            columns: ["club_id"]
+            isOneToOne: false
+            referencedRelation: "book_clubs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      book_club_thread_posts: {
+        Row: {
+          club_id: string
+          content: string
+          created_at: string
+          edited_at: string | null
+          id: string
+          thread_id: string
+          user_id: string
+        }
+        Insert: {
+          club_id: string
+          content: string
+          created_at?: string
+          edited_at?: string | null
+          id?: string
+          thread_id: string
+          user_id: string
+        }
+        Update: {
+          club_id?: string
+          content?: string
+          created_at?: string
+          edited_at?: string | null
+          id?: string
+          thread_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "book_club_thread_posts_club_id_fkey"
+            columns: ["club_id"]
+            isOneToOne: false
+            referencedRelation: "book_clubs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "book_club_thread_posts_thread_id_fkey"
+            columns: ["thread_id"]
+            isOneToOne: false
+            referencedRelation: "book_club_threads"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      book_club_thread_reactions: {
+        Row: {
+          club_id: string
+          created_at: string
+          emoji: string
+          id: string
+          post_id: string
           user_id: string
         }
         Insert: {
           club_id: string
+          created_at?: string
+          emoji: string
           id?: string
-          joined_at?: string
-          role?: string
+          post_id: string
           user_id: string
         }
         Update: {
           club_id?: string
+          created_at?: string
+          emoji?: string
           id?: string
-          joined_at?: string
-          role?: string
+          post_id?: string
           user_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "book_club_members_club_id_fkey"
+            foreignKeyName: "book_club_thread_reactions_club_id_fkey"
             columns: ["club_id"]
             isOneToOne: false
             referencedRelation: "book_clubs"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "book_club_thread_reactions_post_id_fkey"
+            columns: ["post_id"]
+            isOneToOne: false
+            referencedRelation: "book_club_thread_posts"
+            referencedColumns: ["id"]
+          },
         ]
       }
-      book_club_reflections: {
+      book_club_threads: {
         Row: {
+          body: string | null
           club_id: string
-          content: string
           created_at: string
+          created_by: string
           id: string
-          is_anonymous: boolean
-          rating: number
+          kind: string
+          last_post_at: string
+          milestone_id: string | null
           suggestion_id: string
+          title: string
           updated_at: string
-          user_id: string
         }
         Insert: {
+          body?: string | null
           club_id: string
-          content: string
           created_at?: string
+          created_by: string
           id?: string
-          is_anonymous?: boolean
-          rating: number
+          kind?: string
+          last_post_at?: string
+          milestone_id?: string | null
           suggestion_id: string
+          title: string
           updated_at?: string
-          user_id: string
         }
         Update: {
+          body?: string | null
           club_id?: string
-          content?: string
           created_at?: string
+          created_by?: string
           id?: string
-          is_anonymous?: boolean
-          rating?: number
+          kind?: string
+          last_post_at?: string
+          milestone_id?: string | null
           suggestion_id?: string
+          title?: string
           updated_at?: string
-          user_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "book_club_reflections_club_id_fkey"
+            foreignKeyName: "book_club_threads_club_id_fkey"
             columns: ["club_id"]
             isOneToOne: false
             referencedRelation: "book_clubs"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "book_club_reflections_suggestion_id_fkey"
+            foreignKeyName: "book_club_threads_milestone_id_fkey"
+            columns: ["milestone_id"]
+            isOneToOne: false
+            referencedRelation: "book_club_milestones"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "book_club_threads_suggestion_id_fkey"
             columns: ["suggestion_id"]
             isOneToOne: false
             referencedRelation: "book_club_suggestions"
@@ -97,48 +628,58 @@ export type Database = {
           },
         ]
       }
-      book_club_suggestions: {
+      book_club_voting_rounds: {
         Row: {
-          author: string
+          closed_at: string | null
           club_id: string
-          cover_url: string | null
           created_at: string
-          finished_at: string | null
+          created_by: string
+          ends_at: string
+          hide_results: boolean
           id: string
+          method: string
           status: string
-          suggested_by: string
-          title: string
+          winner_suggestion_id: string | null
         }
         Insert: {
-          author: string
+          closed_at?: string | null
           club_id: string
-          cover_url?: string | null
           created_at?: string
-          finished_at?: string | null
+          created_by: string
+          ends_at: string
+          hide_results?: boolean
           id?: string
+          method?: string
           status?: string
-          suggested_by: string
-          title: string
+          winner_suggestion_id?: string | null
         }
         Update: {
-          author?: string
+          closed_at?: string | null
           club_id?: string
-          cover_url?: string | null
           created_at?: string
-          finished_at?: string | null
+          created_by?: string
+          ends_at?: string
+          hide_results?: boolean
           id?: string
+          method?: string
           status?: string
-          suggested_by?: string
-          title?: string
+          winner_suggestion_id?: string | null
         }
         Relationships: [
           {
-            foreignKeyName: "book_club_suggestions_club_id_fkey"
+            foreignKeyName: "book_club_voting_rounds_club_id_fkey"
             columns: ["club_id"]
             isOneToOne: false
             referencedRelation: "book_clubs"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "book_club_voting_rounds_winner_suggestion_id_fkey"
+            columns: ["winner_suggestion_id"]
+            isOneToOne: false
+            referencedRelation: "book_club_suggestions"
+            referencedColumns: ["id"]
+          },
         ]
       }
       book_club_votes: {
@@ -176,6 +717,7 @@ export type Database = {
           description: string | null
           id: string
           invite_code: string
+          invite_expires_at: string | null
           name: string
           owner_id: string
           updated_at: string
@@ -185,6 +727,7 @@ export type Database = {
           description?: string | null
           id?: string
           invite_code: string
+          invite_expires_at?: string | null
           name: string
           owner_id: string
           updated_at?: string
@@ -194,18 +737,53 @@ export type Database = {
           description?: string | null
           id?: string
           invite_code?: string
+          invite_expires_at?: string | null
           name?: string
           owner_id?: string
           updated_at?: string
         }
         Relationships: []
       }
+      book_comment_reactions: {
+        Row: {
+          comment_id: string
+          created_at: string
+          emoji: string
+          id: string
+          user_id: string
+        }
+        Insert: {
+          comment_id: string
+          created_at?: string
+          emoji: string
+          id?: string
+          user_id: string
+        }
+        Update: {
+          comment_id?: string
+          created_at?: string
+          emoji?: string
+          id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "book_comment_reactions_comment_id_fkey"
+            columns: ["comment_id"]
+            isOneToOne: false
+            referencedRelation: "book_comments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       book_comments: {
         Row: {
           book_id: string
           content: string
           created_at: string
+          edited_at: string | null
           id: string
+          parent_id: string | null
           updated_at: string
           user_id: string
         }
@@ -213,7 +791,9 @@ export type Database = {
           book_id: string
           content: string
           created_at?: string
+          edited_at?: string | null
           id?: string
+          parent_id?: string | null
           updated_at?: string
           user_id: string
         }
@@ -221,7 +801,9 @@ export type Database = {
           book_id?: string
           content?: string
           created_at?: string
+          edited_at?: string | null
           id?: string
+          parent_id?: string | null
           updated_at?: string
           user_id?: string
         }
@@ -233,8 +815,101 @@ export type Database = {
             referencedRelation: "books"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "book_comments_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "book_comments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      book_editions: {
+        Row: {
+          categories: string[] | null
+          cover_url: string | null
+          created_at: string
+          description: string | null
+          id: string
+          isbn: string | null
+          metadata_attempted_at: string | null
+          metadata_source: string | null
+          page_count: number | null
+          updated_at: string
+          work_id: string
+        }
+        Insert: {
+          categories?: string[] | null
+          cover_url?: string | null
+          created_at?: string
+          description?: string | null
+          id?: string
+          isbn?: string | null
+          metadata_attempted_at?: string | null
+          metadata_source?: string | null
+          page_count?: number | null
+          updated_at?: string
+          work_id: string
+        }
+        Update: {
+          categories?: string[] | null
+          cover_url?: string | null
+          created_at?: string
+          description?: string | null
+          id?: string
+          isbn?: string | null
+          metadata_attempted_at?: string | null
+          metadata_source?: string | null
+          page_count?: number | null
+          updated_at?: string
+          work_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "book_editions_work_id_fkey"
+            columns: ["work_id"]
+            isOneToOne: false
+            referencedRelation: "book_works"
+            referencedColumns: ["id"]
+          },
         ]
       }
+      book_imports: {
+        Row: {
+          completed_at: string | null
+          created_at: string
+          enriched_count: number
+          id: string
+          source: string
+          status: string
+          total_count: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          completed_at?: string | null
+          created_at?: string
+          enriched_count?: number
+          id?: string
+          source?: string
+          status?: string
+          total_count?: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          completed_at?: string | null
+          created_at?: string
+          enriched_count?: number
+          id?: string
+          source?: string
+          status?: string
+          total_count?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       book_likes: {
         Row: {
           book_id: string
@@ -422,6 +1097,42 @@ export type Database = {
         }
         Relationships: []
       }
+      book_works: {
+        Row: {
+          author: string
+          created_at: string
+          id: string
+          normalized_key: string
+          open_library_work_id: string | null
+          series_name: string | null
+          series_position: number | null
+          title: string
+          updated_at: string
+        }
+        Insert: {
+          author: string
+          created_at?: string
+          id?: string
+          normalized_key: string
+          open_library_work_id?: string | null
+          series_name?: string | null
+          series_position?: number | null
+          title: string
+          updated_at?: string
+        }
+        Update: {
+          author?: string
+          created_at?: string
+          id?: string
+          normalized_key?: string
+          open_library_work_id?: string | null
+          series_name?: string | null
+          series_position?: number | null
+          title?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
       books: {
         Row: {
           author: string
@@ -430,16 +1141,30 @@ export type Database = {
           completed_at: string | null
           cover_url: string | null
           created_at: string
+          current_page: number | null
           description: string | null
+          edition_id: string | null
           id: string
+          import_id: string | null
+          is_hidden: boolean
           isbn: string | null
           isbndb_attempted_at: string | null
           metadata_attempted_at: string | null
           page_count: number | null
+          progress_percent: number | null
+          rating: number | null
+          review: string | null
+          review_has_spoilers: boolean
+          reviewed_at: string | null
+          series_name: string | null
+          series_position: number | null
+          shelf_position: number | null
+          started_at: string | null
           status: string
           title: string
           updated_at: string
           user_id: string
+          work_id: string | null
         }
         Insert: {
           author: string
@@ -448,16 +1173,30 @@ export type Database = {
           completed_at?: string | null
           cover_url?: string | null
           created_at?: string
+          current_page?: number | null
           description?: string | null
+          edition_id?: string | null
           id?: string
+          import_id?: string | null
+          is_hidden?: boolean
           isbn?: string | null
           isbndb_attempted_at?: string | null
           metadata_attempted_at?: string | null
           page_count?: number | null
+          progress_percent?: number | null
+          rating?: number | null
+          review?: string | null
+          review_has_spoilers?: boolean
+          reviewed_at?: string | null
+          series_name?: string | null
+          series_position?: number | null
+          shelf_position?: number | null
+          started_at?: string | null
           status?: string
           title: string
           updated_at?: string
           user_id: string
+          work_id?: string | null
         }
         Update: {
           author?: string
@@ -466,16 +1205,112 @@ export type Database = {
           completed_at?: string | null
           cover_url?: string | null
           created_at?: string
-          description?: string | null
+          current_page?: number | null
+          description?: string | null
+          edition_id?: string | null
+          id?: string
+          import_id?: string | null
+          is_hidden?: boolean
+          isbn?: string | null
+          isbndb_attempted_at?: string | null
+          metadata_attempted_at?: string | null
+          page_count?: number | null
+          progress_percent?: number | null
+          rating?: number | null
+          review?: string | null
+          review_has_spoilers?: boolean
+          reviewed_at?: string | null
+          series_name?: string | null
+          series_position?: number | null
+          shelf_position?: number | null
+          started_at?: string | null
+          status?: string
+          title?: string
+          updated_at?: string
+          user_id?: string
+          work_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "books_edition_id_fkey"
+            columns: ["edition_id"]
+            isOneToOne: false
+            referencedRelation: "book_editions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "books_import_id_fkey"
+            columns: ["import_id"]
+            isOneToOne: false
+            referencedRelation: "book_imports"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "books_work_id_fkey"
+            columns: ["work_id"]
+            isOneToOne: false
+            referencedRelation: "book_works"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      calendar_feed_tokens: {
+        Row: {
+          created_at: string
+          token: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          token?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          token?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      content_reports: {
+        Row: {
+          created_at: string
+          details: string | null
+          id: string
+          reason: string
+          reported_user_id: string | null
+          reporter_id: string
+          resolved_at: string | null
+          resolved_by: string | null
+          status: string
+          target_id: string
+          target_type: string
+        }
+        Insert: {
+          created_at?: string
+          details?: string | null
+          id?: string
+          reason: string
+          reported_user_id?: string | null
+          reporter_id: string
+          resolved_at?: string | null
+          resolved_by?: string | null
+          status?: string
+          target_id: string
+          target_type: string
+        }
+        Update: {
+          created_at?: string
+          details?: string | null
           id?: string
-          isbn?: string | null
-          isbndb_attempted_at?: string | null
-          metadata_attempted_at?: string | null
-          page_count?: number | null
+          reason?: string
+          reported_user_id?: string | null
+          reporter_id?: string
+          resolved_at?: string | null
+          resolved_by?: string | null
           status?: string
-          title?: string
-          updated_at?: string
-          user_id?: string
+          target_id?: string
+          target_type?: string
         }
         Relationships: []
       }
@@ -485,57 +1320,128 @@ export type Database = {
           follower_id: string
           following_id: string
           id: string
+          status: string
         }
         Insert: {
           created_at?: string
           follower_id: string
           following_id: string
           id?: string
+          status?: string
         }
         Update: {
           created_at?: string
           follower_id?: string
           following_id?: string
           id?: string
+          status?: string
+        }
+        Relationships: []
+      }
+      friend_suggestion_dismissals: {
+        Row: {
+          created_at: string
+          dismissed_user_id: string
+          id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          dismissed_user_id: string
+          id?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          dismissed_user_id?: string
+          id?: string
+          user_id?: string
         }
         Relationships: []
       }
       notification_settings: {
         Row: {
           created_at: string
+          digest_unsubscribe_token: string
           id: string
-          last_seen_mystery_books_at: string
-          last_seen_followers_at: string
+          last_digest_sent_at: string | null
           last_seen_follows_at: string
-          last_seen_likes_at: string
-          last_seen_recommendations_at: string
+          preferences: Json
           updated_at: string
           user_id: string
+          weekly_digest: boolean
         }
         Insert: {
           created_at?: string
+          digest_unsubscribe_token?: string
           id?: string
-          last_seen_mystery_books_at?: string
-          last_seen_followers_at?: string
+          last_digest_sent_at?: string | null
           last_seen_follows_at?: string
-          last_seen_likes_at?: string
-          last_seen_recommendations_at?: string
+          preferences?: Json
           updated_at?: string
           user_id: string
+          weekly_digest?: boolean
         }
         Update: {
           created_at?: string
+          digest_unsubscribe_token?: string
           id?: string
-          last_seen_mystery_books_at?: string
-          last_seen_followers_at?: string
+          last_digest_sent_at?: string | null
           last_seen_follows_at?: string
-          last_seen_likes_at?: string
-          last_seen_recommendations_at?: string
+          preferences?: Json
           updated_at?: string
           user_id?: string
+          weekly_digest?: boolean
         }
         Relationships: []
       }
+      notifications: {
+        Row: {
+          actor_id: string | null
+          body: string | null
+          book_id: string | null
+          created_at: string
+          entity_id: string | null
+          id: string
+          read_at: string | null
+          title: string | null
+          type: string
+          user_id: string
+        }
+        Insert: {
+          actor_id?: string | null
+          body?: string | null
+          book_id?: string | null
+          created_at?: string
+          entity_id?: string | null
+          id?: string
+          read_at?: string | null
+          title?: string | null
+          type: string
+          user_id: string
+        }
+        Update: {
+          actor_id?: string | null
+          body?: string | null
+          book_id?: string | null
+          created_at?: string
+          entity_id?: string | null
+          id?: string
+          read_at?: string | null
+          title?: string | null
+          type?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notifications_book_id_fkey"
+            columns: ["book_id"]
+            isOneToOne: false
+            referencedRelation: "books"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       profiles: {
         Row: {
           avatar_url: string | null
@@ -563,6 +1469,116 @@ export type Database = {
         }
         Relationships: []
       }
+      reading_goals: {
+        Row: {
+          created_at: string
+          id: string
+          metric: string
+          period: string
+          period_start: string
+          target: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          metric?: string
+          period: string
+          period_start: string
+          target: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          metric?: string
+          period?: string
+          period_start?: string
+          target?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      reading_progress: {
+        Row: {
+          book_id: string
+          created_at: string
+          id: string
+          note: string | null
+          page: number | null
+          percent: number | null
+          user_id: string
+        }
+        Insert: {
+          book_id: string
+          created_at?: string
+          id?: string
+          note?: string | null
+          page?: number | null
+          percent?: number | null
+          user_id: string
+        }
+        Update: {
+          book_id?: string
+          created_at?: string
+          id?: string
+          note?: string | null
+          page?: number | null
+          percent?: number | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "reading_progress_book_id_fkey"
+            columns: ["book_id"]
+            isOneToOne: false
+            referencedRelation: "books"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      shelf_books: {
+        Row: {
+          added_at: string
+          book_id: string
+          id: string
+          position: number
+          shelf_id: string
+        }
+        Insert: {
+          added_at?: string
+          book_id: string
+          id?: string
+          position?: number
+          shelf_id: string
+        }
+        Update: {
+          added_at?: string
+          book_id?: string
+          id?: string
+          position?: number
+          shelf_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "shelf_books_book_id_fkey"
+            columns: ["book_id"]
+            isOneToOne: false
+            referencedRelation: "books"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "shelf_books_shelf_id_fkey"
+            columns: ["shelf_id"]
+            isOneToOne: false
+            referencedRelation: "shelves"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       shelf_settings: {
         Row: {
           background_theme: string | null
@@ -579,6 +1595,7 @@ export type Database = {
           show_wood_grain: boolean | null
           updated_at: string
           user_id: string
+          visibility: string
         }
         Insert: {
           background_theme?: string | null
@@ -595,6 +1612,7 @@ export type Database = {
           show_wood_grain?: boolean | null
           updated_at?: string
           user_id: string
+          visibility?: string
         }
         Update: {
           background_theme?: string | null
@@ -611,6 +1629,61 @@ export type Database = {
           show_wood_grain?: boolean | null
           updated_at?: string
           user_id?: string
+          visibility?: string
+        }
+        Relationships: []
+      }
+      shelves: {
+        Row: {
+          created_at: string
+          description: string | null
+          id: string
+          is_public: boolean
+          name: string
+          position: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          is_public?: boolean
+          name: string
+          position?: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          is_public?: boolean
+          name?: string
+          position?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      user_blocks: {
+        Row: {
+          blocked_id: string
+          created_at: string
+          id: string
+          blocker_id: string
+        }
+        Insert: {
+          blocked_id: string
+          created_at?: string
+          id?: string
+          blocker_id: string
+        }
+        Update: {
+          blocked_id?: string
+          created_at?: string
+          id?: string
+          blocker_id?: string
         }
         Relationships: []
       }
@@ -635,11 +1708,80 @@ export type Database = {
         }
         Relationships: []
       }
+      user_mutes: {
+        Row: {
+          muted_id: string
+          created_at: string
+          id: string
+          muter_id: string
+        }
+        Insert: {
+          muted_id: string
+          created_at?: string
+          id?: string
+          muter_id: string
+        }
+        Update: {
+          muted_id?: string
+          created_at?: string
+          id?: string
+          muter_id?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
+      can_moderate_club: {
+        Args: { _club_id: string; _user_id: string }
+        Returns: boolean
+      }
+      can_view_shelf: {
+        Args: { _owner_id: string; _viewer_id: string }
+        Returns: boolean
+      }
+      cast_round_ballot: {
+        Args: { _round_id: string; _suggestion_ids: string[] }
+        Returns: undefined
+      }
+      close_due_voting_rounds: {
+        Args: never
+        Returns: number
+      }
+      close_voting_round: {
+        Args: { _round_id: string }
+        Returns: string
+      }
+      club_role_rank: { Args: { _role: string }; Returns: number }
+      get_blocked_user_ids: {
+        Args: never
+        Returns: string[]
+      }
+      get_club_role: {
+        Args: { _club_id: string; _user_id: string }
+        Returns: string
+      }
+      get_friend_suggestions: {
+        Args: { _limit?: number }
+        Returns: {
+          avatar_url: string
+          mutual_follows: number
+          share_id: string
+          shared_books: number
+          shared_clubs: number
+          user_id: string
+          username: string
+        }[]
+      }
+      get_hidden_reflection_counts: {
+        Args: { _club_id: string }
+        Returns: {
+          hidden_count: number
+          suggestion_id: string
+        }[]
+      }
       get_public_shelf_appearance: {
         Args: { _share_id: string }
         Returns: {
@@ -652,18 +1794,35 @@ export type Database = {
           show_wood_grain: boolean
         }[]
       }
-      get_public_shelf_books: {
+      get_public_named_shelves: {
         Args: { _share_id: string }
+        Returns: {
+          book_count: number
+          description: string
+          id: string
+          name: string
+        }[]
+      }
+      get_public_shelf_books: {
+        Args: { _share_id: string; _shelf_id?: string }
         Returns: {
           author: string
           categories: string[]
           color: string
+          completed_at: string
           cover_url: string
           created_at: string
           description: string
           id: string
           isbn: string
           page_count: number
+          rating: number
+          review: string
+          review_has_spoilers: boolean
+          reviewed_at: string
+          series_name: string
+          series_position: number
+          shelf_position: number
           status: string
           title: string
         }[]
@@ -672,6 +1831,10 @@ export type Database = {
         Args: { _share_id: string }
         Returns: {
           display_name: string
+          goal_metric: string | null
+          goal_period: string | null
+          goal_progress: number | null
+          goal_target: number | null
           is_public: boolean
           share_id: string
         }[]
@@ -693,7 +1856,23 @@ export type Database = {
         Args: { _share_id: string }
         Returns: string
       }
+      get_round_turnout: {
+        Args: { _round_id: string }
+        Returns: number
+      }
+      get_shelf_access: {
+        Args: { _share_id: string }
+        Returns: {
+          owner_id: string
+          username: string
+          visibility: string
+        }[]
+      }
       has_public_shelf: { Args: { _user_id: string }; Returns: boolean }
+      has_reached_milestone: {
+        Args: { _milestone_id: string; _suggestion_id: string; _user_id: string }
+        Returns: boolean
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -701,6 +1880,18 @@ export type Database = {
         }
         Returns: boolean
       }
+      import_books: {
+        Args: { _books: Json; _source: string }
+        Returns: string
+      }
+      is_blocked_between: {
+        Args: { _user_a: string; _user_b: string }
+        Returns: boolean
+      }
+      is_club_host: {
+        Args: { _club_id: string; _user_id: string }
+        Returns: boolean
+      }
       is_club_member: {
         Args: { _club_id: string; _user_id: string }
         Returns: boolean
@@ -709,6 +1900,14 @@ export type Database = {
         Args: { _club_id: string; _user_id: string }
         Returns: boolean
       }
+      is_shelf_owner: {
+        Args: { _shelf_id: string; _user_id: string }
+        Returns: boolean
+      }
+      join_club_by_invite_code: {
+        Args: { _invite_code: string }
+        Returns: string
+      }
       lookup_club_by_invite_code: {
         Args: { _invite_code: string }
         Returns: {
@@ -716,10 +1915,65 @@ export type Database = {
           name: string
         }[]
       }
+      milestone_reached_by: {
+        Args: { _milestone_id: string; _suggestion_id: string; _user_id: string }
+        Returns: boolean
+      }
+      normalize_book_key: {
+        Args: { _author: string; _title: string }
+        Returns: string
+      }
+      normalize_isbn: { Args: { _isbn: string }; Returns: string }
+      notification_allowed: {
+        Args: { _channel: string; _type: string; _user_id: string }
+        Returns: boolean
+      }
+      record_activity: {
+        Args: {
+          _book_id?: string
+          _club_id?: string
+          _event_type: string
+          _rating?: number
+        }
+        Returns: undefined
+      }
+      regenerate_club_invite: {
+        Args: { _club_id: string; _expires_at: string | null }
+        Returns: string
+      }
+      remove_club_member: {
+        Args: { _ban?: boolean; _club_id: string; _user_id: string }
+        Returns: undefined
+      }
+      reorder_books: {
+        Args: { _book_ids: string[] }
+        Returns: undefined
+      }
+      resolve_book_edition: {
+        Args: {
+          _author: string
+          _isbn?: string
+          _open_library_work_id?: string
+          _title: string
+        }
+        Returns: string
+      }
+      send_meeting_reminders: {
+        Args: never
+        Returns: number
+      }
+      set_club_member_role: {
+        Args: { _club_id: string; _role: string; _user_id: string }
+        Returns: undefined
+      }
       shares_club_with: {
         Args: { _profile_user_id: string; _viewer_id: string }
         Returns: boolean
       }
+      transfer_club_ownership: {
+        Args: { _club_id: string; _new_owner_id: string }
+        Returns: undefined
+      }
     }
     Enums: {
       app_role: "admin" | "user"
@@ -0,0 +1,180 @@
+/**
+ * CSV import helpers for Goodreads, StoryGraph, LibraryThing and arbitrary spreadsheets.
+ * Each source is just a set of candidate column names; rows are then mapped the same way.
+ */
+
+import type { BookStatus } from '@/types/book';
+
+export type ImportSource = 'goodreads' | 'storygraph' | 'librarything' | 'generic';
+
+export type ImportField = 'title' | 'author' | 'isbn' | 'status' | 'dateRead' | 'rating';
+
+/** Which CSV header feeds each field (undefined = not imported) */
+export type ColumnMapping = Partial<Record<ImportField, string>>;
+
+export type ImportRow = Record<string, string | undefined>;
+
+export interface ImportedBook {
+  title: string;
+  author: string;
+  status: BookStatus;
+  isbn?: string;
+  /** ISO timestamp */
+  completedAt?: string;
+  /** 0.5-5 in half-star steps */
+  rating?: number;
+}
+
+export const IMPORT_SOURCE_LABELS: Record<ImportSource, string> = {
+  goodreads: 'Goodreads',
+  storygraph: 'StoryGraph',
+  librarything: 'LibraryThing',
+  generic: 'CSV',
+};
+
+export const IMPORT_FIELD_LABELS: Record<ImportField, string> = {
+  title: 'Title',
+  author: 'Author',
+  isbn: 'ISBN',
+  status: 'Status',
+  dateRead: 'Date read',
+  rating: 'Rating',
+};
+
+// Candidate headers in preference order. Generic matching is case-insensitive.
+const SOURCE_COLUMNS: Record<ImportSource, Record<ImportField, string[]>> = {
+  goodreads: {
+    title: ['Title'],
+    author: ['Author', 'Author l-f'],
+    isbn: ['ISBN13', 'ISBN'],
+    status: ['Exclusive Shelf', 'Bookshelves'],
+    dateRead: ['Date Read'],
+    rating: ['My Rating'],
+  },
+  storygraph: {
+    title: ['Title'],
+    author: ['Authors'],
+    isbn: ['ISBN/UID'],
+    status: ['Read Status'],
+    dateRead: ['Last Date Read', 'Dates Read'],
+    rating: ['Star Rating'],
+  },
+  librarything: {
+    title: ['Title'],
+    author: ['Primary Author', 'Author'],
+    isbn: ['ISBN', 'ISBNs'],
+    status: ['Collections'],
+    dateRead: ['Date Read'],
+    rating: ['Rating'],
+  },
+  generic: {
+    title: ['title', 'book title', 'name', 'book'],
+    author: ['author', 'authors', 'primary author', 'author name', 'writer', 'author l-f'],
+    isbn: ['isbn13', 'isbn', 'isbn/uid', 'isbns', 'isbn-13', 'isbn-10'],
+    status: ['status', 'read status', 'exclusive shelf', 'shelf', 'collections', 'bookshelves'],
+    dateRead: ['date read', 'last date read', 'read date', 'date finished', 'finished', 'completed', 'dates read'],
+    rating: ['my rating', 'rating', 'star rating', 'stars', 'score'],
+  },
+};
+
+/** Guess where a file came from by its header row */
+export function detectImportSource(headers: string[]): ImportSource {
+  const has = (name: string) => headers.includes(name);
+  if (has('Exclusive Shelf') || has('My Rating')) return 'goodreads';
+  if (has('Read Status') && (has('Star Rating') || has('Authors'))) return 'storygraph';
+  if (has('Primary Author') || (has('Work id') && has('Collections'))) return 'librarything';
+  return 'generic';
+}
+
+/** Resolve a source's candidate columns against the headers actually present in the file */
+export function resolveColumnMapping(headers: string[], source: ImportSource): ColumnMapping {
+  const mapping: ColumnMapping = {};
+  const byLowercase = new Map(headers.map((h) => [h.trim().toLowerCase(), h]));
+
+  (Object.keys(SOURCE_COLUMNS[source]) as ImportField[]).forEach((field) => {
+    for (const candidate of SOURCE_COLUMNS[source][field]) {
+      const header = source === 'generic' ? byLowercase.get(candidate) : headers.includes(candidate) ? candidate : undefined;
+      if (header) {
+        mapping[field] = header;
+        break;
+      }
+    }
+  });
+
+  return mapping;
+}
+
+/**
+ * Map a shelf/status value from any of the supported services to a BookStatus.
+ * Covers Goodreads shelves, StoryGraph read statuses and LibraryThing collections.
+ */
+export function mapImportStatus(value: string | undefined, hasDateRead: boolean): BookStatus {
+  const lower = value?.trim().toLowerCase() || '';
+  if (!lower) return hasDateRead ? 'read' : 'want-to-read';
+  if (lower.includes('currently') || lower === 'reading' || lower.includes('in progress')) return 'reading';
+  if (lower === 'read' || lower === 'finished' || lower === 'completed' || lower.includes('read but unowned')) return 'read';
+  if (lower.includes('to-read') || lower.includes('to read') || lower.includes('wishlist') || lower.includes('want')) return 'want-to-read';
+  return hasDateRead ? 'read' : 'want-to-read';
+}
+
+/** Strip Goodreads' ="..." wrapper, LibraryThing brackets and hyphens; keep only valid-length ISBNs */
+export function parseIsbn(value: string | undefined): string | undefined {
+  if (!value) return undefined;
+  // LibraryThing "ISBNs" can hold several; take the first
+  const first = value.split(/[,;]/)[0];
+  const cleaned = first.replace(/[^0-9Xx]/g, '').toUpperCase();
+  return cleaned.length === 10 || cleaned.length === 13 ? cleaned : undefined;
+}
+
+/**
+ * Parse yyyy/MM/dd, yyyy-MM-dd (optionally a StoryGraph "start-end" range, using the end)
+ * or anything Date can read. Dates are pinned to local noon so they don't shift across timezones.
+ */
+export function parseImportDate(value: string | undefined): string | undefined {
+  if (!value?.trim()) return undefined;
+  const parts = value.trim().split(/\s*-\s*(?=\d{4}[/-])|\s*,\s*/);
+  const last = parts[parts.length - 1];
+
+  const match = last.match(/^(\d{4})[/-](\d{1,2})[/-](\d{1,2})/);
+  if (match) {
+    const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]), 12);
+    return isNaN(date.getTime()) ? undefined : date.toISOString();
+  }
+
+  const parsed = new Date(last);
+  if (isNaN(parsed.getTime())) return undefined;
+  parsed.setHours(12, 0, 0, 0);
+  return parsed.toISOString();
+}
+
+/** Ratings are normalized to half stars; 0 means "unrated" on Goodreads. Ten-point scales are halved. */
+export function parseRating(value: string | undefined): number | undefined {
+  if (!value?.trim()) return undefined;
+  let rating = Number(value.trim().replace(',', '.'));
+  if (!Number.isFinite(rating) || rating <= 0) return undefined;
+  if (rating > 5 && rating <= 10) rating = rating / 2;
+  if (rating > 5) return undefined;
+  return Math.max(0.5, Math.round(rating * 2) / 2);
+}
+
+export function mapImportRow(row: ImportRow, mapping: ColumnMapping): ImportedBook | null {
+  const get = (field: ImportField) => (mapping[field] ? row[mapping[field]!]?.trim() : undefined);
+
+  const title = get('title');
+  if (!title) return null;
+
+  // StoryGraph lists co-authors comma-separated; keep the first. "Last, First" names are left alone.
+  const authorParts = get('author')?.split(/\s*,\s*/) || [];
+  const author = authorParts.length > 1 && authorParts.every((p) => p.includes(' ')) ? authorParts[0] : get('author');
+  const dateRead = parseImportDate(get('dateRead'));
+  const status = mapImportStatus(get('status'), !!dateRead);
+
+  return {
+    title,
+    author: author || 'Unknown Author',
+    status,
+    isbn: parseIsbn(get('isbn')),
+    completedAt: status === 'read' ? dateRead : undefined,
+    rating: parseRating(get('rating')),
+  };
+}
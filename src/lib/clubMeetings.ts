@@ -0,0 +1,59 @@
+import type { BookClubMeeting, BookClubMeetingRsvp, MeetingRsvpResponse } from '@/types/bookClub';
+import type { IcsEvent } from '@/lib/ics';
+
+export const RSVP_OPTIONS: { response: MeetingRsvpResponse; label: string }[] = [
+  { response: 'going', label: 'Going' },
+  { response: 'maybe', label: 'Maybe' },
+  { response: 'not_going', label: "Can't make it" },
+];
+
+export const MEETING_DURATION_OPTIONS = [30, 60, 90, 120, 180];
+
+/** "Book Club Name: Dune" when the meeting is about a book, otherwise "Book Club Name meeting" */
+export function getMeetingSummary(clubName: string, bookTitle?: string | null): string {
+  return bookTitle ? `${clubName}: ${bookTitle}` : `${clubName} meeting`;
+}
+
+// Kept in step with the event the club-calendar function builds for subscribed feeds
+export function meetingToIcsEvent(
+  meeting: BookClubMeeting,
+  clubName: string,
+  bookTitle?: string | null,
+): IcsEvent {
+  const start = new Date(meeting.startsAt);
+  const description = [meeting.notes, meeting.videoUrl && `Join: ${meeting.videoUrl}`]
+    .filter(Boolean)
+    .join('\n\n');
+
+  return {
+    uid: `meeting-${meeting.id}@shelvybooks.com`,
+    start,
+    end: new Date(start.getTime() + meeting.durationMinutes * 60_000),
+    summary: getMeetingSummary(clubName, bookTitle),
+    description: description || null,
+    location: meeting.location || meeting.videoUrl,
+    url: meeting.videoUrl,
+    updatedAt: new Date(meeting.updatedAt),
+  };
+}
+
+export function countRsvps(rsvps: BookClubMeetingRsvp[]): Record<MeetingRsvpResponse, number> {
+  const counts: Record<MeetingRsvpResponse, number> = { going: 0, maybe: 0, not_going: 0 };
+  for (const rsvp of rsvps) {
+    counts[rsvp.response] += 1;
+  }
+  return counts;
+}
+
+/** Upcoming meetings soonest first, then past ones most recent first */
+export function splitMeetings(meetings: BookClubMeeting[], now = new Date()) {
+  const upcoming: BookClubMeeting[] = [];
+  const past: BookClubMeeting[] = [];
+  for (const meeting of meetings) {
+    const end = new Date(meeting.startsAt).getTime() + meeting.durationMinutes * 60_000;
+    (end >= now.getTime() ? upcoming : past).push(meeting);
+  }
+  upcoming.sort((a, b) => a.startsAt.localeCompare(b.startsAt));
+  past.sort((a, b) => b.startsAt.localeCompare(a.startsAt));
+  return { upcoming, past };
+}
@@ -0,0 +1,46 @@
+import type { ClubRole } from '@/types/bookClub';
+
+export const CLUB_ROLE_LABELS: Record<ClubRole, string> = {
+  owner: 'Owner',
+  cohost: 'Co-host',
+  moderator: 'Moderator',
+  member: 'Member',
+};
+
+// Same ranking as public.club_role_rank
+const ROLE_RANK: Record<ClubRole, number> = {
+  owner: 3,
+  cohost: 2,
+  moderator: 1,
+  member: 0,
+};
+
+/** Owners and co-hosts run the club: picks, schedule, meetings, votes, invites and members */
+export function isHostRole(role: ClubRole | null | undefined): boolean {
+  return !!role && ROLE_RANK[role] >= ROLE_RANK.cohost;
+}
+
+/** Hosts and moderators can remove suggestions, reflections and discussion posts */
+export function canModerateRole(role: ClubRole | null | undefined): boolean {
+  return !!role && ROLE_RANK[role] >= ROLE_RANK.moderator;
+}
+
+/** Hosts can remove, ban or re-role members ranked below them */
+export function canManageMember(actorRole: ClubRole | null | undefined, targetRole: ClubRole): boolean {
+  return isHostRole(actorRole) && ROLE_RANK[targetRole] < ROLE_RANK[actorRole as ClubRole];
+}
+
+/** Roles the actor can hand out: anything below their own, never owner */
+export function getAssignableRoles(actorRole: ClubRole | null | undefined): ClubRole[] {
+  if (!isHostRole(actorRole)) return [];
+  return (['cohost', 'moderator', 'member'] as ClubRole[]).filter(
+    (role) => ROLE_RANK[role] < ROLE_RANK[actorRole as ClubRole]
+  );
+}
+
+/** Members first by rank, then by when they joined */
+export function sortMembersByRole<T extends { role: ClubRole; joinedAt: string }>(members: T[]): T[] {
+  return [...members].sort(
+    (a, b) => ROLE_RANK[b.role] - ROLE_RANK[a.role] || a.joinedAt.localeCompare(b.joinedAt)
+  );
+}
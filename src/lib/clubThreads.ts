@@ -0,0 +1,39 @@
+import type { BookClubMilestone, ClubThread } from '@/types/bookClub';
+import { hasReachedMilestone, sortMilestones } from '@/lib/readingSchedule';
+
+export interface ThreadSection {
+  /** null for threads open to the whole club */
+  milestone: BookClubMilestone | null;
+  /** The user hasn't read this far, so its threads stay hidden */
+  locked: boolean;
+  threads: ClubThread[];
+}
+
+/** Host questions pinned on top (newest first), then discussions by latest activity */
+export function sortThreads(threads: ClubThread[]): ClubThread[] {
+  return [...threads].sort((a, b) => {
+    if (a.kind !== b.kind) return a.kind === 'question' ? -1 : 1;
+    return a.kind === 'question'
+      ? b.createdAt.localeCompare(a.createdAt)
+      : b.lastPostAt.localeCompare(a.lastPostAt);
+  });
+}
+
+/**
+ * Whole-club threads first, then one section per milestone in reading order.
+ * Threads on a milestone missing from the list are left out rather than shown unguarded.
+ */
+export function getThreadSections(
+  threads: ClubThread[],
+  milestones: BookClubMilestone[],
+  userPosition: string | null,
+): ThreadSection[] {
+  return [
+    { milestone: null, locked: false, threads: sortThreads(threads.filter(t => !t.milestoneId)) },
+    ...sortMilestones(milestones).map(milestone => ({
+      milestone,
+      locked: !hasReachedMilestone(milestones, userPosition, milestone.id),
+      threads: sortThreads(threads.filter(t => t.milestoneId === milestone.id)),
+    })),
+  ];
+}
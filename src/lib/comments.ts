@@ -0,0 +1,60 @@
+/** Emoji a comment can be reacted with; matches the CHECK on book_comment_reactions */
+export const COMMENT_REACTIONS = ['❤️', '😂', '😮', '😢', '👏', '📚'] as const;
+export type CommentReactionEmoji = (typeof COMMENT_REACTIONS)[number];
+
+export interface ThreadableComment {
+  id: string;
+  parentId: string | null;
+  createdAt: string;
+}
+
+export type CommentThread<T extends ThreadableComment> = T & { replies: T[] };
+
+// Same character set as usernames (see ProfileSetupDialog). The @ can't follow a username
+// character, so the domain in an email address isn't read as a mention.
+// Keep in step with the pattern in public.notify_book_comment.
+const MENTION_PATTERN = /(?<![a-zA-Z0-9_-])@([a-zA-Z0-9_-]+)/g;
+
+/**
+ * Top-level comments in posting order, each with its replies (oldest first).
+ * Replies whose parent isn't loaded are shown as top-level rather than dropped.
+ */
+export function buildCommentThreads<T extends ThreadableComment>(comments: T[]): CommentThread<T>[] {
+  const sorted = [...comments].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  const ids = new Set(sorted.map((c) => c.id));
+  const threads = new Map<string, CommentThread<T>>();
+
+  for (const comment of sorted) {
+    if (!comment.parentId || !ids.has(comment.parentId)) {
+      threads.set(comment.id, { ...comment, replies: [] });
+    }
+  }
+  for (const comment of sorted) {
+    if (comment.parentId && threads.has(comment.parentId)) {
+      threads.get(comment.parentId)!.replies.push(comment);
+    }
+  }
+
+  return Array.from(threads.values());
+}
+
+/** Usernames @mentioned in a comment, lowercased and de-duplicated */
+export function extractMentions(content: string): string[] {
+  return [...new Set(Array.from(content.matchAll(MENTION_PATTERN), (m) => m[1].toLowerCase()))];
+}
+
+/** Split comment text into plain runs and @mentions for rendering */
+export function splitMentions(content: string): { text: string; username?: string }[] {
+  const parts: { text: string; username?: string }[] = [];
+  let lastIndex = 0;
+
+  for (const match of content.matchAll(MENTION_PATTERN)) {
+    const index = match.index ?? 0;
+    if (index > lastIndex) parts.push({ text: content.slice(lastIndex, index) });
+    parts.push({ text: match[0], username: match[1] });
+    lastIndex = index + match[0].length;
+  }
+  if (lastIndex < content.length) parts.push({ text: content.slice(lastIndex) });
+
+  return parts;
+}
@@ -0,0 +1,21 @@
+export interface FriendSuggestion {
+  userId: string;
+  username: string;
+  avatarUrl: string | null;
+  /** Only set when their shelf would open for the current user */
+  shareId: string | null;
+  sharedBooks: number;
+  sharedClubs: number;
+  mutualFollows: number;
+}
+
+const plural = (count: number, one: string, many: string) => `${count} ${count === 1 ? one : many}`;
+
+/** Why someone was suggested, strongest reason first: "1 shared club · 4 books in common" */
+export function describeSuggestion(suggestion: Pick<FriendSuggestion, 'sharedBooks' | 'sharedClubs' | 'mutualFollows'>): string {
+  const reasons: string[] = [];
+  if (suggestion.sharedClubs > 0) reasons.push(plural(suggestion.sharedClubs, 'shared club', 'shared clubs'));
+  if (suggestion.mutualFollows > 0) reasons.push(plural(suggestion.mutualFollows, 'mutual follow', 'mutual follows'));
+  if (suggestion.sharedBooks > 0) reasons.push(plural(suggestion.sharedBooks, 'book in common', 'books in common'));
+  return reasons.join(' · ');
+}
@@ -0,0 +1,61 @@
+/**
+ * Library export helpers
+ * Goodreads-compatible CSV (so the file can be re-imported there or here) and file download plumbing.
+ */
+
+import Papa from 'papaparse';
+import { format } from 'date-fns';
+import type { BookStatus } from '@/types/book';
+
+export interface ExportBookRow {
+  id: string;
+  title: string;
+  author: string;
+  isbn: string | null;
+  status: string;
+  completed_at: string | null;
+  rating: number | null;
+  review: string | null;
+}
+
+const GOODREADS_SHELVES: Record<BookStatus, string> = {
+  'read': 'read',
+  'reading': 'currently-reading',
+  'want-to-read': 'to-read',
+};
+
+/**
+ * Columns match the Goodreads library export, so ImportBooksDialog (and Goodreads itself) can read it back.
+ * Goodreads only takes whole stars, so half-star ratings are rounded; the JSON export keeps them exact.
+ * `notes` maps book id to a note used for "My Review" when the book has no review.
+ */
+export function buildGoodreadsCsv(books: ExportBookRow[], notes: Map<string, string>): string {
+  const rows = books.map((book) => ({
+    'Title': book.title,
+    'Author': book.author,
+    'ISBN': book.isbn || '',
+    'Exclusive Shelf': GOODREADS_SHELVES[book.status as BookStatus] || 'to-read',
+    'Date Read': book.completed_at ? format(new Date(book.completed_at), 'yyyy/MM/dd') : '',
+    'My Rating': book.rating ? Math.round(book.rating) : 0,
+    'My Review': book.review || notes.get(book.id) || '',
+  }));
+
+  return Papa.unparse(rows, {
+    columns: ['Title', 'Author', 'ISBN', 'Exclusive Shelf', 'Date Read', 'My Rating', 'My Review'],
+  });
+}
+
+export function downloadFile(content: string, fileName: string, mimeType: string) {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/** e.g. shelvy-library-2026-03-04.csv */
+export function exportFileName(extension: 'csv' | 'json') {
+  return `shelvy-library-${format(new Date(), 'yyyy-MM-dd')}.${extension}`;
+}
@@ -0,0 +1,154 @@
+/**
+ * Client-side search over the signed-in user's loaded library.
+ * Matches title, author, ISBN, note, review and description text, then narrows by filter chips.
+ */
+
+import type { Book } from '@/types/book';
+
+export type PageRange = 'short' | 'medium' | 'long' | 'epic';
+
+export const PAGE_RANGES: { value: PageRange; label: string; min: number; max: number }[] = [
+  { value: 'short', label: '< 200 pages', min: 0, max: 199 },
+  { value: 'medium', label: '200–399 pages', min: 200, max: 399 },
+  { value: 'long', label: '400–599 pages', min: 400, max: 599 },
+  { value: 'epic', label: '600+ pages', min: 600, max: Infinity },
+];
+
+export interface LibrarySearchFilters {
+  pageRange: PageRange | null;
+  completionYear: number | null;
+  clubId: string | null;
+}
+
+export const EMPTY_SEARCH_FILTERS: LibrarySearchFilters = {
+  pageRange: null,
+  completionYear: null,
+  clubId: null,
+};
+
+export type SearchMatchField = 'title' | 'author' | 'isbn' | 'note' | 'review' | 'description';
+
+export interface LibrarySearchResult {
+  book: Book;
+  /** Best field the query matched; undefined when only filters are applied */
+  matchedField?: SearchMatchField;
+  /** Surrounding text for note/review/description matches */
+  snippet?: string;
+}
+
+// Lower is better: a title hit outranks a passing mention in a description
+const FIELD_RANK: Record<SearchMatchField, number> = {
+  title: 0,
+  author: 1,
+  isbn: 2,
+  note: 3,
+  review: 4,
+  description: 5,
+};
+
+const SNIPPET_RADIUS = 40;
+
+export function normalizeSearchText(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '') // Strip accents so "Garcia Marquez" finds "García Márquez"
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function makeSnippet(text: string, index: number, length: number): string {
+  const start = Math.max(0, index - SNIPPET_RADIUS);
+  const end = Math.min(text.length, index + length + SNIPPET_RADIUS);
+  return `${start > 0 ? '…' : ''}${text.slice(start, end).trim()}${end < text.length ? '…' : ''}`;
+}
+
+function matchesFilters(book: Book, filters: LibrarySearchFilters, clubIds: string[]): boolean {
+  if (filters.pageRange) {
+    const range = PAGE_RANGES.find((r) => r.value === filters.pageRange);
+    if (!range || !book.pageCount || book.pageCount < range.min || book.pageCount > range.max) return false;
+  }
+
+  if (filters.completionYear !== null) {
+    if (book.status !== 'read' || !book.completedAt) return false;
+    if (new Date(book.completedAt).getFullYear() !== filters.completionYear) return false;
+  }
+
+  if (filters.clubId && !clubIds.includes(filters.clubId)) return false;
+
+  return true;
+}
+
+/**
+ * Every query word has to appear somewhere in the book's searchable text.
+ * The result records the best-ranked field containing the first word, for display.
+ */
+export function searchLibrary(
+  books: Book[],
+  query: string,
+  filters: LibrarySearchFilters,
+  options: {
+    notes?: Map<string, string>;
+    getClubIds?: (book: Book) => string[];
+  } = {}
+): LibrarySearchResult[] {
+  const words = normalizeSearchText(query).split(' ').filter(Boolean);
+  const results: (LibrarySearchResult & { rank: number })[] = [];
+
+  for (const book of books) {
+    if (!matchesFilters(book, filters, options.getClubIds?.(book) ?? [])) continue;
+
+    if (words.length === 0) {
+      results.push({ book, rank: 0 });
+      continue;
+    }
+
+    const note = options.notes?.get(book.id);
+    const fields: [SearchMatchField, string | undefined][] = [
+      ['title', book.title],
+      ['author', book.author],
+      ['isbn', book.isbn],
+      ['note', note],
+      // Spoiler reviews are the owner's own, so they're still searchable here
+      ['review', book.review],
+      ['description', book.description],
+    ];
+    const normalized = fields.map(([field, text]) => [field, text, text ? normalizeSearchText(text) : ''] as const);
+    const haystack = normalized.map(([, , text]) => text).join(' ');
+
+    if (!words.every((word) => haystack.includes(word))) continue;
+
+    const best = normalized.find(([, , text]) => text.includes(words[0]));
+    if (!best) continue;
+
+    const [matchedField, original] = best;
+    const result: LibrarySearchResult & { rank: number } = {
+      book,
+      matchedField,
+      rank: FIELD_RANK[matchedField],
+    };
+
+    if ((matchedField === 'note' || matchedField === 'review' || matchedField === 'description') && original) {
+      const index = normalizeSearchText(original).indexOf(words[0]);
+      // Normalizing can shift offsets slightly; the snippet radius absorbs it
+      result.snippet = makeSnippet(original.replace(/\s+/g, ' '), Math.max(0, index), words[0].length);
+    }
+
+    results.push(result);
+  }
+
+  return results
+    .sort((a, b) => a.rank - b.rank || a.book.title.localeCompare(b.book.title))
+    .map(({ rank: _rank, ...result }) => result);
+}
+
+/** Years with at least one finished book, newest first */
+export function getCompletionYears(books: Book[]): number[] {
+  const years = new Set<number>();
+  books.forEach((book) => {
+    if (book.status === 'read' && book.completedAt) {
+      years.add(new Date(book.completedAt).getFullYear());
+    }
+  });
+  return [...years].sort((a, b) => b - a);
+}
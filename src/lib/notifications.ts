@@ -0,0 +1,133 @@
+export type NotificationType =
+  | 'like'
+  | 'comment'
+  | 'reply'
+  | 'mention'
+  | 'follow'
+  | 'follow_request'
+  | 'follow_accepted'
+  | 'recommendation'
+  | 'mystery_book'
+  | 'mystery_reaction'
+  | 'club_meeting'
+  | 'meeting_reminder'
+  | 'club_discussion';
+export type NotificationChannel = 'in_app' | 'email';
+export type NotificationPreferences = Record<NotificationType, Record<NotificationChannel, boolean>>;
+
+export interface AppNotification {
+  id: string;
+  type: NotificationType;
+  actorId: string | null;
+  actorUsername?: string;
+  actorAvatarUrl?: string | null;
+  bookId: string | null;
+  /** The like/comment/follow/recommendation/mystery book/club meeting this came from */
+  entityId: string | null;
+  title: string | null;
+  body: string | null;
+  readAt: string | null;
+  createdAt: string;
+}
+
+export interface NotificationGroup {
+  key: string;
+  type: NotificationType;
+  /** Newest first */
+  notifications: AppNotification[];
+  latest: AppNotification;
+  unread: boolean;
+}
+
+export const NOTIFICATION_TYPES: { type: NotificationType; label: string; description: string; hasEmail: boolean }[] = [
+  { type: 'like', label: 'Likes', description: 'Someone likes a book on your shelf', hasEmail: false },
+  { type: 'comment', label: 'Comments', description: 'Someone comments on a book on your shelf', hasEmail: false },
+  { type: 'reply', label: 'Replies', description: 'Someone replies to your comment', hasEmail: false },
+  { type: 'mention', label: 'Mentions', description: 'Someone @mentions you in a comment', hasEmail: false },
+  { type: 'follow', label: 'New followers', description: 'Someone follows your shelf', hasEmail: true },
+  { type: 'follow_request', label: 'Follow requests', description: 'Someone asks to follow your non-public shelf', hasEmail: true },
+  { type: 'follow_accepted', label: 'Accepted requests', description: 'Someone accepts your request to follow them', hasEmail: false },
+  { type: 'recommendation', label: 'Recommendations', description: 'A friend recommends you a book', hasEmail: true },
+  { type: 'mystery_book', label: 'Mystery books', description: 'A friend sends you a mystery book', hasEmail: true },
+  { type: 'mystery_reaction', label: 'Mystery book reactions', description: 'Someone reacts to a mystery book you sent', hasEmail: false },
+  { type: 'club_meeting', label: 'Club meetings', description: 'A book club you\'re in schedules a meeting', hasEmail: false },
+  { type: 'meeting_reminder', label: 'Meeting reminders', description: 'A club meeting is coming up in the next day', hasEmail: false },
+  { type: 'club_discussion', label: 'Club discussions', description: 'Someone replies to a thread you started in a book club', hasEmail: false },
+];
+
+// Mirrors the defaults in public.notification_allowed
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  like: { in_app: true, email: false },
+  comment: { in_app: true, email: false },
+  reply: { in_app: true, email: false },
+  mention: { in_app: true, email: false },
+  follow: { in_app: true, email: true },
+  follow_request: { in_app: true, email: true },
+  follow_accepted: { in_app: true, email: false },
+  recommendation: { in_app: true, email: true },
+  mystery_book: { in_app: true, email: true },
+  mystery_reaction: { in_app: true, email: false },
+  club_meeting: { in_app: true, email: false },
+  meeting_reminder: { in_app: true, email: false },
+  club_discussion: { in_app: true, email: false },
+};
+
+/** Fill in whatever the stored preferences JSON leaves out with the defaults */
+export function resolvePreferences(stored: unknown): NotificationPreferences {
+  const raw = (stored && typeof stored === 'object' ? stored : {}) as Record<string, Record<string, unknown>>;
+  const resolved = {} as NotificationPreferences;
+  for (const { type } of NOTIFICATION_TYPES) {
+    const defaults = DEFAULT_NOTIFICATION_PREFERENCES[type];
+    resolved[type] = {
+      in_app: typeof raw[type]?.in_app === 'boolean' ? (raw[type].in_app as boolean) : defaults.in_app,
+      email: typeof raw[type]?.email === 'boolean' ? (raw[type].email as boolean) : defaults.email,
+    };
+  }
+  return resolved;
+}
+
+// Likes and comments pile up on the same book; everything else stands alone
+const GROUPED_TYPES: NotificationType[] = ['like', 'comment'];
+
+/**
+ * Collapse likes and comments on the same book into one entry ("5 people liked Dune").
+ * Expects newest-first input; each group sits where its newest notification was.
+ */
+export function groupNotifications(notifications: AppNotification[]): NotificationGroup[] {
+  const groups: NotificationGroup[] = [];
+  const byKey = new Map<string, NotificationGroup>();
+
+  for (const notification of notifications) {
+    const key = GROUPED_TYPES.includes(notification.type) && notification.bookId
+      ? `${notification.type}-${notification.bookId}`
+      : notification.id;
+
+    const existing = byKey.get(key);
+    if (existing) {
+      existing.notifications.push(notification);
+      existing.unread = existing.unread || !notification.readAt;
+      continue;
+    }
+
+    const group: NotificationGroup = {
+      key,
+      type: notification.type,
+      notifications: [notification],
+      latest: notification,
+      unread: !notification.readAt,
+    };
+    byKey.set(key, group);
+    groups.push(group);
+  }
+
+  return groups;
+}
+
+/** "ana", "ana and ben", "ana, ben and 3 others" — each person counted once */
+export function formatActors(group: NotificationGroup): string {
+  const names = [...new Set(group.notifications.map((n) => n.actorUsername || 'Someone'))];
+  if (names.length === 1) return names[0];
+  if (names.length === 2) return `${names[0]} and ${names[1]}`;
+  const others = names.length - 2;
+  return `${names[0]}, ${names[1]} and ${others} ${others === 1 ? 'other' : 'others'}`;
+}
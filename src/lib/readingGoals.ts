@@ -0,0 +1,92 @@
+/**
+ * Reading goal helpers
+ * Progress is derived from finished books (completedAt + pageCount), never stored.
+ */
+
+import { addMonths, addYears, format, startOfMonth, startOfYear } from 'date-fns';
+import type { Book, GoalMetric, GoalPeriod, ReadingGoal } from '@/types/book';
+
+export interface GoalProgress {
+  current: number;
+  target: number;
+  /** 0-100, capped */
+  percent: number;
+  isComplete: boolean;
+}
+
+/** Current goal as exposed to visitors by get_public_shelf_info */
+export interface PublicReadingGoal {
+  period: GoalPeriod;
+  metric: GoalMetric;
+  progress: GoalProgress;
+}
+
+/** First day of the period containing `date`, as yyyy-MM-dd (matches the period_start column) */
+export function getGoalPeriodStart(period: GoalPeriod, date: Date = new Date()): string {
+  const start = period === 'year' ? startOfYear(date) : startOfMonth(date);
+  return format(start, 'yyyy-MM-dd');
+}
+
+function parsePeriodStart(periodStart: string): Date {
+  const [year, month, day] = periodStart.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+/** Human label for a goal's period, e.g. "2026" or "October" */
+export function formatGoalPeriod(period: GoalPeriod, periodStart: string): string {
+  const start = parsePeriodStart(periodStart);
+  return period === 'year' ? format(start, 'yyyy') : format(start, 'MMMM');
+}
+
+/** Heading for a goal, e.g. "2026 reading goal" or "October goal" */
+export function formatGoalLabel(period: GoalPeriod, periodStart: string): string {
+  const name = formatGoalPeriod(period, periodStart);
+  return period === 'year' ? `${name} reading goal` : `${name} goal`;
+}
+
+export function formatGoalMetric(metric: GoalMetric, value: number): string {
+  if (metric === 'pages') return `${value.toLocaleString()} ${value === 1 ? 'page' : 'pages'}`;
+  return `${value} ${value === 1 ? 'book' : 'books'}`;
+}
+
+export function toGoalProgress(current: number, target: number): GoalProgress {
+  return {
+    current,
+    target,
+    percent: target > 0 ? Math.min(100, Math.round((current / target) * 100)) : 0,
+    isComplete: target > 0 && current >= target,
+  };
+}
+
+/** Count finished books (or their pages) whose completion date falls inside the goal's period */
+export function computeGoalProgress(goal: ReadingGoal, books: Book[]): GoalProgress {
+  const start = parsePeriodStart(goal.periodStart);
+  const end = goal.period === 'year' ? addYears(start, 1) : addMonths(start, 1);
+
+  const finished = books.filter((book) => {
+    if (book.status !== 'read' || !book.completedAt) return false;
+    const completed = new Date(book.completedAt);
+    return completed >= start && completed < end;
+  });
+
+  const current = goal.metric === 'pages'
+    ? finished.reduce((sum, book) => sum + (book.pageCount || 0), 0)
+    : finished.length;
+
+  return toGoalProgress(current, goal.target);
+}
+
+/** Pull the goal columns returned by get_public_shelf_info, if the owner has a current goal */
+export function parsePublicGoal(row: {
+  goal_period: string | null;
+  goal_metric: string | null;
+  goal_target: number | null;
+  goal_progress: number | null;
+}): PublicReadingGoal | null {
+  if (!row.goal_period || !row.goal_target) return null;
+  return {
+    period: row.goal_period as GoalPeriod,
+    metric: (row.goal_metric || 'books') as GoalMetric,
+    progress: toGoalProgress(row.goal_progress ?? 0, row.goal_target),
+  };
+}
@@ -0,0 +1,61 @@
+import type { BookClubMilestone, ReadingPosition } from '@/types/bookClub';
+
+/** Due-date order, the same order public.has_reached_milestone uses */
+export function sortMilestones(milestones: BookClubMilestone[]): BookClubMilestone[] {
+  return [...milestones].sort(
+    (a, b) => a.dueDate.localeCompare(b.dueDate) || a.createdAt.localeCompare(b.createdAt)
+  );
+}
+
+/**
+ * Whether someone at `positionMilestoneId` has read up to `targetMilestoneId`
+ * (null meaning the end of the book). Nothing is gated when the book has no milestones.
+ */
+export function hasReachedMilestone(
+  milestones: BookClubMilestone[],
+  positionMilestoneId: string | null,
+  targetMilestoneId: string | null,
+): boolean {
+  const sorted = sortMilestones(milestones);
+  if (sorted.length === 0) return true;
+
+  const targetIndex = targetMilestoneId
+    ? sorted.findIndex(m => m.id === targetMilestoneId)
+    : sorted.length - 1;
+  if (targetIndex === -1) return true;
+
+  const positionIndex = positionMilestoneId ? sorted.findIndex(m => m.id === positionMilestoneId) : -1;
+  return positionIndex >= targetIndex;
+}
+
+/** How many members are at or past each milestone, keyed by milestone id */
+export function countMembersReached(
+  milestones: BookClubMilestone[],
+  positions: ReadingPosition[],
+): Map<string, number> {
+  const sorted = sortMilestones(milestones);
+  const indexById = new Map(sorted.map((m, i) => [m.id, i]));
+  const counts = new Map(sorted.map(m => [m.id, 0]));
+
+  for (const position of positions) {
+    const reached = indexById.get(position.milestoneId);
+    if (reached === undefined) continue;
+    for (let i = 0; i <= reached; i++) {
+      counts.set(sorted[i].id, (counts.get(sorted[i].id) ?? 0) + 1);
+    }
+  }
+  return counts;
+}
+
+/** The earliest milestone already due that the member hasn't reached, if they're behind */
+export function getOverdueMilestone(
+  milestones: BookClubMilestone[],
+  positionMilestoneId: string | null,
+  today: string,
+): BookClubMilestone | null {
+  return (
+    sortMilestones(milestones).find(
+      m => m.dueDate < today && !hasReachedMilestone(milestones, positionMilestoneId, m.id)
+    ) ?? null
+  );
+}
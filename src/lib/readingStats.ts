@@ -0,0 +1,102 @@
+/**
+ * Reading statistics derived from finished books.
+ * Everything is computed client-side from the same Book objects the shelf renders.
+ */
+
+import type { Book } from '@/types/book';
+import { sortCategoriesByRelevance } from '@/lib/categoryPriority';
+
+const MONTH_LABELS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+export interface MonthlyStat {
+  month: string;
+  books: number;
+  pages: number;
+}
+
+export interface RankedStat {
+  name: string;
+  count: number;
+}
+
+export interface ReadingStats {
+  /** null = all time */
+  year: number | null;
+  booksFinished: number;
+  pagesRead: number;
+  /** Average page count across finished books that have one */
+  averagePages: number | null;
+  longestBook: Book | null;
+  byMonth: MonthlyStat[];
+  topCategories: RankedStat[];
+  topAuthors: RankedStat[];
+}
+
+function rank(counts: Map<string, number>, limit: number, tieBreak?: (a: string, b: string) => number): RankedStat[] {
+  return [...counts.entries()]
+    .sort(([nameA, countA], [nameB, countB]) => countB - countA || (tieBreak ? tieBreak(nameA, nameB) : nameA.localeCompare(nameB)))
+    .slice(0, limit)
+    .map(([name, count]) => ({ name, count }));
+}
+
+/** Years (newest first) in which at least one book was finished */
+export function getStatsYears(books: Book[]): number[] {
+  const years = new Set<number>();
+  books.forEach((book) => {
+    if (book.status === 'read' && book.completedAt) years.add(new Date(book.completedAt).getFullYear());
+  });
+  return [...years].sort((a, b) => b - a);
+}
+
+export function computeReadingStats(books: Book[], year: number | null, limit = 8): ReadingStats {
+  const finished = books.filter((book) => {
+    if (book.status !== 'read') return false;
+    if (year === null) return true;
+    return !!book.completedAt && new Date(book.completedAt).getFullYear() === year;
+  });
+
+  const byMonth: MonthlyStat[] = MONTH_LABELS.map((month) => ({ month, books: 0, pages: 0 }));
+  const categoryCounts = new Map<string, number>();
+  const authorCounts = new Map<string, number>();
+  let pagesRead = 0;
+  let pagedBooks = 0;
+  let longestBook: Book | null = null;
+
+  finished.forEach((book) => {
+    const pages = book.pageCount || 0;
+    pagesRead += pages;
+    if (pages > 0) {
+      pagedBooks += 1;
+      if (!longestBook || pages > (longestBook.pageCount || 0)) longestBook = book;
+    }
+
+    if (book.completedAt) {
+      const bucket = byMonth[new Date(book.completedAt).getMonth()];
+      bucket.books += 1;
+      bucket.pages += pages;
+    }
+
+    // One genre per book (its most relevant category) so multi-tagged books don't skew the chart
+    const [primaryCategory] = sortCategoriesByRelevance(book.categories || []);
+    if (primaryCategory) categoryCounts.set(primaryCategory, (categoryCounts.get(primaryCategory) || 0) + 1);
+
+    const author = book.author?.trim();
+    if (author) authorCounts.set(author, (authorCounts.get(author) || 0) + 1);
+  });
+
+  const relevanceOrder = (a: string, b: string) => {
+    const [first] = sortCategoriesByRelevance([a, b]);
+    return first === a ? -1 : 1;
+  };
+
+  return {
+    year,
+    booksFinished: finished.length,
+    pagesRead,
+    averagePages: pagedBooks > 0 ? Math.round(pagesRead / pagedBooks) : null,
+    longestBook,
+    byMonth,
+    topCategories: rank(categoryCounts, limit, relevanceOrder),
+    topAuthors: rank(authorCounts, limit),
+  };
+}
@@ -0,0 +1,29 @@
+export type ReportTargetType = 'comment' | 'reflection' | 'club_post' | 'profile';
+export type ReportStatus = 'open' | 'resolved' | 'dismissed';
+
+const REPORT_TARGET_LABELS: Record<ReportTargetType, string> = {
+  comment: 'comment',
+  reflection: 'reflection',
+  club_post: 'club post',
+  profile: 'profile',
+};
+
+export function getReportTargetLabel(targetType: string): string {
+  return REPORT_TARGET_LABELS[targetType as ReportTargetType] ?? targetType;
+}
+
+// Matches the CHECK on content_reports.reason
+export const REPORT_REASONS = [
+  { value: 'spam', label: 'Spam' },
+  { value: 'harassment', label: 'Harassment or bullying' },
+  { value: 'hate', label: 'Hate speech' },
+  { value: 'spoilers', label: 'Unmarked spoilers' },
+  { value: 'inappropriate', label: 'Inappropriate content' },
+  { value: 'other', label: 'Something else' },
+] as const;
+
+export type ReportReason = (typeof REPORT_REASONS)[number]['value'];
+
+export function getReportReasonLabel(reason: string): string {
+  return REPORT_REASONS.find((r) => r.value === reason)?.label ?? reason;
+}
@@ -0,0 +1,79 @@
+import type { Book } from '@/types/book';
+
+export interface SeriesInfo {
+  name: string;
+  position: number;
+}
+
+// "Title (Series Name, #2)", "Title (Series Name #2.5)", "Title (Series Name, Book 3)"
+const SERIES_PATTERNS = [
+  /\(([^()#]+?),?\s*#(\d+(?:\.\d+)?)\)\s*$/,
+  /\(([^()]+?),?\s+(?:book|vol\.?|volume)\s+(\d+(?:\.\d+)?)\)\s*$/i,
+];
+
+/** Pull series name and position out of a title, the way Goodreads and most stores write it */
+export function parseSeries(title: string): SeriesInfo | null {
+  for (const pattern of SERIES_PATTERNS) {
+    const match = title.match(pattern);
+    if (match) {
+      const name = match[1].trim();
+      const position = Number(match[2]);
+      if (name && Number.isFinite(position)) return { name, position };
+    }
+  }
+  return null;
+}
+
+/** "The Expanse #2", or just the name when the position isn't known */
+export function formatSeriesLabel(name: string, position?: number): string {
+  return position !== undefined ? `${name} #${position}` : name;
+}
+
+/** Case-insensitive exact-match pattern for `.ilike()`: LIKE wildcards in the name are taken literally */
+export function seriesNamePattern(name: string): string {
+  return name.trim().replace(/[\\%_]/g, (char) => `\\${char}`);
+}
+
+const seriesKey = (name: string) => name.trim().toLowerCase();
+
+const isSameSeries = (a: Book, b: Book) =>
+  !!a.seriesName && !!b.seriesName && seriesKey(a.seriesName) === seriesKey(b.seriesName);
+
+/**
+ * Keep each series together in reading order. The series takes the place of its
+ * first book in the incoming order; everything else keeps its position.
+ */
+export function groupBySeries(books: Book[]): Book[] {
+  const bySeries = new Map<string, Book[]>();
+  for (const book of books) {
+    if (!book.seriesName) continue;
+    const key = seriesKey(book.seriesName);
+    bySeries.set(key, [...(bySeries.get(key) || []), book]);
+  }
+
+  const result: Book[] = [];
+  const placed = new Set<string>();
+  for (const book of books) {
+    if (!book.seriesName) {
+      result.push(book);
+      continue;
+    }
+    const key = seriesKey(book.seriesName);
+    if (placed.has(key)) continue;
+    placed.add(key);
+    const members = bySeries.get(key)!;
+    // Stable sort keeps unnumbered books in their incoming order, after the numbered ones
+    result.push(
+      ...[...members].sort((a, b) => (a.seriesPosition ?? Infinity) - (b.seriesPosition ?? Infinity))
+    );
+  }
+  return result;
+}
+
+/** The lowest-numbered book after `book` in its series, among the books given */
+export function findNextInSeries(books: Book[], book: Book): Book | undefined {
+  if (!book.seriesName || book.seriesPosition === undefined) return undefined;
+  return books
+    .filter((b) => b.id !== book.id && isSameSeries(b, book) && (b.seriesPosition ?? -Infinity) > book.seriesPosition!)
+    .sort((a, b) => a.seriesPosition! - b.seriesPosition!)[0];
+}
@@ -0,0 +1,36 @@
+/**
+ * Helpers for the hand-arranged 'custom' shelf sort.
+ */
+
+import type { Book } from '@/types/book';
+
+export type DropPlacement = 'before' | 'after';
+
+/** Arranged books in position order, then any not yet placed in the order they were added */
+export function sortByShelfPosition(books: Book[]): Book[] {
+  return books
+    .map((book, index) => ({ book, index }))
+    .sort((a, b) => {
+      const posA = a.book.shelfPosition ?? Infinity;
+      const posB = b.book.shelfPosition ?? Infinity;
+      if (posA !== posB) return posA - posB;
+      return a.index - b.index;
+    })
+    .map(({ book }) => book);
+}
+
+/** Returns a new id list with draggedId moved next to targetId; unchanged if either is missing */
+export function moveBookId(
+  orderedIds: string[],
+  draggedId: string,
+  targetId: string,
+  placement: DropPlacement
+): string[] {
+  if (draggedId === targetId) return orderedIds;
+  if (!orderedIds.includes(draggedId) || !orderedIds.includes(targetId)) return orderedIds;
+
+  const withoutDragged = orderedIds.filter((id) => id !== draggedId);
+  const targetIndex = withoutDragged.indexOf(targetId);
+  withoutDragged.splice(placement === 'before' ? targetIndex : targetIndex + 1, 0, draggedId);
+  return withoutDragged;
+}
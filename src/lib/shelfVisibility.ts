@@ -0,0 +1,13 @@
+import type { ShelfVisibility } from '@/types/book';
+
+// Matches the CHECK on shelf_settings.visibility
+export const SHELF_VISIBILITY_OPTIONS: { value: ShelfVisibility; label: string; description: string }[] = [
+  { value: 'public', label: 'Public', description: 'Anyone with the link can view your books' },
+  { value: 'followers', label: 'Followers', description: 'Only followers you approve can view your shelf' },
+  { value: 'club', label: 'Book club members', description: 'Only people in a book club with you can view your shelf' },
+  { value: 'private', label: 'Private', description: 'Only you can see your shelf' },
+];
+
+export function getShelfVisibilityLabel(visibility: string): string {
+  return SHELF_VISIBILITY_OPTIONS.find((o) => o.value === visibility)?.label ?? visibility;
+}
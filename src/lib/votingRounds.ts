@@ -0,0 +1,91 @@
+import type { RoundBallot, VotingMethod } from '@/types/bookClub';
+
+export const VOTING_METHODS: { method: VotingMethod; label: string; description: string }[] = [
+  { method: 'plurality', label: 'Simple vote', description: 'Everyone picks one book; most votes wins.' },
+  { method: 'approval', label: 'Approval', description: 'Pick every book you’d be happy reading; most approvals wins.' },
+  { method: 'ranked', label: 'Ranked choice', description: 'Rank the books; the last-place book drops out until one has a majority.' },
+];
+
+/** Round lengths in days */
+export const ROUND_LENGTH_OPTIONS = [1, 2, 3, 5, 7];
+
+export interface TallyStep {
+  /** Votes per candidate still in the running */
+  counts: Record<string, number>;
+  /** Candidate dropped after this step, if the count went to another runoff */
+  eliminated: string | null;
+}
+
+export interface TallyResult {
+  winnerId: string | null;
+  steps: TallyStep[];
+}
+
+// Ties favour the earlier candidate, so pass candidates oldest suggestion first
+function leader(candidates: string[], counts: Record<string, number>): string {
+  return candidates.reduce((best, id) => (counts[id] > counts[best] ? id : best));
+}
+
+function trailer(candidates: string[], counts: Record<string, number>): string {
+  return candidates.reduce((worst, id) => (counts[id] <= counts[worst] ? id : worst));
+}
+
+/** Groups ballot rows into each member's picks, top choice first */
+export function groupBallots(ballots: RoundBallot[]): Map<string, string[]> {
+  const byUser = new Map<string, RoundBallot[]>();
+  ballots.forEach((b) => byUser.set(b.userId, [...(byUser.get(b.userId) ?? []), b]));
+
+  return new Map(
+    Array.from(byUser, ([userId, rows]) => [
+      userId,
+      [...rows].sort((a, b) => (a.rank ?? 0) - (b.rank ?? 0)).map((r) => r.suggestionId),
+    ]),
+  );
+}
+
+/**
+ * Same rules as public.tally_voting_round: plurality and approval count every pick once;
+ * ranked choice runs instant-runoff, eliminating the newest of the lowest-scoring books.
+ */
+export function tallyBallots(method: VotingMethod, candidates: string[], ballots: RoundBallot[]): TallyResult {
+  if (candidates.length === 0) return { winnerId: null, steps: [] };
+
+  const picks = groupBallots(ballots);
+
+  if (method !== 'ranked') {
+    const counts = Object.fromEntries(candidates.map((id) => [id, 0]));
+    picks.forEach((ids) => ids.forEach((id) => {
+      if (id in counts) counts[id] += 1;
+    }));
+    const top = leader(candidates, counts);
+    return { winnerId: counts[top] > 0 ? top : null, steps: [{ counts, eliminated: null }] };
+  }
+
+  const steps: TallyStep[] = [];
+  let remaining = [...candidates];
+
+  for (;;) {
+    const counts = Object.fromEntries(remaining.map((id) => [id, 0]));
+    picks.forEach((ids) => {
+      const first = ids.find((id) => id in counts);
+      if (first) counts[first] += 1;
+    });
+
+    const active = Object.values(counts).reduce((sum, n) => sum + n, 0);
+    const top = leader(remaining, counts);
+
+    if (active === 0) {
+      steps.push({ counts, eliminated: null });
+      return { winnerId: null, steps };
+    }
+
+    if (counts[top] * 2 > active || remaining.length === 1) {
+      steps.push({ counts, eliminated: null });
+      return { winnerId: top, steps };
+    }
+
+    const last = trailer(remaining, counts);
+    steps.push({ counts, eliminated: last });
+    remaining = remaining.filter((id) => id !== last);
+  }
+}
@@ -0,0 +1,87 @@
+/**
+ * Renders the "year in review" summary to a PNG with the Canvas 2D API,
+ * so it can be shared or downloaded without a DOM screenshot library.
+ */
+
+import type { ReadingStats } from '@/lib/readingStats';
+
+const WIDTH = 1080;
+const HEIGHT = 1350;
+
+function truncate(ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string {
+  if (ctx.measureText(text).width <= maxWidth) return text;
+  let result = text;
+  while (result.length > 1 && ctx.measureText(`${result}…`).width > maxWidth) {
+    result = result.slice(0, -1);
+  }
+  return `${result}…`;
+}
+
+function drawStat(ctx: CanvasRenderingContext2D, value: string, label: string, x: number, y: number) {
+  ctx.textAlign = 'center';
+  ctx.fillStyle = '#fffbeb';
+  ctx.font = 'bold 96px Georgia, serif';
+  ctx.fillText(value, x, y);
+  ctx.fillStyle = 'rgba(255, 251, 235, 0.75)';
+  ctx.font = '32px system-ui, sans-serif';
+  ctx.fillText(label, x, y + 52);
+}
+
+export function renderYearInReviewImage(stats: ReadingStats, ownerName: string): Promise<Blob> {
+  const canvas = document.createElement('canvas');
+  canvas.width = WIDTH;
+  canvas.height = HEIGHT;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return Promise.reject(new Error('Canvas is not supported'));
+
+  // Warm library background matching the app's amber branding
+  const gradient = ctx.createLinearGradient(0, 0, WIDTH, HEIGHT);
+  gradient.addColorStop(0, '#92400e');
+  gradient.addColorStop(1, '#451a03');
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, WIDTH, HEIGHT);
+
+  const periodLabel = stats.year === null ? 'All time' : String(stats.year);
+
+  ctx.textAlign = 'center';
+  if (ownerName) {
+    ctx.fillStyle = 'rgba(255, 251, 235, 0.8)';
+    ctx.font = '36px system-ui, sans-serif';
+    ctx.fillText(truncate(ctx, `${ownerName}'s`, WIDTH - 160), WIDTH / 2, 150);
+  }
+  ctx.fillStyle = '#fffbeb';
+  ctx.font = 'bold 88px Georgia, serif';
+  ctx.fillText(`${periodLabel} in books`, WIDTH / 2, 250);
+
+  drawStat(ctx, stats.booksFinished.toLocaleString(), stats.booksFinished === 1 ? 'book finished' : 'books finished', WIDTH / 4, 440);
+  drawStat(ctx, stats.pagesRead.toLocaleString(), 'pages read', (WIDTH * 3) / 4, 440);
+
+  if (stats.averagePages !== null) {
+    drawStat(ctx, stats.averagePages.toLocaleString(), 'avg. pages per book', WIDTH / 2, 640);
+  }
+
+  // Highlights
+  const highlights: [string, string][] = [];
+  if (stats.topCategories[0]) highlights.push(['Favorite genre', stats.topCategories[0].name]);
+  if (stats.topAuthors[0]) highlights.push(['Most-read author', stats.topAuthors[0].name]);
+  if (stats.longestBook) highlights.push(['Longest read', stats.longestBook.title]);
+
+  highlights.forEach(([label, value], i) => {
+    const y = 820 + i * 130;
+    ctx.textAlign = 'center';
+    ctx.fillStyle = 'rgba(255, 251, 235, 0.65)';
+    ctx.font = '28px system-ui, sans-serif';
+    ctx.fillText(label.toUpperCase(), WIDTH / 2, y);
+    ctx.fillStyle = '#fde68a';
+    ctx.font = 'bold 48px Georgia, serif';
+    ctx.fillText(truncate(ctx, value, WIDTH - 160), WIDTH / 2, y + 60);
+  });
+
+  ctx.fillStyle = 'rgba(255, 251, 235, 0.6)';
+  ctx.font = '30px system-ui, sans-serif';
+  ctx.fillText(window.location.host || 'Shelvy', WIDTH / 2, HEIGHT - 70);
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('Could not render image'))), 'image/png');
+  });
+}
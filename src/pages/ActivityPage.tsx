@@ -0,0 +1,64 @@
+import { useNavigate } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import { useActivityFeed } from '@/hooks/useActivityFeed';
+import { AppHeader } from '@/components/AppHeader';
+import { ActivityFeedItem } from '@/components/ActivityFeedItem';
+import { Button } from '@/components/ui/button';
+import { Activity, ArrowLeft, Loader2 } from 'lucide-react';
+
+export default function ActivityPage() {
+  const navigate = useNavigate();
+  const { user, loading: authLoading, setAuthDialogOpen } = useAuth();
+  const { events, isFollowingAnyone, isLoading, hasNextPage, fetchNextPage, isFetchingNextPage } = useActivityFeed();
+
+  return (
+    <div className="min-h-screen bg-background">
+      <AppHeader />
+
+      <main className="container py-6 sm:py-8 max-w-2xl space-y-4">
+        <button onClick={() => navigate('/')} className="flex items-center gap-1.5 text-sm text-muted-foreground hover:text-foreground transition-colors">
+          <ArrowLeft className="w-4 h-4" />
+          Back to shelf
+        </button>
+
+        {authLoading || (user && isLoading) ? (
+          <div className="flex justify-center py-16">
+            <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
+          </div>
+        ) : !user ? (
+          <div className="text-center py-16">
+            <Activity className="w-12 h-12 mx-auto text-muted-foreground mb-4" />
+            <h1 className="text-2xl font-sans font-semibold mb-2">Friends' activity</h1>
+            <p className="text-muted-foreground mb-6">Sign in to see what the readers you follow are up to.</p>
+            <Button onClick={() => setAuthDialogOpen(true)}>Sign in</Button>
+          </div>
+        ) : (
+          <>
+            <h1 className="text-2xl font-sans font-semibold">Friends' activity</h1>
+            {events.length === 0 ? (
+              <p className="text-muted-foreground py-8 text-center">
+                {isFollowingAnyone
+                  ? 'Nothing yet. When the readers you follow start, finish or rate a book, it shows up here.'
+                  : 'Follow some readers to see what they are reading.'}
+              </p>
+            ) : (
+              <div className="rounded-lg border border-border bg-card/60 px-4 divide-y divide-border">
+                {events.map((event) => (
+                  <ActivityFeedItem key={event.id} event={event} />
+                ))}
+              </div>
+            )}
+            {hasNextPage && (
+              <div className="flex justify-center">
+                <Button variant="outline" size="sm" onClick={() => fetchNextPage()} disabled={isFetchingNextPage}>
+                  {isFetchingNextPage && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                  Load more
+                </Button>
+              </div>
+            )}
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -3,9 +3,10 @@ import { useNavigate } from "react-router-dom";
 import { useAdminRole } from "@/hooks/useAdminRole";
 import { useAuth } from "@/contexts/AuthContext";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Users, MessageSquare, BarChart3, Database, Shield } from "lucide-react";
+import { Users, MessageSquare, BarChart3, Database, Shield, Flag } from "lucide-react";
 import { AdminUserManagement } from "@/components/admin/AdminUserManagement";
 import { AdminContentModeration } from "@/components/admin/AdminContentModeration";
+import { AdminReportsQueue } from "@/components/admin/AdminReportsQueue";
 import { AdminAnalytics } from "@/components/admin/AdminAnalytics";
 import { AdminBackfillControls } from "@/components/admin/AdminBackfillControls";
 
@@ -47,7 +48,7 @@ export default function AdminPage() {
 
       <main className="container mx-auto px-4 py-6">
         <Tabs defaultValue="analytics" className="space-y-6">
-          <TabsList className="grid w-full grid-cols-4 lg:w-auto lg:inline-grid">
+          <TabsList className="grid w-full grid-cols-5 lg:w-auto lg:inline-grid">
             <TabsTrigger value="analytics" className="gap-2">
               <BarChart3 className="h-4 w-4" />
               <span className="hidden sm:inline">Analytics</span>
@@ -60,6 +61,10 @@ export default function AdminPage() {
               <MessageSquare className="h-4 w-4" />
               <span className="hidden sm:inline">Moderation</span>
             </TabsTrigger>
+            <TabsTrigger value="reports" className="gap-2">
+              <Flag className="h-4 w-4" />
+              <span className="hidden sm:inline">Reports</span>
+            </TabsTrigger>
             <TabsTrigger value="backfill" className="gap-2">
               <Database className="h-4 w-4" />
               <span className="hidden sm:inline">Backfill</span>
@@ -78,6 +83,10 @@ export default function AdminPage() {
             <AdminContentModeration />
           </TabsContent>
 
+          <TabsContent value="reports">
+            <AdminReportsQueue />
+          </TabsContent>
+
           <TabsContent value="backfill">
             <AdminBackfillControls />
           </TabsContent>
@@ -1,8 +1,13 @@
 import { useState, useEffect } from 'react';
 import { useParams, useNavigate, Link } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
-import { useClubDetails, useBookClubs, VoteWithUser, ClubMemberWithProfile } from '@/hooks/useBookClubs';
+import { useClubDetails, useBookClubs, VoteWithUser } from '@/hooks/useBookClubs';
 import { useClubReflections } from '@/hooks/useClubReflections';
+import { useClubMeetings } from '@/hooks/useClubMeetings';
+import { useClubReadingSchedule } from '@/hooks/useClubReadingSchedule';
+import { useClubThreads } from '@/hooks/useClubThreads';
+import { useClubVotingRounds } from '@/hooks/useClubVotingRounds';
+import { useClubModeration } from '@/hooks/useClubModeration';
 import { useBookSearch, getCoverUrl } from '@/hooks/useBookSearch';
 import { useBooksContext } from '@/contexts/BooksContext';
 import { Button } from '@/components/ui/button';
@@ -62,21 +67,27 @@ import {
   BookMarked,
   Settings,
   Pencil,
-  Crown,
-  ExternalLink
+  LogOut
 } from 'lucide-react';
 import { AppHeader } from '@/components/AppHeader';
 import { cn } from '@/lib/utils';
 import { GoogleBook } from '@/types/book';
 import { useToast } from '@/hooks/use-toast';
 import { PastReadCard } from '@/components/club/PastReadCard';
+import { ClubMeetingsSection } from '@/components/club/ClubMeetingsSection';
+import { ReadingSchedule } from '@/components/club/ReadingSchedule';
+import { ClubDiscussions } from '@/components/club/ClubDiscussions';
+import { VotingRoundPanel } from '@/components/club/VotingRoundPanel';
+import { ClubMembersSection } from '@/components/club/ClubMembersSection';
+import { ClubInviteDialog } from '@/components/club/ClubInviteDialog';
+import { LeaveClubDialog } from '@/components/club/LeaveClubDialog';
 
 export default function ClubPage() {
   const { clubId } = useParams<{ clubId: string }>();
   const navigate = useNavigate();
   const { user, loading: authLoading } = useAuth();
   const { toast } = useToast();
-  const { updateClub, deleteClub } = useBookClubs();
+  const { updateClub, deleteClub, leaveClub } = useBookClubs();
   const {
     club,
     members,
@@ -84,24 +95,104 @@ export default function ClubPage() {
     votes,
     loading,
     isOwner,
+    isHost,
+    canModerate,
+    role,
     addSuggestion,
     vote,
     updateSuggestionStatus,
     removeSuggestion,
     updateClubDetails,
+    refetch: refetchClub,
   } = useClubDetails(clubId);
 
+  // A closed round may have promoted its winner to the current read
+  const {
+    round,
+    activeRound,
+    ballots,
+    turnout,
+    userBallot,
+    openRound,
+    castBallot,
+    closeRound,
+    cancelRound,
+  } = useClubVotingRounds(clubId, refetchClub);
+
+  const {
+    bans,
+    setMemberRole,
+    removeMember,
+    liftBan,
+    regenerateInvite,
+  } = useClubModeration(clubId, isHost, refetchClub);
+
   // Reflections hook for past reads
   const {
     reflections,
     addReflection,
     updateReflection,
     deleteReflection,
+    removeReflection,
     getReflectionsForSuggestion,
     hasReflectedOn,
     getAverageRating,
+    refetch: refetchReflections,
   } = useClubReflections(clubId);
 
+  const {
+    meetings,
+    scheduleMeeting,
+    updateMeeting,
+    cancelMeeting,
+    setRsvp,
+    getUserRsvp,
+    getRsvpsForMeeting,
+    getCalendarFeedUrl,
+  } = useClubMeetings(clubId);
+
+  const {
+    hiddenReflectionCounts,
+    addMilestone,
+    removeMilestone,
+    setPosition,
+    getMilestonesForSuggestion,
+    getPositionsForSuggestion,
+    getUserPosition,
+    refetch: refetchSchedule,
+  } = useClubReadingSchedule(clubId);
+
+  const {
+    createThread,
+    deleteThread,
+    addPost,
+    editPost,
+    deletePost,
+    toggleReaction,
+    getThreadsForSuggestion,
+    getPostsForThread,
+    refetch: refetchThreads,
+  } = useClubThreads(clubId);
+
+  // Moving your position can unhide reflections and threads, so reload them too
+  const handleSetReadingPosition = async (suggestionId: string, milestoneId: string | null) => {
+    if (await setPosition(suggestionId, milestoneId)) {
+      await Promise.all([refetchReflections(), refetchThreads()]);
+    }
+  };
+
+  const threadHandlers = {
+    currentUserId: user?.id,
+    isHost,
+    canModerate,
+    getPostsForThread,
+    onDeleteThread: deleteThread,
+    onAddPost: addPost,
+    onEditPost: editPost,
+    onDeletePost: deletePost,
+    onToggleReaction: toggleReaction,
+  };
+
   // Get votes for a specific suggestion
   const getVotesForSuggestion = (suggestionId: string) => {
     return votes.filter(v => v.suggestionId === suggestionId);
@@ -111,6 +202,8 @@ export default function ClubPage() {
   const [copied, setCopied] = useState(false);
   const [addDialogOpen, setAddDialogOpen] = useState(false);
   const [editDialogOpen, setEditDialogOpen] = useState(false);
+  const [inviteDialogOpen, setInviteDialogOpen] = useState(false);
+  const [leaveDialogOpen, setLeaveDialogOpen] = useState(false);
   const [editName, setEditName] = useState('');
   const [editDescription, setEditDescription] = useState('');
   const [isUpdating, setIsUpdating] = useState(false);
@@ -170,8 +263,21 @@ export default function ClubPage() {
   }
 
   const inviteUrl = `${window.location.origin}/clubs/join/${club.inviteCode}`;
+  const inviteExpired = !!club.inviteExpiresAt && new Date(club.inviteExpiresAt) <= new Date();
 
   const handleCopyInvite = () => {
+    if (inviteExpired) {
+      if (isHost) {
+        setInviteDialogOpen(true);
+      } else {
+        toast({
+          title: 'Invite link expired',
+          description: 'Ask a host for a new invite link.',
+          variant: 'destructive',
+        });
+      }
+      return;
+    }
     navigator.clipboard.writeText(inviteUrl);
     setCopied(true);
     toast({ title: 'Invite link copied!' });
@@ -201,6 +307,15 @@ export default function ClubPage() {
     navigate('/');
   };
 
+  const handleLeaveClub = async (newOwnerId?: string) => {
+    if (!clubId) return false;
+    const success = await leaveClub(clubId, newOwnerId);
+    if (success) navigate('/');
+    return success;
+  };
+
+  const otherMembers = members.filter((m) => m.userId !== user?.id);
+
   const currentlyReading = suggestions.find((s) => s.status === 'reading');
   const suggestedBooks = suggestions
     .filter((s) => s.status === 'suggested')
@@ -254,6 +369,26 @@ export default function ClubPage() {
         </DialogContent>
       </Dialog>
 
+      {isHost && (
+        <ClubInviteDialog
+          open={inviteDialogOpen}
+          onOpenChange={setInviteDialogOpen}
+          inviteUrl={inviteUrl}
+          expiresAt={club.inviteExpiresAt ?? null}
+          onRegenerate={regenerateInvite}
+        />
+      )}
+
+      <LeaveClubDialog
+        key={String(leaveDialogOpen)}
+        open={leaveDialogOpen}
+        onOpenChange={setLeaveDialogOpen}
+        clubName={club.name}
+        isOwner={isOwner}
+        otherMembers={otherMembers}
+        onLeave={handleLeaveClub}
+      />
+
       <main className="container py-6 sm:py-8 space-y-8">
         {/* Back link + Club banner */}
         <div className="space-y-2">
@@ -281,19 +416,33 @@ export default function ClubPage() {
                 {copied ? <Check className="w-4 h-4" /> : <Link2 className="w-4 h-4" />}
                 <span className="hidden sm:inline">{copied ? 'Copied!' : 'Invite'}</span>
               </Button>
-              {isOwner && (
-                <DropdownMenu>
-                  <DropdownMenuTrigger asChild>
-                    <Button variant="ghost" size="icon" className="hover:bg-amber-100/50 dark:hover:bg-amber-900/30">
-                      <Settings className="w-4 h-4" />
-                    </Button>
-                  </DropdownMenuTrigger>
-                  <DropdownMenuContent align="end" className="bg-popover font-sans">
-                    <DropdownMenuItem onClick={handleOpenEditDialog}>
-                      <Pencil className="w-4 h-4 mr-2" />
-                      Edit Club
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="ghost" size="icon" className="hover:bg-amber-100/50 dark:hover:bg-amber-900/30">
+                    <Settings className="w-4 h-4" />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end" className="bg-popover font-sans">
+                  {isHost && (
+                    <>
+                      <DropdownMenuItem onClick={handleOpenEditDialog}>
+                        <Pencil className="w-4 h-4 mr-2" />
+                        Edit Club
+                      </DropdownMenuItem>
+                      <DropdownMenuItem onClick={() => setInviteDialogOpen(true)}>
+                        <Link2 className="w-4 h-4 mr-2" />
+                        Invite Link
+                      </DropdownMenuItem>
+                      <DropdownMenuSeparator />
+                    </>
+                  )}
+                  {(!isOwner || otherMembers.length > 0) && (
+                    <DropdownMenuItem onClick={() => setLeaveDialogOpen(true)}>
+                      <LogOut className="w-4 h-4 mr-2" />
+                      {isOwner ? 'Hand Over and Leave' : 'Leave Club'}
                     </DropdownMenuItem>
-                    <DropdownMenuSeparator />
+                  )}
+                  {isOwner && (
                     <AlertDialog>
                       <AlertDialogTrigger asChild>
                         <DropdownMenuItem
@@ -319,9 +468,9 @@ export default function ClubPage() {
                         </AlertDialogFooter>
                       </AlertDialogContent>
                     </AlertDialog>
-                  </DropdownMenuContent>
-                </DropdownMenu>
-              )}
+                  )}
+                </DropdownMenuContent>
+              </DropdownMenu>
             </div>
           </div>
         </div>
@@ -365,7 +514,7 @@ export default function ClubPage() {
                       <BookMarked className="w-4 h-4 mr-1.5" />
                       {isOnShelf(currentlyReading.title, currentlyReading.author) ? 'On Shelf' : 'Add to Shelf'}
                     </Button>
-                    {isOwner && (
+                    {isHost && (
                       <>
                         <AlertDialog>
                           <AlertDialogTrigger asChild>
@@ -415,10 +564,43 @@ export default function ClubPage() {
                   </div>
                 </div>
               </div>
+              <ReadingSchedule
+                milestones={getMilestonesForSuggestion(currentlyReading.id)}
+                positions={getPositionsForSuggestion(currentlyReading.id)}
+                memberCount={members.length}
+                userPosition={getUserPosition(currentlyReading.id)}
+                isHost={isHost}
+                onAddMilestone={(label, dueDate) => addMilestone(currentlyReading.id, label, dueDate)}
+                onRemoveMilestone={removeMilestone}
+                onSetPosition={(milestoneId) => handleSetReadingPosition(currentlyReading.id, milestoneId)}
+              />
+              <ClubDiscussions
+                {...threadHandlers}
+                threads={getThreadsForSuggestion(currentlyReading.id)}
+                milestones={getMilestonesForSuggestion(currentlyReading.id)}
+                userPosition={getUserPosition(currentlyReading.id)}
+                onCreateThread={(input) => createThread({ ...input, suggestionId: currentlyReading.id })}
+              />
             </div>
           </section>
         )}
 
+        {/* Meetings Section */}
+        <ClubMeetingsSection
+          clubName={club.name}
+          isHost={isHost}
+          meetings={meetings}
+          members={members}
+          suggestions={suggestions}
+          getUserRsvp={getUserRsvp}
+          getRsvpsForMeeting={getRsvpsForMeeting}
+          onSchedule={scheduleMeeting}
+          onUpdate={updateMeeting}
+          onCancel={cancelMeeting}
+          onRsvp={setRsvp}
+          onGetCalendarFeedUrl={getCalendarFeedUrl}
+        />
+
         {/* Suggestions Section */}
         <section className="space-y-4">
           <div className="flex flex-wrap items-center justify-between gap-3">
@@ -434,6 +616,20 @@ export default function ClubPage() {
             />
           </div>
 
+          <VotingRoundPanel
+            round={round}
+            ballots={ballots}
+            turnout={turnout}
+            memberCount={members.length}
+            userBallot={userBallot}
+            suggestions={suggestions}
+            isHost={isHost}
+            onOpenRound={openRound}
+            onCastBallot={castBallot}
+            onCloseRound={closeRound}
+            onCancelRound={cancelRound}
+          />
+
           {suggestedBooks.length === 0 ? (
             <div className="text-center py-12 border rounded-lg bg-muted/20">
               <Library className="w-12 h-12 mx-auto text-muted-foreground mb-3" />
@@ -449,10 +645,12 @@ export default function ClubPage() {
                 <SuggestionCard
                   key={suggestion.id}
                   suggestion={suggestion}
-                  isOwner={isOwner}
+                  isHost={isHost}
+                  canModerate={canModerate}
                   currentUserId={user?.id}
                   isOnShelf={isOnShelf(suggestion.title, suggestion.author)}
                   voters={getVotesForSuggestion(suggestion.id)}
+                  showVote={!activeRound}
                   onVote={() => vote(suggestion.id)}
                   onSetReading={() => updateSuggestionStatus(suggestion.id, 'reading')}
                   onRemove={() => removeSuggestion(suggestion.id)}
@@ -475,6 +673,7 @@ export default function ClubPage() {
               {pastReads.map((book) => {
                 const bookReflections = getReflectionsForSuggestion(book.id);
                 const userReflection = bookReflections.find(r => r.userId === user?.id);
+                const bookMilestones = getMilestonesForSuggestion(book.id);
                 return (
                   <PastReadCard
                     key={book.id}
@@ -490,12 +689,29 @@ export default function ClubPage() {
                     hasUserReflected={hasReflectedOn(book.id)}
                     userReflection={userReflection}
                     isOnShelf={isOnShelf(book.title, book.author)}
-                    onAddReflection={(rating, content, isAnonymous) => 
-                      addReflection(book.id, rating, content, isAnonymous)
-                    }
+                    hiddenReflectionCount={hiddenReflectionCounts.get(book.id)}
+                    onMarkFinished={bookMilestones.length > 0
+                      ? () => handleSetReadingPosition(book.id, bookMilestones[bookMilestones.length - 1].id)
+                      : undefined}
+                    onAddReflection={async (rating, content, isAnonymous) => {
+                      const success = await addReflection(book.id, rating, content, isAnonymous);
+                      // Sharing a reflection marks the book finished, which may unhide others'
+                      if (success) await Promise.all([refetchSchedule(), refetchThreads()]);
+                      return success;
+                    }}
                     onUpdateReflection={updateReflection}
                     onDeleteReflection={deleteReflection}
+                    onRemoveReflection={canModerate ? removeReflection : undefined}
                     onAddToShelf={() => handleAddToShelf(book.title, book.author, book.coverUrl)}
+                    discussions={
+                      <ClubDiscussions
+                        {...threadHandlers}
+                        readOnly
+                        threads={getThreadsForSuggestion(book.id)}
+                        milestones={bookMilestones}
+                        userPosition={getUserPosition(book.id)}
+                      />
+                    }
                   />
                 );
               })}
@@ -504,66 +720,20 @@ export default function ClubPage() {
         )}
 
         {/* Members Section */}
-        <section className="space-y-4">
-          <div className="flex items-center gap-2">
-            <Users className="w-5 h-5 text-muted-foreground" />
-            <h2 className="text-lg font-semibold font-sans">Members</h2>
-            <Badge variant="outline">{members.length}</Badge>
-          </div>
-          <div className="grid gap-2 sm:grid-cols-2 lg:grid-cols-3">
-            {members.map((member) => (
-              <MemberCard key={member.id} member={member} ownerId={club.ownerId} />
-            ))}
-          </div>
-        </section>
+        <ClubMembersSection
+          members={members}
+          currentUserId={user?.id}
+          currentRole={role}
+          bans={bans}
+          onSetRole={setMemberRole}
+          onRemove={removeMember}
+          onLiftBan={liftBan}
+        />
       </main>
     </div>
   );
 }
 
-// Member Card Component
-interface MemberCardProps {
-  member: ClubMemberWithProfile;
-  ownerId: string;
-}
-
-function MemberCard({ member, ownerId }: MemberCardProps) {
-  const isOwner = member.userId === ownerId;
-  const displayName = member.displayName || 'Anonymous';
-  const initials = displayName.slice(0, 2).toUpperCase();
-  
-  const content = (
-    <div className="flex items-center gap-3 p-3 rounded-lg border bg-card hover:bg-muted/30 transition-colors">
-      <Avatar className="h-9 w-9">
-        <AvatarFallback className="text-xs bg-primary/10 text-primary">
-          {initials}
-        </AvatarFallback>
-      </Avatar>
-      <div className="flex-1 min-w-0">
-        <div className="flex items-center gap-2">
-          <p className="font-medium truncate font-sans text-sm">{displayName}</p>
-          {isOwner && (
-            <Crown className="w-3.5 h-3.5 text-amber-500 shrink-0" />
-          )}
-        </div>
-      </div>
-      {member.isPublic && member.shareId && (
-        <ExternalLink className="w-4 h-4 text-muted-foreground shrink-0" />
-      )}
-    </div>
-  );
-
-  if (member.isPublic && member.shareId) {
-    return (
-      <Link to={`/shelf/${member.shareId}`} className="block">
-        {content}
-      </Link>
-    );
-  }
-
-  return content;
-}
-
 // Suggestion Card Component
 interface SuggestionCardProps {
   suggestion: {
@@ -575,10 +745,14 @@ interface SuggestionCardProps {
     voteCount?: number;
     hasVoted?: boolean;
   };
-  isOwner: boolean;
+  isHost: boolean;
+  /** Moderators can remove anyone's suggestion */
+  canModerate: boolean;
   currentUserId?: string;
   isOnShelf: boolean;
   voters: VoteWithUser[];
+  /** Quick votes are hidden while a voting round is open */
+  showVote: boolean;
   onVote: () => void;
   onSetReading: () => void;
   onRemove: () => void;
@@ -587,16 +761,18 @@ interface SuggestionCardProps {
 
 function SuggestionCard({
   suggestion,
-  isOwner,
+  isHost,
+  canModerate,
   currentUserId,
   isOnShelf,
   voters,
+  showVote,
   onVote,
   onSetReading,
   onRemove,
   onAddToShelf,
 }: SuggestionCardProps) {
-  const canRemove = isOwner || suggestion.suggestedBy === currentUserId;
+  const canRemove = canModerate || suggestion.suggestedBy === currentUserId;
 
   return (
     <div className="p-3 rounded-lg border hover:bg-muted/30 transition-colors">
@@ -667,15 +843,17 @@ function SuggestionCard({
       </div>
       {/* Action buttons - separate row on mobile to prevent clipping */}
       <div className="flex items-center gap-1 mt-3 ml-[60px]">
-        <Button
-          variant={suggestion.hasVoted ? 'default' : 'outline'}
-          size="sm"
-          onClick={onVote}
-          className="gap-1.5"
-        >
-          <ThumbsUp className={cn('w-4 h-4', suggestion.hasVoted && 'fill-current')} />
-          {suggestion.voteCount || 0}
-        </Button>
+        {showVote && (
+          <Button
+            variant={suggestion.hasVoted ? 'default' : 'outline'}
+            size="sm"
+            onClick={onVote}
+            className="gap-1.5"
+          >
+            <ThumbsUp className={cn('w-4 h-4', suggestion.hasVoted && 'fill-current')} />
+            {suggestion.voteCount || 0}
+          </Button>
+        )}
         <Button
           variant="ghost"
           size="sm"
@@ -685,7 +863,7 @@ function SuggestionCard({
         >
           <BookMarked className={cn('w-4 h-4', isOnShelf && 'fill-current text-primary')} />
         </Button>
-        {(isOwner || canRemove) && (
+        {(isHost || canRemove) && (
           <DropdownMenu>
             <DropdownMenuTrigger asChild>
               <Button variant="ghost" size="icon" className="shrink-0">
@@ -693,7 +871,7 @@ function SuggestionCard({
               </Button>
             </DropdownMenuTrigger>
             <DropdownMenuContent align="end" className="bg-popover">
-              {isOwner && (
+              {isHost && (
                 <DropdownMenuItem onClick={onSetReading}>
                   <Play className="w-4 h-4 mr-2" />
                   Set as Currently Reading
@@ -12,13 +12,19 @@ import { RecommendBookDialog } from '@/components/RecommendBookDialog';
 import { SendMysteryBookDialog } from '@/components/SendMysteryBookDialog';
 import { MysteryBookUnwrapDialog } from '@/components/MysteryBookUnwrapDialog';
 import { MysteryBookCta } from '@/components/MysteryBookCta';
+import { ReadingGoalCard } from '@/components/ReadingGoalCard';
+import { ActivityFeedPanel } from '@/components/ActivityFeedPanel';
+import { ImportProgressBanner } from '@/components/ImportProgressBanner';
 
 import { ControlsSkeleton, QuoteSkeleton } from '@/components/ShelfSkeleton';
 import { ShelfSwitcher } from '@/components/ShelfSwitcher';
 import { BookActionsDropdown } from '@/components/BookActionsDropdown';
+import { ManageShelvesDialog } from '@/components/ManageShelvesDialog';
+import { LibrarySearchDialog } from '@/components/LibrarySearchDialog';
+import { BookDetailDialog } from '@/components/BookDetailDialog';
 
 import { Button } from '@/components/ui/button';
-import { Gift } from 'lucide-react';
+import { Gift, Search } from 'lucide-react';
 import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
 
 import { useBooksContext } from '@/contexts/BooksContext';
@@ -30,9 +36,11 @@ import { useIsbndbDemoBooks } from '@/hooks/useIsbndbDemoBooks';
 import { useViewedShelf } from '@/hooks/useViewedShelf';
 import { useMysteryBooks, MysteryBook } from '@/hooks/useMysteryBooks';
 import { useShelfSettingsContext } from '@/contexts/ShelfSettingsContext';
+import { useShelvesContext } from '@/contexts/ShelvesContext';
 import { BookStatus, SortOption, Book, BackgroundTheme } from '@/types/book';
 
 import { cn } from '@/lib/utils';
+import { sortByShelfPosition, moveBookId, DropPlacement } from '@/lib/shelfOrder';
 import { toast } from 'sonner';
 
 // Seeded random for consistent shuffle per session
@@ -81,6 +89,15 @@ function sortBooks(books: Book[], sortOption: SortOption, shuffleSeed: number):
         if (authorDiff !== 0) return authorDiff;
         return a.title.localeCompare(b.title);
       });
+    case 'rating':
+      // Highest rated first; unrated books go last
+      return [...books].sort((a, b) => {
+        const ratingDiff = (b.rating ?? 0) - (a.rating ?? 0);
+        if (ratingDiff !== 0) return ratingDiff;
+        return a.title.localeCompare(b.title);
+      });
+    case 'custom':
+      return sortByShelfPosition(books);
     default:
       return books;
   }
@@ -93,8 +110,13 @@ export default function Index() {
   const [activeCategoryFilters, setActiveCategoryFilters] = useState<string[]>([]);
   const [sortOption, setSortOption] = useState<SortOption>('random');
   const [shuffleSeed, setShuffleSeed] = useState(() => Date.now());
+  const [groupSeries, setGroupSeries] = useState(false);
   const [recommendDialogOpen, setRecommendDialogOpen] = useState(false);
   const [mysteryBookDialogOpen, setMysteryBookDialogOpen] = useState(false);
+  const [activeShelfId, setActiveShelfId] = useState<string | null>(null);
+  const [manageShelvesOpen, setManageShelvesOpen] = useState(false);
+  const [searchOpen, setSearchOpen] = useState(false);
+  const [searchSelectedBookId, setSearchSelectedBookId] = useState<string | null>(null);
 
   // Deep-link unwrap dialog state
   const [unwrapDialogOpen, setUnwrapDialogOpen] = useState(false);
@@ -153,15 +175,23 @@ export default function Index() {
     addBook,
     removeBook,
     moveBook,
+    setBookHidden,
     updateBookCompletedAt,
+    logProgress,
+    updateBookReview,
+    reorderBooks,
+    deleteProgress,
     refetchBooks,
   } = useBooksContext();
 
   // Get current user's shelf settings for share URL
   const { settings: shelfSettings } = useShelfSettingsContext();
 
+  // Named shelves (own shelf only)
+  const { shelves } = useShelvesContext();
+
   // Get club books for highlighting
-  const { getBookClubs } = useClubBooks();
+  const { getBookClubs, clubsWithBooks } = useClubBooks();
 
   // Get notifications for like badges (use totalLikesPerBook for persistent heart stickers)
   const { totalLikesPerBook } = useNotifications();
@@ -178,6 +208,11 @@ export default function Index() {
     }));
   }, [getBookClubs]);
 
+  // Club ids per book, for the search palette's club filter
+  const getBookClubIds = useCallback((book: Book) => {
+    return getBookClubs(book.title, book.author).map(c => c.clubId);
+  }, [getBookClubs]);
+
   // Get all books - friend's books when viewing, ISBNdb demo for guests, real for authenticated users
   const ownBooks = useMemo(() => {
     return user ? books : isbndbDemoBooks;
@@ -205,10 +240,52 @@ export default function Index() {
     toast.success(`Added "${book.title}" to your shelf`);
   }, [addBook, isBookOnShelf]);
 
-  // Display books: friend's shelf when viewing, otherwise own books
+  // Book opened from search - looked up live so edits in the detail dialog show straight away
+  const searchSelectedBook = useMemo(() => {
+    if (!searchSelectedBookId) return null;
+    return books.find((b) => b.id === searchSelectedBookId) || null;
+  }, [searchSelectedBookId, books]);
+
+  // Cmd/Ctrl+K opens library search on your own shelf
+  useEffect(() => {
+    if (!user || isViewingFriend) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key.toLowerCase() === 'k' && (e.metaKey || e.ctrlKey)) {
+        e.preventDefault();
+        setSearchOpen((open) => !open);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [user, isViewingFriend]);
+
+  // Drag-and-drop in custom order; positions are kept across the whole library so filtered views stay consistent
+  const handleReorderBook = useCallback((draggedId: string, targetId: string, placement: DropPlacement) => {
+    const orderedIds = sortByShelfPosition(books).map((b) => b.id);
+    const nextIds = moveBookId(orderedIds, draggedId, targetId, placement);
+    if (nextIds !== orderedIds) reorderBooks(nextIds);
+  }, [books, reorderBooks]);
+
+  // Selected named shelf - only applies to your own shelf
+  const activeShelf = useMemo(() => {
+    if (isViewingFriend || !activeShelfId) return null;
+    return shelves.find((s) => s.id === activeShelfId) || null;
+  }, [isViewingFriend, activeShelfId, shelves]);
+
+  // Shelf picker options with live book counts
+  const shelfOptions = useMemo(() => {
+    return shelves.map((s) => ({ id: s.id, name: s.name, bookCount: s.bookIds.length }));
+  }, [shelves]);
+
+  // Display books: friend's shelf when viewing, otherwise own books (narrowed to the named shelf, in shelf order)
   const displayBooks = useMemo(() => {
-    return isViewingFriend ? viewedBooks : ownBooks;
-  }, [isViewingFriend, viewedBooks, ownBooks]);
+    if (isViewingFriend) return viewedBooks;
+    if (!activeShelf) return ownBooks;
+    const booksById = new Map(ownBooks.map((b) => [b.id, b]));
+    return activeShelf.bookIds
+      .map((id) => booksById.get(id))
+      .filter((b): b is Book => !!b);
+  }, [isViewingFriend, viewedBooks, ownBooks, activeShelf]);
 
   // Extract unique categories from displayed books, sorted by frequency
   const availableCategories = useMemo(() => {
@@ -351,6 +428,15 @@ export default function Index() {
                  {/* Mystery Book CTA - own shelf only, with books */}
                  {user && !isViewingFriend && ownBooks.length > 0 && <MysteryBookCta />}
 
+                 {/* Background import progress - own shelf only */}
+                 {user && !isViewingFriend && <ImportProgressBanner />}
+
+                 {/* Reading goals - own shelf only */}
+                 {user && !isViewingFriend && <ReadingGoalCard books={ownBooks} />}
+
+                 {/* Friends' activity - own shelf only */}
+                 {user && !isViewingFriend && <ActivityFeedPanel />}
+
                  {/* Controls - filters on left, + button on right */}
                  <div className="flex items-center justify-between gap-2 sm:mb-3">
                   {/* Left: ShelfSwitcher (mobile) + Filters */}
@@ -372,14 +458,35 @@ export default function Index() {
                       availableCategories={availableCategories}
                       activeCategoryFilters={activeCategoryFilters}
                       onCategoryFilterChange={setActiveCategoryFilters}
+                      shelves={user && !isViewingFriend ? shelfOptions : undefined}
+                      activeShelfId={activeShelf?.id ?? null}
+                      onShelfChange={user && !isViewingFriend ? setActiveShelfId : undefined}
+                      onManageShelves={user && !isViewingFriend ? () => setManageShelvesOpen(true) : undefined}
+                      groupSeries={groupSeries}
+                      onGroupSeriesChange={setGroupSeries}
                       compact={isMobile}
                       spread={!user && isMobile}
                     />
                   </div>
 
-                  {/* Right: + button + mystery book */}
+                  {/* Right: search + add button + mystery book */}
                   {user && (
                     <div className="shrink-0 flex items-center gap-1.5">
+                      {!isViewingFriend && (
+                        <Tooltip>
+                          <TooltipTrigger asChild>
+                            <Button
+                              variant="outline"
+                              size="icon"
+                              className="h-9 w-9"
+                              onClick={() => setSearchOpen(true)}
+                            >
+                              <Search className="h-4 w-4" />
+                            </Button>
+                          </TooltipTrigger>
+                          <TooltipContent>Search your library (⌘K)</TooltipContent>
+                        </Tooltip>
+                      )}
                       {isViewingFriend && viewedUser && (
                         <>
                           {/* Desktop: labeled button */}
@@ -426,6 +533,9 @@ export default function Index() {
                      onMoveBook={user && !isViewingFriend ? moveBook : undefined}
                      onRemoveBook={user && !isViewingFriend ? removeBook : undefined}
                      onUpdateCompletedAt={user && !isViewingFriend ? updateBookCompletedAt : undefined}
+                     onLogProgress={user && !isViewingFriend ? logProgress : undefined}
+                     onUpdateReview={user && !isViewingFriend ? updateBookReview : undefined}
+                     onDeleteProgress={user && !isViewingFriend ? deleteProgress : undefined}
                      getBookClubInfo={user && !isViewingFriend ? getBookClubInfo : undefined}
                      likesPerBook={user && !isViewingFriend ? totalLikesPerBook : undefined}
                      viewingUsername={viewedUser?.username}
@@ -434,6 +544,10 @@ export default function Index() {
                      isOwner={!isViewingFriend}
                      ownerName={viewedUser?.username}
                      onRecommendBook={user && isViewingFriend && viewedBooks.length === 0 ? () => setRecommendDialogOpen(true) : undefined}
+                     emptyMessage={activeShelf ? `Nothing on "${activeShelf.name}" yet. Add books from their details.` : undefined}
+                     onReorderBook={user && !isViewingFriend && sortOption === 'custom' ? handleReorderBook : undefined}
+                     groupSeries={groupSeries && sortOption !== 'custom'}
+                     onSetBookHidden={user && !isViewingFriend ? setBookHidden : undefined}
                    />
                  ) : (
                    <Bookshelf
@@ -444,6 +558,9 @@ export default function Index() {
                      onMoveBook={user && !isViewingFriend ? moveBook : undefined}
                      onRemoveBook={user && !isViewingFriend ? removeBook : undefined}
                      onUpdateCompletedAt={user && !isViewingFriend ? updateBookCompletedAt : undefined}
+                     onLogProgress={user && !isViewingFriend ? logProgress : undefined}
+                     onUpdateReview={user && !isViewingFriend ? updateBookReview : undefined}
+                     onDeleteProgress={user && !isViewingFriend ? deleteProgress : undefined}
                      getBookClubInfo={user && !isViewingFriend ? getBookClubInfo : undefined}
                      likesPerBook={user && !isViewingFriend ? totalLikesPerBook : undefined}
                      viewingUsername={viewedUser?.username}
@@ -452,6 +569,10 @@ export default function Index() {
                      isOwner={!isViewingFriend}
                      ownerName={viewedUser?.username}
                      onRecommendBook={user && isViewingFriend && viewedBooks.length === 0 ? () => setRecommendDialogOpen(true) : undefined}
+                     emptyMessage={activeShelf ? `Nothing on "${activeShelf.name}" yet. Add books from their details.` : undefined}
+                     onReorderBook={user && !isViewingFriend && sortOption === 'custom' ? handleReorderBook : undefined}
+                     groupSeries={groupSeries && sortOption !== 'custom'}
+                     onSetBookHidden={user && !isViewingFriend ? setBookHidden : undefined}
                    />
                  )}
               </>
@@ -469,6 +590,40 @@ export default function Index() {
       {/* Onboarding tips for new users */}
       {user && ownBooks.length > 0 && !isViewingFriend && <OnboardingTips />}
 
+      {/* Named shelf management */}
+      {user && (
+        <ManageShelvesDialog
+          open={manageShelvesOpen}
+          onOpenChange={setManageShelvesOpen}
+        />
+      )}
+
+      {/* Library search palette and the book it opens */}
+      {user && (
+        <>
+          <LibrarySearchDialog
+            open={searchOpen}
+            onOpenChange={setSearchOpen}
+            books={books}
+            clubs={clubsWithBooks}
+            getBookClubIds={getBookClubIds}
+            onSelectBook={(book) => setSearchSelectedBookId(book.id)}
+          />
+          <BookDetailDialog
+            book={searchSelectedBook}
+            open={!!searchSelectedBook}
+            onOpenChange={(open) => !open && setSearchSelectedBookId(null)}
+            onUpdateCompletedAt={updateBookCompletedAt}
+            onLogProgress={logProgress}
+            onDeleteProgress={deleteProgress}
+            onUpdateReview={updateBookReview}
+            onMove={moveBook}
+            onRemove={removeBook}
+            onSetHidden={setBookHidden}
+          />
+        </>
+      )}
+
       {/* Recommend book dialog for empty friend shelves */}
       {viewedUser && (
         <RecommendBookDialog
@@ -7,6 +7,11 @@ import { Button } from '@/components/ui/button';
 import { ThemeToggle } from '@/components/ThemeToggle';
 import { AuthButton } from '@/components/AuthButton';
 import { FollowTabs } from '@/components/FollowTabs';
+import { UserSafetyMenu } from '@/components/UserSafetyMenu';
+import { ReadingGoalCard } from '@/components/ReadingGoalCard';
+import { ReadingGoalProgress } from '@/components/ReadingGoalProgress';
+import { useBooksContext } from '@/contexts/BooksContext';
+import { PublicReadingGoal, formatGoalLabel, getGoalPeriodStart, parsePublicGoal } from '@/lib/readingGoals';
 import { Library, ArrowLeft, BookOpen, User, ExternalLink } from 'lucide-react';
 import { Loader2 } from 'lucide-react';
 import type { Profile } from '@/hooks/useProfile';
@@ -19,9 +24,11 @@ interface PublicShelfInfo {
 
 export default function ProfilePage() {
   const { user } = useAuth();
+  const { books, loading: booksLoading } = useBooksContext();
   const { username } = useParams<{ username: string }>();
   const [profile, setProfile] = useState<Profile | null>(null);
   const [shelfInfo, setShelfInfo] = useState<PublicShelfInfo | null>(null);
+  const [readingGoal, setReadingGoal] = useState<PublicReadingGoal | null>(null);
   const [loading, setLoading] = useState(true);
   const [notFound, setNotFound] = useState(false);
 
@@ -55,12 +62,11 @@ export default function ProfilePage() {
         updatedAt: profileData.updated_at,
       });
 
-      // Check if they have a public shelf
+      // Check if their shelf is visible to us (RLS applies the owner's visibility setting)
       const { data: shelfData } = await supabase
         .from('shelf_settings')
         .select('share_id, display_name, is_public')
         .eq('user_id', profileData.user_id)
-        .eq('is_public', true)
         .maybeSingle();
 
       if (shelfData) {
@@ -70,6 +76,11 @@ export default function ProfilePage() {
           isPublic: shelfData.is_public,
         });
 
+        // Current reading goal is only exposed through the public shelf
+        if (shelfData.share_id) {
+          const { data: publicInfo } = await supabase.rpc('get_public_shelf_info', { _share_id: shelfData.share_id });
+          setReadingGoal(publicInfo?.[0] ? parsePublicGoal(publicInfo[0]) : null);
+        }
       }
 
       setLoading(false);
@@ -159,7 +170,10 @@ export default function ProfilePage() {
           </Avatar>
 
           {/* Username */}
-          <h1 className="text-2xl font-sans font-semibold mb-1">{profile.username}</h1>
+          <div className="flex items-center justify-center gap-1 mb-1">
+            <h1 className="text-2xl font-sans font-semibold">{profile.username}</h1>
+            <UserSafetyMenu targetUserId={profile.userId} targetUsername={profile.username} />
+          </div>
           <p className="text-sm text-muted-foreground mb-4">Member since {memberSince}</p>
 
           {/* Public shelf link */}
@@ -181,6 +195,18 @@ export default function ProfilePage() {
             </p>
           )}
 
+          {/* Reading goal - editable on your own profile */}
+          {isOwnProfile ? (
+            !booksLoading && <ReadingGoalCard books={books} className="text-left mb-6" />
+          ) : readingGoal && (
+            <ReadingGoalProgress
+              label={formatGoalLabel(readingGoal.period, getGoalPeriodStart(readingGoal.period))}
+              metric={readingGoal.metric}
+              progress={readingGoal.progress}
+              className="text-left mb-6"
+            />
+          )}
+
           {/* Followers/Following Tabs */}
           <div className="flex justify-center">
             <FollowTabs targetUserId={profile.userId} isOwnProfile={isOwnProfile} />
@@ -1,5 +1,5 @@
 import { useState, useEffect, useMemo, useCallback } from 'react';
-import { useParams, Link } from 'react-router-dom';
+import { useParams, Link, useNavigate } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
 import { Bookshelf } from '@/components/Bookshelf';
 import { MobileBookshelf } from '@/components/MobileBookshelf';
@@ -10,17 +10,21 @@ import { ShelfControls } from '@/components/ShelfControls';
 import { ThemeToggle } from '@/components/ThemeToggle';
 import { AuthButton } from '@/components/AuthButton';
 import { FollowButton } from '@/components/FollowButton';
+import { UserSafetyMenu } from '@/components/UserSafetyMenu';
 import { InlineShelfNameEditor } from '@/components/InlineShelfNameEditor';
+import { ReadingGoalProgress } from '@/components/ReadingGoalProgress';
 import { useAuth } from '@/contexts/AuthContext';
 import { useBooks } from '@/hooks/useBooks';
 import { useFollows } from '@/hooks/useFollows';
 import { useIsMobile } from '@/hooks/use-mobile';
-import { Book, ShelfSettings as ShelfSettingsType, BookStatus, SortOption, ShelfSkin, BackgroundTheme } from '@/types/book';
-import { Library, Loader2, Lock, BookOpen, User, ArrowLeft, Gift } from 'lucide-react';
+import { Book, ShelfSettings as ShelfSettingsType, BookStatus, SortOption, ShelfSkin, BackgroundTheme, ShelfVisibility } from '@/types/book';
+import { Library, Loader2, Lock, BookOpen, User, ArrowLeft, Gift, BarChart3 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
 import { toast } from 'sonner';
 import { cn } from '@/lib/utils';
+import { sortByShelfPosition } from '@/lib/shelfOrder';
+import { PublicReadingGoal, formatGoalLabel, getGoalPeriodStart, parsePublicGoal } from '@/lib/readingGoals';
 
 interface ShelfOwner {
   display_name: string | null;
@@ -29,6 +33,13 @@ interface ShelfOwner {
   user_id: string | null;
 }
 
+interface PublicNamedShelf {
+  id: string;
+  name: string;
+  description: string | null;
+  bookCount: number;
+}
+
 interface ShelfAppearance {
   shelfSkin: ShelfSkin;
   settings: ShelfSettingsType;
@@ -92,27 +103,42 @@ function sortBooks(books: Book[], sortOption: SortOption, shuffleSeed: number):
         if (authorDiff !== 0) return authorDiff;
         return a.title.localeCompare(b.title);
       });
+    case 'rating':
+      // Highest rated first; unrated books go last
+      return [...books].sort((a, b) => {
+        const ratingDiff = (b.rating ?? 0) - (a.rating ?? 0);
+        if (ratingDiff !== 0) return ratingDiff;
+        return a.title.localeCompare(b.title);
+      });
+    case 'custom':
+      return sortByShelfPosition(books);
     default:
       return books;
   }
 }
 
 export default function PublicShelf() {
-  const { shareId } = useParams<{ shareId: string }>();
+  const { shareId, shelfId } = useParams<{ shareId: string; shelfId?: string }>();
+  const navigate = useNavigate();
   const { user } = useAuth();
   const isMobile = useIsMobile();
   const { addBook, books: userBooks } = useBooks();
-  const { isFollowing } = useFollows();
+  const { isFollowing, isBlocked } = useFollows();
   
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  // Set when the shelf exists but its visibility keeps the current viewer out
+  const [restrictedAccess, setRestrictedAccess] = useState<{ visibility: ShelfVisibility; ownerId: string | null; username: string | null } | null>(null);
   const [shelfOwner, setShelfOwner] = useState<ShelfOwner | null>(null);
   const [shelfAppearance, setShelfAppearance] = useState<ShelfAppearance>(DEFAULT_APPEARANCE);
   const [books, setBooks] = useState<Book[]>([]);
+  const [namedShelves, setNamedShelves] = useState<PublicNamedShelf[]>([]);
+  const [readingGoal, setReadingGoal] = useState<PublicReadingGoal | null>(null);
   const [selectedBook, setSelectedBook] = useState<Book | null>(null);
   const [activeFilters, setActiveFilters] = useState<BookStatus[]>([]);
   const [activeCategoryFilters, setActiveCategoryFilters] = useState<string[]>([]);
   const [sortOption, setSortOption] = useState<SortOption>('random');
+  const [groupSeries, setGroupSeries] = useState(false);
   const [shuffleSeed, setShuffleSeed] = useState(() => Date.now());
   const [recommendDialogOpen, setRecommendDialogOpen] = useState(false);
   const [mysteryBookDialogOpen, setMysteryBookDialogOpen] = useState(false);
@@ -120,9 +146,12 @@ export default function PublicShelf() {
   // Determine if this is the owner viewing their own shelf
   const isOwner = user?.id === shelfOwner?.user_id;
 
-  // Check if the current user follows the shelf owner
-  const followsOwner = !!shelfOwner?.user_id && isFollowing(shelfOwner.user_id);
+  // Check if the current user follows the shelf owner (blocking removes follows, but the cache may lag)
+  const followsOwner = !!shelfOwner?.user_id && isFollowing(shelfOwner.user_id) && !isBlocked(shelfOwner.user_id);
   
+  // Following a followers-only shelf should open it straight away
+  const followsRestrictedOwner = !!restrictedAccess?.ownerId && isFollowing(restrictedAccess.ownerId);
+
   // Get a friendly name for the shelf owner
   const ownerDisplayName = shelfOwner?.display_name 
     || (shelfOwner?.username ? shelfOwner.username : 'This reader');
@@ -157,20 +186,34 @@ export default function PublicShelf() {
         return;
       }
 
+      setError(null);
+      setRestrictedAccess(null);
+
       try {
         // Fetch shelf info, owner username, and owner user_id using secure RPC functions
         // This prevents bulk enumeration of public shelves
-        const [shelfResult, usernameResult, ownerIdResult, appearanceResult] = await Promise.all([
+        const [shelfResult, usernameResult, ownerIdResult, appearanceResult, namedShelvesResult] = await Promise.all([
           supabase.rpc('get_public_shelf_info', { _share_id: shareId }),
           supabase.rpc('get_public_shelf_owner_username', { _share_id: shareId }),
           supabase.rpc('get_public_shelf_owner_id', { _share_id: shareId }),
           supabase.rpc('get_public_shelf_appearance', { _share_id: shareId }),
+          supabase.rpc('get_public_named_shelves', { _share_id: shareId }),
         ]);
 
         if (shelfResult.error) throw shelfResult.error;
         
         const shelfData = shelfResult.data?.[0];
         if (!shelfData) {
+          // Tell a restricted shelf apart from a missing one so we can say who it's shared with
+          const { data: accessData } = await supabase.rpc('get_shelf_access', { _share_id: shareId });
+          const access = accessData?.[0];
+          if (access) {
+            setRestrictedAccess({
+              visibility: access.visibility as ShelfVisibility,
+              ownerId: access.owner_id,
+              username: access.username,
+            });
+          }
           setError('Shelf not found');
           setLoading(false);
           return;
@@ -199,10 +242,26 @@ export default function PublicShelf() {
           username: usernameResult.data || null,
           user_id: ownerIdResult.data || null,
         });
+        setReadingGoal(parsePublicGoal(shelfData));
+
+        const publicNamedShelves: PublicNamedShelf[] = (namedShelvesResult.data || []).map((s) => ({
+          id: s.id,
+          name: s.name,
+          description: s.description,
+          bookCount: Number(s.book_count) || 0,
+        }));
+        setNamedShelves(publicNamedShelves);
+
+        // A named-shelf link must point at one of the owner's public shelves
+        if (shelfId && !publicNamedShelves.some((s) => s.id === shelfId)) {
+          setError('Shelf not found');
+          setLoading(false);
+          return;
+        }
 
         // Fetch books using secure RPC function (avoids exposing user_id)
         const { data: booksData, error: booksError } = await supabase
-          .rpc('get_public_shelf_books', { _share_id: shareId });
+          .rpc('get_public_shelf_books', { _share_id: shareId, _shelf_id: shelfId });
 
         if (booksError) throw booksError;
 
@@ -215,10 +274,18 @@ export default function PublicShelf() {
           status: string;
           cover_url: string | null;
           created_at: string;
+          completed_at: string | null;
           page_count: number | null;
           isbn: string | null;
           description: string | null;
           categories: string[] | null;
+          rating: number | null;
+          review: string | null;
+          review_has_spoilers: boolean | null;
+          reviewed_at: string | null;
+          shelf_position: number | null;
+          series_name: string | null;
+          series_position: number | null;
         }) => ({
           id: b.id,
           title: b.title,
@@ -227,13 +294,26 @@ export default function PublicShelf() {
           status: b.status as BookStatus,
           coverUrl: b.cover_url || '/placeholder.svg',
           createdAt: b.created_at,
+          completedAt: b.completed_at ?? undefined,
           pageCount: b.page_count ?? undefined,
           isbn: b.isbn ?? undefined,
           description: b.description ?? undefined,
           categories: b.categories ?? undefined,
+          rating: b.rating ?? undefined,
+          review: b.review ?? undefined,
+          reviewHasSpoilers: b.review_has_spoilers ?? false,
+          reviewedAt: b.reviewed_at ?? undefined,
+          shelfPosition: b.shelf_position ?? undefined,
+          seriesName: b.series_name ?? undefined,
+          seriesPosition: b.series_position ?? undefined,
         }));
 
         setBooks(transformedBooks);
+
+        // Show the owner's hand-arranged order if they've set one (named shelves keep their own order)
+        if (!shelfId && transformedBooks.some((b) => b.shelfPosition !== undefined)) {
+          setSortOption('custom');
+        }
       } catch (err) {
         console.error('Error loading public shelf:', err);
         setError('Failed to load shelf');
@@ -243,7 +323,7 @@ export default function PublicShelf() {
     }
 
     loadPublicShelf();
-  }, [shareId]);
+  }, [shareId, shelfId, user?.id, followsRestrictedOwner]);
 
   // Extract unique categories from all books, sorted by frequency
   const availableCategories = useMemo(() => {
@@ -286,6 +366,17 @@ export default function PublicShelf() {
     setSortOption('random');
   }, []);
 
+  // Switch between the whole library and a single named shelf
+  const handleShelfChange = useCallback((nextShelfId: string | null) => {
+    navigate(nextShelfId ? `/shelf/${shareId}/${nextShelfId}` : `/shelf/${shareId}`);
+  }, [navigate, shareId]);
+
+  const shelfOptions = useMemo(() => {
+    return namedShelves.map((s) => ({ id: s.id, name: s.name, bookCount: s.bookCount }));
+  }, [namedShelves]);
+
+  const activeNamedShelf = namedShelves.find((s) => s.id === shelfId);
+
   // Background theme helpers (same mapping as main shelf)
   const getBackgroundClass = (theme: BackgroundTheme) => {
     switch (theme) {
@@ -327,6 +418,34 @@ export default function PublicShelf() {
     );
   }
 
+  if (restrictedAccess) {
+    const ownerName = restrictedAccess.username || 'this reader';
+    const message = restrictedAccess.visibility === 'followers'
+      ? `Only people who follow ${ownerName} can see this shelf.`
+      : restrictedAccess.visibility === 'club'
+        ? `Only members of ${ownerName}'s book clubs can see this shelf.`
+        : 'The owner is keeping this shelf to themselves for now.';
+
+    return (
+      <div className="min-h-screen office-wall flex flex-col items-center justify-center gap-4 px-4 text-center">
+        <Lock className="w-12 h-12 text-muted-foreground" />
+        <h1 className="text-2xl font-display">
+          {restrictedAccess.visibility === 'private' ? 'This shelf is private' : 'This shelf is restricted'}
+        </h1>
+        <p className="text-muted-foreground">{message}</p>
+        {restrictedAccess.visibility === 'followers' && restrictedAccess.ownerId && (
+          <FollowButton targetUserId={restrictedAccess.ownerId} />
+        )}
+        <Link to="/">
+          <Button variant="outline" className="gap-2">
+            <ArrowLeft className="w-4 h-4" />
+            Go to Shelvy
+          </Button>
+        </Link>
+      </div>
+    );
+  }
+
   if (error) {
     return (
       <div className="min-h-screen office-wall flex flex-col items-center justify-center gap-4">
@@ -414,6 +533,31 @@ export default function PublicShelf() {
               toast.success('Shelf name updated!');
             }}
           />
+          {readingGoal && !activeNamedShelf && (
+            <ReadingGoalProgress
+              label={formatGoalLabel(readingGoal.period, getGoalPeriodStart(readingGoal.period))}
+              metric={readingGoal.metric}
+              progress={readingGoal.progress}
+              className="mt-3 max-w-xs"
+            />
+          )}
+          {!activeNamedShelf && books.some((b) => b.status === 'read') && (
+            <Link
+              to={`/shelf/${shareId}/stats`}
+              className="mt-2 inline-flex items-center gap-1.5 text-xs text-muted-foreground hover:text-foreground transition-colors"
+            >
+              <BarChart3 className="w-3.5 h-3.5" />
+              Reading stats
+            </Link>
+          )}
+          {activeNamedShelf && (
+            <div className="mt-1">
+              <p className="text-sm font-medium text-foreground/80">{activeNamedShelf.name}</p>
+              {activeNamedShelf.description && (
+                <p className="text-xs text-muted-foreground">{activeNamedShelf.description}</p>
+              )}
+            </div>
+          )}
         </div>
 
         {/* Controls row - Desktop */}
@@ -433,6 +577,11 @@ export default function PublicShelf() {
             <FollowButton targetUserId={shelfOwner.user_id} />
           )}
 
+          {/* Mute / block / report */}
+          {shelfOwner?.user_id && (
+            <UserSafetyMenu targetUserId={shelfOwner.user_id} targetUsername={shelfOwner.username ?? undefined} />
+          )}
+
           {/* Mystery Book button - only show if logged in and viewing someone else's shelf */}
           {user && shelfOwner?.user_id && !isOwner && followsOwner && (
             <Button
@@ -456,6 +605,11 @@ export default function PublicShelf() {
             availableCategories={availableCategories}
             activeCategoryFilters={activeCategoryFilters}
             onCategoryFilterChange={setActiveCategoryFilters}
+            shelves={shelfOptions}
+            activeShelfId={shelfId ?? null}
+            onShelfChange={handleShelfChange}
+            groupSeries={groupSeries}
+            onGroupSeriesChange={setGroupSeries}
           />
         </div>
 
@@ -466,6 +620,10 @@ export default function PublicShelf() {
             <FollowButton targetUserId={shelfOwner.user_id} iconOnly />
           )}
 
+          {shelfOwner?.user_id && (
+            <UserSafetyMenu targetUserId={shelfOwner.user_id} targetUsername={shelfOwner.username ?? undefined} />
+          )}
+
           {/* Mystery Book button - mobile icon only */}
           {user && shelfOwner?.user_id && !isOwner && followsOwner && (
             <Tooltip>
@@ -493,6 +651,11 @@ export default function PublicShelf() {
             availableCategories={availableCategories}
             activeCategoryFilters={activeCategoryFilters}
             onCategoryFilterChange={setActiveCategoryFilters}
+            shelves={shelfOptions}
+            activeShelfId={shelfId ?? null}
+            onShelfChange={handleShelfChange}
+            groupSeries={groupSeries}
+            onGroupSeriesChange={setGroupSeries}
             compact
           />
         </div>
@@ -508,6 +671,7 @@ export default function PublicShelf() {
             isOwner={isOwner}
             ownerName={ownerDisplayName}
             onRecommendBook={user && shelfOwner?.user_id && !isOwner ? () => setRecommendDialogOpen(true) : undefined}
+            groupSeries={groupSeries && sortOption !== 'custom'}
           />
         ) : (
           <Bookshelf
@@ -519,6 +683,7 @@ export default function PublicShelf() {
             isOwner={isOwner}
             ownerName={ownerDisplayName}
             onRecommendBook={user && shelfOwner?.user_id && !isOwner ? () => setRecommendDialogOpen(true) : undefined}
+            groupSeries={groupSeries && sortOption !== 'custom'}
           />
         )}
       </main>
@@ -0,0 +1,104 @@
+import { useState, useEffect } from 'react';
+import { useParams, Link } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { AppHeader } from '@/components/AppHeader';
+import { ReadingStatsView } from '@/components/stats/ReadingStatsView';
+import { Button } from '@/components/ui/button';
+import { Book, BookStatus } from '@/types/book';
+import { ArrowLeft, Loader2, Lock } from 'lucide-react';
+
+/**
+ * Reading stats for a public shelf (/shelf/:shareId/stats).
+ * Uses the same secure RPCs as PublicShelf, so only public shelves resolve.
+ */
+export default function PublicStatsPage() {
+  const { shareId } = useParams<{ shareId: string }>();
+  const [books, setBooks] = useState<Book[]>([]);
+  const [ownerName, setOwnerName] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchStats = async () => {
+      if (!shareId) {
+        setError('Shelf not found');
+        setLoading(false);
+        return;
+      }
+
+      try {
+        const [shelfResult, usernameResult, booksResult] = await Promise.all([
+          supabase.rpc('get_public_shelf_info', { _share_id: shareId }),
+          supabase.rpc('get_public_shelf_owner_username', { _share_id: shareId }),
+          supabase.rpc('get_public_shelf_books', { _share_id: shareId }),
+        ]);
+
+        if (shelfResult.error) throw shelfResult.error;
+        if (booksResult.error) throw booksResult.error;
+
+        const shelfData = shelfResult.data?.[0];
+        if (!shelfData) {
+          setError('Shelf not found');
+          return;
+        }
+
+        setOwnerName(shelfData.display_name || usernameResult.data || '');
+        setBooks(
+          (booksResult.data || []).map((b) => ({
+            id: b.id,
+            title: b.title,
+            author: b.author,
+            coverUrl: b.cover_url || '/placeholder.svg',
+            status: b.status as BookStatus,
+            createdAt: b.created_at,
+            completedAt: b.completed_at ?? undefined,
+            pageCount: b.page_count ?? undefined,
+            categories: b.categories ?? undefined,
+          }))
+        );
+      } catch (err) {
+        console.error('Error loading public stats:', err);
+        setError('Failed to load stats');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchStats();
+  }, [shareId]);
+
+  return (
+    <div className="min-h-screen bg-background">
+      <AppHeader />
+
+      <main className="container py-6 sm:py-8 max-w-3xl space-y-4">
+        <Link
+          to={`/shelf/${shareId}`}
+          className="flex items-center gap-1.5 text-sm text-muted-foreground hover:text-foreground transition-colors"
+        >
+          <ArrowLeft className="w-4 h-4" />
+          Back to shelf
+        </Link>
+
+        {loading ? (
+          <div className="flex justify-center py-16">
+            <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
+          </div>
+        ) : error ? (
+          <div className="text-center py-16">
+            <Lock className="w-12 h-12 mx-auto text-muted-foreground mb-4" />
+            <h1 className="text-2xl font-sans font-semibold mb-2">{error}</h1>
+            <p className="text-muted-foreground mb-6">
+              This shelf may be private or no longer exist.
+            </p>
+            <Button asChild>
+              <Link to="/">Go home</Link>
+            </Button>
+          </div>
+        ) : (
+          <ReadingStatsView books={books} ownerName={ownerName} />
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,43 @@
+import { useNavigate } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import { useProfile } from '@/contexts/ProfileContext';
+import { useBooksContext } from '@/contexts/BooksContext';
+import { AppHeader } from '@/components/AppHeader';
+import { ReadingStatsView } from '@/components/stats/ReadingStatsView';
+import { Button } from '@/components/ui/button';
+import { ArrowLeft, BarChart3, Loader2 } from 'lucide-react';
+
+export default function StatsPage() {
+  const navigate = useNavigate();
+  const { user, loading: authLoading, setAuthDialogOpen } = useAuth();
+  const { profile } = useProfile();
+  const { books, loading: booksLoading } = useBooksContext();
+
+  return (
+    <div className="min-h-screen bg-background">
+      <AppHeader />
+
+      <main className="container py-6 sm:py-8 max-w-3xl space-y-4">
+        <button onClick={() => navigate('/')} className="flex items-center gap-1.5 text-sm text-muted-foreground hover:text-foreground transition-colors">
+          <ArrowLeft className="w-4 h-4" />
+          Back to shelf
+        </button>
+
+        {authLoading || (user && booksLoading) ? (
+          <div className="flex justify-center py-16">
+            <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
+          </div>
+        ) : !user ? (
+          <div className="text-center py-16">
+            <BarChart3 className="w-12 h-12 mx-auto text-muted-foreground mb-4" />
+            <h1 className="text-2xl font-sans font-semibold mb-2">Your reading stats</h1>
+            <p className="text-muted-foreground mb-6">Sign in to see charts of everything you've read.</p>
+            <Button onClick={() => setAuthDialogOpen(true)}>Sign in</Button>
+          </div>
+        ) : (
+          <ReadingStatsView books={books} ownerName={profile?.username || ''} />
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,62 @@
+import { useEffect, useRef, useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Loader2, MailX } from 'lucide-react';
+
+export default function UnsubscribePage() {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const [status, setStatus] = useState<'loading' | 'done' | 'error'>('loading');
+  const handled = useRef(false);
+
+  useEffect(() => {
+    if (handled.current) return;
+    handled.current = true;
+
+    const token = searchParams.get('token');
+    if (!token) {
+      setStatus('error');
+      return;
+    }
+
+    supabase.functions
+      .invoke('unsubscribe-digest', { body: { token } })
+      .then(({ error }) => {
+        if (error) {
+          console.error('Error unsubscribing from digest:', error);
+          setStatus('error');
+          return;
+        }
+        setStatus('done');
+      });
+  }, [searchParams]);
+
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center p-4">
+      <div className="text-center space-y-4 max-w-sm">
+        {status === 'loading' ? (
+          <>
+            <Loader2 className="w-8 h-8 animate-spin mx-auto text-muted-foreground" />
+            <p className="text-muted-foreground">Unsubscribing...</p>
+          </>
+        ) : (
+          <>
+            <MailX className="w-10 h-10 mx-auto text-muted-foreground" />
+            <h1 className="text-xl font-sans font-semibold">
+              {status === 'done' ? "You're unsubscribed" : "This link didn't work"}
+            </h1>
+            <p className="text-sm text-muted-foreground">
+              {status === 'done'
+                ? "You won't get the weekly digest anymore. You can turn it back on any time in Account Settings."
+                : "That unsubscribe link isn't valid. You can turn off the weekly digest in Account Settings."}
+            </p>
+            <Button variant="outline" onClick={() => navigate('/')}>
+              Go to your shelf
+            </Button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
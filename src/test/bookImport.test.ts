@@ -0,0 +1,70 @@
+import { describe, it, expect } from "vitest";
+import {
+  detectImportSource,
+  mapImportRow,
+  parseImportDate,
+  parseIsbn,
+  parseRating,
+  resolveColumnMapping,
+} from "@/lib/bookImport";
+
+describe("detectImportSource", () => {
+  it("recognizes each export by its headers", () => {
+    expect(detectImportSource(["Book Id", "Title", "Author", "My Rating", "Exclusive Shelf"])).toBe("goodreads");
+    expect(detectImportSource(["Title", "Authors", "ISBN/UID", "Read Status", "Star Rating"])).toBe("storygraph");
+    expect(detectImportSource(["Book Id", "Title", "Primary Author", "Collections", "Date Read"])).toBe("librarything");
+    expect(detectImportSource(["Name", "Writer"])).toBe("generic");
+  });
+});
+
+describe("parsers", () => {
+  it("cleans ISBNs from Goodreads and LibraryThing", () => {
+    expect(parseIsbn('="9780345391803"')).toBe("9780345391803");
+    expect(parseIsbn("[034539180X]")).toBe("034539180X");
+    expect(parseIsbn('=""')).toBeUndefined();
+  });
+
+  it("uses the end of a StoryGraph date range", () => {
+    const iso = parseImportDate("2023/01/02-2023/02/15");
+    expect(new Date(iso!).getMonth()).toBe(1);
+    expect(new Date(iso!).getDate()).toBe(15);
+  });
+
+  it("normalizes ratings to half stars", () => {
+    expect(parseRating("0")).toBeUndefined();
+    expect(parseRating("3.75")).toBe(4);
+    expect(parseRating("4.25")).toBe(4.5);
+    expect(parseRating("8")).toBe(4);
+  });
+});
+
+describe("mapImportRow", () => {
+  it("keeps ISBN, read date and rating from a Goodreads row", () => {
+    const headers = ["Title", "Author", "ISBN", "ISBN13", "My Rating", "Date Read", "Exclusive Shelf"];
+    const book = mapImportRow(
+      {
+        Title: "Dune",
+        Author: "Frank Herbert",
+        ISBN: '="0441013597"',
+        ISBN13: '="9780441013593"',
+        "My Rating": "5",
+        "Date Read": "2024/03/09",
+        "Exclusive Shelf": "read",
+      },
+      resolveColumnMapping(headers, "goodreads")
+    );
+
+    expect(book).toMatchObject({ title: "Dune", author: "Frank Herbert", status: "read", isbn: "9780441013593", rating: 5 });
+    expect(new Date(book!.completedAt!).getFullYear()).toBe(2024);
+  });
+
+  it("maps generic columns case-insensitively and infers read from a date", () => {
+    const headers = ["book title", "AUTHOR", "finished"];
+    const book = mapImportRow(
+      { "book title": "Piranesi", AUTHOR: "Clarke, Susanna", finished: "2022-11-01" },
+      resolveColumnMapping(headers, "generic")
+    );
+
+    expect(book).toMatchObject({ title: "Piranesi", author: "Clarke, Susanna", status: "read" });
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect } from "vitest";
+import { buildCalendar, type MeetingRow } from "../../supabase/functions/club-calendar/calendar";
+import { buildIcsCalendar } from "@/lib/ics";
+import { meetingToIcsEvent } from "@/lib/clubMeetings";
+
+const row = (id: string, overrides: Partial<MeetingRow> = {}): MeetingRow => ({
+  id,
+  starts_at: "2026-03-19T18:30:00+00:00",
+  duration_minutes: 90,
+  location: null,
+  video_url: null,
+  notes: null,
+  updated_at: "2026-03-02T00:00:00+00:00",
+  suggestion: null,
+  ...overrides,
+});
+
+// The same meeting as the app's single-meeting download sees it
+const appEvent = (meeting: MeetingRow, clubName: string) =>
+  meetingToIcsEvent(
+    {
+      id: meeting.id,
+      clubId: "club",
+      suggestionId: null,
+      createdBy: "owner",
+      startsAt: meeting.starts_at,
+      durationMinutes: meeting.duration_minutes,
+      location: meeting.location,
+      videoUrl: meeting.video_url,
+      notes: meeting.notes,
+      createdAt: meeting.updated_at,
+      updatedAt: meeting.updated_at,
+    },
+    clubName,
+    meeting.suggestion?.title,
+  );
+
+const events = (ics: string) => ics.match(/BEGIN:VEVENT\r\n[\s\S]*?END:VEVENT\r\n/g) ?? [];
+
+describe("club calendar feed", () => {
+  const clubName = "Night Owls; est. 2024, Leeds";
+  const meetings = [
+    row("m1", {
+      location: "Café Lumière, 12 Long Street; upstairs",
+      notes: `Bring snacks\nand ${"a very long note ".repeat(8)}`,
+      suggestion: { title: "Dune, Part One" },
+    }),
+    row("m2", { video_url: "https://meet.example.com/abc\r\nBEGIN:VEVENT" }),
+  ];
+  const ics = buildCalendar(clubName, meetings);
+
+  it("escapes text, folds long lines and ends every line with CRLF", () => {
+    expect(ics.startsWith("BEGIN:VCALENDAR\r\n")).toBe(true);
+    expect(ics.endsWith("END:VCALENDAR\r\n")).toBe(true);
+    expect(ics).toContain("X-WR-CALNAME:Night Owls\\; est. 2024\\, Leeds\r\n");
+    expect(ics).toContain("REFRESH-INTERVAL;VALUE=DURATION:PT1H\r\n");
+    expect(ics.split("\r\n").every((line) => line.length <= 75)).toBe(true);
+    expect(ics.replace(/\r\n /g, "")).toContain("DESCRIPTION:Bring snacks\\nand a very long note");
+  });
+
+  it("keeps line breaks in a video link from starting new properties", () => {
+    expect(ics.match(/^BEGIN:VEVENT/gm)).toHaveLength(2);
+    expect(ics).toContain("URL:https://meet.example.com/abcBEGIN:VEVENT\r\n");
+  });
+
+  it("writes the same events as the app's download", () => {
+    const app = buildIcsCalendar(clubName, meetings.map((m) => appEvent(m, clubName)));
+    expect(events(ics)).toHaveLength(2);
+    expect(events(ics)).toEqual(events(app));
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect } from "vitest";
+import { buildIcsCalendar, escapeIcsText, foldIcsLine, formatIcsDate } from "@/lib/ics";
+import { countRsvps, meetingToIcsEvent, splitMeetings } from "@/lib/clubMeetings";
+import type { BookClubMeeting } from "@/types/bookClub";
+
+const meeting = (id: string, overrides: Partial<BookClubMeeting> = {}): BookClubMeeting => ({
+  id,
+  clubId: "club",
+  suggestionId: null,
+  createdBy: "owner",
+  startsAt: "2026-03-19T18:30:00+00:00",
+  durationMinutes: 90,
+  location: null,
+  videoUrl: null,
+  notes: null,
+  createdAt: "2026-03-01T00:00:00+00:00",
+  updatedAt: "2026-03-02T00:00:00+00:00",
+  ...overrides,
+});
+
+describe("ics helpers", () => {
+  it("escapes reserved characters and newlines", () => {
+    expect(escapeIcsText("Tea, cake; \\ and\nmore")).toBe("Tea\\, cake\\; \\\\ and\\nmore");
+  });
+
+  it("formats dates as UTC basic format", () => {
+    expect(formatIcsDate(new Date("2026-03-19T18:30:05.123Z"))).toBe("20260319T183005Z");
+  });
+
+  it("folds long lines with a leading space on continuations", () => {
+    const folded = foldIcsLine(`DESCRIPTION:${"x".repeat(200)}`);
+    const lines = folded.split("\r\n");
+    expect(lines[0]).toHaveLength(75);
+    expect(lines.slice(1).every((l) => l.startsWith(" ") && l.length <= 75)).toBe(true);
+    expect(lines.map((l, i) => (i === 0 ? l : l.slice(1))).join("")).toBe(`DESCRIPTION:${"x".repeat(200)}`);
+  });
+
+  it("builds a calendar with CRLF line endings", () => {
+    const ics = buildIcsCalendar("Night Owls", [meetingToIcsEvent(meeting("m1"), "Night Owls")]);
+    expect(ics.startsWith("BEGIN:VCALENDAR\r\n")).toBe(true);
+    expect(ics.endsWith("END:VCALENDAR\r\n")).toBe(true);
+    expect(ics).toContain("UID:meeting-m1@shelvybooks.com\r\n");
+    expect(ics).toContain("DTSTART:20260319T183000Z\r\n");
+    expect(ics).toContain("DTEND:20260319T200000Z\r\n");
+    expect(ics).toContain("SUMMARY:Night Owls meeting\r\n");
+    expect(ics).not.toContain("LOCATION");
+  });
+
+  it("keeps line breaks in a link from starting new properties", () => {
+    const ics = buildIcsCalendar("Night Owls", [
+      meetingToIcsEvent(meeting("m1", { videoUrl: "https://meet.example.com/abc\r\nBEGIN:VEVENT" }), "Night Owls"),
+    ]);
+    expect(ics).toContain("URL:https://meet.example.com/abcBEGIN:VEVENT\r\n");
+    expect(ics.match(/^BEGIN:VEVENT/gm)).toHaveLength(1);
+  });
+});
+
+describe("meetingToIcsEvent", () => {
+  it("names the book and falls back to the video link for the location", () => {
+    const event = meetingToIcsEvent(
+      meeting("m1", { videoUrl: "https://meet.example.com/abc", notes: "Bring snacks" }),
+      "Night Owls",
+      "Dune",
+    );
+    expect(event.summary).toBe("Night Owls: Dune");
+    expect(event.location).toBe("https://meet.example.com/abc");
+    expect(event.description).toBe("Bring snacks\n\nJoin: https://meet.example.com/abc");
+  });
+});
+
+describe("countRsvps", () => {
+  it("counts each response", () => {
+    expect(
+      countRsvps([
+        { id: "1", meetingId: "m", userId: "a", response: "going" },
+        { id: "2", meetingId: "m", userId: "b", response: "going" },
+        { id: "3", meetingId: "m", userId: "c", response: "not_going" },
+      ]),
+    ).toEqual({ going: 2, maybe: 0, not_going: 1 });
+  });
+});
+
+describe("splitMeetings", () => {
+  it("keeps a meeting upcoming until it ends and orders each side", () => {
+    const now = new Date("2026-03-19T19:00:00Z");
+    const { upcoming, past } = splitMeetings(
+      [
+        meeting("later", { startsAt: "2026-04-01T18:00:00+00:00" }),
+        meeting("old", { startsAt: "2026-02-01T18:00:00+00:00" }),
+        meeting("now", { startsAt: "2026-03-19T18:30:00+00:00" }),
+        meeting("older", { startsAt: "2026-01-01T18:00:00+00:00" }),
+      ],
+      now,
+    );
+    expect(upcoming.map((m) => m.id)).toEqual(["now", "later"]);
+    expect(past.map((m) => m.id)).toEqual(["old", "older"]);
+  });
+});
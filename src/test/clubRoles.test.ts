@@ -0,0 +1,44 @@
+import { describe, it, expect } from "vitest";
+import {
+  canManageMember,
+  canModerateRole,
+  getAssignableRoles,
+  isHostRole,
+  sortMembersByRole,
+} from "@/lib/clubRoles";
+
+describe("club role permissions", () => {
+  it("treats co-hosts as hosts and moderators as moderators only", () => {
+    expect(isHostRole("cohost")).toBe(true);
+    expect(isHostRole("moderator")).toBe(false);
+    expect(canModerateRole("moderator")).toBe(true);
+    expect(canModerateRole("member")).toBe(false);
+    expect(canModerateRole(null)).toBe(false);
+  });
+
+  it("only lets hosts manage members ranked below them", () => {
+    expect(canManageMember("owner", "cohost")).toBe(true);
+    expect(canManageMember("cohost", "moderator")).toBe(true);
+    expect(canManageMember("cohost", "cohost")).toBe(false);
+    expect(canManageMember("cohost", "owner")).toBe(false);
+    expect(canManageMember("moderator", "member")).toBe(false);
+  });
+
+  it("hands out roles below the actor's own", () => {
+    expect(getAssignableRoles("owner")).toEqual(["cohost", "moderator", "member"]);
+    expect(getAssignableRoles("cohost")).toEqual(["moderator", "member"]);
+    expect(getAssignableRoles("moderator")).toEqual([]);
+  });
+});
+
+describe("sortMembersByRole", () => {
+  it("lists higher roles first, then earliest joiners", () => {
+    const sorted = sortMembersByRole([
+      { id: "late", role: "member" as const, joinedAt: "2026-03-05T00:00:00Z" },
+      { id: "mod", role: "moderator" as const, joinedAt: "2026-03-04T00:00:00Z" },
+      { id: "early", role: "member" as const, joinedAt: "2026-03-02T00:00:00Z" },
+      { id: "owner", role: "owner" as const, joinedAt: "2026-03-01T00:00:00Z" },
+    ]);
+    expect(sorted.map((m) => m.id)).toEqual(["owner", "mod", "early", "late"]);
+  });
+});
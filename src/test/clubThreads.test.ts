@@ -0,0 +1,75 @@
+import { describe, it, expect } from "vitest";
+import { getThreadSections, sortThreads } from "@/lib/clubThreads";
+import type { BookClubMilestone, ClubThread } from "@/types/bookClub";
+
+const thread = (id: string, overrides: Partial<ClubThread> = {}): ClubThread => ({
+  id,
+  clubId: "club",
+  suggestionId: "dune",
+  milestoneId: null,
+  kind: "discussion",
+  title: id,
+  body: null,
+  createdBy: "ana",
+  lastPostAt: "2026-03-10T00:00:00Z",
+  createdAt: "2026-03-01T00:00:00Z",
+  ...overrides,
+});
+
+const milestone = (id: string, dueDate: string): BookClubMilestone => ({
+  id,
+  clubId: "club",
+  suggestionId: "dune",
+  label: id,
+  dueDate,
+  createdAt: "2026-03-01T00:00:00Z",
+});
+
+describe("sortThreads", () => {
+  it("pins questions above discussions and orders discussions by activity", () => {
+    const sorted = sortThreads([
+      thread("quiet", { lastPostAt: "2026-03-02T00:00:00Z" }),
+      thread("old-question", { kind: "question", createdAt: "2026-03-01T00:00:00Z" }),
+      thread("busy", { lastPostAt: "2026-03-09T00:00:00Z" }),
+      thread("new-question", { kind: "question", createdAt: "2026-03-05T00:00:00Z" }),
+    ]);
+    expect(sorted.map((t) => t.id)).toEqual(["new-question", "old-question", "busy", "quiet"]);
+  });
+});
+
+describe("getThreadSections", () => {
+  const milestones = [milestone("part-2", "2026-03-20"), milestone("part-1", "2026-03-13")];
+
+  it("puts whole-club threads first and locks milestones the user hasn't reached", () => {
+    const sections = getThreadSections(
+      [
+        thread("general"),
+        thread("early", { milestoneId: "part-1" }),
+      ],
+      milestones,
+      "part-1",
+    );
+
+    expect(sections.map((s) => [s.milestone?.id ?? null, s.locked])).toEqual([
+      [null, false],
+      ["part-1", false],
+      ["part-2", true],
+    ]);
+    expect(sections[0].threads.map((t) => t.id)).toEqual(["general"]);
+    expect(sections[1].threads.map((t) => t.id)).toEqual(["early"]);
+  });
+
+  it("never shows threads from an unknown milestone as whole-club threads", () => {
+    const sections = getThreadSections(
+      [thread("general"), thread("spoiler", { milestoneId: "deleted" })],
+      milestones,
+      null,
+    );
+
+    expect(sections.flatMap((s) => s.threads.map((t) => t.id))).toEqual(["general"]);
+  });
+
+  it("has just the whole-club section without a schedule", () => {
+    expect(getThreadSections([thread("general")], [], null)).toHaveLength(1);
+  });
+});
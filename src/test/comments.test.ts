@@ -0,0 +1,44 @@
+import { describe, it, expect } from "vitest";
+import { buildCommentThreads, extractMentions, splitMentions } from "@/lib/comments";
+
+const comment = (id: string, createdAt: string, parentId: string | null = null) => ({ id, parentId, createdAt });
+
+describe("buildCommentThreads", () => {
+  it("nests replies under their comment, oldest first", () => {
+    const threads = buildCommentThreads([
+      comment("r2", "2026-03-14T03:00:00Z", "a"),
+      comment("b", "2026-03-14T02:00:00Z"),
+      comment("a", "2026-03-14T01:00:00Z"),
+      comment("r1", "2026-03-14T02:30:00Z", "a"),
+    ]);
+
+    expect(threads.map((t) => t.id)).toEqual(["a", "b"]);
+    expect(threads[0].replies.map((r) => r.id)).toEqual(["r1", "r2"]);
+    expect(threads[1].replies).toEqual([]);
+  });
+
+  it("keeps replies whose parent is missing", () => {
+    const threads = buildCommentThreads([comment("orphan", "2026-03-14T01:00:00Z", "gone")]);
+    expect(threads.map((t) => t.id)).toEqual(["orphan"]);
+  });
+});
+
+describe("mentions", () => {
+  it("extracts each mentioned username once", () => {
+    expect(extractMentions("@Ana have you read this? cc @ben_k and @ana")).toEqual(["ana", "ben_k"]);
+    expect(extractMentions("no mentions, just an email@")).toEqual([]);
+  });
+
+  it("ignores the domain in email addresses", () => {
+    expect(extractMentions("mail ana@example.com or ping (@ben)")).toEqual(["ben"]);
+    expect(splitMentions("ana@example.com")).toEqual([{ text: "ana@example.com" }]);
+  });
+
+  it("splits text around mentions", () => {
+    expect(splitMentions("hey @ana, look")).toEqual([
+      { text: "hey " },
+      { text: "@ana", username: "ana" },
+      { text: ", look" },
+    ]);
+  });
+});
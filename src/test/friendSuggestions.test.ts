@@ -0,0 +1,15 @@
+import { describe, it, expect } from "vitest";
+import { describeSuggestion } from "@/lib/friendSuggestions";
+
+describe("describeSuggestion", () => {
+  it("lists clubs, then mutual follows, then books", () => {
+    expect(describeSuggestion({ sharedBooks: 4, sharedClubs: 1, mutualFollows: 2 })).toBe(
+      "1 shared club · 2 mutual follows · 4 books in common"
+    );
+  });
+
+  it("leaves out reasons that don't apply", () => {
+    expect(describeSuggestion({ sharedBooks: 1, sharedClubs: 0, mutualFollows: 0 })).toBe("1 book in common");
+    expect(describeSuggestion({ sharedBooks: 0, sharedClubs: 0, mutualFollows: 0 })).toBe("");
+  });
+});
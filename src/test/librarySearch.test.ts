@@ -0,0 +1,49 @@
+import { describe, it, expect } from "vitest";
+import { EMPTY_SEARCH_FILTERS, getCompletionYears, searchLibrary } from "@/lib/librarySearch";
+import type { Book } from "@/types/book";
+
+const book = (overrides: Partial<Book>): Book => ({
+  id: overrides.title ?? "id",
+  title: "Untitled",
+  author: "Unknown",
+  coverUrl: "",
+  status: "want-to-read",
+  ...overrides,
+});
+
+const books: Book[] = [
+  book({ title: "One Hundred Years of Solitude", author: "Gabriel García Márquez", pageCount: 417, status: "read", completedAt: "2023-06-01T12:00:00Z" }),
+  book({ title: "Dune", author: "Frank Herbert", pageCount: 688, isbn: "9780441013593", description: "A desert planet and its spice." }),
+  book({ title: "Piranesi", author: "Susanna Clarke", pageCount: 272, status: "read", completedAt: "2024-02-10T12:00:00Z" }),
+];
+
+describe("searchLibrary", () => {
+  it("matches across fields, ignoring accents, and ranks title hits first", () => {
+    expect(searchLibrary(books, "garcia marquez", EMPTY_SEARCH_FILTERS).map((r) => r.book.title)).toEqual([
+      "One Hundred Years of Solitude",
+    ]);
+    expect(searchLibrary(books, "9780441013593", EMPTY_SEARCH_FILTERS)[0].matchedField).toBe("isbn");
+
+    const notes = new Map([["Piranesi", "Reread the dune-like house chapters"]]);
+    const results = searchLibrary(books, "dune", EMPTY_SEARCH_FILTERS, { notes });
+    expect(results.map((r) => r.book.title)).toEqual(["Dune", "Piranesi"]);
+    expect(results[1].matchedField).toBe("note");
+    expect(results[1].snippet).toContain("dune-like");
+  });
+
+  it("applies page range, completion year and club filters", () => {
+    expect(searchLibrary(books, "", { ...EMPTY_SEARCH_FILTERS, pageRange: "epic" }).map((r) => r.book.title)).toEqual(["Dune"]);
+    expect(searchLibrary(books, "", { ...EMPTY_SEARCH_FILTERS, completionYear: 2024 }).map((r) => r.book.title)).toEqual(["Piranesi"]);
+
+    const getClubIds = (b: Book) => (b.title === "Dune" ? ["club-1"] : []);
+    expect(
+      searchLibrary(books, "", { ...EMPTY_SEARCH_FILTERS, clubId: "club-1" }, { getClubIds }).map((r) => r.book.title)
+    ).toEqual(["Dune"]);
+  });
+});
+
+describe("getCompletionYears", () => {
+  it("lists years with finished books, newest first", () => {
+    expect(getCompletionYears(books)).toEqual([2024, 2023]);
+  });
+});
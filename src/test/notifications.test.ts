@@ -0,0 +1,57 @@
+import { describe, it, expect } from "vitest";
+import { formatActors, groupNotifications, resolvePreferences, type AppNotification } from "@/lib/notifications";
+
+const notification = (id: string, overrides: Partial<AppNotification> = {}): AppNotification => ({
+  id,
+  type: "like",
+  actorId: null,
+  actorUsername: id,
+  bookId: null,
+  entityId: null,
+  title: null,
+  body: null,
+  readAt: null,
+  createdAt: "2026-03-12T00:00:00Z",
+  ...overrides,
+});
+
+describe("groupNotifications", () => {
+  it("collapses likes on the same book at the newest like's place", () => {
+    const groups = groupNotifications([
+      notification("ana", { bookId: "dune" }),
+      notification("follow", { type: "follow" }),
+      notification("ben", { bookId: "dune", readAt: "2026-03-12T01:00:00Z" }),
+      notification("cy", { bookId: "emma" }),
+    ]);
+
+    expect(groups.map((g) => g.key)).toEqual(["like-dune", "follow", "like-emma"]);
+    expect(groups[0].notifications.map((n) => n.id)).toEqual(["ana", "ben"]);
+    expect(groups[0].unread).toBe(true);
+  });
+
+  it("keeps likes and comments on the same book apart", () => {
+    const groups = groupNotifications([
+      notification("ana", { bookId: "dune" }),
+      notification("ben", { bookId: "dune", type: "comment" }),
+    ]);
+    expect(groups).toHaveLength(2);
+  });
+});
+
+describe("formatActors", () => {
+  it("names two people and counts the rest once each", () => {
+    const [group] = groupNotifications(
+      ["ana", "ben", "ana", "cy", "dee"].map((name, i) => notification(`${i}`, { actorUsername: name, bookId: "dune" }))
+    );
+    expect(formatActors(group)).toBe("ana, ben and 2 others");
+  });
+});
+
+describe("resolvePreferences", () => {
+  it("fills gaps with the defaults", () => {
+    const prefs = resolvePreferences({ like: { in_app: false }, follow: { email: false } });
+    expect(prefs.like).toEqual({ in_app: false, email: false });
+    expect(prefs.follow).toEqual({ in_app: true, email: false });
+    expect(prefs.recommendation).toEqual({ in_app: true, email: true });
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect } from "vitest";
+import {
+  countMembersReached,
+  getOverdueMilestone,
+  hasReachedMilestone,
+  sortMilestones,
+} from "@/lib/readingSchedule";
+import type { BookClubMilestone } from "@/types/bookClub";
+
+const milestone = (id: string, dueDate: string, createdAt = "2026-03-01T00:00:00+00:00"): BookClubMilestone => ({
+  id,
+  clubId: "club",
+  suggestionId: "dune",
+  label: id,
+  dueDate,
+  createdAt,
+});
+
+// Deliberately out of order
+const milestones = [
+  milestone("part-3", "2026-03-27"),
+  milestone("part-1", "2026-03-13"),
+  milestone("part-2b", "2026-03-20", "2026-03-02T00:00:00+00:00"),
+  milestone("part-2a", "2026-03-20"),
+];
+
+describe("sortMilestones", () => {
+  it("orders by due date, then by when they were added", () => {
+    expect(sortMilestones(milestones).map((m) => m.id)).toEqual(["part-1", "part-2a", "part-2b", "part-3"]);
+  });
+});
+
+describe("hasReachedMilestone", () => {
+  it("counts earlier milestones as reached", () => {
+    expect(hasReachedMilestone(milestones, "part-2b", "part-1")).toBe(true);
+    expect(hasReachedMilestone(milestones, "part-2b", "part-2b")).toBe(true);
+    expect(hasReachedMilestone(milestones, "part-2b", "part-3")).toBe(false);
+  });
+
+  it("treats a null target as the end of the book", () => {
+    expect(hasReachedMilestone(milestones, "part-2b", null)).toBe(false);
+    expect(hasReachedMilestone(milestones, "part-3", null)).toBe(true);
+    expect(hasReachedMilestone(milestones, null, null)).toBe(false);
+  });
+
+  it("gates nothing when there is no schedule or the milestone is gone", () => {
+    expect(hasReachedMilestone([], null, null)).toBe(true);
+    expect(hasReachedMilestone(milestones, null, "deleted")).toBe(true);
+  });
+});
+
+describe("countMembersReached", () => {
+  it("counts a member at every milestone up to their position", () => {
+    const counts = countMembersReached(milestones, [
+      { userId: "ana", suggestionId: "dune", milestoneId: "part-2a" },
+      { userId: "ben", suggestionId: "dune", milestoneId: "part-1" },
+      { userId: "cy", suggestionId: "dune", milestoneId: "deleted" },
+    ]);
+    expect(Object.fromEntries(counts)).toEqual({ "part-1": 2, "part-2a": 1, "part-2b": 0, "part-3": 0 });
+  });
+});
+
+describe("getOverdueMilestone", () => {
+  it("returns the first past-due milestone the member hasn't reached", () => {
+    expect(getOverdueMilestone(milestones, "part-1", "2026-03-25")?.id).toBe("part-2a");
+    expect(getOverdueMilestone(milestones, "part-2b", "2026-03-25")).toBeNull();
+    // Due today isn't overdue yet
+    expect(getOverdueMilestone(milestones, null, "2026-03-13")).toBeNull();
+  });
+});
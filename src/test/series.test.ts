@@ -0,0 +1,49 @@
+import { describe, it, expect } from "vitest";
+import { findNextInSeries, groupBySeries, parseSeries, seriesNamePattern } from "@/lib/series";
+import type { Book } from "@/types/book";
+
+const book = (id: string, seriesName?: string, seriesPosition?: number): Book => ({
+  id,
+  title: id,
+  author: "Author",
+  coverUrl: "",
+  status: "read",
+  seriesName,
+  seriesPosition,
+});
+
+describe("parseSeries", () => {
+  it("reads Goodreads-style series notation", () => {
+    expect(parseSeries("The Fellowship of the Ring (The Lord of the Rings, #1)")).toEqual({ name: "The Lord of the Rings", position: 1 });
+    expect(parseSeries("Edgedancer (The Stormlight Archive #2.5)")).toEqual({ name: "The Stormlight Archive", position: 2.5 });
+    expect(parseSeries("Caliban's War (The Expanse, Book 2)")).toEqual({ name: "The Expanse", position: 2 });
+  });
+
+  it("ignores titles without a series", () => {
+    expect(parseSeries("Piranesi")).toBeNull();
+    expect(parseSeries("Catch-22 (Anniversary Edition)")).toBeNull();
+  });
+});
+
+describe("groupBySeries", () => {
+  it("pulls a series together in order at its first book's place", () => {
+    const grouped = groupBySeries([book("x"), book("b2", "B", 2), book("y"), book("b1", "b", 1), book("z")]);
+    expect(grouped.map((b) => b.id)).toEqual(["x", "b1", "b2", "y", "z"]);
+  });
+});
+
+describe("findNextInSeries", () => {
+  it("finds the next numbered book in the same series", () => {
+    const books = [book("a1", "A", 1), book("a3", "A", 3), book("a2", "A", 2), book("b2", "B", 2)];
+    expect(findNextInSeries(books, books[0])?.id).toBe("a2");
+    expect(findNextInSeries(books, books[1])).toBeUndefined();
+  });
+});
+
+describe("seriesNamePattern", () => {
+  it("escapes LIKE wildcards so they match literally", () => {
+    expect(seriesNamePattern(" 100% Wolf ")).toBe("100\\% Wolf");
+    expect(seriesNamePattern("Snake_Case\\Saga")).toBe("Snake\\_Case\\\\Saga");
+    expect(seriesNamePattern("The Expanse")).toBe("The Expanse");
+  });
+});
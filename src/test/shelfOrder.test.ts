@@ -0,0 +1,32 @@
+import { describe, it, expect } from "vitest";
+import { moveBookId, sortByShelfPosition } from "@/lib/shelfOrder";
+import type { Book } from "@/types/book";
+
+const book = (id: string, shelfPosition?: number): Book => ({
+  id,
+  title: id,
+  author: "Author",
+  coverUrl: "",
+  status: "read",
+  shelfPosition,
+});
+
+describe("sortByShelfPosition", () => {
+  it("puts arranged books first and keeps the rest in their original order", () => {
+    const sorted = sortByShelfPosition([book("a"), book("b", 1), book("c"), book("d", 0)]);
+    expect(sorted.map((b) => b.id)).toEqual(["d", "b", "a", "c"]);
+  });
+});
+
+describe("moveBookId", () => {
+  it("moves a book before or after the drop target", () => {
+    expect(moveBookId(["a", "b", "c", "d"], "d", "b", "before")).toEqual(["a", "d", "b", "c"]);
+    expect(moveBookId(["a", "b", "c", "d"], "a", "c", "after")).toEqual(["b", "c", "a", "d"]);
+  });
+
+  it("returns the same list when nothing moves", () => {
+    const ids = ["a", "b"];
+    expect(moveBookId(ids, "a", "a", "after")).toBe(ids);
+    expect(moveBookId(ids, "x", "a", "before")).toBe(ids);
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, it, expect } from "vitest";
+import { groupBallots, tallyBallots } from "@/lib/votingRounds";
+import type { RoundBallot } from "@/types/bookClub";
+
+// One array per member, top choice first
+const ballots = (...voters: string[][]): RoundBallot[] =>
+  voters.flatMap((picks, i) =>
+    picks.map((suggestionId, rank) => ({ userId: `member-${i}`, suggestionId, rank: rank + 1 })),
+  );
+
+describe("groupBallots", () => {
+  it("orders each member's picks by rank", () => {
+    const grouped = groupBallots([
+      { userId: "ana", suggestionId: "emma", rank: 2 },
+      { userId: "ana", suggestionId: "dune", rank: 1 },
+    ]);
+    expect(grouped.get("ana")).toEqual(["dune", "emma"]);
+  });
+});
+
+describe("tallyBallots", () => {
+  const candidates = ["dune", "emma", "ubik"];
+
+  it("gives plurality ties to the older suggestion", () => {
+    const result = tallyBallots("plurality", candidates, ballots(["emma"], ["dune"]));
+    expect(result.winnerId).toBe("dune");
+  });
+
+  it("counts every approval", () => {
+    const result = tallyBallots("approval", candidates, ballots(["dune", "ubik"], ["ubik"], ["emma"]));
+    expect(result.winnerId).toBe("ubik");
+    expect(result.steps[0].counts).toEqual({ dune: 1, emma: 1, ubik: 2 });
+  });
+
+  it("runs instant-runoff until a book has a majority", () => {
+    const result = tallyBallots(
+      "ranked",
+      candidates,
+      ballots(["dune"], ["dune"], ["emma", "ubik"], ["ubik", "emma"], ["ubik", "emma"]),
+    );
+
+    // emma has the fewest first choices, and its voter's next pick is ubik
+    expect(result.steps.map((s) => s.eliminated)).toEqual(["emma", null]);
+    expect(result.steps[1].counts).toEqual({ dune: 2, ubik: 3 });
+    expect(result.winnerId).toBe("ubik");
+  });
+
+  it("has no winner without ballots", () => {
+    expect(tallyBallots("ranked", candidates, []).winnerId).toBeNull();
+    expect(tallyBallots("plurality", candidates, []).winnerId).toBeNull();
+  });
+});
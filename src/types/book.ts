@@ -4,12 +4,15 @@ export type ShelfSkin = 'oak' | 'walnut' | 'white' | 'dark';
 
 export type DecorDensity = 'minimal' | 'balanced' | 'cozy';
 
-export type SortOption = 'random' | 'recent' | 'status-author' | 'author-title';
+export type SortOption = 'random' | 'recent' | 'status-author' | 'author-title' | 'rating' | 'custom';
 
 export type BackgroundTheme = 'office' | 'library' | 'cozy' | 'space' | 'forest' | 'ocean' | 'sunset' | 'lavender';
 
 export type ReadingAnimation = 'glow' | 'border' | 'pixie-dust' | 'none';
 
+/** Who can see the shared shelf; 'club' means anyone in a book club with the owner */
+export type ShelfVisibility = 'public' | 'followers' | 'club' | 'private';
+
 export interface ShelfSettings {
   showPlant: boolean;
   showBookends: boolean;
@@ -28,11 +31,56 @@ export interface Book {
   status: BookStatus;
   openLibraryKey?: string;
   createdAt?: string;
+  /** When the book last moved into 'reading' */
+  startedAt?: string;
   completedAt?: string;
   pageCount?: number;
+  /** Latest logged page, if progress was tracked by page */
+  currentPage?: number;
+  /** Latest logged progress (0-100) */
+  progressPercent?: number;
+  /** Personal rating, 0.5-5 in half-star steps */
+  rating?: number;
+  review?: string;
+  /** Review gives away the plot; other readers have to choose to reveal it */
+  reviewHasSpoilers?: boolean;
+  reviewedAt?: string;
+  /** Hand-arranged position for the 'custom' sort; unset until the owner drags books into place */
+  shelfPosition?: number;
+  /** Series the book belongs to, e.g. "The Expanse" */
+  seriesName?: string;
+  /** Place in the series reading order; may be fractional for novellas (2.5) */
+  seriesPosition?: number;
   isbn?: string;
   description?: string;
   categories?: string[];
+  /** Kept off the shared shelf; only the owner sees it */
+  isHidden?: boolean;
+}
+
+/** A user-defined grouping of books, independent of reading status */
+export interface NamedShelf {
+  id: string;
+  name: string;
+  description?: string;
+  position: number;
+  isPublic: boolean;
+  /** Book IDs on this shelf, in shelf order */
+  bookIds: string[];
+}
+
+export type GoalPeriod = 'year' | 'month';
+
+export type GoalMetric = 'books' | 'pages';
+
+/** A target number of books or pages to finish in a calendar year or month */
+export interface ReadingGoal {
+  id: string;
+  period: GoalPeriod;
+  /** First day of the period (yyyy-MM-dd) */
+  periodStart: string;
+  metric: GoalMetric;
+  target: number;
 }
 
 export interface GoogleBook {
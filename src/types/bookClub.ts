@@ -3,18 +3,29 @@ export interface BookClub {
   name: string;
   description: string | null;
   inviteCode: string;
+  /** null when the invite never expires */
+  inviteExpiresAt?: string | null;
   ownerId: string;
   createdAt: string;
 }
 
+export type ClubRole = 'owner' | 'cohost' | 'moderator' | 'member';
+
 export interface BookClubMember {
   id: string;
   clubId: string;
   userId: string;
-  role: 'owner' | 'member';
+  role: ClubRole;
   joinedAt: string;
 }
 
+export interface BookClubBan {
+  id: string;
+  userId: string;
+  username: string | null;
+  createdAt: string;
+}
+
 export interface BookClubSuggestion {
   id: string;
   clubId: string;
@@ -35,3 +46,95 @@ export interface BookClubVote {
   userId: string;
   createdAt: string;
 }
+
+export type VotingMethod = 'plurality' | 'approval' | 'ranked';
+
+export interface VotingRound {
+  id: string;
+  clubId: string;
+  createdBy: string;
+  method: VotingMethod;
+  endsAt: string;
+  /** Tallies stay hidden from members until the round closes */
+  hideResults: boolean;
+  status: 'open' | 'closed';
+  winnerSuggestionId: string | null;
+  closedAt: string | null;
+  createdAt: string;
+}
+
+export interface RoundBallot {
+  userId: string;
+  suggestionId: string;
+  /** 1 is the top choice; null outside ranked-choice rounds */
+  rank: number | null;
+}
+
+export type MeetingRsvpResponse = 'going' | 'maybe' | 'not_going';
+
+export interface BookClubMeeting {
+  id: string;
+  clubId: string;
+  suggestionId: string | null;
+  createdBy: string;
+  startsAt: string;
+  durationMinutes: number;
+  location: string | null;
+  videoUrl: string | null;
+  notes: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface BookClubMeetingRsvp {
+  id: string;
+  meetingId: string;
+  userId: string;
+  response: MeetingRsvpResponse;
+}
+
+export interface BookClubMilestone {
+  id: string;
+  clubId: string;
+  suggestionId: string;
+  label: string;
+  /** yyyy-MM-dd */
+  dueDate: string;
+  createdAt: string;
+}
+
+export interface ReadingPosition {
+  userId: string;
+  suggestionId: string;
+  milestoneId: string;
+}
+
+export type ClubThreadKind = 'discussion' | 'question';
+
+export interface ClubThread {
+  id: string;
+  clubId: string;
+  suggestionId: string;
+  /** Only members who've reached this milestone can see the thread; null for the whole club */
+  milestoneId: string | null;
+  kind: ClubThreadKind;
+  title: string;
+  body: string | null;
+  createdBy: string;
+  username?: string;
+  avatarUrl?: string | null;
+  lastPostAt: string;
+  createdAt: string;
+}
+
+export interface ClubThreadPost {
+  id: string;
+  threadId: string;
+  userId: string;
+  content: string;
+  createdAt: string;
+  editedAt: string | null;
+  reactions: { emoji: string; userId: string }[];
+  username?: string;
+  avatarUrl?: string | null;
+}
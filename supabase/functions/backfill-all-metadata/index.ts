@@ -1,5 +1,5 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -15,6 +15,35 @@ interface BookMetadata {
   source?: 'isbndb' | 'google' | 'openlibrary';
 }
 
+function cleanIsbn(isbn: string | null | undefined): string {
+  return (isbn || '').toUpperCase().replace(/[^0-9X]/g, '');
+}
+
+// Only empty fields are filled; the edition triggers pass them on to every owner
+async function fillEditionGaps(
+  supabase: SupabaseClient,
+  editionId: string,
+  metadata: BookMetadata
+): Promise<void> {
+  const { data: edition } = await supabase
+    .from('book_editions')
+    .select('isbn, cover_url, page_count, description, categories')
+    .eq('id', editionId)
+    .maybeSingle();
+  if (!edition) return;
+  if (edition.isbn && metadata.isbn && cleanIsbn(edition.isbn) !== cleanIsbn(metadata.isbn)) return;
+
+  const fillData: Record<string, unknown> = {};
+  if (!edition.cover_url && metadata.coverUrl) fillData.cover_url = metadata.coverUrl;
+  if (!edition.page_count && metadata.pageCount) fillData.page_count = metadata.pageCount;
+  if (!edition.description && metadata.description) fillData.description = metadata.description;
+  if (!edition.categories && metadata.categories) fillData.categories = metadata.categories;
+  if (Object.keys(fillData).length === 0) return;
+
+  const { error } = await supabase.from('book_editions').update(fillData).eq('id', editionId);
+  if (error) console.error(`Failed to fill edition ${editionId}:`, error.message);
+}
+
 // Exponential backoff with jitter
 async function sleep(ms: number): Promise<void> {
   return new Promise(resolve => setTimeout(resolve, ms));
@@ -334,7 +363,7 @@ serve(async (req) => {
     // If refreshCovers is true, also include books with missing/placeholder covers
     let query = supabase
       .from('books')
-      .select('title, author, cover_url');
+      .select('title, author, cover_url, edition_id');
     
     if (refreshCovers) {
       // Books needing metadata OR missing covers
@@ -362,15 +391,15 @@ serve(async (req) => {
       );
     }
 
-    // Deduplicate by title+author (case-insensitive)
+    // Deduplicate by catalog edition, falling back to title+author (case-insensitive) for unlinked books
     const seen = new Set<string>();
-    const deduped: Array<{ title: string; author: string; needsCover: boolean }> = [];
+    const deduped: Array<{ title: string; author: string; editionId: string | null; needsCover: boolean }> = [];
     for (const book of books) {
-      const key = `${book.title.toLowerCase()}|||${book.author.toLowerCase()}`;
+      const key = book.edition_id || `${book.title.toLowerCase()}|||${book.author.toLowerCase()}`;
       if (!seen.has(key)) {
         seen.add(key);
         const needsCover = !book.cover_url || book.cover_url === '' || book.cover_url === '/placeholder.svg';
-        deduped.push({ title: book.title, author: book.author, needsCover });
+        deduped.push({ title: book.title, author: book.author, editionId: book.edition_id, needsCover });
       }
     }
 
@@ -436,12 +465,25 @@ serve(async (req) => {
           if (metadata.coverUrl) { updateData.cover_url = metadata.coverUrl; hasNewData = true; }
         }
 
-        // Update ALL matching books with this title+author
-        const { error: updateError, count } = await supabase
-          .from('books')
-          .update(updateData)
-          .ilike('title', book.title)
-          .ilike('author', book.author);
+        // Update ALL copies of this edition (or title+author for unlinked books)
+        let updateQuery = supabase.from('books').update(updateData, { count: 'exact' });
+        updateQuery = book.editionId
+          ? updateQuery.eq('edition_id', book.editionId)
+          : updateQuery.ilike('title', book.title).ilike('author', book.author);
+        const { error: updateError, count } = await updateQuery;
+
+        if (book.editionId) {
+          await supabase
+            .from('book_editions')
+            .update({ metadata_attempted_at: new Date().toISOString(), metadata_source: metadata?.source ?? null })
+            .eq('id', book.editionId)
+            .is('metadata_attempted_at', null);
+        }
+
+        // Fill the shared edition's gaps from the provider data, unless the search matched another edition
+        if (book.editionId && metadata) {
+          await fillEditionGaps(supabase, book.editionId, metadata);
+        }
 
         if (updateError) {
           errors.push(`Failed to update "${book.title}": ${updateError.message}`);
@@ -27,7 +27,35 @@ interface CachedBook {
   source: string;
 }
 
-// Normalize a database book row to the GoogleBook format for consistency
+// Catalog edition joined to its work
+interface CatalogEdition {
+  id: string;
+  isbn: string | null;
+  cover_url: string | null;
+  page_count: number | null;
+  description: string | null;
+  categories: string[] | null;
+  work: { id: string; title: string; author: string };
+}
+
+const EDITION_SELECT = 'id, isbn, cover_url, page_count, description, categories, work:book_works!inner(id, title, author)';
+
+// Flatten an edition + work into the shape the ranking and normalizing helpers expect
+function flattenEdition(edition: CatalogEdition) {
+  return {
+    id: edition.id,
+    workId: edition.work.id,
+    title: edition.work.title,
+    author: edition.work.author,
+    description: edition.description,
+    cover_url: edition.cover_url,
+    categories: edition.categories,
+    page_count: edition.page_count,
+    isbn: edition.isbn,
+  };
+}
+
+// Normalize a catalog row to the GoogleBook format for consistency
 function normalizeDbBook(book: {
   id: string;
   title: string;
@@ -106,7 +134,7 @@ serve(async (req) => {
       );
     }
 
-    // Create admin client to bypass RLS (we want to search ALL books as a global cache)
+    // Admin client; the shared works/editions catalog is the cache
     const supabase = createClient(supabaseUrl, serviceRoleKey);
 
     const body = await req.json();
@@ -114,11 +142,12 @@ serve(async (req) => {
 
     // Mode: 'search' for title/author search, 'isbn' for direct ISBN lookup
     if (mode === 'isbn' && isbn) {
-      // Direct ISBN lookup
-      const { data: books, error } = await supabase
-        .from('books')
-        .select('id, title, author, description, cover_url, categories, page_count, isbn')
-        .eq('isbn', isbn)
+      // Direct ISBN lookup (catalog ISBNs are stored digits-only)
+      const cleanIsbn = String(isbn).toUpperCase().replace(/[^0-9X]/g, '');
+      const { data: editions, error } = await supabase
+        .from('book_editions')
+        .select(EDITION_SELECT)
+        .eq('isbn', cleanIsbn)
         .not('cover_url', 'is', null)
         .neq('cover_url', '')
         .limit(1);
@@ -131,7 +160,7 @@ serve(async (req) => {
         );
       }
 
-      if (!books || books.length === 0) {
+      if (!editions || editions.length === 0) {
         return new Response(
           JSON.stringify({ items: [], source: 'cache', miss: true }),
           { headers: { ...corsHeaders, "Content-Type": "application/json" } }
@@ -140,7 +169,7 @@ serve(async (req) => {
 
       return new Response(
         JSON.stringify({ 
-          items: books.map(normalizeDbBook), 
+          items: (editions as unknown as CatalogEdition[]).map((e) => normalizeDbBook(flattenEdition(e))), 
           source: 'cache',
           hit: true 
         }),
@@ -167,14 +196,14 @@ serve(async (req) => {
 
     console.log('Cache searching for:', sanitizedQuery);
 
-    // Search books table with ILIKE for fuzzy matching
-    // Only return books with good metadata (has cover_url)
+    // Search catalog works with ILIKE for fuzzy matching
+    // Only return editions with good metadata (has cover_url)
     const searchPattern = `%${sanitizedQuery}%`;
     
-    const { data: books, error } = await supabase
-      .from('books')
-      .select('id, title, author, description, cover_url, categories, page_count, isbn')
-      .or(`title.ilike.${searchPattern},author.ilike.${searchPattern}`)
+    const { data: editions, error } = await supabase
+      .from('book_editions')
+      .select(EDITION_SELECT)
+      .or(`title.ilike.${searchPattern},author.ilike.${searchPattern}`, { referencedTable: 'work' })
       .not('cover_url', 'is', null)
       .neq('cover_url', '')
       .limit(50); // Get more so we can dedupe and rank
@@ -187,18 +216,20 @@ serve(async (req) => {
       );
     }
 
-    if (!books || books.length === 0) {
+    if (!editions || editions.length === 0) {
       return new Response(
         JSON.stringify({ items: [], source: 'cache', miss: true }),
         { headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     }
 
-    // Deduplicate by title + author (case insensitive)
+    const books = (editions as unknown as CatalogEdition[]).map(flattenEdition);
+
+    // One result per work
     const seen = new Map<string, typeof books[0]>();
     for (const book of books) {
-      const key = `${book.title.toLowerCase().trim()}|${book.author.toLowerCase().trim()}`;
-      // Keep the one with more metadata
+      const key = book.workId;
+      // Keep the edition with more metadata
       const existing = seen.get(key);
       if (!existing || 
           (book.description && !existing.description) ||
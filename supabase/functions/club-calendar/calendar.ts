@@ -0,0 +1,71 @@
+// Same rules as src/lib/ics.ts, which builds the single-meeting download in the app.
+// src/test/clubCalendarFeed.test.ts checks the two give the same events.
+const escapeIcsText = (value: string) =>
+  value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+
+const cleanIcsUri = (value: string) => value.replace(/\s/g, "");
+
+const formatIcsDate = (date: Date) =>
+  date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+
+const foldIcsLine = (line: string) => {
+  if (line.length <= 75) return line;
+  const parts = [line.slice(0, 75)];
+  for (let i = 75; i < line.length; i += 74) {
+    parts.push(` ${line.slice(i, i + 74)}`);
+  }
+  return parts.join("\r\n");
+};
+
+export interface MeetingRow {
+  id: string;
+  starts_at: string;
+  duration_minutes: number;
+  location: string | null;
+  video_url: string | null;
+  notes: string | null;
+  updated_at: string;
+  suggestion: { title: string } | null;
+}
+
+export const buildCalendar = (clubName: string, meetings: MeetingRow[]) => {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Shelvy//Book Clubs//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeIcsText(clubName)}`,
+    "REFRESH-INTERVAL;VALUE=DURATION:PT1H",
+  ];
+
+  for (const meeting of meetings) {
+    const start = new Date(meeting.starts_at);
+    const end = new Date(start.getTime() + meeting.duration_minutes * 60_000);
+    const summary = meeting.suggestion ? `${clubName}: ${meeting.suggestion.title}` : `${clubName} meeting`;
+    const description = [meeting.notes, meeting.video_url && `Join: ${meeting.video_url}`]
+      .filter(Boolean)
+      .join("\n\n");
+    const location = meeting.location || meeting.video_url;
+
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:meeting-${meeting.id}@shelvybooks.com`,
+      `DTSTAMP:${formatIcsDate(new Date(meeting.updated_at))}`,
+      `DTSTART:${formatIcsDate(start)}`,
+      `DTEND:${formatIcsDate(end)}`,
+      `SUMMARY:${escapeIcsText(summary)}`,
+    );
+    if (description) lines.push(`DESCRIPTION:${escapeIcsText(description)}`);
+    if (location) lines.push(`LOCATION:${escapeIcsText(location)}`);
+    if (meeting.video_url) lines.push(`URL:${cleanIcsUri(meeting.video_url)}`);
+    lines.push("END:VEVENT");
+  }
+
+  lines.push("END:VCALENDAR");
+  return lines.map(foldIcsLine).join("\r\n") + "\r\n";
+};
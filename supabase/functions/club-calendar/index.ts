@@ -0,0 +1,91 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { buildCalendar, type MeetingRow } from "./calendar.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version",
+};
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// How far back the feed goes, so recent meetings don't vanish from calendars right away
+const PAST_MEETING_DAYS = 90;
+
+// iCalendar feed of a club's meetings. Calendar apps can't sign in, so the URL carries the
+// member's personal calendar token; the feed stops working once they leave the club.
+const handler = async (req: Request): Promise<Response> => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const params = new URL(req.url).searchParams;
+    const clubId = params.get("club");
+    const token = params.get("token");
+
+    if (!clubId || !token || !UUID_PATTERN.test(clubId) || !UUID_PATTERN.test(token)) {
+      return new Response("Invalid calendar link", { status: 400, headers: corsHeaders });
+    }
+
+    const supabaseAdmin = createClient(
+      Deno.env.get("SUPABASE_URL")!,
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+    );
+
+    const { data: feedToken } = await supabaseAdmin
+      .from("calendar_feed_tokens")
+      .select("user_id")
+      .eq("token", token)
+      .maybeSingle();
+
+    const { data: membership } = feedToken
+      ? await supabaseAdmin
+          .from("book_club_members")
+          .select("id")
+          .eq("club_id", clubId)
+          .eq("user_id", feedToken.user_id)
+          .maybeSingle()
+      : { data: null };
+
+    // Same answer for a bad token and a club you're not in
+    if (!membership) {
+      return new Response("Calendar not found", { status: 404, headers: corsHeaders });
+    }
+
+    const { data: club, error: clubError } = await supabaseAdmin
+      .from("book_clubs")
+      .select("name")
+      .eq("id", clubId)
+      .single();
+
+    if (clubError) throw clubError;
+
+    const since = new Date(Date.now() - PAST_MEETING_DAYS * 24 * 60 * 60 * 1000).toISOString();
+    const { data: meetings, error: meetingsError } = await supabaseAdmin
+      .from("book_club_meetings")
+      .select("id, starts_at, duration_minutes, location, video_url, notes, updated_at, suggestion:book_club_suggestions(title)")
+      .eq("club_id", clubId)
+      .gte("starts_at", since)
+      .order("starts_at", { ascending: true });
+
+    if (meetingsError) throw meetingsError;
+
+    return new Response(buildCalendar(club.name, (meetings || []) as MeetingRow[]), {
+      status: 200,
+      headers: {
+        ...corsHeaders,
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": 'inline; filename="club-meetings.ics"',
+        "Cache-Control": "private, max-age=900",
+      },
+    });
+
+  } catch (error) {
+    console.error("Error in club-calendar function:", error);
+    return new Response("Could not load calendar", { status: 500, headers: corsHeaders });
+  }
+};
+
+serve(handler);
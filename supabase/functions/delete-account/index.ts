@@ -71,6 +71,12 @@ serve(async (req) => {
       .eq('user_id', user.id);
     if (booksError) console.error('Error deleting books:', booksError);
 
+    const { error: importsError } = await supabase
+      .from('book_imports')
+      .delete()
+      .eq('user_id', user.id);
+    if (importsError) console.error('Error deleting imports:', importsError);
+
     // 3. Delete follows (both directions)
     const { error: followingError } = await supabase
       .from('follows')
@@ -129,6 +135,18 @@ serve(async (req) => {
       .eq('user_id', user.id);
     if (votesError) console.error('Error deleting votes:', votesError);
 
+    const { error: ballotsError } = await supabase
+      .from('book_club_round_ballots')
+      .delete()
+      .eq('user_id', user.id);
+    if (ballotsError) console.error('Error deleting ballots:', ballotsError);
+
+    const { error: bansError } = await supabase
+      .from('book_club_bans')
+      .delete()
+      .eq('user_id', user.id);
+    if (bansError) console.error('Error deleting bans:', bansError);
+
     // Delete user's suggestions
     const { error: suggestionsError } = await supabase
       .from('book_club_suggestions')
@@ -136,6 +154,38 @@ serve(async (req) => {
       .eq('suggested_by', user.id);
     if (suggestionsError) console.error('Error deleting suggestions:', suggestionsError);
 
+    // Delete user's meeting RSVPs and calendar feed token
+    const { error: rsvpsError } = await supabase
+      .from('book_club_meeting_rsvps')
+      .delete()
+      .eq('user_id', user.id);
+    if (rsvpsError) console.error('Error deleting RSVPs:', rsvpsError);
+
+    const { error: calendarTokenError } = await supabase
+      .from('calendar_feed_tokens')
+      .delete()
+      .eq('user_id', user.id);
+    if (calendarTokenError) console.error('Error deleting calendar token:', calendarTokenError);
+
+    // Delete user's club discussion reactions, replies and threads
+    const { error: threadReactionsError } = await supabase
+      .from('book_club_thread_reactions')
+      .delete()
+      .eq('user_id', user.id);
+    if (threadReactionsError) console.error('Error deleting thread reactions:', threadReactionsError);
+
+    const { error: threadPostsError } = await supabase
+      .from('book_club_thread_posts')
+      .delete()
+      .eq('user_id', user.id);
+    if (threadPostsError) console.error('Error deleting thread posts:', threadPostsError);
+
+    const { error: threadsError } = await supabase
+      .from('book_club_threads')
+      .delete()
+      .eq('created_by', user.id);
+    if (threadsError) console.error('Error deleting threads:', threadsError);
+
     // 5. Delete notification settings
     const { error: notifError } = await supabase
       .from('notification_settings')
@@ -143,6 +193,38 @@ serve(async (req) => {
       .eq('user_id', user.id);
     if (notifError) console.error('Error deleting notification settings:', notifError);
 
+    // Notifications sent to or triggered by the user
+    const { error: notificationsError } = await supabase
+      .from('notifications')
+      .delete()
+      .or(`user_id.eq.${user.id},actor_id.eq.${user.id}`);
+    if (notificationsError) console.error('Error deleting notifications:', notificationsError);
+
+    // Blocks, mutes and reports made by or about the user
+    const { error: blocksError } = await supabase
+      .from('user_blocks')
+      .delete()
+      .or(`blocker_id.eq.${user.id},blocked_id.eq.${user.id}`);
+    if (blocksError) console.error('Error deleting blocks:', blocksError);
+
+    const { error: mutesError } = await supabase
+      .from('user_mutes')
+      .delete()
+      .or(`muter_id.eq.${user.id},muted_id.eq.${user.id}`);
+    if (mutesError) console.error('Error deleting mutes:', mutesError);
+
+    const { error: reportsError } = await supabase
+      .from('content_reports')
+      .delete()
+      .eq('reporter_id', user.id);
+    if (reportsError) console.error('Error deleting reports:', reportsError);
+
+    const { error: dismissalsError } = await supabase
+      .from('friend_suggestion_dismissals')
+      .delete()
+      .or(`user_id.eq.${user.id},dismissed_user_id.eq.${user.id}`);
+    if (dismissalsError) console.error('Error deleting suggestion dismissals:', dismissalsError);
+
     // 6. Delete shelf settings
     const { error: shelfError } = await supabase
       .from('shelf_settings')
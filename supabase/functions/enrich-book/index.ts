@@ -1,5 +1,5 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -32,7 +32,135 @@ interface EnrichmentResult {
   description?: string;
   categories?: string[];
   coverUrl?: string;
-  source?: 'isbndb' | 'google' | 'openlibrary';
+  seriesName?: string;
+  seriesPosition?: number;
+  source?: 'catalog' | 'isbndb' | 'google' | 'openlibrary';
+}
+
+interface CatalogEdition {
+  id: string;
+  work_id: string;
+  isbn: string | null;
+  cover_url: string | null;
+  page_count: number | null;
+  description: string | null;
+  categories: string[] | null;
+}
+
+const EDITION_FIELDS = 'id, work_id, isbn, cover_url, page_count, description, categories';
+
+// An edition is only worth serving on its own if nothing would be fetched anyway
+function isComplete(edition: CatalogEdition): boolean {
+  return !!(edition.cover_url && edition.page_count && edition.description);
+}
+
+// Look in the shared catalog before spending external API quota
+async function lookupCatalog(
+  admin: SupabaseClient,
+  title: string,
+  author: string,
+  isbn?: string
+): Promise<EnrichmentResult | null> {
+  let editions: CatalogEdition[] = [];
+
+  const cleanIsbn = isbn?.toUpperCase().replace(/[^0-9X]/g, '');
+  if (cleanIsbn) {
+    const { data } = await admin.from('book_editions').select(EDITION_FIELDS).eq('isbn', cleanIsbn).limit(1);
+    editions = (data || []) as CatalogEdition[];
+  }
+
+  if (editions.length === 0) {
+    const { data: key } = await admin.rpc('normalize_book_key', { _title: title, _author: author });
+    const { data: work } = await admin.from('book_works').select('id').eq('normalized_key', key).maybeSingle();
+    if (work) {
+      const { data } = await admin.from('book_editions').select(EDITION_FIELDS).eq('work_id', work.id);
+      editions = (data || []) as CatalogEdition[];
+    }
+  }
+
+  const edition = editions.find(isComplete);
+  if (!edition) return null;
+
+  const { data: work } = await admin
+    .from('book_works')
+    .select('series_name, series_position')
+    .eq('id', edition.work_id)
+    .maybeSingle();
+
+  return {
+    pageCount: edition.page_count ?? undefined,
+    isbn: edition.isbn ?? undefined,
+    description: edition.description ?? undefined,
+    categories: edition.categories ?? undefined,
+    coverUrl: edition.cover_url ?? undefined,
+    seriesName: work?.series_name ?? undefined,
+    seriesPosition: work?.series_position ?? undefined,
+    source: 'catalog',
+  };
+}
+
+// Record what the external lookup found so the next owner of this book gets it from the catalog.
+// Only empty edition fields are filled; the edition triggers pass them on to existing owners.
+async function saveToCatalog(
+  admin: SupabaseClient,
+  title: string,
+  author: string,
+  result: EnrichmentResult,
+  openLibraryWorkId?: string
+) {
+  const { data: editionId, error: resolveError } = await admin.rpc('resolve_book_edition', {
+    _title: title,
+    _author: author,
+    _isbn: result.isbn ?? null,
+    _open_library_work_id: openLibraryWorkId ?? null,
+  });
+  if (resolveError || !editionId) {
+    console.error('Catalog resolve error:', resolveError?.message);
+    return;
+  }
+
+  const { data: edition } = await admin.from('book_editions').select(EDITION_FIELDS).eq('id', editionId).single();
+  if (!edition) return;
+
+  const updateData: Record<string, unknown> = {
+    metadata_attempted_at: new Date().toISOString(),
+  };
+  if (!edition.cover_url && result.coverUrl) updateData.cover_url = result.coverUrl;
+  if (!edition.page_count && result.pageCount) updateData.page_count = result.pageCount;
+  if (!edition.description && result.description) updateData.description = result.description;
+  if (!edition.categories && result.categories) updateData.categories = result.categories;
+  if (result.source) updateData.metadata_source = result.source;
+
+  const { error: updateError } = await admin.from('book_editions').update(updateData).eq('id', editionId);
+  if (updateError) {
+    console.error('Catalog update error:', updateError.message);
+  }
+
+  if (result.seriesName) {
+    await admin
+      .from('book_works')
+      .update({ series_name: result.seriesName, series_position: result.seriesPosition ?? null })
+      .eq('id', edition.work_id)
+      .is('series_name', null);
+  }
+}
+
+// ISBN-10s are compared in their ISBN-13 form so both spellings of one edition match
+function toIsbn13(isbn: string): string {
+  const clean = isbn.toUpperCase().replace(/[^0-9X]/g, '');
+  if (clean.length !== 10) return clean;
+  const core = `978${clean.slice(0, 9)}`;
+  const sum = [...core].reduce((acc, digit, i) => acc + Number(digit) * (i % 2 === 0 ? 1 : 3), 0);
+  return `${core}${(10 - (sum % 10)) % 10}`;
+}
+
+// Read series notation before cleanTitle strips it: "Title (Series Name, #2)" or "(Series Name, Book 2)"
+function parseSeries(title: string): { name: string; position: number } | null {
+  const match = title.match(/\(([^()#]+?),?\s*#(\d+(?:\.\d+)?)\)\s*$/)
+    || title.match(/\(([^()]+?),?\s+(?:book|vol\.?|volume)\s+(\d+(?:\.\d+)?)\)\s*$/i);
+  if (!match) return null;
+  const position = Number(match[2]);
+  return match[1].trim() && Number.isFinite(position) ? { name: match[1].trim(), position } : null;
 }
 
 // Clean title by removing series notation for better search matching
@@ -169,6 +297,7 @@ async function searchGoogleBooks(title: string, author: string, apiKey?: string)
 
 // Search Open Library for full metadata (FALLBACK)
 interface OpenLibraryResult {
+  workId?: string;
   coverUrl?: string;
   pageCount?: number;
   description?: string;
@@ -197,6 +326,11 @@ async function searchOpenLibrary(title: string, author: string): Promise<OpenLib
     
     for (const doc of docs) {
       const result: OpenLibraryResult = {};
+
+      // Work key ("/works/OL45883W") links editions of the same book in the catalog
+      if (typeof doc.key === 'string' && doc.key.startsWith('/works/')) {
+        result.workId = doc.key.replace('/works/', '');
+      }
       
       // Get cover
       if (doc.cover_i) {
@@ -312,19 +446,8 @@ serve(async (req) => {
       });
     }
 
-    const isbndbApiKey = Deno.env.get('ISBNDB_API_KEY');
-
-    if (!isbndbApiKey) {
-      // Return empty result if ISBNdb not configured - graceful degradation
-      console.log('ISBNDB_API_KEY not configured, skipping enrichment');
-      return new Response(
-        JSON.stringify({ success: true, enriched: false, data: {} }),
-        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
-    }
-
     const body = await req.json();
-    const { title, author } = body;
+    const { title, author, isbn } = body;
 
     // Validate input
     if (!title || typeof title !== 'string') {
@@ -339,6 +462,35 @@ serve(async (req) => {
 
     console.log(`Enriching: "${safeTitle}" by ${safeAuthor}`);
 
+    const admin = createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+    const safeIsbn = typeof isbn === 'string' ? isbn.slice(0, 20) : undefined;
+
+    const titleSeries = parseSeries(safeTitle);
+
+    const cached = await lookupCatalog(admin, safeTitle, safeAuthor, safeIsbn);
+    if (cached) {
+      if (titleSeries && !cached.seriesName) {
+        cached.seriesName = titleSeries.name;
+        cached.seriesPosition = titleSeries.position;
+      }
+      console.log('Catalog hit, skipping external lookups');
+      return new Response(
+        JSON.stringify({ success: true, enriched: true, data: cached }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const isbndbApiKey = Deno.env.get('ISBNDB_API_KEY');
+
+    if (!isbndbApiKey) {
+      // Return empty result if ISBNdb not configured - graceful degradation
+      console.log('ISBNDB_API_KEY not configured, skipping enrichment');
+      return new Response(
+        JSON.stringify({ success: true, enriched: false, data: {} }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
     const isbndbBook = await searchISBNdb(safeTitle, safeAuthor, isbndbApiKey);
 
     const result: EnrichmentResult = {};
@@ -368,6 +520,14 @@ serve(async (req) => {
       }
     }
 
+    // The title the user gave wins; ISBNdb's long title often carries the series when it doesn't
+    const providerSeries = isbndbBook?.title_long ? parseSeries(isbndbBook.title_long) : null;
+    const series = titleSeries || providerSeries;
+    if (series) {
+      result.seriesName = series.name;
+      result.seriesPosition = series.position;
+    }
+
     // If ISBNdb didn't return full metadata, try Google Books as fallback
     if (!result.pageCount || !result.description || !result.coverUrl) {
       const googleApiKey = Deno.env.get('GOOGLE_BOOKS_API_KEY');
@@ -397,9 +557,11 @@ serve(async (req) => {
     }
 
     // If still missing data, try Open Library as final fallback
+    let openLibraryWorkId: string | undefined;
     if (!result.pageCount || !result.coverUrl) {
       const openLibraryData = await searchOpenLibrary(safeTitle, safeAuthor);
       if (openLibraryData) {
+        openLibraryWorkId = openLibraryData.workId;
         // Fill in missing fields from Open Library
         if (!result.pageCount && openLibraryData.pageCount) {
           result.pageCount = openLibraryData.pageCount;
@@ -423,6 +585,24 @@ serve(async (req) => {
     const hasData = Object.keys(result).filter(k => k !== 'source').length > 0;
     console.log(`Enrichment ${hasData ? 'successful' : 'empty'}:`, hasData ? result : 'no data');
 
+    // The metadata came from a title/author search, so it can only be filed under the ISBN the
+    // provider returned. If that isn't the caller's edition, the match can't be trusted for the catalog.
+    const isbnMismatch = !!safeIsbn && !!result.isbn && toIsbn13(safeIsbn) !== toIsbn13(result.isbn);
+    if (isbnMismatch) {
+      console.log(`Provider ISBN ${result.isbn} doesn't match ${safeIsbn}, not saving to catalog`);
+    }
+
+    if (hasData && !isbnMismatch) {
+      // Series parsed from the caller's title stays on their copy; the shared work only takes the provider's
+      await saveToCatalog(
+        admin,
+        safeTitle,
+        safeAuthor,
+        { ...result, seriesName: providerSeries?.name, seriesPosition: providerSeries?.position },
+        openLibraryWorkId
+      );
+    }
+
     return new Response(
       JSON.stringify({ 
         success: true, 
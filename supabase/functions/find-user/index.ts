@@ -56,6 +56,16 @@ Deno.serve(async (req) => {
       auth: { persistSession: false },
     });
 
+    // Leave out anyone blocked in either direction
+    const { data: blocks } = await adminClient
+      .from('user_blocks')
+      .select('blocker_id, blocked_id')
+      .or(`blocker_id.eq.${user.id},blocked_id.eq.${user.id}`);
+
+    const blockedIds = new Set(
+      blocks?.map(b => (b.blocker_id === user.id ? b.blocked_id : b.blocker_id)) || []
+    );
+
     const results: Array<{
       userId: string;
       username: string;
@@ -83,6 +93,7 @@ Deno.serve(async (req) => {
       const shelfMap = new Map(shelfData?.map(s => [s.user_id, s.share_id]) || []);
 
       for (const profile of profileMatches) {
+        if (blockedIds.has(profile.user_id)) continue;
         const shareId = shelfMap.get(profile.user_id);
         results.push({
           userId: profile.user_id,
@@ -102,7 +113,7 @@ Deno.serve(async (req) => {
 
       if (authUsers?.users) {
         const emailMatches = authUsers.users.filter(
-          u => u.email?.toLowerCase().includes(searchTerm) && u.id !== user.id
+          u => u.email?.toLowerCase().includes(searchTerm) && u.id !== user.id && !blockedIds.has(u.id)
         );
 
         if (emailMatches.length > 0) {
@@ -0,0 +1,272 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void };
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const SOURCES = ['goodreads', 'storygraph', 'librarything', 'generic'];
+const MAX_BOOKS = 5000;
+const BATCH_SIZE = 10;
+// Stay well inside the background task limit; the client resumes anything left over
+const TIME_BUDGET_MS = 120_000;
+
+interface ImportBookInput {
+  title: string;
+  author?: string;
+  status?: string;
+  isbn?: string;
+  completedAt?: string;
+  rating?: number;
+}
+
+interface PendingBook {
+  id: string;
+  title: string;
+  author: string;
+  isbn: string | null;
+  cover_url: string | null;
+  page_count: number | null;
+  description: string | null;
+  categories: string[] | null;
+  series_name: string | null;
+}
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+// Open Library only serves a cover by ISBN if it actually has one when asked with default=false
+async function fetchIsbnCover(isbn: string): Promise<string | undefined> {
+  const url = `https://covers.openlibrary.org/b/isbn/${isbn}-L.jpg`;
+  try {
+    const response = await fetch(`${url}?default=false`, { method: 'HEAD' });
+    return response.ok ? url : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Enrich pending books of one import, oldest first, until none are left or the time budget runs out.
+ * Uses enrich-book with the caller's token so imported books get the same metadata as ones added by hand.
+ */
+async function enrichImport(
+  supabase: SupabaseClient,
+  importId: string,
+  userId: string,
+  authHeader: string
+) {
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+  const startedAt = Date.now();
+
+  while (Date.now() - startedAt < TIME_BUDGET_MS) {
+    const { data: books, error: fetchError } = await supabase
+      .from('books')
+      .select('id, title, author, isbn, cover_url, page_count, description, categories, series_name')
+      .eq('import_id', importId)
+      .eq('user_id', userId)
+      .is('metadata_attempted_at', null)
+      .order('created_at', { ascending: true })
+      .limit(BATCH_SIZE);
+
+    if (fetchError) {
+      console.error(`Import ${importId}: failed to fetch pending books:`, fetchError.message);
+      return;
+    }
+
+    if (!books || books.length === 0) break;
+
+    for (const book of books as PendingBook[]) {
+      // Books the catalog already knew arrive complete; just mark them done
+      if (book.cover_url && book.page_count && book.description) {
+        await supabase
+          .from('books')
+          .update({ metadata_attempted_at: new Date().toISOString() })
+          .eq('id', book.id);
+        await updateProgress(supabase, importId);
+        continue;
+      }
+
+      const response = await fetch(`${supabaseUrl}/functions/v1/enrich-book`, {
+        method: 'POST',
+        headers: { Authorization: authHeader, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ title: book.title, author: book.author, isbn: book.isbn }),
+      });
+
+      // Expired session: leave the rest pending so the next resume (with a fresh token) continues
+      if (response.status === 401) {
+        console.log(`Import ${importId}: token expired, pausing enrichment`);
+        return;
+      }
+
+      const result = response.ok ? await response.json() : null;
+      const data = result?.enriched ? result.data || {} : {};
+
+      const updateData: Record<string, unknown> = {
+        metadata_attempted_at: new Date().toISOString(),
+      };
+      // Imported values (ISBN especially) win over whatever the search matched
+      if (!book.page_count && data.pageCount) updateData.page_count = data.pageCount;
+      if (!book.isbn && data.isbn) updateData.isbn = data.isbn;
+      if (!book.description && data.description) updateData.description = data.description;
+      if (!book.categories && data.categories) updateData.categories = data.categories;
+      if (!book.series_name && data.seriesName) {
+        updateData.series_name = data.seriesName;
+        updateData.series_position = data.seriesPosition ?? null;
+      }
+
+      if (!book.cover_url) {
+        const coverUrl = (book.isbn && await fetchIsbnCover(book.isbn)) || data.coverUrl;
+        if (coverUrl) updateData.cover_url = coverUrl;
+      }
+
+      const { error: updateError } = await supabase
+        .from('books')
+        .update(updateData)
+        .eq('id', book.id);
+
+      if (updateError) {
+        console.error(`Import ${importId}: failed to update "${book.title}":`, updateError.message);
+      }
+
+      // Also serves as the heartbeat the client uses to tell a stalled import from a slow one
+      await updateProgress(supabase, importId);
+    }
+  }
+
+  await updateProgress(supabase, importId);
+}
+
+async function updateProgress(supabase: SupabaseClient, importId: string) {
+  const { data: importRow } = await supabase
+    .from('book_imports')
+    .select('total_count')
+    .eq('id', importId)
+    .single();
+
+  const { count: pendingCount } = await supabase
+    .from('books')
+    .select('id', { count: 'exact', head: true })
+    .eq('import_id', importId)
+    .is('metadata_attempted_at', null);
+
+  const total = importRow?.total_count ?? 0;
+  const pending = pendingCount ?? 0;
+  const done = pending === 0;
+
+  // Deleted books drop out of the pending count, so enriched_count is derived rather than incremented
+  await supabase
+    .from('book_imports')
+    .update({
+      enriched_count: Math.max(0, total - pending),
+      ...(done ? { status: 'completed', completed_at: new Date().toISOString() } : {}),
+    })
+    .eq('id', importId);
+
+  if (done) console.log(`Import ${importId}: enrichment complete`);
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY')!;
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+    // Verify auth (gateway can't validate ES256 JWTs, so we check here)
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader?.startsWith('Bearer ')) {
+      return jsonResponse({ error: 'Unauthorized' }, 401);
+    }
+
+    // User-scoped client so import_books runs as the caller (auth.uid())
+    const supabaseAuth = createClient(supabaseUrl, supabaseAnonKey, {
+      global: { headers: { Authorization: authHeader } },
+    });
+
+    const { data: { user }, error: authError } = await supabaseAuth.auth.getUser();
+    if (authError || !user) {
+      return jsonResponse({ error: 'Unauthorized' }, 401);
+    }
+
+    const supabase = createClient(supabaseUrl, serviceRoleKey);
+    const body = await req.json();
+
+    // Resume: continue enriching an existing import
+    if (body.importId) {
+      const { data: importRow, error: importError } = await supabase
+        .from('book_imports')
+        .select('id, status')
+        .eq('id', body.importId)
+        .eq('user_id', user.id)
+        .maybeSingle();
+
+      if (importError) throw new Error(importError.message);
+      if (!importRow) {
+        return jsonResponse({ error: 'Import not found' }, 404);
+      }
+
+      if (importRow.status !== 'completed') {
+        console.log(`User ${user.id} resumed import ${importRow.id}`);
+        EdgeRuntime.waitUntil(enrichImport(supabase, importRow.id, user.id, authHeader));
+      }
+
+      return jsonResponse({ importId: importRow.id, status: importRow.status });
+    }
+
+    // New import
+    const source = SOURCES.includes(body.source) ? body.source : 'generic';
+    const books: ImportBookInput[] = Array.isArray(body.books) ? body.books : [];
+
+    if (books.length === 0) {
+      return jsonResponse({ error: 'No books to import' }, 400);
+    }
+    if (books.length > MAX_BOOKS) {
+      return jsonResponse({ error: `Imports are limited to ${MAX_BOOKS} books at a time` }, 400);
+    }
+
+    const rows = books
+      .filter((book) => typeof book?.title === 'string' && book.title.trim())
+      .map((book) => ({
+        title: book.title.slice(0, 500),
+        author: typeof book.author === 'string' ? book.author.slice(0, 300) : '',
+        status: book.status,
+        isbn: typeof book.isbn === 'string' ? book.isbn.replace(/[^0-9Xx]/g, '').toUpperCase() : undefined,
+        completedAt: book.completedAt && !isNaN(Date.parse(book.completedAt)) ? book.completedAt : undefined,
+        rating: typeof book.rating === 'number' && book.rating >= 0.5 && book.rating <= 5
+          ? Math.round(book.rating * 2) / 2
+          : undefined,
+      }));
+
+    // One transaction: either every book lands on the shelf or none do
+    const { data: importId, error: importError } = await supabaseAuth.rpc('import_books', {
+      _source: source,
+      _books: rows,
+    });
+
+    if (importError) {
+      console.error('import_books failed:', importError.message);
+      return jsonResponse({ error: importError.message }, 400);
+    }
+
+    console.log(`User ${user.id} imported ${rows.length} books from ${source} (import ${importId})`);
+
+    EdgeRuntime.waitUntil(enrichImport(supabase, importId, user.id, authHeader));
+
+    return jsonResponse({ importId, total: rows.length, status: 'enriching' });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    console.error("Error in import-books function:", errorMessage);
+    return jsonResponse({ error: errorMessage }, 500);
+  }
+});
@@ -68,6 +68,20 @@ const handler = async (req: Request): Promise<Response> => {
     let recipientEmail = directEmail;
     
     if (!recipientEmail && recipientUserId) {
+      // Respect the recipient's email preference
+      const { data: emailAllowed } = await supabaseAdmin.rpc('notification_allowed', {
+        _user_id: recipientUserId,
+        _type: 'recommendation',
+        _channel: 'email',
+      });
+
+      if (emailAllowed === false) {
+        return new Response(
+          JSON.stringify({ success: true, emailSent: false, reason: "Email notifications disabled by user" }),
+          { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
       const { data: recipientUser, error: recipientError } = await supabaseAdmin.auth.admin.getUserById(recipientUserId);
       
       if (recipientError || !recipientUser?.user?.email) {
@@ -14,7 +14,7 @@ interface NotifyRequest {
   followerUserId: string;
 }
 
-const getEmailHtml = (followerUsername: string, followerShelfUrl: string | null) => `
+const getEmailHtml = (followerUsername: string, followerShelfUrl: string | null, isRequest: boolean) => `
 <!DOCTYPE html>
 <html>
 <head>
@@ -23,6 +23,17 @@ const getEmailHtml = (followerUsername: string, followerShelfUrl: string | null)
 </head>
 <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #374151; max-width: 600px; margin: 0 auto; padding: 20px; background-color: #ffffff;">
   <div style="background: #fef9e7; border-radius: 12px; padding: 32px;">
+    ${isRequest ? `
+    <h2 style="color: #78350f; margin: 0 0 20px 0; font-weight: 700; font-size: 24px;">New follow request 📬</h2>
+    
+    <p style="margin: 0 0 20px 0; font-size: 16px; color: #374151;">
+      <strong style="color: #78350f;">${followerUsername}</strong> wants to follow your bookshelf on Shelvy.
+    </p>
+    
+    <p style="margin: 0 0 24px 0; font-size: 15px; color: #4b5563;">
+      Your shelf isn't public, so they'll only see it once you accept. You can accept or decline from your notifications on Shelvy.
+    </p>
+    ` : `
     <h2 style="color: #78350f; margin: 0 0 20px 0; font-weight: 700; font-size: 24px;">You have a new follower! 🎉</h2>
     
     <p style="margin: 0 0 20px 0; font-size: 16px; color: #374151;">
@@ -32,6 +43,7 @@ const getEmailHtml = (followerUsername: string, followerShelfUrl: string | null)
     <p style="margin: 0 0 24px 0; font-size: 15px; color: #4b5563;">
       They'll now be able to see when you add new books to your collection. Keep reading and sharing your favorites!
     </p>
+    `}
     
     ${followerShelfUrl ? `
     <a href="${followerShelfUrl}" style="background: #78350f; color: white; padding: 14px 28px; text-decoration: none; border-radius: 8px; display: inline-block; font-weight: 500; font-size: 16px;">Check out ${followerUsername}'s shelf</a>
@@ -68,6 +80,37 @@ const handler = async (req: Request): Promise<Response> => {
       Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
     );
 
+    // Follows of non-public shelves wait for approval, so the email asks rather than announces
+    const { data: follow } = await supabaseAdmin
+      .from('follows')
+      .select('status')
+      .eq('follower_id', followerUserId)
+      .eq('following_id', followedUserId)
+      .maybeSingle();
+
+    if (!follow) {
+      return new Response(
+        JSON.stringify({ success: true, message: "Follow not found" }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const isRequest = follow.status === 'pending';
+
+    // Respect the followed user's email preference
+    const { data: emailAllowed } = await supabaseAdmin.rpc('notification_allowed', {
+      _user_id: followedUserId,
+      _type: isRequest ? 'follow_request' : 'follow',
+      _channel: 'email',
+    });
+
+    if (emailAllowed === false) {
+      return new Response(
+        JSON.stringify({ success: true, message: "Email notifications disabled by user" }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
     // Get the email of the user being followed
     const { data: followedUser, error: userError } = await supabaseAdmin.auth.admin.getUserById(followedUserId);
     
@@ -110,8 +153,10 @@ const handler = async (req: Request): Promise<Response> => {
       body: JSON.stringify({
         from: "Shelvy <noreply@shelvybooks.com>",
         to: [followedUser.user.email],
-        subject: `${followerUsername} is now following your bookshelf 📚`,
-        html: getEmailHtml(followerUsername, followerShelfUrl),
+        subject: isRequest
+          ? `${followerUsername} wants to follow you on Shelvy 📚`
+          : `${followerUsername} is now following your bookshelf 📚`,
+        html: getEmailHtml(followerUsername, followerShelfUrl, isRequest),
       }),
     });
 
@@ -11,6 +11,13 @@ interface BookToRefresh {
   title: string;
   author: string;
   isbn?: string;
+  edition_id?: string | null;
+}
+
+// Covers that still need fixing: empty, placeholder, or a Google image without the curl edge
+function isUsableCover(url: string | null | undefined): url is string {
+  if (!url || url === '/placeholder.svg') return false;
+  return !(url.includes('books.google.com/books/content') && !url.includes('edge=curl'));
 }
 
 // Clean title by removing series notation for better search matching
@@ -177,14 +184,14 @@ serve(async (req) => {
     // We do this as two explicit queries (simpler + more reliable than a complex PostgREST `or(...)`).
     let missingQuery = supabase
       .from('books')
-      .select('id, title, author')
+      .select('id, title, author, edition_id')
       .eq('user_id', userId)
       .or('cover_url.is.null,cover_url.eq.,cover_url.eq./placeholder.svg')
       .limit(limit);
 
     let googleEdgeMissingQuery = supabase
       .from('books')
-      .select('id, title, author')
+      .select('id, title, author, edition_id')
       .eq('user_id', userId)
       .like('cover_url', '%books.google.com/books/content%')
       .not('cover_url', 'like', '%edge=curl%')
@@ -221,16 +228,31 @@ serve(async (req) => {
     }
     console.log(`Found ${booksToRefresh.length} books to refresh covers for user ${userId}`);
 
+    // Another reader may already have fixed the cover on the shared edition
+    const editionIds = [...new Set(booksToRefresh.map(b => b.edition_id).filter(Boolean))] as string[];
+    const catalogCovers = new Map<string, string>();
+    if (editionIds.length > 0) {
+      const { data: editions } = await supabase
+        .from('book_editions')
+        .select('id, cover_url')
+        .in('id', editionIds);
+      for (const edition of editions || []) {
+        if (isUsableCover(edition.cover_url)) catalogCovers.set(edition.id, edition.cover_url);
+      }
+    }
+
     const results: { id: string; title: string; coverUrl: string | null; updated: boolean }[] = [];
 
     // Process books with rate limiting
     for (const book of booksToRefresh) {
       console.log(`Searching cover for: ${book.title} by ${book.author}`);
       
-      let coverUrl: string | null = null;
+      let coverUrl: string | null = (book.edition_id && catalogCovers.get(book.edition_id)) || null;
+      const fromCatalog = !!coverUrl;
+      if (fromCatalog) console.log(`Found cover in catalog`);
       
       // Try ISBNdb first (PRIMARY)
-      if (isbndbApiKey) {
+      if (!coverUrl && isbndbApiKey) {
         coverUrl = await searchISBNdbCover(book.title, book.author, isbndbApiKey);
         if (coverUrl) console.log(`Found cover via ISBNdb`);
       }
@@ -261,13 +283,22 @@ serve(async (req) => {
           console.log(`Updated cover for: ${book.title}`);
           results.push({ id: book.id, title: book.title, coverUrl, updated: true });
         }
+
+        // A provider cover also fills the shared edition, so other owners get it too
+        if (!fromCatalog && book.edition_id) {
+          await supabase
+            .from('book_editions')
+            .update({ cover_url: coverUrl })
+            .eq('id', book.edition_id)
+            .is('cover_url', null);
+        }
       } else {
         console.log(`No cover found for: ${book.title}`);
         results.push({ id: book.id, title: book.title, coverUrl: null, updated: false });
       }
       
-      // Small delay to avoid rate limiting
-      await new Promise(resolve => setTimeout(resolve, 200));
+      // Small delay to avoid rate limiting (catalog hits don't call any external API)
+      if (!fromCatalog) await new Promise(resolve => setTimeout(resolve, 200));
     }
 
     const updatedCount = results.filter(r => r.updated).length;
@@ -0,0 +1,462 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const RESEND_API_KEY = Deno.env.get("RESEND_API_KEY");
+const APP_URL = "https://shelvybooks.com";
+
+// Cron runs weekly; anything sent more recently than this is a duplicate run
+const MIN_DAYS_BETWEEN_DIGESTS = 6;
+const DIGEST_WINDOW_DAYS = 7;
+const MAX_ITEMS_PER_SECTION = 8;
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version",
+};
+
+interface DigestRequest {
+  testEmail?: string; // If provided, send the caller's own digest to this email only
+}
+
+interface DigestContent {
+  finishedBooks: { username: string; title: string; author: string }[];
+  comments: { username: string; bookTitle: string; content: string }[];
+  clubVotes: { clubName: string; title: string; votes: number }[];
+  clubReflections: { clubName: string; username: string; title: string; rating: number; content: string }[];
+}
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const truncate = (value: string, length: number) =>
+  value.length > length ? `${value.slice(0, length - 1)}…` : value;
+
+const isEmptyDigest = (content: DigestContent) =>
+  content.finishedBooks.length === 0 &&
+  content.comments.length === 0 &&
+  content.clubVotes.length === 0 &&
+  content.clubReflections.length === 0;
+
+const getSectionHtml = (heading: string, items: string[]) => items.length === 0 ? "" : `
+    <div style="margin-bottom: 24px;">
+      <strong style="color: #78350f; font-size: 16px;">${heading}</strong>
+      ${items.map((item) => `<p style="margin: 6px 0 0 0; font-size: 15px; color: #4b5563;">${item}</p>`).join("")}
+    </div>
+`;
+
+const getEmailHtml = (content: DigestContent, unsubscribeUrl: string) => `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+</head>
+<body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #374151; max-width: 600px; margin: 0 auto; padding: 20px; background-color: #ffffff;">
+  <div style="background: #fef9e7; border-radius: 12px; padding: 32px;">
+    <h2 style="color: #78350f; margin: 0 0 20px 0; font-weight: 700; font-size: 24px;">Your week on Shelvy 📚</h2>
+
+    <p style="margin: 0 0 24px 0; font-size: 16px; color: #374151;">
+      Here's what your friends and book clubs have been up to.
+    </p>
+
+    ${getSectionHtml("✅ Friends finished", content.finishedBooks.map((b) =>
+      `<strong>${escapeHtml(b.username)}</strong> finished <em>${escapeHtml(b.title)}</em> by ${escapeHtml(b.author)}`
+    ))}
+    ${getSectionHtml("💬 New comments on your books", content.comments.map((c) =>
+      `<strong>${escapeHtml(c.username)}</strong> on <em>${escapeHtml(c.bookTitle)}</em>: "${escapeHtml(truncate(c.content, 140))}"`
+    ))}
+    ${getSectionHtml("🗳️ Club votes", content.clubVotes.map((v) =>
+      `<em>${escapeHtml(v.title)}</em> got ${v.votes} new ${v.votes === 1 ? "vote" : "votes"} in ${escapeHtml(v.clubName)}`
+    ))}
+    ${getSectionHtml("📝 Club reflections", content.clubReflections.map((r) =>
+      `<strong>${escapeHtml(r.username)}</strong> rated <em>${escapeHtml(r.title)}</em> ${"★".repeat(Math.round(r.rating))} in ${escapeHtml(r.clubName)}: "${escapeHtml(truncate(r.content, 140))}"`
+    ))}
+
+    <a href="${APP_URL}" style="background: #78350f; color: white; padding: 14px 28px; text-decoration: none; border-radius: 8px; display: inline-block; font-weight: 500; font-size: 16px;">Open Shelvy</a>
+
+    <p style="margin: 24px 0 0 0; font-size: 14px; color: #6b7280;">
+      Happy reading! 📖<br>
+      — The Shelvy Team
+    </p>
+  </div>
+  <p style="margin: 16px 0 0 0; font-size: 12px; color: #9ca3af; text-align: center;">
+    You're getting this because you turned on the weekly digest.
+    <a href="${unsubscribeUrl}" style="color: #9ca3af;">Unsubscribe</a>
+  </p>
+</body>
+</html>
+`;
+
+async function compileDigest(supabase: SupabaseClient, userId: string, since: string): Promise<DigestContent> {
+  const content: DigestContent = { finishedBooks: [], comments: [], clubVotes: [], clubReflections: [] };
+  const userIds = new Set<string>();
+
+  // Friends' finished books (public shelves only, same as the activity feed)
+  const { data: follows } = await supabase
+    .from('follows')
+    .select('following_id')
+    .eq('follower_id', userId)
+    .eq('status', 'accepted');
+  const followingIds = follows?.map((f) => f.following_id) || [];
+
+  let finished: { user_id: string; title: string; author: string }[] = [];
+  if (followingIds.length > 0) {
+    // The recipient follows these people, so followers-only shelves count too
+    const { data: publicShelves } = await supabase
+      .from('shelf_settings')
+      .select('user_id')
+      .in('user_id', followingIds)
+      .in('visibility', ['public', 'followers']);
+    const publicIds = publicShelves?.map((s) => s.user_id) || [];
+
+    if (publicIds.length > 0) {
+      const { data } = await supabase
+        .from('books')
+        .select('user_id, title, author')
+        .in('user_id', publicIds)
+        .eq('is_hidden', false)
+        .eq('status', 'read')
+        .gte('completed_at', since)
+        .order('completed_at', { ascending: false })
+        .limit(MAX_ITEMS_PER_SECTION);
+      finished = data || [];
+      finished.forEach((b) => userIds.add(b.user_id));
+    }
+  }
+
+  // New comments from others on my books
+  const { data: myBooks } = await supabase
+    .from('books')
+    .select('id, title')
+    .eq('user_id', userId);
+  const bookTitles = new Map(myBooks?.map((b) => [b.id, b.title]) || []);
+
+  let comments: { book_id: string; user_id: string; content: string }[] = [];
+  if (bookTitles.size > 0) {
+    // Muted and blocked people's comments stay out of the digest, as they do in the app
+    const [{ data: mutes }, { data: blocks }] = await Promise.all([
+      supabase.from('user_mutes').select('muted_id').eq('muter_id', userId),
+      supabase
+        .from('user_blocks')
+        .select('blocker_id, blocked_id')
+        .or(`blocker_id.eq.${userId},blocked_id.eq.${userId}`),
+    ]);
+    const hiddenIds = new Set<string>([
+      userId,
+      ...(mutes?.map((m) => m.muted_id) || []),
+      ...(blocks?.map((b) => (b.blocker_id === userId ? b.blocked_id : b.blocker_id)) || []),
+    ]);
+
+    const { data } = await supabase
+      .from('book_comments')
+      .select('book_id, user_id, content')
+      .in('book_id', Array.from(bookTitles.keys()))
+      .not('user_id', 'in', `(${Array.from(hiddenIds).join(',')})`)
+      .gte('created_at', since)
+      .order('created_at', { ascending: false })
+      .limit(MAX_ITEMS_PER_SECTION);
+    comments = data || [];
+    comments.forEach((c) => userIds.add(c.user_id));
+  }
+
+  // Votes and reflections in my clubs
+  const { data: memberships } = await supabase
+    .from('book_club_members')
+    .select('club_id')
+    .eq('user_id', userId);
+  const clubIds = memberships?.map((m) => m.club_id) || [];
+
+  let reflections: { club_id: string; suggestion_id: string; user_id: string; is_anonymous: boolean; rating: number; content: string }[] = [];
+  const clubNames = new Map<string, string>();
+  const suggestions = new Map<string, { clubId: string; title: string }>();
+
+  if (clubIds.length > 0) {
+    const { data: clubs } = await supabase
+      .from('book_clubs')
+      .select('id, name')
+      .in('id', clubIds);
+    clubs?.forEach((c) => clubNames.set(c.id, c.name));
+
+    const { data: clubSuggestions } = await supabase
+      .from('book_club_suggestions')
+      .select('id, club_id, title')
+      .in('club_id', clubIds);
+    clubSuggestions?.forEach((s) => suggestions.set(s.id, { clubId: s.club_id, title: s.title }));
+
+    if (suggestions.size > 0) {
+      const { data: votes } = await supabase
+        .from('book_club_votes')
+        .select('suggestion_id')
+        .in('suggestion_id', Array.from(suggestions.keys()))
+        .neq('user_id', userId)
+        .gte('created_at', since);
+
+      const votesPerSuggestion = new Map<string, number>();
+      votes?.forEach((v) => votesPerSuggestion.set(v.suggestion_id, (votesPerSuggestion.get(v.suggestion_id) || 0) + 1));
+
+      content.clubVotes = Array.from(votesPerSuggestion.entries())
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, MAX_ITEMS_PER_SECTION)
+        .map(([suggestionId, count]) => {
+          const suggestion = suggestions.get(suggestionId)!;
+          return { clubName: clubNames.get(suggestion.clubId) || 'your club', title: suggestion.title, votes: count };
+        });
+    }
+
+    const { data } = await supabase
+      .from('book_club_reflections')
+      .select('club_id, suggestion_id, user_id, is_anonymous, rating, content')
+      .in('club_id', clubIds)
+      .neq('user_id', userId)
+      .gte('created_at', since)
+      .order('created_at', { ascending: false })
+      .limit(MAX_ITEMS_PER_SECTION);
+    reflections = data || [];
+
+    // Leave out reflections on books the recipient hasn't finished on the club's schedule
+    const reflectedBooks = [...new Set(reflections.map((r) => r.suggestion_id))];
+    const spoilerFree = new Set<string>();
+    await Promise.all(reflectedBooks.map(async (suggestionId) => {
+      const { data: reached } = await supabase.rpc('milestone_reached_by', {
+        _user_id: userId,
+        _suggestion_id: suggestionId,
+        _milestone_id: null,
+      });
+      if (reached) spoilerFree.add(suggestionId);
+    }));
+    reflections = reflections.filter((r) => spoilerFree.has(r.suggestion_id));
+    reflections.filter((r) => !r.is_anonymous).forEach((r) => userIds.add(r.user_id));
+  }
+
+  const usernames = new Map<string, string>();
+  if (userIds.size > 0) {
+    const { data: profiles } = await supabase
+      .from('profiles')
+      .select('user_id, username')
+      .in('user_id', Array.from(userIds));
+    profiles?.forEach((p) => usernames.set(p.user_id, p.username));
+  }
+
+  content.finishedBooks = finished.map((b) => ({
+    username: usernames.get(b.user_id) || 'A friend',
+    title: b.title,
+    author: b.author,
+  }));
+  content.comments = comments.map((c) => ({
+    username: usernames.get(c.user_id) || 'Someone',
+    bookTitle: bookTitles.get(c.book_id) || 'your book',
+    content: c.content,
+  }));
+  content.clubReflections = reflections.map((r) => ({
+    clubName: clubNames.get(r.club_id) || 'your club',
+    username: r.is_anonymous ? 'A member' : usernames.get(r.user_id) || 'A member',
+    title: suggestions.get(r.suggestion_id)?.title || 'the club pick',
+    rating: r.rating,
+    content: r.content,
+  }));
+
+  return content;
+}
+
+async function sendDigestEmail(to: string, content: DigestContent, unsubscribeToken: string): Promise<boolean> {
+  const unsubscribeUrl = `${APP_URL}/unsubscribe?token=${unsubscribeToken}`;
+  // One-click unsubscribe for mail clients (RFC 8058) goes straight to the function
+  const oneClickUrl = `${Deno.env.get("SUPABASE_URL")}/functions/v1/unsubscribe-digest?token=${unsubscribeToken}`;
+
+  const emailResponse = await fetch("https://api.resend.com/emails", {
+    method: "POST",
+    headers: {
+      "Authorization": `Bearer ${RESEND_API_KEY}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      from: "Shelvy <noreply@shelvybooks.com>",
+      to: [to],
+      subject: "Your week on Shelvy 📚",
+      html: getEmailHtml(content, unsubscribeUrl),
+      headers: {
+        "List-Unsubscribe": `<${oneClickUrl}>`,
+        "List-Unsubscribe-Post": "List-Unsubscribe=One-Click",
+      },
+    }),
+  });
+
+  if (!emailResponse.ok) {
+    const errorText = await emailResponse.text();
+    console.error(`Failed to send digest to ${to}: ${emailResponse.status} - ${errorText}`);
+    return false;
+  }
+
+  return true;
+}
+
+const handler = async (req: Request): Promise<Response> => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY')!;
+
+    // Check auth - allow cron (anon JWT) or admin users
+    const authHeader = req.headers.get('Authorization');
+    const token = authHeader?.replace('Bearer ', '') || '';
+
+    let isCronCall = false;
+    try {
+      const payloadBase64 = token.split('.')[1];
+      if (payloadBase64) {
+        const payload = JSON.parse(atob(payloadBase64));
+        isCronCall = payload.role === 'anon' && payload.ref === 'gzzkaxivhqqoezfqtpsd';
+      }
+    } catch (e) {
+      // JWT decode failed
+    }
+
+    const supabaseAdmin = createClient(supabaseUrl, serviceRoleKey);
+    const since = new Date(Date.now() - DIGEST_WINDOW_DAYS * 24 * 60 * 60 * 1000).toISOString();
+
+    if (!isCronCall) {
+      if (!authHeader?.startsWith('Bearer ')) {
+        return new Response(
+          JSON.stringify({ error: 'Unauthorized' }),
+          { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      const supabaseAuth = createClient(supabaseUrl, supabaseAnonKey, {
+        global: { headers: { Authorization: authHeader } },
+      });
+
+      const { data: { user }, error: authError } = await supabaseAuth.auth.getUser();
+
+      if (authError || !user) {
+        return new Response(
+          JSON.stringify({ error: 'Unauthorized' }),
+          { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      const { data: isAdmin } = await supabaseAuth.rpc('has_role', {
+        _user_id: user.id,
+        _role: 'admin',
+      });
+
+      if (!isAdmin) {
+        return new Response(
+          JSON.stringify({ error: 'Forbidden - Admin access required' }),
+          { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      let body: DigestRequest = {};
+      try {
+        body = await req.json();
+      } catch {
+        // No body, fall through to the full send
+      }
+
+      if (body.testEmail) {
+        // Preview the admin's own digest
+        const content = await compileDigest(supabaseAdmin, user.id, since);
+        if (isEmptyDigest(content)) {
+          return new Response(
+            JSON.stringify({ success: true, message: "Nothing to report for you this week" }),
+            { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+          );
+        }
+
+        const { data: settings } = await supabaseAdmin
+          .from('notification_settings')
+          .select('digest_unsubscribe_token')
+          .eq('user_id', user.id)
+          .maybeSingle();
+
+        const sent = await sendDigestEmail(body.testEmail, content, settings?.digest_unsubscribe_token || '');
+        if (!sent) throw new Error("Failed to send test digest");
+
+        return new Response(
+          JSON.stringify({ success: true, message: `Test digest sent to ${body.testEmail}` }),
+          { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      console.log(`Admin ${user.id} triggered weekly digest`);
+    } else {
+      console.log('Cron triggered weekly digest');
+    }
+
+    const duplicateCutoff = new Date(Date.now() - MIN_DAYS_BETWEEN_DIGESTS * 24 * 60 * 60 * 1000).toISOString();
+    const { data: subscribers, error: subscribersError } = await supabaseAdmin
+      .from('notification_settings')
+      .select('user_id, digest_unsubscribe_token')
+      .eq('weekly_digest', true)
+      .or(`last_digest_sent_at.is.null,last_digest_sent_at.lt.${duplicateCutoff}`);
+
+    if (subscribersError) {
+      throw new Error(`Failed to fetch digest subscribers: ${subscribersError.message}`);
+    }
+
+    let sentCount = 0;
+    let skippedCount = 0;
+    let failedCount = 0;
+
+    for (const subscriber of subscribers || []) {
+      try {
+        const content = await compileDigest(supabaseAdmin, subscriber.user_id, since);
+        if (isEmptyDigest(content)) {
+          skippedCount++;
+          continue;
+        }
+
+        const { data: authUser } = await supabaseAdmin.auth.admin.getUserById(subscriber.user_id);
+        if (!authUser?.user?.email) {
+          skippedCount++;
+          continue;
+        }
+
+        const sent = await sendDigestEmail(authUser.user.email, content, subscriber.digest_unsubscribe_token);
+        if (!sent) {
+          failedCount++;
+          continue;
+        }
+
+        sentCount++;
+        await supabaseAdmin
+          .from('notification_settings')
+          .update({ last_digest_sent_at: new Date().toISOString() })
+          .eq('user_id', subscriber.user_id);
+      } catch (err) {
+        failedCount++;
+        console.error(`Error sending digest to ${subscriber.user_id}:`, err);
+      }
+
+      // Rate limit: wait 600ms between emails (under Resend's 2/sec limit)
+      await new Promise(resolve => setTimeout(resolve, 600));
+    }
+
+    console.log(`Weekly digest: ${sentCount} sent, ${skippedCount} skipped, ${failedCount} failed`);
+
+    return new Response(
+      JSON.stringify({ success: true, sent: sentCount, skipped: skippedCount, failed: failedCount }),
+      { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+
+  } catch (error) {
+    console.error("Error in send-weekly-digest function:", error);
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return new Response(
+      JSON.stringify({ error: errorMessage }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+};
+
+serve(handler);
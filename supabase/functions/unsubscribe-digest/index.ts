@@ -0,0 +1,75 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version",
+};
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Turns off the weekly digest for whoever owns the token. Called from the /unsubscribe
+// page and directly by mail clients for one-click unsubscribe, so no sign-in required.
+const handler = async (req: Request): Promise<Response> => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Mail clients send the token in the query string; the app sends it in the body
+    let token = new URL(req.url).searchParams.get("token");
+    if (!token) {
+      try {
+        const body = await req.json();
+        token = body.token;
+      } catch {
+        // No body
+      }
+    }
+
+    if (!token || !UUID_PATTERN.test(token)) {
+      return new Response(
+        JSON.stringify({ error: "Invalid unsubscribe link" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const supabaseAdmin = createClient(
+      Deno.env.get("SUPABASE_URL")!,
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+    );
+
+    const { data, error } = await supabaseAdmin
+      .from('notification_settings')
+      .update({ weekly_digest: false })
+      .eq('digest_unsubscribe_token', token)
+      .select('user_id');
+
+    if (error) throw error;
+
+    if (!data || data.length === 0) {
+      return new Response(
+        JSON.stringify({ error: "Invalid unsubscribe link" }),
+        { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    console.log(`Weekly digest unsubscribed: ${data[0].user_id}`);
+
+    return new Response(
+      JSON.stringify({ success: true }),
+      { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+
+  } catch (error) {
+    console.error("Error in unsubscribe-digest function:", error);
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return new Response(
+      JSON.stringify({ error: errorMessage }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+};
+
+serve(handler);
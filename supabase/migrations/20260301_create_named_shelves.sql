@@ -0,0 +1,161 @@
+-- Named shelves: user-defined groupings of books beyond the three fixed statuses
+CREATE TABLE public.shelves (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL,
+  name TEXT NOT NULL,
+  description TEXT,
+  position INTEGER NOT NULL DEFAULT 0,
+  is_public BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE(user_id, name)
+);
+
+-- Books can sit on any number of named shelves, each with its own ordering
+CREATE TABLE public.shelf_books (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  shelf_id UUID NOT NULL REFERENCES public.shelves(id) ON DELETE CASCADE,
+  book_id UUID NOT NULL REFERENCES public.books(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL DEFAULT 0,
+  added_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE(shelf_id, book_id)
+);
+
+CREATE INDEX idx_shelves_user_id ON public.shelves(user_id);
+CREATE INDEX idx_shelf_books_book_id ON public.shelf_books(book_id);
+
+ALTER TABLE public.shelves ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.shelf_books ENABLE ROW LEVEL SECURITY;
+
+-- Helper to check shelf ownership without recursive policy lookups
+CREATE OR REPLACE FUNCTION public.is_shelf_owner(_user_id UUID, _shelf_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.shelves
+    WHERE id = _shelf_id AND user_id = _user_id
+  )
+$$;
+
+CREATE POLICY "Users can view their own shelves"
+  ON public.shelves FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own shelves"
+  ON public.shelves FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own shelves"
+  ON public.shelves FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own shelves"
+  ON public.shelves FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Owners can view shelf books"
+  ON public.shelf_books FOR SELECT
+  USING (public.is_shelf_owner(auth.uid(), shelf_id));
+
+-- Only books the user owns can be placed on their shelves
+CREATE POLICY "Owners can add shelf books"
+  ON public.shelf_books FOR INSERT
+  WITH CHECK (
+    public.is_shelf_owner(auth.uid(), shelf_id)
+    AND EXISTS (SELECT 1 FROM public.books b WHERE b.id = book_id AND b.user_id = auth.uid())
+  );
+
+CREATE POLICY "Owners can update shelf books"
+  ON public.shelf_books FOR UPDATE
+  USING (public.is_shelf_owner(auth.uid(), shelf_id));
+
+CREATE POLICY "Owners can remove shelf books"
+  ON public.shelf_books FOR DELETE
+  USING (public.is_shelf_owner(auth.uid(), shelf_id));
+
+-- Validate shelf name length
+CREATE OR REPLACE FUNCTION public.validate_shelf_name()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.name := trim(NEW.name);
+
+  IF length(NEW.name) < 1 THEN
+    RAISE EXCEPTION 'Shelf name cannot be empty';
+  END IF;
+
+  IF length(NEW.name) > 50 THEN
+    RAISE EXCEPTION 'Shelf name cannot exceed 50 characters';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER validate_shelf_name_trigger
+BEFORE INSERT OR UPDATE ON public.shelves
+FOR EACH ROW
+EXECUTE FUNCTION public.validate_shelf_name();
+
+CREATE TRIGGER update_shelves_updated_at
+BEFORE UPDATE ON public.shelves
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- List the public named shelves for a shared library
+CREATE OR REPLACE FUNCTION public.get_public_named_shelves(_share_id text)
+RETURNS TABLE(id uuid, name text, description text, book_count bigint)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    s.id,
+    s.name,
+    s.description,
+    (SELECT count(*) FROM public.shelf_books sb WHERE sb.shelf_id = s.id) AS book_count
+  FROM public.shelves s
+  INNER JOIN public.shelf_settings ss ON ss.user_id = s.user_id
+  WHERE ss.share_id = _share_id
+    AND ss.is_public = true
+    AND s.is_public = true
+  ORDER BY s.position ASC, s.created_at ASC
+$$;
+
+-- Drop and recreate get_public_shelf_books so a share link can target a single named shelf
+DROP FUNCTION IF EXISTS public.get_public_shelf_books(text);
+
+CREATE FUNCTION public.get_public_shelf_books(_share_id text, _shelf_id uuid DEFAULT NULL)
+ RETURNS TABLE(id uuid, title text, author text, color text, status text, cover_url text, created_at timestamp with time zone, page_count integer, isbn text, description text, categories text[])
+ LANGUAGE sql
+ STABLE SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+  SELECT
+    b.id,
+    b.title,
+    b.author,
+    b.color,
+    b.status,
+    b.cover_url,
+    b.created_at,
+    b.page_count,
+    b.isbn,
+    b.description,
+    b.categories
+  FROM public.books b
+  INNER JOIN public.shelf_settings ss ON ss.user_id = b.user_id
+  LEFT JOIN public.shelf_books sb ON sb.book_id = b.id AND sb.shelf_id = _shelf_id
+  LEFT JOIN public.shelves s ON s.id = sb.shelf_id
+  WHERE ss.share_id = _share_id
+    AND ss.is_public = true
+    AND (
+      _shelf_id IS NULL
+      OR (s.id IS NOT NULL AND s.user_id = b.user_id AND s.is_public = true)
+    )
+  ORDER BY sb.position ASC NULLS LAST, b.created_at ASC;
+$function$;
@@ -0,0 +1,98 @@
+-- Track when a book was started so reading duration can be computed
+ALTER TABLE public.books
+  ADD COLUMN IF NOT EXISTS started_at TIMESTAMPTZ DEFAULT NULL,
+  ADD COLUMN IF NOT EXISTS current_page INTEGER DEFAULT NULL,
+  ADD COLUMN IF NOT EXISTS progress_percent NUMERIC(5, 2) DEFAULT NULL;
+
+-- Progress log: one row per update (page or percent), with an optional note
+CREATE TABLE public.reading_progress (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  book_id UUID NOT NULL REFERENCES public.books(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  page INTEGER CHECK (page IS NULL OR page >= 0),
+  percent NUMERIC(5, 2) CHECK (percent IS NULL OR (percent >= 0 AND percent <= 100)),
+  note TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (page IS NOT NULL OR percent IS NOT NULL)
+);
+
+CREATE INDEX idx_reading_progress_book_id ON public.reading_progress(book_id, created_at DESC);
+
+ALTER TABLE public.reading_progress ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own reading progress"
+  ON public.reading_progress FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can log progress on their own books"
+  ON public.reading_progress FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (SELECT 1 FROM public.books b WHERE b.id = book_id AND b.user_id = auth.uid())
+  );
+
+CREATE POLICY "Users can delete their own reading progress"
+  ON public.reading_progress FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Fill in percent from page/page_count and trim the note before saving
+CREATE OR REPLACE FUNCTION public.normalize_reading_progress()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _page_count INTEGER;
+BEGIN
+  NEW.note := NULLIF(trim(NEW.note), '');
+
+  IF NEW.note IS NOT NULL AND length(NEW.note) > 280 THEN
+    RAISE EXCEPTION 'Progress note cannot exceed 280 characters';
+  END IF;
+
+  IF NEW.percent IS NULL AND NEW.page IS NOT NULL THEN
+    SELECT page_count INTO _page_count FROM public.books WHERE id = NEW.book_id;
+    IF _page_count IS NOT NULL AND _page_count > 0 THEN
+      NEW.percent := LEAST(100, round(NEW.page * 100.0 / _page_count, 2));
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER normalize_reading_progress_trigger
+BEFORE INSERT ON public.reading_progress
+FOR EACH ROW
+EXECUTE FUNCTION public.normalize_reading_progress();
+
+-- Keep the latest position denormalized on books so shelves can render a fill level cheaply
+CREATE OR REPLACE FUNCTION public.sync_book_progress()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _book_id UUID := COALESCE(NEW.book_id, OLD.book_id);
+  _latest RECORD;
+BEGIN
+  SELECT page, percent INTO _latest
+  FROM public.reading_progress
+  WHERE book_id = _book_id
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  UPDATE public.books
+  SET current_page = _latest.page,
+      progress_percent = _latest.percent
+  WHERE id = _book_id;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER sync_book_progress_trigger
+AFTER INSERT OR DELETE ON public.reading_progress
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_book_progress();
@@ -0,0 +1,114 @@
+-- Reading goals: a target number of books or pages for a calendar year or month
+CREATE TABLE public.reading_goals (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL,
+  period TEXT NOT NULL CHECK (period IN ('year', 'month')),
+  period_start DATE NOT NULL,
+  metric TEXT NOT NULL DEFAULT 'books' CHECK (metric IN ('books', 'pages')),
+  target INTEGER NOT NULL CHECK (target > 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (user_id, period, period_start)
+);
+
+CREATE INDEX idx_reading_goals_user_id ON public.reading_goals(user_id, period_start DESC);
+
+ALTER TABLE public.reading_goals ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own reading goals"
+  ON public.reading_goals FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own reading goals"
+  ON public.reading_goals FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own reading goals"
+  ON public.reading_goals FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own reading goals"
+  ON public.reading_goals FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Snap period_start to the first day of its year/month and cap unrealistic targets
+CREATE OR REPLACE FUNCTION public.validate_reading_goal()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.period_start := date_trunc(NEW.period, NEW.period_start)::date;
+
+  IF NEW.metric = 'books' AND NEW.target > 1000 THEN
+    RAISE EXCEPTION 'Book goal cannot exceed 1000 books';
+  END IF;
+
+  IF NEW.metric = 'pages' AND NEW.target > 500000 THEN
+    RAISE EXCEPTION 'Page goal cannot exceed 500000 pages';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_reading_goal_trigger
+BEFORE INSERT OR UPDATE ON public.reading_goals
+FOR EACH ROW
+EXECUTE FUNCTION public.validate_reading_goal();
+
+CREATE TRIGGER update_reading_goals_updated_at
+BEFORE UPDATE ON public.reading_goals
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Expose the owner's current goal (yearly preferred over monthly) alongside public shelf info.
+-- Progress is computed from finished books so visitors never need access to the books table.
+DROP FUNCTION IF EXISTS public.get_public_shelf_info(text);
+
+CREATE OR REPLACE FUNCTION public.get_public_shelf_info(_share_id text)
+RETURNS TABLE(
+  display_name text,
+  share_id text,
+  is_public boolean,
+  goal_period text,
+  goal_metric text,
+  goal_target integer,
+  goal_progress integer
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    ss.display_name,
+    ss.share_id,
+    ss.is_public,
+    g.period,
+    g.metric,
+    g.target,
+    g.progress
+  FROM public.shelf_settings ss
+  LEFT JOIN LATERAL (
+    SELECT
+      rg.period,
+      rg.metric,
+      rg.target,
+      (
+        SELECT CASE WHEN rg.metric = 'pages' THEN COALESCE(SUM(b.page_count), 0) ELSE COUNT(*) END
+        FROM public.books b
+        WHERE b.user_id = ss.user_id
+          AND b.status = 'read'
+          AND b.completed_at >= rg.period_start
+          AND b.completed_at < rg.period_start + CASE WHEN rg.period = 'year' THEN interval '1 year' ELSE interval '1 month' END
+      )::integer AS progress
+    FROM public.reading_goals rg
+    WHERE rg.user_id = ss.user_id
+      AND rg.period_start = date_trunc(rg.period, now())::date
+    ORDER BY (rg.period = 'year') DESC
+    LIMIT 1
+  ) g ON true
+  WHERE ss.share_id = _share_id AND ss.is_public = true
+  LIMIT 1
+$$;
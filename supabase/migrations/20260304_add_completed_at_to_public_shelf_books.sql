@@ -0,0 +1,34 @@
+-- Drop and recreate get_public_shelf_books to include completed_at (needed for public reading stats)
+DROP FUNCTION IF EXISTS public.get_public_shelf_books(text, uuid);
+
+CREATE FUNCTION public.get_public_shelf_books(_share_id text, _shelf_id uuid DEFAULT NULL)
+ RETURNS TABLE(id uuid, title text, author text, color text, status text, cover_url text, created_at timestamp with time zone, completed_at timestamp with time zone, page_count integer, isbn text, description text, categories text[])
+ LANGUAGE sql
+ STABLE SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+  SELECT
+    b.id,
+    b.title,
+    b.author,
+    b.color,
+    b.status,
+    b.cover_url,
+    b.created_at,
+    b.completed_at,
+    b.page_count,
+    b.isbn,
+    b.description,
+    b.categories
+  FROM public.books b
+  INNER JOIN public.shelf_settings ss ON ss.user_id = b.user_id
+  LEFT JOIN public.shelf_books sb ON sb.book_id = b.id AND sb.shelf_id = _shelf_id
+  LEFT JOIN public.shelves s ON s.id = sb.shelf_id
+  WHERE ss.share_id = _share_id
+    AND ss.is_public = true
+    AND (
+      _shelf_id IS NULL
+      OR (s.id IS NOT NULL AND s.user_id = b.user_id AND s.is_public = true)
+    )
+  ORDER BY sb.position ASC NULLS LAST, b.created_at ASC;
+$function$;
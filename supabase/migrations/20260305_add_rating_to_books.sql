@@ -0,0 +1,4 @@
+-- Personal star rating (half-star steps), so ratings survive imports from other services
+ALTER TABLE public.books
+  ADD COLUMN IF NOT EXISTS rating NUMERIC(2, 1) DEFAULT NULL
+  CHECK (rating IS NULL OR (rating >= 0.5 AND rating <= 5 AND rating * 2 = floor(rating * 2)));
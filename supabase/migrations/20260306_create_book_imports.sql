@@ -0,0 +1,91 @@
+-- Batch imports: books are inserted in one transaction, then enriched in the background by the import-books function
+CREATE TABLE public.book_imports (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL,
+  source TEXT NOT NULL DEFAULT 'generic' CHECK (source IN ('goodreads', 'storygraph', 'librarything', 'generic')),
+  status TEXT NOT NULL DEFAULT 'enriching' CHECK (status IN ('enriching', 'completed')),
+  total_count INTEGER NOT NULL DEFAULT 0,
+  enriched_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  completed_at TIMESTAMPTZ DEFAULT NULL
+);
+
+CREATE INDEX idx_book_imports_user_id ON public.book_imports(user_id, created_at DESC);
+
+ALTER TABLE public.book_imports ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own imports"
+  ON public.book_imports FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own imports"
+  ON public.book_imports FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_book_imports_updated_at
+BEFORE UPDATE ON public.book_imports
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Imported books remember their batch so enrichment can pick up where it left off
+ALTER TABLE public.books
+  ADD COLUMN IF NOT EXISTS import_id UUID DEFAULT NULL REFERENCES public.book_imports(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_books_pending_import ON public.books(import_id, created_at)
+  WHERE import_id IS NOT NULL AND metadata_attempted_at IS NULL;
+
+-- Insert every row of an import atomically. Rows keep their file order, original read dates, ISBNs and ratings.
+CREATE OR REPLACE FUNCTION public.import_books(_source TEXT, _books JSONB)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _import_id UUID;
+  _count INTEGER;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF jsonb_typeof(_books) IS DISTINCT FROM 'array' OR jsonb_array_length(_books) = 0 THEN
+    RAISE EXCEPTION 'No books to import';
+  END IF;
+
+  IF jsonb_array_length(_books) > 5000 THEN
+    RAISE EXCEPTION 'Imports are limited to 5000 books at a time';
+  END IF;
+
+  INSERT INTO public.book_imports (user_id, source)
+  VALUES (_user_id, _source)
+  RETURNING id INTO _import_id;
+
+  INSERT INTO public.books (user_id, title, author, status, isbn, completed_at, rating, import_id, created_at)
+  SELECT
+    _user_id,
+    left(trim(b.value->>'title'), 500),
+    left(COALESCE(NULLIF(trim(b.value->>'author'), ''), 'Unknown Author'), 300),
+    CASE WHEN b.value->>'status' IN ('reading', 'want-to-read', 'read') THEN b.value->>'status' ELSE 'want-to-read' END,
+    NULLIF(trim(b.value->>'isbn'), ''),
+    CASE WHEN b.value->>'status' = 'read' THEN (NULLIF(b.value->>'completedAt', ''))::timestamptz END,
+    (NULLIF(b.value->>'rating', ''))::numeric,
+    _import_id,
+    -- Microsecond offsets keep the shelf in the same order as the file
+    now() + (b.ordinality * interval '1 microsecond')
+  FROM jsonb_array_elements(_books) WITH ORDINALITY AS b(value, ordinality)
+  WHERE NULLIF(trim(b.value->>'title'), '') IS NOT NULL;
+
+  GET DIAGNOSTICS _count = ROW_COUNT;
+
+  IF _count = 0 THEN
+    RAISE EXCEPTION 'No books to import';
+  END IF;
+
+  UPDATE public.book_imports SET total_count = _count WHERE id = _import_id;
+
+  RETURN _import_id;
+END;
+$$;
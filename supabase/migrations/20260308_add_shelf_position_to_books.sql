@@ -0,0 +1,67 @@
+-- Hand-arranged shelf order for the 'custom' sort. NULL means the book hasn't been placed yet.
+ALTER TABLE public.books
+  ADD COLUMN IF NOT EXISTS shelf_position INTEGER DEFAULT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_books_user_shelf_position ON public.books(user_id, shelf_position);
+
+-- Save the whole arrangement in one statement; books not listed keep their current position
+CREATE OR REPLACE FUNCTION public.reorder_books(_book_ids UUID[])
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  UPDATE public.books b
+  SET shelf_position = o.position - 1
+  FROM unnest(_book_ids) WITH ORDINALITY AS o(book_id, position)
+  WHERE b.id = o.book_id
+    AND b.user_id = _user_id;
+END;
+$$;
+
+-- Drop and recreate get_public_shelf_books so friends see the owner's arrangement
+DROP FUNCTION IF EXISTS public.get_public_shelf_books(text, uuid);
+
+CREATE FUNCTION public.get_public_shelf_books(_share_id text, _shelf_id uuid DEFAULT NULL)
+ RETURNS TABLE(id uuid, title text, author text, color text, status text, cover_url text, created_at timestamp with time zone, completed_at timestamp with time zone, page_count integer, isbn text, description text, categories text[], rating numeric, review text, review_has_spoilers boolean, reviewed_at timestamp with time zone, shelf_position integer)
+ LANGUAGE sql
+ STABLE SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+  SELECT
+    b.id,
+    b.title,
+    b.author,
+    b.color,
+    b.status,
+    b.cover_url,
+    b.created_at,
+    b.completed_at,
+    b.page_count,
+    b.isbn,
+    b.description,
+    b.categories,
+    b.rating,
+    b.review,
+    b.review_has_spoilers,
+    b.reviewed_at,
+    b.shelf_position
+  FROM public.books b
+  INNER JOIN public.shelf_settings ss ON ss.user_id = b.user_id
+  LEFT JOIN public.shelf_books sb ON sb.book_id = b.id AND sb.shelf_id = _shelf_id
+  LEFT JOIN public.shelves s ON s.id = sb.shelf_id
+  WHERE ss.share_id = _share_id
+    AND ss.is_public = true
+    AND (
+      _shelf_id IS NULL
+      OR (s.id IS NOT NULL AND s.user_id = b.user_id AND s.is_public = true)
+    )
+  ORDER BY sb.position ASC NULLS LAST, b.shelf_position ASC NULLS LAST, b.created_at ASC;
+$function$;
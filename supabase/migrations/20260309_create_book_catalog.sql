@@ -0,0 +1,246 @@
+-- Shared catalog of works and editions. Each books row stays a per-user copy (so owners can still
+-- set their own cover), but links to the edition it came from so metadata is looked up once and
+-- fixes reach every owner. Edition metadata only ever comes from providers (enrich-book and the
+-- backfill jobs), never from what users type into their own copies.
+
+-- Title/author key used to match the same work across users
+CREATE OR REPLACE FUNCTION public.normalize_book_key(_title TEXT, _author TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT lower(regexp_replace(trim(coalesce(_title, '')), '\s+', ' ', 'g'))
+    || '|' || lower(regexp_replace(trim(coalesce(_author, '')), '\s+', ' ', 'g'));
+$$;
+
+-- Digits (and a trailing X) only; NULL when nothing is left
+CREATE OR REPLACE FUNCTION public.normalize_isbn(_isbn TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT nullif(regexp_replace(upper(coalesce(_isbn, '')), '[^0-9X]', '', 'g'), '');
+$$;
+
+CREATE TABLE public.book_works (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  normalized_key TEXT NOT NULL UNIQUE,
+  open_library_work_id TEXT UNIQUE,
+  title TEXT NOT NULL,
+  author TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- An edition with no ISBN stands in for "this work, edition unknown" - at most one per work
+CREATE TABLE public.book_editions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  work_id UUID NOT NULL REFERENCES public.book_works(id) ON DELETE CASCADE,
+  isbn TEXT UNIQUE,
+  cover_url TEXT,
+  page_count INTEGER,
+  description TEXT,
+  categories TEXT[],
+  metadata_source TEXT,
+  metadata_attempted_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX idx_book_editions_default_per_work ON public.book_editions(work_id) WHERE isbn IS NULL;
+CREATE INDEX idx_book_editions_work_id ON public.book_editions(work_id);
+
+ALTER TABLE public.book_works ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.book_editions ENABLE ROW LEVEL SECURITY;
+
+-- Catalog data is public metadata; writes go through the functions below or the service role
+CREATE POLICY "Anyone can view book works"
+  ON public.book_works FOR SELECT
+  USING (true);
+
+CREATE POLICY "Anyone can view book editions"
+  ON public.book_editions FOR SELECT
+  USING (true);
+
+CREATE TRIGGER update_book_works_updated_at
+  BEFORE UPDATE ON public.book_works
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_book_editions_updated_at
+  BEFORE UPDATE ON public.book_editions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.books
+  ADD COLUMN IF NOT EXISTS work_id UUID REFERENCES public.book_works(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS edition_id UUID REFERENCES public.book_editions(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_books_work_id ON public.books(work_id);
+CREATE INDEX IF NOT EXISTS idx_books_edition_id ON public.books(edition_id);
+
+-- Find or create the catalog edition for a book. ISBN wins; otherwise the work's ISBN-less edition.
+CREATE OR REPLACE FUNCTION public.resolve_book_edition(
+  _title TEXT,
+  _author TEXT,
+  _isbn TEXT DEFAULT NULL,
+  _open_library_work_id TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _clean_isbn TEXT := public.normalize_isbn(_isbn);
+  _work_id UUID;
+  _edition_id UUID;
+BEGIN
+  IF _clean_isbn IS NOT NULL THEN
+    SELECT id INTO _edition_id FROM public.book_editions WHERE isbn = _clean_isbn;
+    IF _edition_id IS NOT NULL THEN
+      RETURN _edition_id;
+    END IF;
+  END IF;
+
+  IF _open_library_work_id IS NOT NULL THEN
+    SELECT id INTO _work_id FROM public.book_works WHERE open_library_work_id = _open_library_work_id;
+  END IF;
+
+  IF _work_id IS NULL THEN
+    INSERT INTO public.book_works (normalized_key, title, author, open_library_work_id)
+    VALUES (public.normalize_book_key(_title, _author), trim(_title), trim(coalesce(_author, 'Unknown')), _open_library_work_id)
+    ON CONFLICT (normalized_key) DO UPDATE
+      SET open_library_work_id = coalesce(book_works.open_library_work_id, EXCLUDED.open_library_work_id)
+    RETURNING id INTO _work_id;
+  END IF;
+
+  IF _clean_isbn IS NOT NULL THEN
+    INSERT INTO public.book_editions (work_id, isbn)
+    VALUES (_work_id, _clean_isbn)
+    ON CONFLICT (isbn) DO UPDATE SET updated_at = now()
+    RETURNING id INTO _edition_id;
+  ELSE
+    SELECT id INTO _edition_id FROM public.book_editions WHERE work_id = _work_id AND isbn IS NULL;
+    IF _edition_id IS NULL THEN
+      INSERT INTO public.book_editions (work_id)
+      VALUES (_work_id)
+      ON CONFLICT (work_id) WHERE isbn IS NULL DO UPDATE SET updated_at = now()
+      RETURNING id INTO _edition_id;
+    END IF;
+  END IF;
+
+  RETURN _edition_id;
+END;
+$$;
+
+-- Only the catalog trigger and the service role resolve editions
+REVOKE EXECUTE ON FUNCTION public.resolve_book_edition(TEXT, TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Backfill: one work per title/author, one edition per ISBN plus an ISBN-less edition per work
+INSERT INTO public.book_works (normalized_key, title, author)
+SELECT DISTINCT ON (public.normalize_book_key(title, author))
+  public.normalize_book_key(title, author), trim(title), trim(author)
+FROM public.books
+ORDER BY public.normalize_book_key(title, author), created_at ASC
+ON CONFLICT (normalized_key) DO NOTHING;
+
+INSERT INTO public.book_editions (work_id)
+SELECT id FROM public.book_works
+ON CONFLICT (work_id) WHERE isbn IS NULL DO NOTHING;
+
+INSERT INTO public.book_editions (work_id, isbn)
+SELECT DISTINCT ON (public.normalize_isbn(b.isbn)) w.id, public.normalize_isbn(b.isbn)
+FROM public.books b
+JOIN public.book_works w ON w.normalized_key = public.normalize_book_key(b.title, b.author)
+WHERE public.normalize_isbn(b.isbn) IS NOT NULL
+ORDER BY public.normalize_isbn(b.isbn), b.created_at ASC
+ON CONFLICT (isbn) DO NOTHING;
+
+UPDATE public.books b
+SET
+  work_id = e.work_id,
+  edition_id = e.id
+FROM public.book_works w
+JOIN public.book_editions e ON e.work_id = w.id
+WHERE w.normalized_key = public.normalize_book_key(b.title, b.author)
+  AND e.isbn IS NULL
+  AND public.normalize_isbn(b.isbn) IS NULL;
+
+UPDATE public.books b
+SET
+  work_id = e.work_id,
+  edition_id = e.id
+FROM public.book_editions e
+WHERE e.isbn = public.normalize_isbn(b.isbn);
+
+-- Link every new or re-titled book to the catalog, filling gaps from what's already known
+CREATE OR REPLACE FUNCTION public.link_book_to_catalog()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _edition public.book_editions%ROWTYPE;
+BEGIN
+  NEW.edition_id := public.resolve_book_edition(NEW.title, NEW.author, NEW.isbn);
+  SELECT * INTO _edition FROM public.book_editions WHERE id = NEW.edition_id;
+  NEW.work_id := _edition.work_id;
+
+  IF NEW.cover_url IS NULL OR NEW.cover_url IN ('', '/placeholder.svg') THEN
+    NEW.cover_url := coalesce(_edition.cover_url, NEW.cover_url);
+  END IF;
+  NEW.page_count := coalesce(NEW.page_count, _edition.page_count);
+  NEW.description := coalesce(NEW.description, _edition.description);
+  NEW.categories := coalesce(NEW.categories, _edition.categories);
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER link_book_to_catalog
+  BEFORE INSERT OR UPDATE OF title, author, isbn ON public.books
+  FOR EACH ROW
+  EXECUTE FUNCTION public.link_book_to_catalog();
+
+-- Push edition fixes to every owner of that edition. Copies the owner changed themselves
+-- (anything that no longer matches the old edition value) are left alone.
+CREATE OR REPLACE FUNCTION public.propagate_edition_metadata()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.books b
+  SET
+    cover_url = CASE
+      WHEN NEW.cover_url IS NOT NULL
+        AND (b.cover_url IS NULL OR b.cover_url IN ('', '/placeholder.svg') OR b.cover_url = OLD.cover_url)
+      THEN NEW.cover_url ELSE b.cover_url END,
+    page_count = CASE
+      WHEN NEW.page_count IS NOT NULL AND (b.page_count IS NULL OR b.page_count = OLD.page_count)
+      THEN NEW.page_count ELSE b.page_count END,
+    description = CASE
+      WHEN NEW.description IS NOT NULL AND (b.description IS NULL OR b.description = OLD.description)
+      THEN NEW.description ELSE b.description END,
+    categories = CASE
+      WHEN NEW.categories IS NOT NULL AND (b.categories IS NULL OR b.categories = OLD.categories)
+      THEN NEW.categories ELSE b.categories END
+  WHERE b.edition_id = NEW.id;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER propagate_edition_metadata
+  AFTER UPDATE OF cover_url, page_count, description, categories ON public.book_editions
+  FOR EACH ROW
+  WHEN (
+    OLD.cover_url IS DISTINCT FROM NEW.cover_url
+    OR OLD.page_count IS DISTINCT FROM NEW.page_count
+    OR OLD.description IS DISTINCT FROM NEW.description
+    OR OLD.categories IS DISTINCT FROM NEW.categories
+  )
+  EXECUTE FUNCTION public.propagate_edition_metadata();
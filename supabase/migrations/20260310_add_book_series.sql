@@ -0,0 +1,108 @@
+-- Series a book belongs to and where it falls in the reading order.
+-- Positions are numeric because novellas often sit between books (e.g. #2.5).
+-- A user's series stays on their own copy; the shared work only takes series data from providers.
+ALTER TABLE public.book_works
+  ADD COLUMN IF NOT EXISTS series_name TEXT,
+  ADD COLUMN IF NOT EXISTS series_position NUMERIC;
+
+ALTER TABLE public.books
+  ADD COLUMN IF NOT EXISTS series_name TEXT,
+  ADD COLUMN IF NOT EXISTS series_position NUMERIC;
+
+CREATE INDEX IF NOT EXISTS idx_book_works_series ON public.book_works(lower(series_name), series_position)
+  WHERE series_name IS NOT NULL;
+
+-- Backfill from Goodreads-style titles: "The Fellowship of the Ring (The Lord of the Rings, #1)"
+UPDATE public.books b
+SET
+  series_name = trim(m[1]),
+  series_position = m[2]::numeric
+FROM (
+  SELECT id, regexp_match(title, '\(([^()#]+?),?\s*#(\d+(?:\.\d+)?)\)\s*$') AS m
+  FROM public.books
+  WHERE series_name IS NULL
+) parsed
+WHERE b.id = parsed.id
+  AND parsed.m IS NOT NULL;
+
+-- Same as before, plus series info from the title or the work
+CREATE OR REPLACE FUNCTION public.link_book_to_catalog()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _edition public.book_editions%ROWTYPE;
+  _work public.book_works%ROWTYPE;
+  _series TEXT[];
+BEGIN
+  NEW.edition_id := public.resolve_book_edition(NEW.title, NEW.author, NEW.isbn);
+  SELECT * INTO _edition FROM public.book_editions WHERE id = NEW.edition_id;
+  SELECT * INTO _work FROM public.book_works WHERE id = _edition.work_id;
+  NEW.work_id := _edition.work_id;
+
+  IF NEW.cover_url IS NULL OR NEW.cover_url IN ('', '/placeholder.svg') THEN
+    NEW.cover_url := coalesce(_edition.cover_url, NEW.cover_url);
+  END IF;
+  NEW.page_count := coalesce(NEW.page_count, _edition.page_count);
+  NEW.description := coalesce(NEW.description, _edition.description);
+  NEW.categories := coalesce(NEW.categories, _edition.categories);
+
+  -- Series notation in the title wins, then whatever the work already knows
+  IF NEW.series_name IS NULL THEN
+    _series := regexp_match(NEW.title, '\(([^()#]+?),?\s*#(\d+(?:\.\d+)?)\)\s*$');
+    IF _series IS NOT NULL THEN
+      NEW.series_name := trim(_series[1]);
+      NEW.series_position := _series[2]::numeric;
+    ELSE
+      NEW.series_name := _work.series_name;
+      NEW.series_position := _work.series_position;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Drop and recreate get_public_shelf_books so visitors see series badges and grouping
+DROP FUNCTION IF EXISTS public.get_public_shelf_books(text, uuid);
+
+CREATE FUNCTION public.get_public_shelf_books(_share_id text, _shelf_id uuid DEFAULT NULL)
+ RETURNS TABLE(id uuid, title text, author text, color text, status text, cover_url text, created_at timestamp with time zone, completed_at timestamp with time zone, page_count integer, isbn text, description text, categories text[], rating numeric, review text, review_has_spoilers boolean, reviewed_at timestamp with time zone, shelf_position integer, series_name text, series_position numeric)
+ LANGUAGE sql
+ STABLE SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+  SELECT
+    b.id,
+    b.title,
+    b.author,
+    b.color,
+    b.status,
+    b.cover_url,
+    b.created_at,
+    b.completed_at,
+    b.page_count,
+    b.isbn,
+    b.description,
+    b.categories,
+    b.rating,
+    b.review,
+    b.review_has_spoilers,
+    b.reviewed_at,
+    b.shelf_position,
+    b.series_name,
+    b.series_position
+  FROM public.books b
+  INNER JOIN public.shelf_settings ss ON ss.user_id = b.user_id
+  LEFT JOIN public.shelf_books sb ON sb.book_id = b.id AND sb.shelf_id = _shelf_id
+  LEFT JOIN public.shelves s ON s.id = sb.shelf_id
+  WHERE ss.share_id = _share_id
+    AND ss.is_public = true
+    AND (
+      _shelf_id IS NULL
+      OR (s.id IS NOT NULL AND s.user_id = b.user_id AND s.is_public = true)
+    )
+  ORDER BY sb.position ASC NULLS LAST, b.shelf_position ASC NULLS LAST, b.created_at ASC;
+$function$;
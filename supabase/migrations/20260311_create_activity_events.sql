@@ -0,0 +1,110 @@
+-- Reading activity shown in followers' feeds. Book and club details are copied at write time
+-- so the feed reads from one table, whoever owns the book.
+CREATE TABLE public.activity_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL,
+  event_type TEXT NOT NULL CHECK (event_type IN ('added', 'started', 'finished', 'rated', 'liked', 'commented', 'joined_club')),
+  book_id UUID REFERENCES public.books(id) ON DELETE CASCADE,
+  book_owner_id UUID,
+  book_title TEXT,
+  book_author TEXT,
+  book_cover_url TEXT,
+  club_id UUID REFERENCES public.book_clubs(id) ON DELETE CASCADE,
+  club_name TEXT,
+  rating NUMERIC(2,1),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_activity_events_user_created ON public.activity_events(user_id, created_at DESC);
+
+ALTER TABLE public.activity_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own activity"
+  ON public.activity_events FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Followers see activity from public shelves they follow
+CREATE POLICY "Followers can view activity of followed public shelves"
+  ON public.activity_events FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.follows f
+      WHERE f.follower_id = auth.uid() AND f.following_id = activity_events.user_id
+    )
+    AND EXISTS (
+      SELECT 1 FROM public.shelf_settings ss
+      WHERE ss.user_id = activity_events.user_id AND ss.is_public = true
+    )
+  );
+
+CREATE POLICY "Users can delete own activity"
+  ON public.activity_events FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Events are written through record_activity so the snapshot can't be forged
+CREATE OR REPLACE FUNCTION public.record_activity(
+  _event_type TEXT,
+  _book_id UUID DEFAULT NULL,
+  _club_id UUID DEFAULT NULL,
+  _rating NUMERIC DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _book public.books%ROWTYPE;
+  _club public.book_clubs%ROWTYPE;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF _book_id IS NOT NULL THEN
+    SELECT * INTO _book FROM public.books WHERE id = _book_id;
+    IF _book.id IS NULL THEN
+      RAISE EXCEPTION 'Book not found';
+    END IF;
+  END IF;
+
+  IF _club_id IS NOT NULL THEN
+    SELECT * INTO _club FROM public.book_clubs WHERE id = _club_id;
+  END IF;
+
+  -- Only record what the caller actually did
+  IF _event_type IN ('added', 'started', 'finished', 'rated') AND _book.user_id IS DISTINCT FROM _user_id THEN
+    RAISE EXCEPTION 'Not your book';
+  ELSIF _event_type = 'liked' AND NOT EXISTS (
+    SELECT 1 FROM public.book_likes WHERE book_id = _book_id AND user_id = _user_id
+  ) THEN
+    RAISE EXCEPTION 'Like not found';
+  ELSIF _event_type = 'commented' AND NOT EXISTS (
+    SELECT 1 FROM public.book_comments WHERE book_id = _book_id AND user_id = _user_id
+  ) THEN
+    RAISE EXCEPTION 'Comment not found';
+  ELSIF _event_type = 'joined_club' AND NOT EXISTS (
+    SELECT 1 FROM public.book_club_members WHERE club_id = _club_id AND user_id = _user_id
+  ) THEN
+    RAISE EXCEPTION 'Not a club member';
+  END IF;
+
+  -- Flip-flopping a status or re-rating within the hour replaces the earlier event
+  DELETE FROM public.activity_events
+  WHERE user_id = _user_id
+    AND event_type = _event_type
+    AND book_id IS NOT DISTINCT FROM _book_id
+    AND club_id IS NOT DISTINCT FROM _club_id
+    AND created_at > now() - interval '1 hour';
+
+  INSERT INTO public.activity_events (
+    user_id, event_type, book_id, book_owner_id, book_title, book_author, book_cover_url, club_id, club_name, rating
+  ) VALUES (
+    _user_id, _event_type, _book.id, _book.user_id, _book.title, _book.author, _book.cover_url, _club.id, _club.name, _rating
+  );
+END;
+$$;
+
+-- Enable realtime for activity_events
+ALTER PUBLICATION supabase_realtime ADD TABLE public.activity_events;
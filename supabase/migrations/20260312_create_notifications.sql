@@ -0,0 +1,246 @@
+-- One inbox for everything that happens to a user. Rows are written by triggers on the
+-- source tables, so every client and edge function sees the same notifications.
+CREATE TABLE public.notifications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL,
+  actor_id UUID,
+  type TEXT NOT NULL CHECK (type IN ('like', 'comment', 'follow', 'recommendation', 'mystery_book', 'mystery_reaction')),
+  book_id UUID REFERENCES public.books(id) ON DELETE CASCADE,
+  -- The like/comment/follow/recommendation/mystery book row this came from
+  entity_id UUID,
+  title TEXT,
+  body TEXT,
+  read_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_notifications_user_created ON public.notifications(user_id, created_at DESC);
+CREATE INDEX idx_notifications_entity ON public.notifications(type, entity_id);
+
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own notifications"
+  ON public.notifications FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own notifications"
+  ON public.notifications FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own notifications"
+  ON public.notifications FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Per-type channel preferences, e.g. {"like": {"in_app": true, "email": false}}.
+-- Missing keys fall back to the defaults in notification_allowed.
+ALTER TABLE public.notification_settings
+  ADD COLUMN IF NOT EXISTS preferences JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+CREATE OR REPLACE FUNCTION public.notification_allowed(_user_id UUID, _type TEXT, _channel TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (
+      SELECT (ns.preferences -> _type ->> _channel)::boolean
+      FROM public.notification_settings ns
+      WHERE ns.user_id = _user_id
+    ),
+    -- Emails used to go out for follows, recommendations and mystery books only
+    CASE
+      WHEN _channel = 'in_app' THEN true
+      ELSE _type IN ('follow', 'recommendation', 'mystery_book')
+    END
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.create_notification(
+  _user_id UUID,
+  _actor_id UUID,
+  _type TEXT,
+  _book_id UUID,
+  _entity_id UUID,
+  _title TEXT,
+  _body TEXT
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF _user_id IS NULL OR _user_id = _actor_id THEN
+    RETURN;
+  END IF;
+
+  IF NOT public.notification_allowed(_user_id, _type, 'in_app') THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO public.notifications (user_id, actor_id, type, book_id, entity_id, title, body)
+  VALUES (_user_id, _actor_id, _type, _book_id, _entity_id, _title, _body);
+END;
+$$;
+
+-- Likes
+CREATE OR REPLACE FUNCTION public.notify_book_like()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _book public.books%ROWTYPE;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    DELETE FROM public.notifications WHERE type = 'like' AND entity_id = OLD.id;
+    RETURN OLD;
+  END IF;
+
+  SELECT * INTO _book FROM public.books WHERE id = NEW.book_id;
+  PERFORM public.create_notification(_book.user_id, NEW.user_id, 'like', _book.id, NEW.id, _book.title, NULL);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_book_like
+  AFTER INSERT OR DELETE ON public.book_likes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_book_like();
+
+-- Comments
+CREATE OR REPLACE FUNCTION public.notify_book_comment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _book public.books%ROWTYPE;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    DELETE FROM public.notifications WHERE type = 'comment' AND entity_id = OLD.id;
+    RETURN OLD;
+  END IF;
+
+  SELECT * INTO _book FROM public.books WHERE id = NEW.book_id;
+  PERFORM public.create_notification(_book.user_id, NEW.user_id, 'comment', _book.id, NEW.id, _book.title, left(NEW.content, 140));
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_book_comment
+  AFTER INSERT OR DELETE ON public.book_comments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_book_comment();
+
+-- Follows
+CREATE OR REPLACE FUNCTION public.notify_follow()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    DELETE FROM public.notifications WHERE type = 'follow' AND entity_id = OLD.id;
+    RETURN OLD;
+  END IF;
+
+  PERFORM public.create_notification(NEW.following_id, NEW.follower_id, 'follow', NULL, NEW.id, NULL, NULL);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_follow
+  AFTER INSERT OR DELETE ON public.follows
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_follow();
+
+-- Recommendations
+CREATE OR REPLACE FUNCTION public.notify_book_recommendation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.create_notification(NEW.to_user_id, NEW.from_user_id, 'recommendation', NULL, NEW.id, NEW.title, NEW.message);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_book_recommendation
+  AFTER INSERT ON public.book_recommendations
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_book_recommendation();
+
+-- Mystery books: the recipient hears about the gift (title stays hidden),
+-- the sender hears about the reaction
+CREATE OR REPLACE FUNCTION public.notify_mystery_book()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    PERFORM public.create_notification(NEW.to_user_id, NEW.from_user_id, 'mystery_book', NULL, NEW.id, NULL, NEW.teaser);
+  ELSIF NEW.reaction_emoji IS NOT NULL AND NEW.reaction_emoji IS DISTINCT FROM OLD.reaction_emoji THEN
+    PERFORM public.create_notification(
+      NEW.from_user_id, NEW.to_user_id, 'mystery_reaction', NULL, NEW.id, NEW.title,
+      trim(NEW.reaction_emoji || ' ' || COALESCE(NEW.reaction_note, ''))
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_mystery_book
+  AFTER INSERT OR UPDATE OF reaction_emoji ON public.mystery_books
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_mystery_book();
+
+-- Backfill the last 30 days, marking anything older than the old last_seen_* stamps as read
+INSERT INTO public.notifications (user_id, actor_id, type, book_id, entity_id, title, created_at, read_at)
+SELECT b.user_id, bl.user_id, 'like', b.id, bl.id, b.title, bl.created_at,
+  CASE WHEN bl.created_at <= ns.last_seen_likes_at THEN ns.last_seen_likes_at END
+FROM public.book_likes bl
+JOIN public.books b ON b.id = bl.book_id
+LEFT JOIN public.notification_settings ns ON ns.user_id = b.user_id
+WHERE bl.user_id <> b.user_id AND bl.created_at > now() - interval '30 days';
+
+INSERT INTO public.notifications (user_id, actor_id, type, entity_id, created_at, read_at)
+SELECT f.following_id, f.follower_id, 'follow', f.id, f.created_at,
+  CASE WHEN f.created_at <= ns.last_seen_followers_at THEN ns.last_seen_followers_at END
+FROM public.follows f
+LEFT JOIN public.notification_settings ns ON ns.user_id = f.following_id
+WHERE f.created_at > now() - interval '30 days';
+
+INSERT INTO public.notifications (user_id, actor_id, type, entity_id, title, body, created_at, read_at)
+SELECT r.to_user_id, r.from_user_id, 'recommendation', r.id, r.title, r.message, r.created_at,
+  CASE WHEN r.created_at <= ns.last_seen_recommendations_at THEN ns.last_seen_recommendations_at END
+FROM public.book_recommendations r
+LEFT JOIN public.notification_settings ns ON ns.user_id = r.to_user_id
+WHERE r.status = 'pending';
+
+INSERT INTO public.notifications (user_id, actor_id, type, entity_id, body, created_at, read_at)
+SELECT m.to_user_id, m.from_user_id, 'mystery_book', m.id, m.teaser, m.created_at,
+  CASE WHEN m.created_at <= ns.last_seen_mystery_books_at THEN ns.last_seen_mystery_books_at END
+FROM public.mystery_books m
+LEFT JOIN public.notification_settings ns ON ns.user_id = m.to_user_id
+WHERE m.status IN ('pending', 'unwrapped');
+
+-- Read state now lives on each notification. last_seen_follows_at stays: it tracks
+-- the "Following" tab (new books on followed shelves), which isn't an inbox item.
+ALTER TABLE public.notification_settings
+  DROP COLUMN IF EXISTS last_seen_likes_at,
+  DROP COLUMN IF EXISTS last_seen_followers_at,
+  DROP COLUMN IF EXISTS last_seen_recommendations_at,
+  DROP COLUMN IF EXISTS last_seen_mystery_books_at;
+
+-- Enable realtime for notifications
+ALTER PUBLICATION supabase_realtime ADD TABLE public.notifications;
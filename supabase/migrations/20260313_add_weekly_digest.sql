@@ -0,0 +1,13 @@
+-- Weekly email digest of friend activity and club updates. Opt-in; the token backs the
+-- one-click unsubscribe link so it works without signing in.
+ALTER TABLE public.notification_settings
+  ADD COLUMN IF NOT EXISTS weekly_digest BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS last_digest_sent_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS digest_unsubscribe_token UUID NOT NULL DEFAULT gen_random_uuid();
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_notification_settings_unsubscribe_token
+  ON public.notification_settings(digest_unsubscribe_token);
+
+CREATE INDEX IF NOT EXISTS idx_notification_settings_weekly_digest
+  ON public.notification_settings(weekly_digest)
+  WHERE weekly_digest = true;
@@ -0,0 +1,177 @@
+-- Threaded comments: one level of replies, an edited marker, @mentions and emoji reactions
+ALTER TABLE public.book_comments
+  ADD COLUMN IF NOT EXISTS parent_id UUID REFERENCES public.book_comments(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS edited_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_book_comments_parent_id ON public.book_comments(parent_id);
+
+-- Replies to replies hang off the top-level comment, and only content can change on edit
+CREATE OR REPLACE FUNCTION public.prepare_book_comment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _parent public.book_comments%ROWTYPE;
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    NEW.book_id := OLD.book_id;
+    NEW.user_id := OLD.user_id;
+    NEW.parent_id := OLD.parent_id;
+    NEW.created_at := OLD.created_at;
+    IF NEW.content IS DISTINCT FROM OLD.content THEN
+      NEW.edited_at := now();
+    ELSE
+      NEW.edited_at := OLD.edited_at;
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  NEW.edited_at := NULL;
+
+  IF NEW.parent_id IS NOT NULL THEN
+    SELECT * INTO _parent FROM public.book_comments WHERE id = NEW.parent_id;
+    IF _parent.id IS NULL OR _parent.book_id <> NEW.book_id THEN
+      RAISE EXCEPTION 'Reply must be on the same book as its comment';
+    END IF;
+    NEW.parent_id := COALESCE(_parent.parent_id, _parent.id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER prepare_book_comment
+  BEFORE INSERT OR UPDATE ON public.book_comments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prepare_book_comment();
+
+-- Reactions
+CREATE TABLE public.book_comment_reactions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  comment_id UUID NOT NULL REFERENCES public.book_comments(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  emoji TEXT NOT NULL CHECK (emoji IN ('❤️', '😂', '😮', '😢', '👏', '📚')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (comment_id, user_id, emoji)
+);
+
+CREATE INDEX idx_book_comment_reactions_comment_id ON public.book_comment_reactions(comment_id);
+
+ALTER TABLE public.book_comment_reactions ENABLE ROW LEVEL SECURITY;
+
+-- Visible wherever the comment itself is (book_comments RLS applies inside the subquery)
+CREATE POLICY "Users can view reactions on visible comments"
+  ON public.book_comment_reactions FOR SELECT
+  USING (
+    EXISTS (SELECT 1 FROM public.book_comments c WHERE c.id = book_comment_reactions.comment_id)
+  );
+
+CREATE POLICY "Users can react to visible comments"
+  ON public.book_comment_reactions FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (SELECT 1 FROM public.book_comments c WHERE c.id = book_comment_reactions.comment_id)
+  );
+
+CREATE POLICY "Users can remove their own reactions"
+  ON public.book_comment_reactions FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can delete any reaction"
+  ON public.book_comment_reactions FOR DELETE
+  USING (has_role(auth.uid(), 'admin'));
+
+-- Replies and mentions get their own notification types
+ALTER TABLE public.notifications DROP CONSTRAINT IF EXISTS notifications_type_check;
+ALTER TABLE public.notifications ADD CONSTRAINT notifications_type_check
+  CHECK (type IN ('like', 'comment', 'reply', 'mention', 'follow', 'recommendation', 'mystery_book', 'mystery_reaction'));
+
+-- Whether a user can read a book's comments; mentions only reach people who can
+CREATE OR REPLACE FUNCTION public.book_visible_to(_viewer_id UUID, _book_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.books b
+    WHERE b.id = _book_id
+      AND (
+        b.user_id = _viewer_id
+        OR EXISTS (SELECT 1 FROM public.shelf_settings ss WHERE ss.user_id = b.user_id AND ss.is_public)
+      )
+  )
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.book_visible_to(UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Each person hears about a comment once: the parent's author as a reply, the book owner
+-- as a comment, anyone else @mentioned as a mention. Edits only notify newly mentioned users.
+-- Mentions use the same pattern as src/lib/comments.ts: an @ straight after a word is an email.
+CREATE OR REPLACE FUNCTION public.notify_book_comment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _book public.books%ROWTYPE;
+  _parent_author UUID;
+  _notified UUID[] := ARRAY[]::UUID[];
+  _mentioned UUID;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    DELETE FROM public.notifications
+    WHERE type IN ('comment', 'reply', 'mention') AND entity_id = OLD.id;
+    RETURN OLD;
+  END IF;
+
+  SELECT * INTO _book FROM public.books WHERE id = NEW.book_id;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.parent_id IS NOT NULL THEN
+      SELECT user_id INTO _parent_author FROM public.book_comments WHERE id = NEW.parent_id;
+      PERFORM public.create_notification(_parent_author, NEW.user_id, 'reply', _book.id, NEW.id, _book.title, left(NEW.content, 140));
+      _notified := _notified || _parent_author;
+    END IF;
+
+    IF NOT (_book.user_id = ANY(_notified)) THEN
+      PERFORM public.create_notification(_book.user_id, NEW.user_id, 'comment', _book.id, NEW.id, _book.title, left(NEW.content, 140));
+    END IF;
+    _notified := _notified || _book.user_id;
+  ELSE
+    -- Anyone already mentioned before the edit has been told
+    SELECT COALESCE(array_agg(p.user_id), ARRAY[]::UUID[]) INTO _notified
+    FROM public.profiles p
+    WHERE lower(p.username) IN (
+      SELECT lower(m[1]) FROM regexp_matches(OLD.content, '(?:^|[^A-Za-z0-9_-])@([A-Za-z0-9_-]+)', 'g') AS m
+    );
+    _notified := _notified || _book.user_id;
+  END IF;
+
+  FOR _mentioned IN
+    SELECT DISTINCT p.user_id
+    FROM public.profiles p
+    WHERE lower(p.username) IN (
+      SELECT lower(m[1]) FROM regexp_matches(NEW.content, '(?:^|[^A-Za-z0-9_-])@([A-Za-z0-9_-]+)', 'g') AS m
+    )
+    AND public.book_visible_to(p.user_id, _book.id)
+  LOOP
+    IF NOT (_mentioned = ANY(_notified)) THEN
+      PERFORM public.create_notification(_mentioned, NEW.user_id, 'mention', _book.id, NEW.id, _book.title, left(NEW.content, 140));
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS notify_book_comment ON public.book_comments;
+CREATE TRIGGER notify_book_comment
+  AFTER INSERT OR UPDATE OF content OR DELETE ON public.book_comments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_book_comment();
@@ -0,0 +1,241 @@
+-- Blocking: the pair can't follow, comment on each other's books or send mystery books
+CREATE TABLE public.user_blocks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  blocker_id UUID NOT NULL,
+  blocked_id UUID NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (blocker_id, blocked_id),
+  CHECK (blocker_id <> blocked_id)
+);
+
+CREATE INDEX idx_user_blocks_blocked_id ON public.user_blocks(blocked_id);
+
+ALTER TABLE public.user_blocks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their blocks"
+  ON public.user_blocks FOR SELECT
+  USING (auth.uid() = blocker_id);
+
+CREATE POLICY "Users can block others"
+  ON public.user_blocks FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = blocker_id);
+
+CREATE POLICY "Users can unblock"
+  ON public.user_blocks FOR DELETE
+  TO authenticated
+  USING (auth.uid() = blocker_id);
+
+-- Muting only hides the muted user's comments and notifications from the muter
+CREATE TABLE public.user_mutes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  muter_id UUID NOT NULL,
+  muted_id UUID NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (muter_id, muted_id),
+  CHECK (muter_id <> muted_id)
+);
+
+ALTER TABLE public.user_mutes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their mutes"
+  ON public.user_mutes FOR SELECT
+  USING (auth.uid() = muter_id);
+
+CREATE POLICY "Users can mute others"
+  ON public.user_mutes FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = muter_id);
+
+CREATE POLICY "Users can unmute"
+  ON public.user_mutes FOR DELETE
+  TO authenticated
+  USING (auth.uid() = muter_id);
+
+-- True when either user has blocked the other
+CREATE OR REPLACE FUNCTION public.block_exists_between(_user_a UUID, _user_b UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.user_blocks
+    WHERE (blocker_id = _user_a AND blocked_id = _user_b)
+       OR (blocker_id = _user_b AND blocked_id = _user_a)
+  )
+$$;
+
+-- Who blocked whom is private; definer functions check arbitrary pairs through the helper above
+REVOKE EXECUTE ON FUNCTION public.block_exists_between(UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+-- The same check for policies and clients, which only answers for pairs that include the current user
+CREATE OR REPLACE FUNCTION public.is_blocked_between(_user_a UUID, _user_b UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(auth.uid() IN (_user_a, _user_b), false)
+    AND public.block_exists_between(_user_a, _user_b)
+$$;
+
+-- Everyone the current user has blocked or been blocked by
+CREATE OR REPLACE FUNCTION public.get_blocked_user_ids()
+RETURNS SETOF UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT blocked_id FROM public.user_blocks WHERE blocker_id = auth.uid()
+  UNION
+  SELECT blocker_id FROM public.user_blocks WHERE blocked_id = auth.uid()
+$$;
+
+-- Blocking ends any follow in either direction
+CREATE OR REPLACE FUNCTION public.remove_follows_on_block()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM public.follows
+  WHERE (follower_id = NEW.blocker_id AND following_id = NEW.blocked_id)
+     OR (follower_id = NEW.blocked_id AND following_id = NEW.blocker_id);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER remove_follows_on_block
+  AFTER INSERT ON public.user_blocks
+  FOR EACH ROW
+  EXECUTE FUNCTION public.remove_follows_on_block();
+
+CREATE POLICY "Blocked users can't follow"
+  ON public.follows AS RESTRICTIVE FOR INSERT
+  TO authenticated
+  WITH CHECK (NOT public.is_blocked_between(follower_id, following_id));
+
+CREATE POLICY "Blocked users can't comment"
+  ON public.book_comments AS RESTRICTIVE FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    NOT public.is_blocked_between(user_id, (SELECT b.user_id FROM public.books b WHERE b.id = book_id))
+  );
+
+CREATE POLICY "Blocked users can't send mystery books"
+  ON public.mystery_books AS RESTRICTIVE FOR INSERT
+  TO authenticated
+  WITH CHECK (NOT public.is_blocked_between(from_user_id, to_user_id));
+
+-- Nothing from blocked or muted users reaches the inbox
+CREATE OR REPLACE FUNCTION public.create_notification(
+  _user_id UUID,
+  _actor_id UUID,
+  _type TEXT,
+  _book_id UUID,
+  _entity_id UUID,
+  _title TEXT,
+  _body TEXT
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF _user_id IS NULL OR _user_id = _actor_id THEN
+    RETURN;
+  END IF;
+
+  IF NOT public.notification_allowed(_user_id, _type, 'in_app') THEN
+    RETURN;
+  END IF;
+
+  IF _actor_id IS NOT NULL AND (
+    public.block_exists_between(_user_id, _actor_id)
+    OR EXISTS (SELECT 1 FROM public.user_mutes WHERE muter_id = _user_id AND muted_id = _actor_id)
+  ) THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO public.notifications (user_id, actor_id, type, book_id, entity_id, title, body)
+  VALUES (_user_id, _actor_id, _type, _book_id, _entity_id, _title, _body);
+END;
+$$;
+
+-- Only the notify_* triggers write to inboxes
+REVOKE EXECUTE ON FUNCTION public.create_notification(UUID, UUID, TEXT, UUID, UUID, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Reports on comments, club reflections and profiles, worked through by admins
+CREATE TABLE public.content_reports (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  reporter_id UUID NOT NULL,
+  target_type TEXT NOT NULL CHECK (target_type IN ('comment', 'reflection', 'profile')),
+  target_id UUID NOT NULL,
+  reported_user_id UUID,
+  reason TEXT NOT NULL CHECK (reason IN ('spam', 'harassment', 'hate', 'spoilers', 'inappropriate', 'other')),
+  details TEXT CHECK (char_length(details) <= 500),
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'resolved', 'dismissed')),
+  resolved_by UUID,
+  resolved_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (reporter_id, target_type, target_id)
+);
+
+CREATE INDEX idx_content_reports_status ON public.content_reports(status, created_at DESC);
+
+ALTER TABLE public.content_reports ENABLE ROW LEVEL SECURITY;
+
+-- Reporters can't read reports back, so anonymous reflection authors stay anonymous
+CREATE POLICY "Users can report content"
+  ON public.content_reports FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = reporter_id AND status = 'open');
+
+CREATE POLICY "Admins can view reports"
+  ON public.content_reports FOR SELECT
+  USING (has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can update reports"
+  ON public.content_reports FOR UPDATE
+  USING (has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can view all reflections"
+  ON public.book_club_reflections FOR SELECT
+  USING (has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can delete any reflection"
+  ON public.book_club_reflections FOR DELETE
+  USING (has_role(auth.uid(), 'admin'));
+
+-- Work out who is being reported from the target itself
+CREATE OR REPLACE FUNCTION public.prepare_content_report()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.reported_user_id := CASE NEW.target_type
+    WHEN 'comment' THEN (SELECT user_id FROM public.book_comments WHERE id = NEW.target_id)
+    WHEN 'reflection' THEN (SELECT user_id FROM public.book_club_reflections WHERE id = NEW.target_id)
+    WHEN 'profile' THEN NEW.target_id
+  END;
+
+  IF NEW.reported_user_id IS NULL THEN
+    RAISE EXCEPTION 'Reported content not found';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER prepare_content_report
+  BEFORE INSERT ON public.content_reports
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prepare_content_report();
@@ -0,0 +1,372 @@
+-- Shelf visibility levels replace the public/private boolean:
+-- public (anyone with the link), followers, club (people sharing a book club) and private
+ALTER TABLE public.shelf_settings
+  ADD COLUMN IF NOT EXISTS visibility TEXT NOT NULL DEFAULT 'public'
+    CHECK (visibility IN ('public', 'followers', 'club', 'private'));
+
+UPDATE public.shelf_settings
+SET visibility = CASE WHEN is_public THEN 'public' ELSE 'private' END;
+
+-- is_public stays as "anyone can see it" for older clients and queries; keep the two in step
+CREATE OR REPLACE FUNCTION public.sync_shelf_visibility()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.visibility IS NOT DISTINCT FROM OLD.visibility
+     AND NEW.is_public IS DISTINCT FROM OLD.is_public THEN
+    NEW.visibility := CASE WHEN NEW.is_public THEN 'public' ELSE 'private' END;
+  END IF;
+  NEW.is_public := NEW.visibility = 'public';
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_shelf_visibility
+  BEFORE INSERT OR UPDATE ON public.shelf_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_shelf_visibility();
+
+-- Per-book hiding keeps a book off the shared shelf without removing it
+ALTER TABLE public.books
+  ADD COLUMN IF NOT EXISTS is_hidden BOOLEAN NOT NULL DEFAULT false;
+
+-- Whether _viewer_id (NULL for signed-out visitors) may see _owner_id's shelf. Internal: it
+-- reveals follows, club ties and blocks, so clients go through can_view_shelf below
+CREATE OR REPLACE FUNCTION public.shelf_visible_to(_viewer_id UUID, _owner_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    COALESCE(_viewer_id = _owner_id, false)
+    OR (
+      (_viewer_id IS NULL OR NOT public.block_exists_between(_viewer_id, _owner_id))
+      AND EXISTS (
+        SELECT 1 FROM public.shelf_settings ss
+        WHERE ss.user_id = _owner_id
+          AND (
+            ss.visibility = 'public'
+            OR (ss.visibility = 'followers' AND EXISTS (
+              SELECT 1 FROM public.follows f
+              WHERE f.follower_id = _viewer_id AND f.following_id = _owner_id
+            ))
+            OR (ss.visibility = 'club' AND public.shares_club_with(_viewer_id, _owner_id))
+          )
+      )
+    )
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.shelf_visible_to(UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+-- The check for policies and clients, which only answers for the current viewer
+CREATE OR REPLACE FUNCTION public.can_view_shelf(_viewer_id UUID, _owner_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT _viewer_id IS NOT DISTINCT FROM auth.uid() AND public.shelf_visible_to(_viewer_id, _owner_id)
+$$;
+
+-- Mentions follow the shelf's visibility and skip hidden books, like the comments policy below
+CREATE OR REPLACE FUNCTION public.book_visible_to(_viewer_id UUID, _book_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.books b
+    WHERE b.id = _book_id
+      AND (b.user_id = _viewer_id OR (NOT b.is_hidden AND public.shelf_visible_to(_viewer_id, b.user_id)))
+  )
+$$;
+
+-- What a locked share link can say about itself: the level, plus who owns it unless it's private
+CREATE OR REPLACE FUNCTION public.get_shelf_access(_share_id TEXT)
+RETURNS TABLE(visibility TEXT, owner_id UUID, username TEXT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    ss.visibility,
+    CASE WHEN ss.visibility <> 'private' THEN ss.user_id END,
+    CASE WHEN ss.visibility <> 'private' THEN p.username END
+  FROM public.shelf_settings ss
+  LEFT JOIN public.profiles p ON p.user_id = ss.user_id
+  WHERE ss.share_id = _share_id
+    AND (auth.uid() IS NULL OR NOT public.is_blocked_between(auth.uid(), ss.user_id))
+  LIMIT 1
+$$;
+
+-- Share-link RPCs check the viewer instead of is_public
+CREATE OR REPLACE FUNCTION public.get_public_shelf_info(_share_id text)
+RETURNS TABLE(
+  display_name text,
+  share_id text,
+  is_public boolean,
+  goal_period text,
+  goal_metric text,
+  goal_target integer,
+  goal_progress integer
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    ss.display_name,
+    ss.share_id,
+    ss.is_public,
+    g.period,
+    g.metric,
+    g.target,
+    g.progress
+  FROM public.shelf_settings ss
+  LEFT JOIN LATERAL (
+    SELECT
+      rg.period,
+      rg.metric,
+      rg.target,
+      (
+        SELECT CASE WHEN rg.metric = 'pages' THEN COALESCE(SUM(b.page_count), 0) ELSE COUNT(*) END
+        FROM public.books b
+        WHERE b.user_id = ss.user_id
+          AND b.status = 'read'
+          AND NOT b.is_hidden
+          AND b.completed_at >= rg.period_start
+          AND b.completed_at < rg.period_start + CASE WHEN rg.period = 'year' THEN interval '1 year' ELSE interval '1 month' END
+      )::integer AS progress
+    FROM public.reading_goals rg
+    WHERE rg.user_id = ss.user_id
+      AND rg.period_start = date_trunc(rg.period, now())::date
+    ORDER BY (rg.period = 'year') DESC
+    LIMIT 1
+  ) g ON true
+  WHERE ss.share_id = _share_id AND public.can_view_shelf(auth.uid(), ss.user_id)
+  LIMIT 1
+$$;
+
+-- is_public here means "visible to the caller"
+CREATE OR REPLACE FUNCTION public.get_public_shelf_info_for_users(_user_ids uuid[])
+RETURNS TABLE(
+  user_id uuid,
+  display_name text,
+  share_id text,
+  is_public boolean
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    ss.user_id,
+    ss.display_name,
+    ss.share_id,
+    true
+  FROM public.shelf_settings ss
+  WHERE ss.user_id = ANY(_user_ids)
+    AND public.can_view_shelf(auth.uid(), ss.user_id)
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_public_shelf_owner_id(_share_id text)
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT ss.user_id
+  FROM public.shelf_settings ss
+  WHERE ss.share_id = _share_id AND public.can_view_shelf(auth.uid(), ss.user_id)
+  LIMIT 1
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_public_shelf_owner_username(_share_id text)
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p.username
+  FROM public.profiles p
+  INNER JOIN public.shelf_settings ss ON ss.user_id = p.user_id
+  WHERE ss.share_id = _share_id AND public.can_view_shelf(auth.uid(), ss.user_id)
+  LIMIT 1
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_public_shelf_appearance(_share_id text)
+RETURNS TABLE(
+  shelf_skin text,
+  background_theme text,
+  show_bookends boolean,
+  show_wood_grain boolean,
+  show_ambient_light boolean,
+  show_plant boolean,
+  decor_density text
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  SELECT
+    ss.shelf_skin,
+    ss.background_theme,
+    ss.show_bookends,
+    ss.show_wood_grain,
+    ss.show_ambient_light,
+    ss.show_plant,
+    ss.decor_density
+  FROM public.shelf_settings ss
+  WHERE ss.share_id = _share_id
+    AND public.can_view_shelf(auth.uid(), ss.user_id)
+  LIMIT 1
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_public_named_shelves(_share_id text)
+RETURNS TABLE(id uuid, name text, description text, book_count bigint)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    s.id,
+    s.name,
+    s.description,
+    (
+      SELECT count(*) FROM public.shelf_books sb
+      INNER JOIN public.books b ON b.id = sb.book_id
+      WHERE sb.shelf_id = s.id AND NOT b.is_hidden
+    ) AS book_count
+  FROM public.shelves s
+  INNER JOIN public.shelf_settings ss ON ss.user_id = s.user_id
+  WHERE ss.share_id = _share_id
+    AND public.can_view_shelf(auth.uid(), ss.user_id)
+    AND s.is_public = true
+  ORDER BY s.position ASC, s.created_at ASC
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_public_shelf_books(_share_id text, _shelf_id uuid DEFAULT NULL)
+ RETURNS TABLE(id uuid, title text, author text, color text, status text, cover_url text, created_at timestamp with time zone, completed_at timestamp with time zone, page_count integer, isbn text, description text, categories text[], rating numeric, review text, review_has_spoilers boolean, reviewed_at timestamp with time zone, shelf_position integer, series_name text, series_position numeric)
+ LANGUAGE sql
+ STABLE SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+  SELECT
+    b.id,
+    b.title,
+    b.author,
+    b.color,
+    b.status,
+    b.cover_url,
+    b.created_at,
+    b.completed_at,
+    b.page_count,
+    b.isbn,
+    b.description,
+    b.categories,
+    b.rating,
+    b.review,
+    b.review_has_spoilers,
+    b.reviewed_at,
+    b.shelf_position,
+    b.series_name,
+    b.series_position
+  FROM public.books b
+  INNER JOIN public.shelf_settings ss ON ss.user_id = b.user_id
+  LEFT JOIN public.shelf_books sb ON sb.book_id = b.id AND sb.shelf_id = _shelf_id
+  LEFT JOIN public.shelves s ON s.id = sb.shelf_id
+  WHERE ss.share_id = _share_id
+    AND public.can_view_shelf(auth.uid(), ss.user_id)
+    AND NOT b.is_hidden
+    AND (
+      _shelf_id IS NULL
+      OR (s.id IS NOT NULL AND s.user_id = b.user_id AND s.is_public = true)
+    )
+  ORDER BY sb.position ASC NULLS LAST, b.shelf_position ASC NULLS LAST, b.created_at ASC;
+$function$;
+
+-- RLS: the same check everywhere that used to look at is_public
+DROP POLICY IF EXISTS "Anyone can view books on public shelves" ON public.books;
+CREATE POLICY "Users can view books on shelves they can see"
+  ON public.books FOR SELECT
+  USING (NOT is_hidden AND public.can_view_shelf(auth.uid(), user_id));
+
+DROP POLICY IF EXISTS "Authenticated users can view public shelf settings" ON public.shelf_settings;
+CREATE POLICY "Users can view shelf settings they can see"
+  ON public.shelf_settings FOR SELECT
+  USING (auth.uid() IS NOT NULL AND public.can_view_shelf(auth.uid(), user_id));
+
+DROP POLICY IF EXISTS "Users can view comments on accessible books" ON public.book_comments;
+CREATE POLICY "Users can view comments on accessible books"
+  ON public.book_comments FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.books b
+      WHERE b.id = book_comments.book_id
+        AND (b.user_id = auth.uid() OR (NOT b.is_hidden AND public.can_view_shelf(auth.uid(), b.user_id)))
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can view likes on accessible books" ON public.book_likes;
+CREATE POLICY "Users can view likes on accessible books"
+  ON public.book_likes FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.books b
+      WHERE b.id = book_likes.book_id
+        AND (b.user_id = auth.uid() OR (NOT b.is_hidden AND public.can_view_shelf(auth.uid(), b.user_id)))
+    )
+  );
+
+DROP POLICY IF EXISTS "Anyone can view notes on public shelves" ON public.book_notes;
+CREATE POLICY "Users can view notes on shelves they can see"
+  ON public.book_notes FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.books b
+      WHERE b.id = book_notes.book_id
+        AND NOT b.is_hidden
+        AND public.can_view_shelf(auth.uid(), b.user_id)
+    )
+  );
+
+DROP POLICY IF EXISTS "Authenticated users can view profiles with public shelves" ON public.profiles;
+CREATE POLICY "Authenticated users can view profiles with visible shelves"
+  ON public.profiles FOR SELECT
+  USING (auth.uid() IS NOT NULL AND public.can_view_shelf(auth.uid(), user_id));
+
+-- Followers see activity from shelves visible to them, minus hidden books. Likes and comments
+-- copy another reader's book, so that reader's shelf has to be visible too.
+DROP POLICY IF EXISTS "Followers can view activity of followed public shelves" ON public.activity_events;
+CREATE POLICY "Followers can view activity of followed shelves"
+  ON public.activity_events FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.follows f
+      WHERE f.follower_id = auth.uid() AND f.following_id = activity_events.user_id
+    )
+    AND public.can_view_shelf(auth.uid(), activity_events.user_id)
+    AND (
+      activity_events.book_owner_id IS NULL
+      OR activity_events.book_owner_id = activity_events.user_id
+      OR public.can_view_shelf(auth.uid(), activity_events.book_owner_id)
+    )
+    AND NOT EXISTS (
+      SELECT 1 FROM public.books b
+      WHERE b.id = activity_events.book_id AND b.is_hidden
+    )
+  );
@@ -0,0 +1,191 @@
+-- Following someone whose shelf isn't public starts as a request they accept or decline
+ALTER TABLE public.follows
+  ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'accepted'
+    CHECK (status IN ('pending', 'accepted'));
+
+CREATE INDEX IF NOT EXISTS idx_follows_following_pending
+  ON public.follows(following_id) WHERE status = 'pending';
+
+-- The database decides whether a new follow needs approval, and an update can only accept it
+CREATE OR REPLACE FUNCTION public.prepare_follow()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.status := CASE
+      WHEN EXISTS (
+        SELECT 1 FROM public.shelf_settings
+        WHERE user_id = NEW.following_id AND visibility <> 'public'
+      ) THEN 'pending'
+      ELSE 'accepted'
+    END;
+    RETURN NEW;
+  END IF;
+
+  NEW.follower_id := OLD.follower_id;
+  NEW.following_id := OLD.following_id;
+  NEW.created_at := OLD.created_at;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER prepare_follow
+  BEFORE INSERT OR UPDATE ON public.follows
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prepare_follow();
+
+DROP POLICY IF EXISTS "Follows cannot be updated" ON public.follows;
+
+CREATE POLICY "Users can accept follow requests"
+  ON public.follows FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = following_id AND status = 'pending')
+  WITH CHECK (auth.uid() = following_id AND status = 'accepted');
+
+-- Declining a request and removing a follower are both a delete by the person being followed
+CREATE POLICY "Users can remove their followers"
+  ON public.follows FOR DELETE
+  TO authenticated
+  USING (auth.uid() = following_id);
+
+-- Opening a shelf up to everyone lets anyone still waiting in
+CREATE OR REPLACE FUNCTION public.accept_follow_requests_on_public()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.visibility = 'public' AND OLD.visibility IS DISTINCT FROM 'public' THEN
+    UPDATE public.follows
+    SET status = 'accepted'
+    WHERE following_id = NEW.user_id AND status = 'pending';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER accept_follow_requests_on_public
+  AFTER UPDATE OF visibility ON public.shelf_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.accept_follow_requests_on_public();
+
+-- Only accepted follows open a followers-only shelf
+CREATE OR REPLACE FUNCTION public.shelf_visible_to(_viewer_id UUID, _owner_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    COALESCE(_viewer_id = _owner_id, false)
+    OR (
+      (_viewer_id IS NULL OR NOT public.block_exists_between(_viewer_id, _owner_id))
+      AND EXISTS (
+        SELECT 1 FROM public.shelf_settings ss
+        WHERE ss.user_id = _owner_id
+          AND (
+            ss.visibility = 'public'
+            OR (ss.visibility = 'followers' AND EXISTS (
+              SELECT 1 FROM public.follows f
+              WHERE f.follower_id = _viewer_id AND f.following_id = _owner_id AND f.status = 'accepted'
+            ))
+            OR (ss.visibility = 'club' AND public.shares_club_with(_viewer_id, _owner_id))
+          )
+      )
+    )
+$$;
+
+DROP POLICY IF EXISTS "Followers can view activity of followed shelves" ON public.activity_events;
+CREATE POLICY "Followers can view activity of followed shelves"
+  ON public.activity_events FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.follows f
+      WHERE f.follower_id = auth.uid() AND f.following_id = activity_events.user_id AND f.status = 'accepted'
+    )
+    AND public.can_view_shelf(auth.uid(), activity_events.user_id)
+    AND (
+      activity_events.book_owner_id IS NULL
+      OR activity_events.book_owner_id = activity_events.user_id
+      OR public.can_view_shelf(auth.uid(), activity_events.book_owner_id)
+    )
+    AND NOT EXISTS (
+      SELECT 1 FROM public.books b
+      WHERE b.id = activity_events.book_id AND b.is_hidden
+    )
+  );
+
+-- Requests get their own notification types: one for the person asked, one back when accepted
+ALTER TABLE public.notifications DROP CONSTRAINT IF EXISTS notifications_type_check;
+ALTER TABLE public.notifications ADD CONSTRAINT notifications_type_check
+  CHECK (type IN (
+    'like', 'comment', 'reply', 'mention', 'follow', 'follow_request', 'follow_accepted',
+    'recommendation', 'mystery_book', 'mystery_reaction'
+  ));
+
+CREATE OR REPLACE FUNCTION public.notification_allowed(_user_id UUID, _type TEXT, _channel TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (
+      SELECT (ns.preferences -> _type ->> _channel)::boolean
+      FROM public.notification_settings ns
+      WHERE ns.user_id = _user_id
+    ),
+    CASE
+      WHEN _channel = 'in_app' THEN true
+      ELSE _type IN ('follow', 'follow_request', 'recommendation', 'mystery_book')
+    END
+  );
+$$;
+
+-- Preferences are private; triggers and the service-role email functions are the only callers
+REVOKE EXECUTE ON FUNCTION public.notification_allowed(UUID, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- An accepted request turns into an ordinary "started following you" entry
+CREATE OR REPLACE FUNCTION public.notify_follow()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    DELETE FROM public.notifications
+    WHERE type IN ('follow', 'follow_request', 'follow_accepted') AND entity_id = OLD.id;
+    RETURN OLD;
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    IF OLD.status = 'pending' AND NEW.status = 'accepted' THEN
+      UPDATE public.notifications
+      SET type = 'follow'
+      WHERE type = 'follow_request' AND entity_id = NEW.id;
+      PERFORM public.create_notification(NEW.follower_id, NEW.following_id, 'follow_accepted', NULL, NEW.id, NULL, NULL);
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  PERFORM public.create_notification(
+    NEW.following_id, NEW.follower_id,
+    CASE WHEN NEW.status = 'pending' THEN 'follow_request' ELSE 'follow' END,
+    NULL, NEW.id, NULL, NULL
+  );
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS notify_follow ON public.follows;
+CREATE TRIGGER notify_follow
+  AFTER INSERT OR UPDATE OF status OR DELETE ON public.follows
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_follow();
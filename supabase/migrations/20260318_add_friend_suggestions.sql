@@ -0,0 +1,122 @@
+-- People the user has waved away from "people you may know"
+CREATE TABLE public.friend_suggestion_dismissals (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL,
+  dismissed_user_id UUID NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (user_id, dismissed_user_id)
+);
+
+ALTER TABLE public.friend_suggestion_dismissals ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their dismissed suggestions"
+  ON public.friend_suggestion_dismissals FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can dismiss suggestions"
+  ON public.friend_suggestion_dismissals FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can undo dismissed suggestions"
+  ON public.friend_suggestion_dismissals FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Ranked suggestions for the current user. Books are shared when they're copies of the same
+-- catalog work (idx_books_work_id keeps this cheap). Shared books only count on shelves the user can
+-- already see (and never hidden books), private shelves are never suggested, and a share_id
+-- is only returned when the shelf would open for them.
+CREATE OR REPLACE FUNCTION public.get_friend_suggestions(_limit INTEGER DEFAULT 10)
+RETURNS TABLE(
+  user_id UUID,
+  username TEXT,
+  avatar_url TEXT,
+  share_id TEXT,
+  shared_books INTEGER,
+  shared_clubs INTEGER,
+  mutual_follows INTEGER
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH my_works AS (
+    SELECT DISTINCT work_id
+    FROM public.books
+    WHERE books.user_id = auth.uid() AND work_id IS NOT NULL
+  ),
+  book_overlap AS (
+    SELECT b.user_id AS candidate_id, count(DISTINCT b.id)::int AS n
+    FROM my_works m
+    JOIN public.books b ON b.work_id = m.work_id
+    WHERE b.user_id <> auth.uid()
+      AND NOT b.is_hidden
+    GROUP BY b.user_id
+  ),
+  club_overlap AS (
+    SELECT other.user_id AS candidate_id, count(DISTINCT other.club_id)::int AS n
+    FROM public.book_club_members mine
+    JOIN public.book_club_members other
+      ON other.club_id = mine.club_id AND other.user_id <> mine.user_id
+    WHERE mine.user_id = auth.uid()
+    GROUP BY other.user_id
+  ),
+  mutual AS (
+    SELECT theirs.following_id AS candidate_id, count(*)::int AS n
+    FROM public.follows mine
+    JOIN public.follows theirs
+      ON theirs.follower_id = mine.following_id AND theirs.status = 'accepted'
+    WHERE mine.follower_id = auth.uid()
+      AND mine.status = 'accepted'
+      AND theirs.following_id <> auth.uid()
+    GROUP BY theirs.following_id
+  ),
+  candidates AS (
+    SELECT c.candidate_id, public.can_view_shelf(auth.uid(), c.candidate_id) AS can_view
+    FROM (
+      SELECT candidate_id FROM book_overlap
+      UNION SELECT candidate_id FROM club_overlap
+      UNION SELECT candidate_id FROM mutual
+    ) c
+  ),
+  scored AS (
+    SELECT
+      c.candidate_id,
+      c.can_view,
+      CASE WHEN c.can_view THEN COALESCE(bo.n, 0) ELSE 0 END AS shared_books,
+      COALESCE(co.n, 0) AS shared_clubs,
+      COALESCE(mu.n, 0) AS mutual_follows
+    FROM candidates c
+    LEFT JOIN book_overlap bo ON bo.candidate_id = c.candidate_id
+    LEFT JOIN club_overlap co ON co.candidate_id = c.candidate_id
+    LEFT JOIN mutual mu ON mu.candidate_id = c.candidate_id
+  )
+  SELECT
+    s.candidate_id,
+    p.username,
+    p.avatar_url,
+    CASE WHEN s.can_view THEN ss.share_id END,
+    s.shared_books,
+    s.shared_clubs,
+    s.mutual_follows
+  FROM scored s
+  JOIN public.profiles p ON p.user_id = s.candidate_id
+  LEFT JOIN public.shelf_settings ss ON ss.user_id = s.candidate_id
+  WHERE auth.uid() IS NOT NULL
+    AND s.shared_books + s.shared_clubs + s.mutual_follows > 0
+    AND COALESCE(ss.visibility, 'public') <> 'private'
+    AND NOT public.is_blocked_between(auth.uid(), s.candidate_id)
+    AND NOT EXISTS (
+      SELECT 1 FROM public.follows f
+      WHERE f.follower_id = auth.uid() AND f.following_id = s.candidate_id
+    )
+    AND NOT EXISTS (
+      SELECT 1 FROM public.friend_suggestion_dismissals d
+      WHERE d.user_id = auth.uid() AND d.dismissed_user_id = s.candidate_id
+    )
+  -- A shared club says more than a mutual follow, which says more than one shared book
+  ORDER BY s.shared_clubs * 3 + s.mutual_follows * 2 + s.shared_books DESC, p.username
+  LIMIT LEAST(GREATEST(_limit, 1), 50)
+$$;
@@ -0,0 +1,259 @@
+-- When and where a club meets, optionally tied to the book it's discussing
+CREATE TABLE public.book_club_meetings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  club_id UUID NOT NULL REFERENCES public.book_clubs(id) ON DELETE CASCADE,
+  suggestion_id UUID REFERENCES public.book_club_suggestions(id) ON DELETE SET NULL,
+  created_by UUID NOT NULL,
+  starts_at TIMESTAMPTZ NOT NULL,
+  duration_minutes INTEGER NOT NULL DEFAULT 60 CHECK (duration_minutes BETWEEN 15 AND 720),
+  location TEXT CHECK (char_length(location) <= 200),
+  -- No whitespace or control characters: the link goes into calendar feeds as-is
+  video_url TEXT CHECK (video_url ~* '^https?://[^[:space:][:cntrl:]]+$' AND char_length(video_url) <= 500),
+  notes TEXT CHECK (char_length(notes) <= 1000),
+  reminder_sent_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_book_club_meetings_club_starts ON public.book_club_meetings(club_id, starts_at);
+CREATE INDEX idx_book_club_meetings_reminders
+  ON public.book_club_meetings(starts_at) WHERE reminder_sent_at IS NULL;
+
+ALTER TABLE public.book_club_meetings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view club meetings"
+  ON public.book_club_meetings FOR SELECT
+  USING (public.is_club_member(auth.uid(), club_id));
+
+-- A meeting can only point at one of its own club's books
+CREATE POLICY "Owners can schedule meetings"
+  ON public.book_club_meetings FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    public.is_club_owner(auth.uid(), club_id)
+    AND auth.uid() = created_by
+    AND (
+      suggestion_id IS NULL
+      OR EXISTS (
+        SELECT 1 FROM public.book_club_suggestions s
+        WHERE s.id = suggestion_id AND s.club_id = book_club_meetings.club_id
+      )
+    )
+  );
+
+CREATE POLICY "Owners can update meetings"
+  ON public.book_club_meetings FOR UPDATE
+  TO authenticated
+  USING (public.is_club_owner(auth.uid(), club_id))
+  WITH CHECK (
+    public.is_club_owner(auth.uid(), club_id)
+    AND (
+      suggestion_id IS NULL
+      OR EXISTS (
+        SELECT 1 FROM public.book_club_suggestions s
+        WHERE s.id = suggestion_id AND s.club_id = book_club_meetings.club_id
+      )
+    )
+  );
+
+CREATE POLICY "Owners can cancel meetings"
+  ON public.book_club_meetings FOR DELETE
+  TO authenticated
+  USING (public.is_club_owner(auth.uid(), club_id));
+
+CREATE TRIGGER update_book_club_meetings_updated_at
+  BEFORE UPDATE ON public.book_club_meetings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Moving a meeting means members should be reminded about the new time
+CREATE OR REPLACE FUNCTION public.reset_meeting_reminder()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.club_id := OLD.club_id;
+  NEW.created_by := OLD.created_by;
+  IF NEW.starts_at IS DISTINCT FROM OLD.starts_at THEN
+    NEW.reminder_sent_at := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER reset_meeting_reminder
+  BEFORE UPDATE ON public.book_club_meetings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.reset_meeting_reminder();
+
+-- One answer per member per meeting
+CREATE TABLE public.book_club_meeting_rsvps (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  meeting_id UUID NOT NULL REFERENCES public.book_club_meetings(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  response TEXT NOT NULL CHECK (response IN ('going', 'maybe', 'not_going')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (meeting_id, user_id)
+);
+
+ALTER TABLE public.book_club_meeting_rsvps ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view meeting RSVPs"
+  ON public.book_club_meeting_rsvps FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.book_club_meetings m
+    WHERE m.id = meeting_id AND public.is_club_member(auth.uid(), m.club_id)
+  ));
+
+CREATE POLICY "Members can RSVP"
+  ON public.book_club_meeting_rsvps FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id AND
+    EXISTS (
+      SELECT 1 FROM public.book_club_meetings m
+      WHERE m.id = meeting_id AND public.is_club_member(auth.uid(), m.club_id)
+    )
+  );
+
+CREATE POLICY "Users can change their RSVP"
+  ON public.book_club_meeting_rsvps FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can remove their RSVP"
+  ON public.book_club_meeting_rsvps FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_book_club_meeting_rsvps_updated_at
+  BEFORE UPDATE ON public.book_club_meeting_rsvps
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Secret per-user token that lets a calendar app fetch club feeds without signing in
+CREATE TABLE public.calendar_feed_tokens (
+  user_id UUID PRIMARY KEY,
+  token UUID NOT NULL UNIQUE DEFAULT gen_random_uuid(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.calendar_feed_tokens ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their calendar token"
+  ON public.calendar_feed_tokens FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their calendar token"
+  ON public.calendar_feed_tokens FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+-- Deleting the token revokes every feed URL built from it
+CREATE POLICY "Users can reset their calendar token"
+  ON public.calendar_feed_tokens FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Scheduled meetings and upcoming-meeting reminders are notifications too
+ALTER TABLE public.notifications DROP CONSTRAINT IF EXISTS notifications_type_check;
+ALTER TABLE public.notifications ADD CONSTRAINT notifications_type_check
+  CHECK (type IN (
+    'like', 'comment', 'reply', 'mention', 'follow', 'follow_request', 'follow_accepted',
+    'recommendation', 'mystery_book', 'mystery_reaction', 'club_meeting', 'meeting_reminder'
+  ));
+
+-- Tell every other member when a meeting is scheduled; the club name is the title and the
+-- book being discussed (if any) the body
+CREATE OR REPLACE FUNCTION public.notify_club_meeting()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _club_name TEXT;
+  _book_title TEXT;
+  _member RECORD;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    DELETE FROM public.notifications
+    WHERE type IN ('club_meeting', 'meeting_reminder') AND entity_id = OLD.id;
+    RETURN OLD;
+  END IF;
+
+  SELECT name INTO _club_name FROM public.book_clubs WHERE id = NEW.club_id;
+  SELECT title INTO _book_title FROM public.book_club_suggestions WHERE id = NEW.suggestion_id;
+
+  FOR _member IN
+    SELECT user_id FROM public.book_club_members WHERE club_id = NEW.club_id
+  LOOP
+    PERFORM public.create_notification(
+      _member.user_id, NEW.created_by, 'club_meeting', NULL, NEW.id, _club_name, _book_title
+    );
+  END LOOP;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_club_meeting
+  AFTER INSERT OR DELETE ON public.book_club_meetings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_club_meeting();
+
+-- Remind members about meetings in the next day, skipping anyone who said they won't come.
+-- Reminders have no actor so block/mute checks don't apply; runs from cron.
+CREATE OR REPLACE FUNCTION public.send_meeting_reminders()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _meeting RECORD;
+  _member RECORD;
+  _sent INTEGER := 0;
+BEGIN
+  FOR _meeting IN
+    SELECT m.id, m.club_id, c.name AS club_name
+    FROM public.book_club_meetings m
+    JOIN public.book_clubs c ON c.id = m.club_id
+    WHERE m.reminder_sent_at IS NULL
+      AND m.starts_at > now()
+      AND m.starts_at <= now() + INTERVAL '24 hours'
+    FOR UPDATE OF m SKIP LOCKED
+  LOOP
+    FOR _member IN
+      SELECT bcm.user_id
+      FROM public.book_club_members bcm
+      WHERE bcm.club_id = _meeting.club_id
+        AND NOT EXISTS (
+          SELECT 1 FROM public.book_club_meeting_rsvps r
+          WHERE r.meeting_id = _meeting.id AND r.user_id = bcm.user_id AND r.response = 'not_going'
+        )
+    LOOP
+      DELETE FROM public.notifications
+      WHERE type = 'meeting_reminder' AND entity_id = _meeting.id AND user_id = _member.user_id;
+      PERFORM public.create_notification(
+        _member.user_id, NULL, 'meeting_reminder', NULL, _meeting.id, _meeting.club_name, NULL
+      );
+      _sent := _sent + 1;
+    END LOOP;
+
+    UPDATE public.book_club_meetings SET reminder_sent_at = now() WHERE id = _meeting.id;
+  END LOOP;
+
+  RETURN _sent;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.send_meeting_reminders() FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule(
+  'send-meeting-reminders',
+  '*/15 * * * *',
+  $$SELECT public.send_meeting_reminders()$$
+);
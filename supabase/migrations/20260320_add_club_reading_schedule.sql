@@ -0,0 +1,286 @@
+-- Pacing for a club pick: "Chapters 1–8 by Friday". Milestones run in due-date order.
+CREATE TABLE public.book_club_milestones (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  club_id UUID NOT NULL REFERENCES public.book_clubs(id) ON DELETE CASCADE,
+  suggestion_id UUID NOT NULL REFERENCES public.book_club_suggestions(id) ON DELETE CASCADE,
+  label TEXT NOT NULL CHECK (char_length(trim(label)) BETWEEN 1 AND 100),
+  due_date DATE NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_book_club_milestones_suggestion ON public.book_club_milestones(suggestion_id, due_date);
+
+ALTER TABLE public.book_club_milestones ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view milestones"
+  ON public.book_club_milestones FOR SELECT
+  USING (public.is_club_member(auth.uid(), club_id));
+
+CREATE POLICY "Owners can add milestones"
+  ON public.book_club_milestones FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    public.is_club_owner(auth.uid(), club_id) AND
+    EXISTS (
+      SELECT 1 FROM public.book_club_suggestions s
+      WHERE s.id = suggestion_id AND s.club_id = book_club_milestones.club_id
+    )
+  );
+
+CREATE POLICY "Owners can update milestones"
+  ON public.book_club_milestones FOR UPDATE
+  TO authenticated
+  USING (public.is_club_owner(auth.uid(), club_id))
+  WITH CHECK (
+    public.is_club_owner(auth.uid(), club_id)
+    AND EXISTS (
+      SELECT 1 FROM public.book_club_suggestions s
+      WHERE s.id = suggestion_id AND s.club_id = book_club_milestones.club_id
+    )
+  );
+
+CREATE POLICY "Owners can remove milestones"
+  ON public.book_club_milestones FOR DELETE
+  TO authenticated
+  USING (public.is_club_owner(auth.uid(), club_id));
+
+CREATE TRIGGER update_book_club_milestones_updated_at
+  BEFORE UPDATE ON public.book_club_milestones
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- A milestone stays on its book; only the label and due date can change
+CREATE OR REPLACE FUNCTION public.pin_milestone_book()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.club_id := OLD.club_id;
+  NEW.suggestion_id := OLD.suggestion_id;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER pin_milestone_book
+  BEFORE UPDATE ON public.book_club_milestones
+  FOR EACH ROW
+  EXECUTE FUNCTION public.pin_milestone_book();
+
+-- The furthest milestone each member has reached in a club pick
+CREATE TABLE public.book_club_reading_positions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  club_id UUID NOT NULL REFERENCES public.book_clubs(id) ON DELETE CASCADE,
+  suggestion_id UUID NOT NULL REFERENCES public.book_club_suggestions(id) ON DELETE CASCADE,
+  milestone_id UUID NOT NULL REFERENCES public.book_club_milestones(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (suggestion_id, user_id)
+);
+
+ALTER TABLE public.book_club_reading_positions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view reading positions"
+  ON public.book_club_reading_positions FOR SELECT
+  USING (public.is_club_member(auth.uid(), club_id));
+
+CREATE POLICY "Members can set their reading position"
+  ON public.book_club_reading_positions FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id AND public.is_club_member(auth.uid(), club_id));
+
+CREATE POLICY "Users can move their reading position"
+  ON public.book_club_reading_positions FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can clear their reading position"
+  ON public.book_club_reading_positions FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_book_club_reading_positions_updated_at
+  BEFORE UPDATE ON public.book_club_reading_positions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- The club and book always come from the milestone, so a position can't point across books
+CREATE OR REPLACE FUNCTION public.prepare_reading_position()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  SELECT club_id, suggestion_id INTO NEW.club_id, NEW.suggestion_id
+  FROM public.book_club_milestones
+  WHERE id = NEW.milestone_id;
+
+  IF NEW.suggestion_id IS NULL THEN
+    RAISE EXCEPTION 'Milestone not found';
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    NEW.user_id := OLD.user_id;
+    IF NEW.suggestion_id <> OLD.suggestion_id THEN
+      RAISE EXCEPTION 'Reading position belongs to a different book';
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER prepare_reading_position
+  BEFORE INSERT OR UPDATE ON public.book_club_reading_positions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prepare_reading_position();
+
+-- Removing a milestone moves anyone on it back to the one before, so nobody loses their place.
+-- Positions with no earlier milestone go with it (the foreign key cascades). Skipped when the
+-- whole book or club is being deleted, since its positions go too.
+CREATE OR REPLACE FUNCTION public.move_positions_off_milestone()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _previous_id UUID;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.book_club_suggestions WHERE id = OLD.suggestion_id) THEN
+    RETURN OLD;
+  END IF;
+
+  SELECT id INTO _previous_id
+  FROM public.book_club_milestones
+  WHERE suggestion_id = OLD.suggestion_id
+    AND id <> OLD.id
+    AND (due_date, created_at) < (OLD.due_date, OLD.created_at)
+  ORDER BY due_date DESC, created_at DESC
+  LIMIT 1;
+
+  IF _previous_id IS NOT NULL THEN
+    UPDATE public.book_club_reading_positions
+    SET milestone_id = _previous_id
+    WHERE milestone_id = OLD.id;
+  END IF;
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER move_positions_off_milestone
+  BEFORE DELETE ON public.book_club_milestones
+  FOR EACH ROW
+  EXECUTE FUNCTION public.move_positions_off_milestone();
+
+-- Whether the user is at or past a milestone. A NULL milestone means the end of the book;
+-- a book without milestones has nothing to gate.
+CREATE OR REPLACE FUNCTION public.milestone_reached_by(_user_id UUID, _suggestion_id UUID, _milestone_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH target AS (
+    SELECT due_date, created_at
+    FROM public.book_club_milestones
+    WHERE suggestion_id = _suggestion_id
+      AND (_milestone_id IS NULL OR id = _milestone_id)
+    ORDER BY due_date DESC, created_at DESC
+    LIMIT 1
+  )
+  SELECT
+    NOT EXISTS (SELECT 1 FROM target)
+    OR EXISTS (
+      SELECT 1
+      FROM public.book_club_reading_positions rp
+      JOIN public.book_club_milestones reached ON reached.id = rp.milestone_id
+      CROSS JOIN target
+      WHERE rp.suggestion_id = _suggestion_id
+        AND rp.user_id = _user_id
+        AND (reached.due_date, reached.created_at) >= (target.due_date, target.created_at)
+    )
+$$;
+
+-- Internal; the weekly digest calls it with the service role
+REVOKE EXECUTE ON FUNCTION public.milestone_reached_by(UUID, UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+-- The same check for policies and clients: your own progress, or a fellow member's
+CREATE OR REPLACE FUNCTION public.has_reached_milestone(_user_id UUID, _suggestion_id UUID, _milestone_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    (
+      _user_id = auth.uid()
+      OR EXISTS (
+        SELECT 1 FROM public.book_club_suggestions s
+        WHERE s.id = _suggestion_id AND public.is_club_member(auth.uid(), s.club_id)
+      )
+    )
+    AND public.milestone_reached_by(_user_id, _suggestion_id, _milestone_id)
+$$;
+
+-- Reflections discuss the whole book, so members who haven't reached the last milestone
+-- don't see other people's
+DROP POLICY IF EXISTS "Members can view club reflections" ON public.book_club_reflections;
+CREATE POLICY "Members can view club reflections"
+  ON public.book_club_reflections FOR SELECT
+  USING (
+    public.is_club_member(auth.uid(), club_id)
+    AND (auth.uid() = user_id OR public.has_reached_milestone(auth.uid(), suggestion_id, NULL))
+  );
+
+-- How many reflections per book the current user can't see yet, to say what's hidden
+CREATE OR REPLACE FUNCTION public.get_hidden_reflection_counts(_club_id UUID)
+RETURNS TABLE(suggestion_id UUID, hidden_count INTEGER)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT r.suggestion_id, count(*)::int
+  FROM public.book_club_reflections r
+  WHERE r.club_id = _club_id
+    AND public.is_club_member(auth.uid(), _club_id)
+    AND r.user_id <> auth.uid()
+    AND NOT public.has_reached_milestone(auth.uid(), r.suggestion_id, NULL)
+  GROUP BY r.suggestion_id
+$$;
+
+-- Sharing a reflection means you've finished the book
+CREATE OR REPLACE FUNCTION public.finish_reading_on_reflection()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _last_milestone_id UUID;
+BEGIN
+  SELECT id INTO _last_milestone_id
+  FROM public.book_club_milestones
+  WHERE suggestion_id = NEW.suggestion_id
+  ORDER BY due_date DESC, created_at DESC
+  LIMIT 1;
+
+  IF _last_milestone_id IS NOT NULL THEN
+    INSERT INTO public.book_club_reading_positions (milestone_id, club_id, suggestion_id, user_id)
+    VALUES (_last_milestone_id, NEW.club_id, NEW.suggestion_id, NEW.user_id)
+    ON CONFLICT (suggestion_id, user_id) DO UPDATE SET milestone_id = EXCLUDED.milestone_id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER finish_reading_on_reflection
+  AFTER INSERT ON public.book_club_reflections
+  FOR EACH ROW
+  EXECUTE FUNCTION public.finish_reading_on_reflection();
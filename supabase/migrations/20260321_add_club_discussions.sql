@@ -0,0 +1,358 @@
+-- Discussion threads on a club pick. A thread tied to a milestone is only visible to members
+-- who have read that far; questions are prompts from the host.
+CREATE TABLE public.book_club_threads (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  club_id UUID NOT NULL REFERENCES public.book_clubs(id) ON DELETE CASCADE,
+  suggestion_id UUID NOT NULL REFERENCES public.book_club_suggestions(id) ON DELETE CASCADE,
+  milestone_id UUID REFERENCES public.book_club_milestones(id) ON DELETE SET NULL,
+  kind TEXT NOT NULL DEFAULT 'discussion' CHECK (kind IN ('discussion', 'question')),
+  title TEXT NOT NULL CHECK (char_length(trim(title)) BETWEEN 1 AND 140),
+  body TEXT CHECK (char_length(body) <= 2000),
+  created_by UUID NOT NULL,
+  last_post_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_book_club_threads_suggestion ON public.book_club_threads(suggestion_id, last_post_at DESC);
+
+ALTER TABLE public.book_club_threads ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view threads they've read up to"
+  ON public.book_club_threads FOR SELECT
+  USING (
+    public.is_club_member(auth.uid(), club_id)
+    AND (
+      auth.uid() = created_by
+      OR milestone_id IS NULL
+      OR public.has_reached_milestone(auth.uid(), suggestion_id, milestone_id)
+    )
+  );
+
+-- Finished books are an archive, and you can only open a thread for a milestone you've reached
+CREATE POLICY "Members can start threads"
+  ON public.book_club_threads FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = created_by
+    AND public.is_club_member(auth.uid(), club_id)
+    AND (kind = 'discussion' OR public.is_club_owner(auth.uid(), club_id))
+    AND (milestone_id IS NULL OR public.has_reached_milestone(auth.uid(), suggestion_id, milestone_id))
+    AND EXISTS (
+      SELECT 1 FROM public.book_club_suggestions s
+      WHERE s.id = suggestion_id AND s.status <> 'read'
+    )
+  );
+
+CREATE POLICY "Users can edit their threads"
+  ON public.book_club_threads FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = created_by)
+  WITH CHECK (auth.uid() = created_by);
+
+CREATE POLICY "Users can delete their threads"
+  ON public.book_club_threads FOR DELETE
+  TO authenticated
+  USING (auth.uid() = created_by);
+
+CREATE POLICY "Owners can delete club threads"
+  ON public.book_club_threads FOR DELETE
+  TO authenticated
+  USING (public.is_club_owner(auth.uid(), club_id));
+
+CREATE TRIGGER update_book_club_threads_updated_at
+  BEFORE UPDATE ON public.book_club_threads
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- The club comes from the book, the milestone must be on that book, and only the
+-- title, body and milestone can change later
+CREATE OR REPLACE FUNCTION public.prepare_club_thread()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    NEW.club_id := OLD.club_id;
+    NEW.suggestion_id := OLD.suggestion_id;
+    NEW.kind := OLD.kind;
+    NEW.created_by := OLD.created_by;
+    NEW.created_at := OLD.created_at;
+  ELSE
+    SELECT club_id INTO NEW.club_id FROM public.book_club_suggestions WHERE id = NEW.suggestion_id;
+    NEW.last_post_at := now();
+  END IF;
+
+  IF NEW.milestone_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.book_club_milestones
+    WHERE id = NEW.milestone_id AND suggestion_id = NEW.suggestion_id
+  ) THEN
+    RAISE EXCEPTION 'Milestone belongs to a different book';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER prepare_club_thread
+  BEFORE INSERT OR UPDATE ON public.book_club_threads
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prepare_club_thread();
+
+-- A thread never loses its spoiler gate: removing its milestone moves it to the next one, and the
+-- last milestone can't go while threads still need it. Skipped when the whole book or club is
+-- being deleted, since the threads go too.
+CREATE OR REPLACE FUNCTION public.move_threads_off_milestone()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _next_id UUID;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.book_clubs WHERE id = OLD.club_id)
+     OR NOT EXISTS (SELECT 1 FROM public.book_club_suggestions WHERE id = OLD.suggestion_id)
+     OR NOT EXISTS (SELECT 1 FROM public.book_club_threads WHERE milestone_id = OLD.id) THEN
+    RETURN OLD;
+  END IF;
+
+  SELECT id INTO _next_id
+  FROM public.book_club_milestones
+  WHERE suggestion_id = OLD.suggestion_id
+    AND id <> OLD.id
+    AND (due_date, created_at) > (OLD.due_date, OLD.created_at)
+  ORDER BY due_date, created_at
+  LIMIT 1;
+
+  IF _next_id IS NULL THEN
+    RAISE EXCEPTION 'Move or delete this milestone''s discussions first';
+  END IF;
+
+  UPDATE public.book_club_threads
+  SET milestone_id = _next_id
+  WHERE milestone_id = OLD.id;
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER move_threads_off_milestone
+  BEFORE DELETE ON public.book_club_milestones
+  FOR EACH ROW
+  EXECUTE FUNCTION public.move_threads_off_milestone();
+
+-- Replies in a thread
+CREATE TABLE public.book_club_thread_posts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  thread_id UUID NOT NULL REFERENCES public.book_club_threads(id) ON DELETE CASCADE,
+  -- Copied from the thread so realtime can filter by club
+  club_id UUID NOT NULL REFERENCES public.book_clubs(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  content TEXT NOT NULL CHECK (char_length(trim(content)) BETWEEN 1 AND 1000),
+  edited_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_book_club_thread_posts_thread ON public.book_club_thread_posts(thread_id, created_at);
+
+ALTER TABLE public.book_club_thread_posts ENABLE ROW LEVEL SECURITY;
+
+-- Visible wherever the thread itself is (book_club_threads RLS applies inside the subquery)
+CREATE POLICY "Members can view posts in visible threads"
+  ON public.book_club_thread_posts FOR SELECT
+  USING (
+    EXISTS (SELECT 1 FROM public.book_club_threads t WHERE t.id = book_club_thread_posts.thread_id)
+  );
+
+CREATE POLICY "Members can reply in visible threads"
+  ON public.book_club_thread_posts FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1
+      FROM public.book_club_threads t
+      JOIN public.book_club_suggestions s ON s.id = t.suggestion_id
+      WHERE t.id = book_club_thread_posts.thread_id AND s.status <> 'read'
+    )
+  );
+
+CREATE POLICY "Users can edit their posts"
+  ON public.book_club_thread_posts FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their posts"
+  ON public.book_club_thread_posts FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Owners can delete club posts"
+  ON public.book_club_thread_posts FOR DELETE
+  TO authenticated
+  USING (public.is_club_owner(auth.uid(), club_id));
+
+CREATE POLICY "Admins can view all club posts"
+  ON public.book_club_thread_posts FOR SELECT
+  USING (has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can delete any club post"
+  ON public.book_club_thread_posts FOR DELETE
+  USING (has_role(auth.uid(), 'admin'));
+
+CREATE OR REPLACE FUNCTION public.prepare_club_thread_post()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    NEW.thread_id := OLD.thread_id;
+    NEW.club_id := OLD.club_id;
+    NEW.user_id := OLD.user_id;
+    NEW.created_at := OLD.created_at;
+    IF NEW.content IS DISTINCT FROM OLD.content THEN
+      NEW.edited_at := now();
+    ELSE
+      NEW.edited_at := OLD.edited_at;
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  SELECT club_id INTO NEW.club_id FROM public.book_club_threads WHERE id = NEW.thread_id;
+  NEW.edited_at := NULL;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER prepare_club_thread_post
+  BEFORE INSERT OR UPDATE ON public.book_club_thread_posts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prepare_club_thread_post();
+
+-- Reactions on replies, same emoji set as book comments
+CREATE TABLE public.book_club_thread_reactions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  post_id UUID NOT NULL REFERENCES public.book_club_thread_posts(id) ON DELETE CASCADE,
+  club_id UUID NOT NULL REFERENCES public.book_clubs(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  emoji TEXT NOT NULL CHECK (emoji IN ('❤️', '😂', '😮', '😢', '👏', '📚')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (post_id, user_id, emoji)
+);
+
+CREATE INDEX idx_book_club_thread_reactions_post ON public.book_club_thread_reactions(post_id);
+
+ALTER TABLE public.book_club_thread_reactions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view reactions on visible posts"
+  ON public.book_club_thread_reactions FOR SELECT
+  USING (
+    EXISTS (SELECT 1 FROM public.book_club_thread_posts p WHERE p.id = book_club_thread_reactions.post_id)
+  );
+
+CREATE POLICY "Members can react to visible posts"
+  ON public.book_club_thread_reactions FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (SELECT 1 FROM public.book_club_thread_posts p WHERE p.id = book_club_thread_reactions.post_id)
+  );
+
+CREATE POLICY "Users can remove their own thread reactions"
+  ON public.book_club_thread_reactions FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE OR REPLACE FUNCTION public.prepare_club_thread_reaction()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  SELECT club_id INTO NEW.club_id FROM public.book_club_thread_posts WHERE id = NEW.post_id;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER prepare_club_thread_reaction
+  BEFORE INSERT ON public.book_club_thread_reactions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prepare_club_thread_reaction();
+
+-- Replies notify whoever started the thread
+ALTER TABLE public.notifications DROP CONSTRAINT IF EXISTS notifications_type_check;
+ALTER TABLE public.notifications ADD CONSTRAINT notifications_type_check
+  CHECK (type IN (
+    'like', 'comment', 'reply', 'mention', 'follow', 'follow_request', 'follow_accepted',
+    'recommendation', 'mystery_book', 'mystery_reaction', 'club_meeting', 'meeting_reminder',
+    'club_discussion'
+  ));
+
+CREATE OR REPLACE FUNCTION public.notify_club_thread_post()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _thread public.book_club_threads%ROWTYPE;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    DELETE FROM public.notifications
+    WHERE type = 'club_discussion' AND entity_id = OLD.id;
+    RETURN OLD;
+  END IF;
+
+  SELECT * INTO _thread FROM public.book_club_threads WHERE id = NEW.thread_id;
+
+  UPDATE public.book_club_threads SET last_post_at = NEW.created_at WHERE id = _thread.id;
+
+  PERFORM public.create_notification(
+    _thread.created_by, NEW.user_id, 'club_discussion', NULL, NEW.id, _thread.title, left(NEW.content, 140)
+  );
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_club_thread_post
+  AFTER INSERT OR DELETE ON public.book_club_thread_posts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_club_thread_post();
+
+-- Club posts can be reported like comments and reflections
+ALTER TABLE public.content_reports DROP CONSTRAINT IF EXISTS content_reports_target_type_check;
+ALTER TABLE public.content_reports ADD CONSTRAINT content_reports_target_type_check
+  CHECK (target_type IN ('comment', 'reflection', 'club_post', 'profile'));
+
+CREATE OR REPLACE FUNCTION public.prepare_content_report()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.reported_user_id := CASE NEW.target_type
+    WHEN 'comment' THEN (SELECT user_id FROM public.book_comments WHERE id = NEW.target_id)
+    WHEN 'reflection' THEN (SELECT user_id FROM public.book_club_reflections WHERE id = NEW.target_id)
+    WHEN 'club_post' THEN (SELECT user_id FROM public.book_club_thread_posts WHERE id = NEW.target_id)
+    WHEN 'profile' THEN NEW.target_id
+  END;
+
+  IF NEW.reported_user_id IS NULL THEN
+    RAISE EXCEPTION 'Reported content not found';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Enable realtime for club discussions
+ALTER PUBLICATION supabase_realtime ADD TABLE public.book_club_threads;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.book_club_thread_posts;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.book_club_thread_reactions;
@@ -0,0 +1,303 @@
+-- Time-boxed voting rounds for picking the club's next book. The owner opens a round with a
+-- method and a deadline; when it closes the winner becomes the current read.
+CREATE TABLE public.book_club_voting_rounds (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  club_id UUID NOT NULL REFERENCES public.book_clubs(id) ON DELETE CASCADE,
+  created_by UUID NOT NULL,
+  method TEXT NOT NULL DEFAULT 'plurality' CHECK (method IN ('plurality', 'approval', 'ranked')),
+  ends_at TIMESTAMPTZ NOT NULL,
+  hide_results BOOLEAN NOT NULL DEFAULT false,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'closed')),
+  winner_suggestion_id UUID REFERENCES public.book_club_suggestions(id) ON DELETE SET NULL,
+  closed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- One round at a time per club
+CREATE UNIQUE INDEX idx_book_club_voting_rounds_open
+  ON public.book_club_voting_rounds(club_id) WHERE status = 'open';
+CREATE INDEX idx_book_club_voting_rounds_due
+  ON public.book_club_voting_rounds(ends_at) WHERE status = 'open';
+
+ALTER TABLE public.book_club_voting_rounds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view voting rounds"
+  ON public.book_club_voting_rounds FOR SELECT
+  USING (public.is_club_member(auth.uid(), club_id));
+
+CREATE POLICY "Owners can open voting rounds"
+  ON public.book_club_voting_rounds FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = created_by
+    AND public.is_club_owner(auth.uid(), club_id)
+    AND status = 'open'
+    AND ends_at > now()
+  );
+
+-- Closing goes through close_voting_round so the winner is tallied server-side
+CREATE POLICY "Owners can cancel voting rounds"
+  ON public.book_club_voting_rounds FOR DELETE
+  TO authenticated
+  USING (public.is_club_owner(auth.uid(), club_id));
+
+-- Ballot rows: one per book a member picked. rank is set for ranked-choice rounds only.
+CREATE TABLE public.book_club_round_ballots (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  round_id UUID NOT NULL REFERENCES public.book_club_voting_rounds(id) ON DELETE CASCADE,
+  club_id UUID NOT NULL REFERENCES public.book_clubs(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  suggestion_id UUID NOT NULL REFERENCES public.book_club_suggestions(id) ON DELETE CASCADE,
+  rank INTEGER CHECK (rank >= 1),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE(round_id, user_id, suggestion_id)
+);
+
+CREATE INDEX idx_book_club_round_ballots_round ON public.book_club_round_ballots(round_id, user_id, rank);
+
+ALTER TABLE public.book_club_round_ballots ENABLE ROW LEVEL SECURITY;
+
+-- Your own ballot is always visible; everyone else's waits for the close when tallies are hidden.
+-- Ballots are written through cast_round_ballot only.
+CREATE POLICY "Members can view ballots"
+  ON public.book_club_round_ballots FOR SELECT
+  USING (
+    auth.uid() = user_id
+    OR EXISTS (
+      SELECT 1 FROM public.book_club_voting_rounds r
+      WHERE r.id = round_id
+        AND public.is_club_member(auth.uid(), r.club_id)
+        AND (NOT r.hide_results OR r.status = 'closed')
+    )
+  );
+
+-- Replaces the caller's whole ballot. For ranked rounds the array order is the ranking;
+-- an empty array withdraws the ballot.
+CREATE OR REPLACE FUNCTION public.cast_round_ballot(_round_id UUID, _suggestion_ids UUID[])
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _round RECORD;
+  _picks INTEGER := coalesce(array_length(_suggestion_ids, 1), 0);
+BEGIN
+  SELECT * INTO _round FROM public.book_club_voting_rounds WHERE id = _round_id;
+
+  IF NOT FOUND OR NOT public.is_club_member(auth.uid(), _round.club_id) THEN
+    RAISE EXCEPTION 'Voting round not found';
+  END IF;
+
+  IF _round.status <> 'open' OR _round.ends_at <= now() THEN
+    RAISE EXCEPTION 'This voting round has closed';
+  END IF;
+
+  IF _round.method = 'plurality' AND _picks > 1 THEN
+    RAISE EXCEPTION 'Pick a single book in this round';
+  END IF;
+
+  IF (SELECT count(DISTINCT id) FROM unnest(_suggestion_ids) AS c(id)) <> _picks THEN
+    RAISE EXCEPTION 'Each book can only appear once on a ballot';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM unnest(_suggestion_ids) AS c(id)
+    WHERE NOT EXISTS (
+      SELECT 1 FROM public.book_club_suggestions s
+      WHERE s.id = c.id AND s.club_id = _round.club_id AND s.status = 'suggested'
+    )
+  ) THEN
+    RAISE EXCEPTION 'Only books on the club''s suggestion list can be voted for';
+  END IF;
+
+  DELETE FROM public.book_club_round_ballots
+  WHERE round_id = _round_id AND user_id = auth.uid();
+
+  INSERT INTO public.book_club_round_ballots (round_id, club_id, user_id, suggestion_id, rank)
+  SELECT _round_id, _round.club_id, auth.uid(), c.id,
+         CASE WHEN _round.method = 'ranked' THEN c.pos::int END
+  FROM unnest(_suggestion_ids) WITH ORDINALITY AS c(id, pos);
+END;
+$$;
+
+-- How many members have voted, for rounds whose tallies are hidden
+CREATE OR REPLACE FUNCTION public.get_round_turnout(_round_id UUID)
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT count(DISTINCT b.user_id)::int
+  FROM public.book_club_round_ballots b
+  JOIN public.book_club_voting_rounds r ON r.id = b.round_id
+  WHERE b.round_id = _round_id
+    AND public.is_club_member(auth.uid(), r.club_id)
+$$;
+
+-- Candidates are the club's open suggestions, oldest first. Ties go to the older suggestion,
+-- and instant-runoff eliminates the newest of the lowest-scoring books. Mirrors src/lib/votingRounds.ts.
+CREATE OR REPLACE FUNCTION public.tally_voting_round(_round_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _round RECORD;
+  _remaining UUID[];
+  _leader UUID;
+  _last UUID;
+  _top INTEGER;
+  _active INTEGER;
+BEGIN
+  SELECT * INTO _round FROM public.book_club_voting_rounds WHERE id = _round_id;
+
+  SELECT array_agg(id ORDER BY created_at, id) INTO _remaining
+  FROM public.book_club_suggestions
+  WHERE club_id = _round.club_id AND status = 'suggested';
+
+  IF _remaining IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  -- Plurality and approval: every ballot row is one vote
+  IF _round.method <> 'ranked' THEN
+    SELECT c.id INTO _leader
+    FROM unnest(_remaining) WITH ORDINALITY AS c(id, pos)
+    JOIN public.book_club_round_ballots b ON b.suggestion_id = c.id AND b.round_id = _round_id
+    GROUP BY c.id, c.pos
+    ORDER BY count(*) DESC, c.pos
+    LIMIT 1;
+    RETURN _leader;
+  END IF;
+
+  -- Instant-runoff: count each ballot's top remaining choice until one book has a majority
+  LOOP
+    WITH firsts AS (
+      SELECT DISTINCT ON (b.user_id) b.suggestion_id
+      FROM public.book_club_round_ballots b
+      WHERE b.round_id = _round_id AND b.suggestion_id = ANY(_remaining)
+      ORDER BY b.user_id, b.rank
+    ), counts AS (
+      SELECT c.id, c.pos, count(f.suggestion_id)::int AS votes
+      FROM unnest(_remaining) WITH ORDINALITY AS c(id, pos)
+      LEFT JOIN firsts f ON f.suggestion_id = c.id
+      GROUP BY c.id, c.pos
+    )
+    SELECT
+      (SELECT id FROM counts ORDER BY votes DESC, pos LIMIT 1),
+      (SELECT id FROM counts ORDER BY votes, pos DESC LIMIT 1),
+      (SELECT max(votes) FROM counts),
+      (SELECT sum(votes) FROM counts)
+    INTO _leader, _last, _top, _active;
+
+    IF _active = 0 THEN
+      RETURN NULL;
+    END IF;
+
+    IF _top * 2 > _active OR array_length(_remaining, 1) = 1 THEN
+      RETURN _leader;
+    END IF;
+
+    _remaining := array_remove(_remaining, _last);
+  END LOOP;
+END;
+$$;
+
+-- Records the winner and makes it the current read, unless the club is still reading something
+CREATE OR REPLACE FUNCTION public.finish_voting_round(_round_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _club_id UUID;
+  _winner UUID;
+BEGIN
+  SELECT club_id INTO _club_id
+  FROM public.book_club_voting_rounds
+  WHERE id = _round_id AND status = 'open'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  _winner := public.tally_voting_round(_round_id);
+
+  UPDATE public.book_club_voting_rounds
+  SET status = 'closed', closed_at = now(), winner_suggestion_id = _winner
+  WHERE id = _round_id;
+
+  IF _winner IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.book_club_suggestions
+    WHERE club_id = _club_id AND status = 'reading'
+  ) THEN
+    UPDATE public.book_club_suggestions SET status = 'reading' WHERE id = _winner;
+  END IF;
+
+  RETURN _winner;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.tally_voting_round(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.finish_voting_round(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Lets the owner end a round before its deadline
+CREATE OR REPLACE FUNCTION public.close_voting_round(_round_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.book_club_voting_rounds
+    WHERE id = _round_id AND public.is_club_owner(auth.uid(), club_id)
+  ) THEN
+    RAISE EXCEPTION 'Only the club owner can close a voting round';
+  END IF;
+
+  RETURN public.finish_voting_round(_round_id);
+END;
+$$;
+
+-- Closes every round past its deadline; runs from cron
+CREATE OR REPLACE FUNCTION public.close_due_voting_rounds()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _round RECORD;
+  _closed INTEGER := 0;
+BEGIN
+  FOR _round IN
+    SELECT id
+    FROM public.book_club_voting_rounds
+    WHERE status = 'open' AND ends_at <= now()
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    PERFORM public.finish_voting_round(_round.id);
+    _closed := _closed + 1;
+  END LOOP;
+
+  RETURN _closed;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.close_due_voting_rounds() FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule(
+  'close-due-voting-rounds',
+  '*/5 * * * *',
+  $$SELECT public.close_due_voting_rounds()$$
+);
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.book_club_voting_rounds;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.book_club_round_ballots;
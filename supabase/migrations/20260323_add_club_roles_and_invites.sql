@@ -0,0 +1,414 @@
+-- Club roles: co-hosts share the owner's running of the club (picks, schedule, meetings,
+-- votes, invites, members); moderators can remove suggestions, reflections and posts.
+ALTER TABLE public.book_club_members DROP CONSTRAINT book_club_members_role_check;
+ALTER TABLE public.book_club_members
+  ADD CONSTRAINT book_club_members_role_check CHECK (role IN ('owner', 'cohost', 'moderator', 'member'));
+
+-- Higher ranks can manage lower ones. Mirrors src/lib/clubRoles.ts.
+CREATE OR REPLACE FUNCTION public.club_role_rank(_role TEXT)
+RETURNS INTEGER
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE _role
+    WHEN 'owner' THEN 3
+    WHEN 'cohost' THEN 2
+    WHEN 'moderator' THEN 1
+    ELSE 0
+  END
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_club_role(_user_id UUID, _club_id UUID)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT role FROM public.book_club_members
+  WHERE user_id = _user_id AND club_id = _club_id
+$$;
+
+-- Owner or co-host
+CREATE OR REPLACE FUNCTION public.is_club_host(_user_id UUID, _club_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.book_club_members
+    WHERE user_id = _user_id AND club_id = _club_id AND role IN ('owner', 'cohost')
+  )
+$$;
+
+-- Owner, co-host or moderator
+CREATE OR REPLACE FUNCTION public.can_moderate_club(_user_id UUID, _club_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.book_club_members
+    WHERE user_id = _user_id AND club_id = _club_id AND role IN ('owner', 'cohost', 'moderator')
+  )
+$$;
+
+-- Members: joining now goes through join_club_by_invite_code, removal through
+-- remove_club_member, and the owner has to hand the club over before leaving
+DROP POLICY "Users can join clubs" ON public.book_club_members;
+DROP POLICY "Owners can remove members" ON public.book_club_members;
+DROP POLICY "Users can leave clubs" ON public.book_club_members;
+
+CREATE POLICY "Members can leave clubs"
+  ON public.book_club_members FOR DELETE
+  USING (auth.uid() = user_id AND role <> 'owner');
+
+-- Clubs
+DROP POLICY "Owners can update their clubs" ON public.book_clubs;
+
+CREATE POLICY "Hosts can update their clubs"
+  ON public.book_clubs FOR UPDATE
+  USING (public.is_club_host(auth.uid(), id));
+
+ALTER TABLE public.book_clubs ADD COLUMN invite_expires_at TIMESTAMPTZ;
+
+-- owner_id follows the member holding the owner role, which only transfer_club_ownership changes
+CREATE OR REPLACE FUNCTION public.prepare_club_update()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.owner_id <> OLD.owner_id AND public.get_club_role(NEW.owner_id, NEW.id) IS DISTINCT FROM 'owner' THEN
+    NEW.owner_id := OLD.owner_id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER prepare_club_update
+  BEFORE UPDATE ON public.book_clubs
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prepare_club_update();
+
+-- Suggestions and reflections
+DROP POLICY "Owners can update suggestion status" ON public.book_club_suggestions;
+
+CREATE POLICY "Hosts can update suggestion status"
+  ON public.book_club_suggestions FOR UPDATE
+  USING (public.is_club_host(auth.uid(), club_id));
+
+CREATE POLICY "Moderators can remove suggestions"
+  ON public.book_club_suggestions FOR DELETE
+  USING (public.can_moderate_club(auth.uid(), club_id));
+
+CREATE POLICY "Moderators can remove reflections"
+  ON public.book_club_reflections FOR DELETE
+  USING (public.can_moderate_club(auth.uid(), club_id));
+
+-- Reading schedule
+DROP POLICY "Owners can add milestones" ON public.book_club_milestones;
+DROP POLICY "Owners can update milestones" ON public.book_club_milestones;
+DROP POLICY "Owners can remove milestones" ON public.book_club_milestones;
+
+CREATE POLICY "Hosts can add milestones"
+  ON public.book_club_milestones FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    public.is_club_host(auth.uid(), club_id) AND
+    EXISTS (
+      SELECT 1 FROM public.book_club_suggestions s
+      WHERE s.id = suggestion_id AND s.club_id = book_club_milestones.club_id
+    )
+  );
+
+CREATE POLICY "Hosts can update milestones"
+  ON public.book_club_milestones FOR UPDATE
+  TO authenticated
+  USING (public.is_club_host(auth.uid(), club_id))
+  WITH CHECK (
+    public.is_club_host(auth.uid(), club_id)
+    AND EXISTS (
+      SELECT 1 FROM public.book_club_suggestions s
+      WHERE s.id = suggestion_id AND s.club_id = book_club_milestones.club_id
+    )
+  );
+
+CREATE POLICY "Hosts can remove milestones"
+  ON public.book_club_milestones FOR DELETE
+  TO authenticated
+  USING (public.is_club_host(auth.uid(), club_id));
+
+-- Meetings
+DROP POLICY "Owners can schedule meetings" ON public.book_club_meetings;
+DROP POLICY "Owners can update meetings" ON public.book_club_meetings;
+DROP POLICY "Owners can cancel meetings" ON public.book_club_meetings;
+
+-- A meeting can only point at one of its own club's books
+CREATE POLICY "Hosts can schedule meetings"
+  ON public.book_club_meetings FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    public.is_club_host(auth.uid(), club_id)
+    AND auth.uid() = created_by
+    AND (
+      suggestion_id IS NULL
+      OR EXISTS (
+        SELECT 1 FROM public.book_club_suggestions s
+        WHERE s.id = suggestion_id AND s.club_id = book_club_meetings.club_id
+      )
+    )
+  );
+
+CREATE POLICY "Hosts can update meetings"
+  ON public.book_club_meetings FOR UPDATE
+  TO authenticated
+  USING (public.is_club_host(auth.uid(), club_id))
+  WITH CHECK (
+    public.is_club_host(auth.uid(), club_id)
+    AND (
+      suggestion_id IS NULL
+      OR EXISTS (
+        SELECT 1 FROM public.book_club_suggestions s
+        WHERE s.id = suggestion_id AND s.club_id = book_club_meetings.club_id
+      )
+    )
+  );
+
+CREATE POLICY "Hosts can cancel meetings"
+  ON public.book_club_meetings FOR DELETE
+  TO authenticated
+  USING (public.is_club_host(auth.uid(), club_id));
+
+-- Discussions: hosts post questions, moderators tidy up
+DROP POLICY "Members can start threads" ON public.book_club_threads;
+DROP POLICY "Owners can delete club threads" ON public.book_club_threads;
+DROP POLICY "Owners can delete club posts" ON public.book_club_thread_posts;
+
+CREATE POLICY "Members can start threads"
+  ON public.book_club_threads FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = created_by
+    AND public.is_club_member(auth.uid(), club_id)
+    AND (kind = 'discussion' OR public.is_club_host(auth.uid(), club_id))
+    AND (milestone_id IS NULL OR public.has_reached_milestone(auth.uid(), suggestion_id, milestone_id))
+    AND EXISTS (
+      SELECT 1 FROM public.book_club_suggestions s
+      WHERE s.id = suggestion_id AND s.status <> 'read'
+    )
+  );
+
+CREATE POLICY "Moderators can delete club threads"
+  ON public.book_club_threads FOR DELETE
+  TO authenticated
+  USING (public.can_moderate_club(auth.uid(), club_id));
+
+CREATE POLICY "Moderators can delete club posts"
+  ON public.book_club_thread_posts FOR DELETE
+  TO authenticated
+  USING (public.can_moderate_club(auth.uid(), club_id));
+
+-- Voting rounds
+DROP POLICY "Owners can open voting rounds" ON public.book_club_voting_rounds;
+DROP POLICY "Owners can cancel voting rounds" ON public.book_club_voting_rounds;
+
+CREATE POLICY "Hosts can open voting rounds"
+  ON public.book_club_voting_rounds FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = created_by
+    AND public.is_club_host(auth.uid(), club_id)
+    AND status = 'open'
+    AND ends_at > now()
+  );
+
+CREATE POLICY "Hosts can cancel voting rounds"
+  ON public.book_club_voting_rounds FOR DELETE
+  TO authenticated
+  USING (public.is_club_host(auth.uid(), club_id));
+
+CREATE OR REPLACE FUNCTION public.close_voting_round(_round_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.book_club_voting_rounds
+    WHERE id = _round_id AND public.is_club_host(auth.uid(), club_id)
+  ) THEN
+    RAISE EXCEPTION 'Only a club host can close a voting round';
+  END IF;
+
+  RETURN public.finish_voting_round(_round_id);
+END;
+$$;
+
+-- Banned users can't rejoin through an invite
+CREATE TABLE public.book_club_bans (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  club_id UUID NOT NULL REFERENCES public.book_clubs(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  banned_by UUID NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE(club_id, user_id)
+);
+
+ALTER TABLE public.book_club_bans ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Hosts can view bans"
+  ON public.book_club_bans FOR SELECT
+  USING (public.is_club_host(auth.uid(), club_id));
+
+CREATE POLICY "Hosts can lift bans"
+  ON public.book_club_bans FOR DELETE
+  TO authenticated
+  USING (public.is_club_host(auth.uid(), club_id));
+
+-- Invites: expired codes stop resolving
+CREATE OR REPLACE FUNCTION public.lookup_club_by_invite_code(_invite_code text)
+RETURNS TABLE(id uuid, name text)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT bc.id, bc.name
+  FROM public.book_clubs bc
+  WHERE bc.invite_code = _invite_code
+    AND (bc.invite_expires_at IS NULL OR bc.invite_expires_at > now())
+  LIMIT 1;
+$$;
+
+CREATE OR REPLACE FUNCTION public.join_club_by_invite_code(_invite_code TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _club_id UUID;
+BEGIN
+  SELECT id INTO _club_id FROM public.lookup_club_by_invite_code(_invite_code);
+
+  IF _club_id IS NULL THEN
+    RAISE EXCEPTION 'This invite is invalid or has expired';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.book_club_bans WHERE club_id = _club_id AND user_id = auth.uid()) THEN
+    RAISE EXCEPTION 'You can''t join this club';
+  END IF;
+
+  INSERT INTO public.book_club_members (club_id, user_id, role)
+  VALUES (_club_id, auth.uid(), 'member')
+  ON CONFLICT (club_id, user_id) DO NOTHING;
+
+  RETURN _club_id;
+END;
+$$;
+
+-- Issues a fresh code, so old links stop working. NULL _expires_at keeps it valid until the next one.
+CREATE OR REPLACE FUNCTION public.regenerate_club_invite(_club_id UUID, _expires_at TIMESTAMPTZ)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _code TEXT := replace(gen_random_uuid()::text, '-', '')::varchar(8);
+BEGIN
+  IF NOT public.is_club_host(auth.uid(), _club_id) THEN
+    RAISE EXCEPTION 'Only a club host can change the invite';
+  END IF;
+
+  UPDATE public.book_clubs
+  SET invite_code = _code, invite_expires_at = _expires_at
+  WHERE id = _club_id;
+
+  RETURN _code;
+END;
+$$;
+
+-- Member management. You can only act on members ranked below you, and only hand out roles below your own.
+CREATE OR REPLACE FUNCTION public.set_club_member_role(_club_id UUID, _user_id UUID, _role TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _actor_rank INTEGER := public.club_role_rank(public.get_club_role(auth.uid(), _club_id));
+  _target_role TEXT := public.get_club_role(_user_id, _club_id);
+BEGIN
+  IF _target_role IS NULL THEN
+    RAISE EXCEPTION 'That person isn''t in this club';
+  END IF;
+
+  IF _role NOT IN ('cohost', 'moderator', 'member')
+    OR _actor_rank < 2
+    OR public.club_role_rank(_target_role) >= _actor_rank
+    OR public.club_role_rank(_role) >= _actor_rank THEN
+    RAISE EXCEPTION 'You can''t give that role';
+  END IF;
+
+  UPDATE public.book_club_members SET role = _role
+  WHERE club_id = _club_id AND user_id = _user_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.remove_club_member(_club_id UUID, _user_id UUID, _ban BOOLEAN DEFAULT false)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _actor_rank INTEGER := public.club_role_rank(public.get_club_role(auth.uid(), _club_id));
+  _target_role TEXT := public.get_club_role(_user_id, _club_id);
+BEGIN
+  IF _actor_rank < 2 OR (_target_role IS NOT NULL AND public.club_role_rank(_target_role) >= _actor_rank) THEN
+    RAISE EXCEPTION 'You can''t remove this member';
+  END IF;
+
+  DELETE FROM public.book_club_members WHERE club_id = _club_id AND user_id = _user_id;
+
+  IF _ban THEN
+    INSERT INTO public.book_club_bans (club_id, user_id, banned_by)
+    VALUES (_club_id, _user_id, auth.uid())
+    ON CONFLICT (club_id, user_id) DO NOTHING;
+  END IF;
+END;
+$$;
+
+-- The old owner stays on as a co-host so they can still leave afterwards
+CREATE OR REPLACE FUNCTION public.transfer_club_ownership(_club_id UUID, _new_owner_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_club_owner(auth.uid(), _club_id) THEN
+    RAISE EXCEPTION 'Only the owner can hand over the club';
+  END IF;
+
+  IF _new_owner_id = auth.uid() OR NOT public.is_club_member(_new_owner_id, _club_id) THEN
+    RAISE EXCEPTION 'The new owner has to be another member of the club';
+  END IF;
+
+  UPDATE public.book_club_members SET role = 'cohost'
+  WHERE club_id = _club_id AND user_id = auth.uid();
+
+  UPDATE public.book_club_members SET role = 'owner'
+  WHERE club_id = _club_id AND user_id = _new_owner_id;
+
+  UPDATE public.book_clubs SET owner_id = _new_owner_id WHERE id = _club_id;
+END;
+$$;
@@ -0,0 +1,45 @@
+-- Followers only see likes and comments on books whose shelf they can see too.
+-- Run with `supabase test db`.
+BEGIN;
+SELECT plan(3);
+
+-- ana has a public shelf, ben a private one, and cal follows ana
+INSERT INTO public.shelf_settings (user_id, visibility) VALUES
+  ('00000000-0000-0000-0000-00000000000a', 'public'),
+  ('00000000-0000-0000-0000-00000000000b', 'private');
+
+INSERT INTO public.follows (follower_id, following_id) VALUES
+  ('00000000-0000-0000-0000-00000000000c', '00000000-0000-0000-0000-00000000000a');
+
+INSERT INTO public.books (id, user_id, title, author) VALUES
+  ('00000000-0000-0000-0000-0000000000a1', '00000000-0000-0000-0000-00000000000a', 'Dune', 'Frank Herbert'),
+  ('00000000-0000-0000-0000-0000000000b1', '00000000-0000-0000-0000-00000000000b', 'Secret Diary', 'Ben');
+
+INSERT INTO public.activity_events (id, user_id, event_type, book_id, book_owner_id, book_title) VALUES
+  ('00000000-0000-0000-0000-0000000000e1', '00000000-0000-0000-0000-00000000000a', 'rated',
+   '00000000-0000-0000-0000-0000000000a1', '00000000-0000-0000-0000-00000000000a', 'Dune'),
+  ('00000000-0000-0000-0000-0000000000e2', '00000000-0000-0000-0000-00000000000a', 'liked',
+   '00000000-0000-0000-0000-0000000000b1', '00000000-0000-0000-0000-00000000000b', 'Secret Diary'),
+  ('00000000-0000-0000-0000-0000000000e3', '00000000-0000-0000-0000-00000000000a', 'joined_club',
+   NULL, NULL, NULL);
+
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-00000000000c", "role": "authenticated"}', true);
+
+SELECT ok(
+  EXISTS (SELECT 1 FROM public.activity_events WHERE id = '00000000-0000-0000-0000-0000000000e1'),
+  'followers see activity on the actor''s own books'
+);
+
+SELECT ok(
+  EXISTS (SELECT 1 FROM public.activity_events WHERE id = '00000000-0000-0000-0000-0000000000e3'),
+  'followers see activity without a book'
+);
+
+SELECT ok(
+  NOT EXISTS (SELECT 1 FROM public.activity_events WHERE id = '00000000-0000-0000-0000-0000000000e2'),
+  'followers don''t see likes on books from a shelf they can''t view'
+);
+
+SELECT * FROM finish();
+ROLLBACK;